@@ -0,0 +1,11 @@
+-- Migration: Retry queue for failed job posts
+-- Adds retry bookkeeping columns to jobs. Jobs past the retry cap get status 'dead'.
+
+ALTER TABLE jobs ADD COLUMN retry_count INTEGER DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN next_attempt_at TEXT;
+ALTER TABLE jobs ADD COLUMN last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_next_attempt_at ON jobs(status, next_attempt_at);
+
+-- Existing failed jobs become due immediately (first retry attempt)
+UPDATE jobs SET next_attempt_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE status = 'failed' AND next_attempt_at IS NULL;
@@ -0,0 +1,7 @@
+-- Migration: Persistent backlog for fair-share deferred jobs
+-- Jobs over a source's per-run quota are stored as status 'deferred' with their
+-- raw JobItem payload, and the next run picks them up oldest-first.
+
+ALTER TABLE jobs ADD COLUMN raw_payload TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_deferred ON jobs(status, source, scraped_at);
@@ -0,0 +1,6 @@
+-- Migration: Filter/transform pipeline stages
+-- Jobs rejected by a stage get status 'filtered' with the stage name and reason.
+-- Stage order lives in settings key 'pipeline-stages'; each stage's config in 'stage-<name>'.
+
+ALTER TABLE jobs ADD COLUMN filtered_by TEXT;
+ALTER TABLE jobs ADD COLUMN filter_reason TEXT;
@@ -0,0 +1,12 @@
+-- Migration: Run lease to prevent overlapping pipeline executions
+-- One row per lease name. A run takes the lease when it starts, renews it with a
+-- heartbeat, and deletes it when done. An expired lease may be taken over.
+-- Runs that find the lease held are recorded with status 'skipped_locked'.
+
+CREATE TABLE IF NOT EXISTS run_lease (
+  name TEXT PRIMARY KEY,            -- 'pipeline'
+  holder TEXT NOT NULL,             -- Random token of the invocation holding the lease
+  run_id INTEGER,                   -- FK → runs(id), for display
+  acquired_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL          -- Renewed by heartbeat; expired leases can be taken over
+);
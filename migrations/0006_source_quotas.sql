@@ -0,0 +1,7 @@
+-- Migration: Per-source quota weights and caps
+-- MAX_JOBS_PER_RUN is split across sources by quota_weight instead of evenly.
+-- min_per_run slots are reserved first; max_per_run (NULL = no cap) limits a source per run.
+
+ALTER TABLE sources ADD COLUMN quota_weight REAL DEFAULT 1;
+ALTER TABLE sources ADD COLUMN max_per_run INTEGER;
+ALTER TABLE sources ADD COLUMN min_per_run INTEGER DEFAULT 0;
@@ -0,0 +1,7 @@
+-- Migration: Time-budgeted, resumable runs
+-- A run that reaches RUN_TIME_BUDGET_MS stops with status 'partial' and stores the
+-- IDs of jobs it didn't get to (saved to the deferred backlog) as a checkpoint.
+-- The next run picks them up first and records the partial run in resumed_from.
+
+ALTER TABLE runs ADD COLUMN checkpoint TEXT;
+ALTER TABLE runs ADD COLUMN resumed_from INTEGER;
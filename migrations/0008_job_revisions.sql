@@ -0,0 +1,21 @@
+-- Migration: Detect job updates and edit posted messages
+-- content_hash fingerprints the fields a reader acts on (deadline, location, description,
+-- how to apply, application links). When a refetched posted job's hash changes, its
+-- Telegram post is edited in place and the change is recorded in job_revisions.
+
+ALTER TABLE jobs ADD COLUMN content_hash TEXT;
+ALTER TABLE jobs ADD COLUMN content_checked_at TEXT;
+
+CREATE TABLE IF NOT EXISTS job_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id TEXT NOT NULL,             -- FK → jobs(id)
+  run_id INTEGER,                   -- FK → runs(id): run that detected the change
+  previous_hash TEXT,
+  content_hash TEXT NOT NULL,
+  changed_fields TEXT NOT NULL,     -- JSON array: ['deadline', 'description', ...]
+  previous_values TEXT,             -- JSON object: changed fields as they were before
+  telegram_edited INTEGER DEFAULT 0, -- 1 = the channel post was edited
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_revisions_job_id ON job_revisions(job_id);
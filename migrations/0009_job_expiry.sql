@@ -0,0 +1,6 @@
+-- Migration: Expire posts when the application deadline passes
+-- A daily sweep marks posted (and retry-queued) jobs whose deadline has passed as
+-- status 'expired'. Settings key 'expired-posts' picks what happens to the channel
+-- post: 'none', 'edit' (add an "انتهى التقديم" banner, default) or 'delete'.
+
+ALTER TABLE jobs ADD COLUMN expired_at TEXT;
@@ -0,0 +1,33 @@
+-- Migration: Company alias registry
+-- Sources spell the same employer differently ("UNICEF", "United Nations Children's Fund",
+-- "منظمة اليونيسف"). companies holds one canonical record per employer; company_aliases
+-- maps normalized names to it. The pipeline rewrites job.company to the canonical name.
+-- Names that match no company are collected in unmatched_companies for admin review.
+
+CREATE TABLE IF NOT EXISTS companies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name_en TEXT,                     -- Canonical English name (used on jobs when set)
+  name_ar TEXT,                     -- Canonical Arabic name
+  logo_url TEXT,                    -- Used as the post image when a job has none
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS company_aliases (
+  alias_key TEXT PRIMARY KEY,       -- companyKey(alias): normalized tokens (see dedup.ts)
+  alias TEXT NOT NULL,              -- Alias as entered
+  company_id INTEGER NOT NULL,      -- FK → companies(id)
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_aliases_company_id ON company_aliases(company_id);
+
+CREATE TABLE IF NOT EXISTS unmatched_companies (
+  name_key TEXT PRIMARY KEY,        -- companyKey(name)
+  name TEXT NOT NULL,               -- Latest spelling seen
+  source TEXT,                      -- Source of the latest job
+  job_id TEXT,                      -- Latest job with this name, for context
+  seen_count INTEGER DEFAULT 1,
+  first_seen_at TEXT DEFAULT (datetime('now')),
+  last_seen_at TEXT DEFAULT (datetime('now'))
+);
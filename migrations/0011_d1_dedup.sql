@@ -0,0 +1,11 @@
+-- Migration: Answer dedup from D1 instead of KV
+-- KV job:/dedup: keys expire after 30 days, so long-lived or re-listed jobs were posted
+-- again. dedup_key stores normalizeJobKey(title, company) on every job row; a job is
+-- "seen" by its D1 status and a title+company duplicate by a posted row with the same key.
+-- KV stays as an optional hot cache (DEDUP_KV_CACHE = "off" disables it).
+-- Historical rows are filled in by the /dedup backfill command.
+-- Status 'cleared' = removed from dedup by /clear (the job may be posted again).
+
+ALTER TABLE jobs ADD COLUMN dedup_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_dedup_key ON jobs(dedup_key, status);
@@ -0,0 +1,10 @@
+-- Migration: Record what a duplicate matched
+-- Duplicate rows now say which earlier job they collided with and why, so false
+-- positives can be audited. raw_payload (the JobItem JSON, as for deferred jobs) is
+-- kept on duplicate rows so "force post anyway" can post them without a refetch.
+-- A posted row with duplicate_of set was force-posted despite the match.
+
+ALTER TABLE jobs ADD COLUMN duplicate_of TEXT;          -- Job ID it matched (NULL = KV cache hit without ID)
+ALTER TABLE jobs ADD COLUMN duplicate_of_source TEXT;   -- Source of the matched job
+ALTER TABLE jobs ADD COLUMN duplicate_reason TEXT;      -- 'exact' (title+company key) | 'fuzzy' (similarity)
+ALTER TABLE jobs ADD COLUMN duplicate_score REAL;       -- Similarity, 1 for exact matches
@@ -0,0 +1,10 @@
+-- Migration: Per-source repost policy for re-advertised jobs
+-- When a job matches an earlier posting (same or similar title+company), the source's
+-- repost_policy decides whether it is posted again: 'never' (default: skip as duplicate),
+-- 'after_days' (the earlier post is at least repost_after_days old) or 'deadline_moved'
+-- (the new deadline is later than the earlier post's). Reposts link back via repost_of.
+
+ALTER TABLE sources ADD COLUMN repost_policy TEXT DEFAULT 'never';
+ALTER TABLE sources ADD COLUMN repost_after_days INTEGER DEFAULT 30;
+
+ALTER TABLE jobs ADD COLUMN repost_of TEXT;
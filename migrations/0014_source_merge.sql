@@ -0,0 +1,9 @@
+-- Migration: Merge a vacancy listed on several boards into one post
+-- Jobs matching each other in a run are merged: the source with the lowest merge_rank
+-- (NULL = unranked, after ranked sources) is posted, with application links, how to
+-- apply, deadline and logo filled in from the others. merged_sources lists the other
+-- sources credited in the footer; the merged jobs are archived as duplicates of it.
+
+ALTER TABLE sources ADD COLUMN merge_rank INTEGER;
+
+ALTER TABLE jobs ADD COLUMN merged_sources TEXT;
@@ -0,0 +1,18 @@
+-- Migration: AI adjudication for borderline duplicates
+-- Job pairs whose similarity falls in the grey zone (DEDUP_AI_MIN_SIMILARITY up to
+-- DEDUP_SIMILARITY_THRESHOLD) are sent to Workers AI for a same/different verdict.
+-- Verdicts are cached here so a pair is never asked twice; admins can override them.
+
+CREATE TABLE IF NOT EXISTS duplicate_verdicts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  pair_key TEXT NOT NULL UNIQUE,    -- Both job IDs, sorted, joined with '|'
+  job_id TEXT NOT NULL,             -- The job being checked
+  other_job_id TEXT NOT NULL,       -- The posting it resembled
+  score REAL,                       -- Similarity when the pair was checked (NULL = set by an admin)
+  verdict TEXT NOT NULL,            -- 'same' | 'different'
+  reason TEXT,                      -- Model's (or admin's) one-line reason
+  decided_by TEXT DEFAULT 'ai',     -- 'ai' | 'admin' (override)
+  model TEXT,                       -- Workers AI model that gave the verdict
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
@@ -0,0 +1,87 @@
+-- Migration: Namespaced job IDs (source:id) + job ID aliases
+-- Job IDs used to be each source's own shape: bare YemenHR slugs, "eoi-21270",
+-- "rw-4197376", "ykbank-…", "qtb-…", "yldf-…". They are now "<source>:<id>"
+-- (see job-ids.ts), so IDs from different boards can't collide.
+-- job_id_aliases maps an old or alternative ID to the job's current ID. This
+-- migration records every rewritten ID; the pipeline adds an alias when a source's
+-- ID scheme changes and a fetched job's link matches an archived job.
+-- The rewrite mirrors namespaceLegacyJobId(): known prefixes → their source,
+-- unprefixed IDs → yemenhr. KV cache keys are rewritten by /dedup migrate-ids.
+
+CREATE TABLE IF NOT EXISTS job_id_aliases (
+  alias TEXT PRIMARY KEY,           -- Old or alternative job ID
+  job_id TEXT NOT NULL,             -- The job's ID in the jobs table
+  source TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_id_aliases_job_id ON job_id_aliases(job_id);
+
+-- 1. Map every legacy ID to its namespaced form ("https://…" fallback IDs are legacy too)
+INSERT OR IGNORE INTO job_id_aliases (alias, job_id, source)
+SELECT id,
+  CASE
+    WHEN id LIKE 'eoi-%' THEN 'eoi:' || substr(id, 5)
+    WHEN id LIKE 'rw-%' THEN 'reliefweb:' || substr(id, 4)
+    WHEN id LIKE 'ykbank-%' THEN 'ykbank:' || substr(id, 8)
+    WHEN id LIKE 'qtb-%' THEN 'qtb:' || substr(id, 5)
+    WHEN id LIKE 'yldf-%' THEN 'yldf:' || substr(id, 6)
+    ELSE 'yemenhr:' || id
+  END,
+  source
+FROM jobs
+WHERE NOT (id GLOB '[a-z]*:*' AND id NOT GLOB '[a-z]*://*');
+
+-- 2. Rename the jobs. A job fetched after deploy but before this migration may
+-- already have a row under its new ID; then one row is kept, the one that got
+-- further: a posted legacy row replaces an unposted namespaced one, otherwise
+-- the namespaced row stays and the legacy row is dropped (its alias points there).
+DELETE FROM jobs
+WHERE status != 'posted'
+  AND id IN (
+    SELECT a.job_id FROM job_id_aliases a
+    JOIN jobs legacy ON legacy.id = a.alias
+    WHERE legacy.status = 'posted'
+  );
+
+-- OR IGNORE: rows whose new ID is still taken stay under the old one until the next step
+UPDATE OR IGNORE jobs SET id = (SELECT job_id FROM job_id_aliases WHERE alias = jobs.id)
+WHERE id IN (SELECT alias FROM job_id_aliases);
+
+DELETE FROM jobs
+WHERE id IN (SELECT alias FROM job_id_aliases)
+  AND (SELECT job_id FROM job_id_aliases WHERE alias = jobs.id) IN (SELECT id FROM jobs);
+
+-- Deferred/duplicate payloads carry the JobItem's ID
+UPDATE jobs SET raw_payload = json_set(raw_payload, '$.id', id)
+WHERE raw_payload IS NOT NULL AND json_valid(raw_payload);
+
+-- 3. Job IDs referenced from other rows and tables
+UPDATE jobs SET duplicate_of = (SELECT job_id FROM job_id_aliases WHERE alias = jobs.duplicate_of)
+WHERE duplicate_of IN (SELECT alias FROM job_id_aliases);
+
+UPDATE jobs SET repost_of = (SELECT job_id FROM job_id_aliases WHERE alias = jobs.repost_of)
+WHERE repost_of IN (SELECT alias FROM job_id_aliases);
+
+UPDATE job_revisions SET job_id = (SELECT job_id FROM job_id_aliases WHERE alias = job_revisions.job_id)
+WHERE job_id IN (SELECT alias FROM job_id_aliases);
+
+UPDATE unmatched_companies SET job_id = (SELECT job_id FROM job_id_aliases WHERE alias = unmatched_companies.job_id)
+WHERE job_id IN (SELECT alias FROM job_id_aliases);
+
+UPDATE duplicate_verdicts SET
+  job_id = COALESCE((SELECT job_id FROM job_id_aliases WHERE alias = duplicate_verdicts.job_id), job_id),
+  other_job_id = COALESCE((SELECT job_id FROM job_id_aliases WHERE alias = duplicate_verdicts.other_job_id), other_job_id);
+
+UPDATE duplicate_verdicts SET pair_key = CASE
+  WHEN job_id < other_job_id THEN job_id || '|' || other_job_id
+  ELSE other_job_id || '|' || job_id
+END;
+
+-- Checkpointed job IDs of partial runs
+UPDATE runs SET checkpoint = (
+  SELECT json_group_array(COALESCE(a.job_id, e.value))
+  FROM json_each(runs.checkpoint) e
+  LEFT JOIN job_id_aliases a ON a.alias = e.value
+)
+WHERE checkpoint IS NOT NULL AND json_valid(checkpoint);
@@ -0,0 +1,7 @@
+-- Migration: Runtime-defined sources
+-- RSS and scraper sources can be defined entirely in the sources table: `config` holds
+-- their JSON config (feed URL or selectors, ID pattern, cleanup selectors, default
+-- company/image), and the registry builds an RSSPlugin/ScraperPlugin from it at runtime
+-- (see src/services/sources/runtime.ts). Code-defined sources leave it NULL.
+
+ALTER TABLE sources ADD COLUMN config TEXT;
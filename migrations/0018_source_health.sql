@@ -0,0 +1,25 @@
+-- Migration: Source health tracking + quarantine
+-- Every scheduled run records one health check per fetched source: how many jobs the
+-- listing had, whether the fetch failed or was unchanged (304), and the share of jobs
+-- missing each listing field. A run of errors — or of empty listings from a source that
+-- usually has jobs — or a field that suddenly goes missing marks the source degraded;
+-- SOURCE_QUARANTINE_AFTER failing runs in a row quarantine it (see source-health.ts).
+-- A quarantined source is skipped by the pipeline until /source enable releases it.
+
+CREATE TABLE IF NOT EXISTS source_health_checks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source TEXT NOT NULL,
+  run_id INTEGER,
+  jobs_found INTEGER NOT NULL DEFAULT 0, -- Jobs on the listing/feed this run
+  unchanged INTEGER NOT NULL DEFAULT 0,  -- 1 = listing unchanged since the last run (fetch cache hit)
+  error TEXT,                            -- Fetch/parse error (NULL = fetched fine)
+  null_rates TEXT,                       -- JSON: field → share of jobs missing it (0-1)
+  status TEXT NOT NULL,                  -- 'healthy' | 'degraded' | 'quarantined'
+  reason TEXT,                           -- Why the source isn't healthy
+  checked_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_health_checks_source ON source_health_checks(source, id);
+
+ALTER TABLE sources ADD COLUMN quarantined_at TEXT;
+ALTER TABLE sources ADD COLUMN quarantine_reason TEXT;
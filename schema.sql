@@ -1,5 +1,8 @@
 -- Yemen Jobs Bot — D1 Schema
--- 4 tables: sources (metadata), jobs (all fetched jobs), runs (pipeline history), settings (config)
+-- Tables: sources (metadata), jobs (all fetched jobs), runs (pipeline history), settings (config),
+-- run_lease (overlap guard), job_revisions (post edits), companies + company_aliases +
+-- unmatched_companies (employer names), duplicate_verdicts (AI dedup verdicts),
+-- job_id_aliases (old/alternative job IDs), source_health_checks (per-run source health)
 
 -- ============================================================================
 -- Sources: metadata for each job source plugin
@@ -14,6 +17,15 @@ CREATE TABLE IF NOT EXISTS sources (
   enabled INTEGER DEFAULT 0,       -- 1 = active in registry, 0 = disabled
   ai_prompt_config TEXT,            -- JSON: { includeHowToApply, sourceHint, applyFallback }
   cron_schedule TEXT DEFAULT '0 * * * *', -- which cron expression triggers this source
+  quota_weight REAL DEFAULT 1,      -- share of MAX_JOBS_PER_RUN relative to other sources
+  max_per_run INTEGER,              -- per-run cap (NULL = no cap)
+  min_per_run INTEGER DEFAULT 0,    -- slots reserved each run before weighted split
+  repost_policy TEXT DEFAULT 'never', -- re-advertised jobs: 'never' | 'after_days' | 'deadline_moved'
+  repost_after_days INTEGER DEFAULT 30, -- 'after_days': minimum age of the earlier post
+  merge_rank INTEGER,               -- cross-source merge preference, lower first (NULL = unranked)
+  config TEXT,                      -- JSON: RSS/scraper config of a runtime-defined source (NULL = defined in code)
+  quarantined_at TEXT,              -- Set when failing health checks quarantined the source (NULL = not quarantined)
+  quarantine_reason TEXT,           -- Why it was quarantined
   created_at TEXT DEFAULT (datetime('now')),
   updated_at TEXT DEFAULT (datetime('now'))
 );
@@ -26,23 +38,54 @@ CREATE TABLE IF NOT EXISTS runs (
   started_at TEXT NOT NULL,
   completed_at TEXT,
   trigger_type TEXT NOT NULL,       -- 'cron' | 'manual' | 'webhook'
-  status TEXT DEFAULT 'running',    -- 'running' | 'completed' | 'failed'
+  status TEXT DEFAULT 'running',    -- 'running' | 'completed' | 'partial' | 'failed' | 'skipped_locked'
   jobs_fetched INTEGER DEFAULT 0,
   jobs_posted INTEGER DEFAULT 0,
   jobs_skipped INTEGER DEFAULT 0,
   jobs_failed INTEGER DEFAULT 0,
   source_stats TEXT,                -- JSON: per-source breakdown
   error TEXT,
-  environment TEXT
+  environment TEXT,
+  checkpoint TEXT,                  -- JSON: job IDs left unprocessed when the time budget ran out
+  resumed_from INTEGER              -- FK → runs(id): the partial run this run resumed
 );
 
 CREATE INDEX IF NOT EXISTS idx_runs_started_at ON runs(started_at);
 
+-- ============================================================================
+-- Source health checks: one per source per scheduled run (see source-health.ts)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS source_health_checks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source TEXT NOT NULL,
+  run_id INTEGER,
+  jobs_found INTEGER NOT NULL DEFAULT 0, -- Jobs on the listing/feed this run
+  unchanged INTEGER NOT NULL DEFAULT 0,  -- 1 = listing unchanged since the last run (fetch cache hit)
+  error TEXT,                            -- Fetch/parse error (NULL = fetched fine)
+  null_rates TEXT,                       -- JSON: field → share of jobs missing it (0-1)
+  status TEXT NOT NULL,                  -- 'healthy' | 'degraded' | 'quarantined'
+  reason TEXT,                           -- Why the source isn't healthy
+  checked_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_health_checks_source ON source_health_checks(source, id);
+
+-- ============================================================================
+-- Run lease: only one pipeline run at a time (TTL + heartbeat)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS run_lease (
+  name TEXT PRIMARY KEY,            -- 'pipeline'
+  holder TEXT NOT NULL,             -- Random token of the invocation holding the lease
+  run_id INTEGER,                   -- FK → runs(id), for display
+  acquired_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL          -- Renewed by heartbeat; expired leases can be taken over
+);
+
 -- ============================================================================
 -- Jobs: all fetched jobs (posted, skipped, failed, duplicate)
 -- ============================================================================
 CREATE TABLE IF NOT EXISTS jobs (
-  id TEXT PRIMARY KEY,
+  id TEXT PRIMARY KEY,              -- "source:id", e.g. "eoi:21270" (see job-ids.ts)
   title TEXT NOT NULL,
   company TEXT,
   location TEXT,
@@ -58,11 +101,32 @@ CREATE TABLE IF NOT EXISTS jobs (
   application_links TEXT,           -- JSON array of URLs/emails/phones
   category TEXT,                    -- AI-extracted Arabic category
   -- Processing state
-  status TEXT DEFAULT 'fetched',    -- 'fetched' | 'posted' | 'skipped' | 'failed' | 'duplicate'
+  status TEXT DEFAULT 'fetched',    -- 'fetched' | 'posted' | 'skipped' | 'failed' | 'duplicate' | 'dead' | 'deferred' | 'filtered' | 'expired' | 'cleared'
   telegram_message_id INTEGER,      -- For editing/deleting posts later
   run_id INTEGER,                   -- FK → runs(id)
+  -- Retry queue (failed posts)
+  retry_count INTEGER DEFAULT 0,    -- Failed post attempts so far
+  next_attempt_at TEXT,             -- When the retry stage may pick this job up again
+  last_error TEXT,                  -- Reason for the most recent failure
+  -- Fair-share backlog (deferred jobs)
+  raw_payload TEXT,                 -- JSON JobItem, kept while status = 'deferred' or 'duplicate'
+  -- Pipeline stages (filtered jobs)
+  filtered_by TEXT,                 -- Stage that rejected the job
+  filter_reason TEXT,               -- Why the stage rejected it
+  -- Update detection (edits to posted jobs)
+  content_hash TEXT,                -- SHA-256 of deadline, location, description, how to apply, links
+  content_checked_at TEXT,          -- Last time a refetch was compared against content_hash
   -- Timestamps
   posted_at TEXT,                   -- When posted to Telegram (null if not posted)
+  expired_at TEXT,                  -- When the expiry sweep found the deadline passed
+  -- Dedup (source of truth; KV is a cache)
+  dedup_key TEXT,                   -- normalizeJobKey(title, company)
+  duplicate_of TEXT,                -- Duplicates: job ID matched (NULL = KV cache hit without ID)
+  duplicate_of_source TEXT,         -- Duplicates: source of the matched job
+  duplicate_reason TEXT,            -- 'exact' | 'fuzzy' | 'ai'; set on a posted row = force-posted anyway
+  duplicate_score REAL,             -- Similarity, 1 for exact matches
+  repost_of TEXT,                   -- Reposts: earlier posted job this re-advertises (see repost.ts)
+  merged_sources TEXT,              -- JSON array: other sources merged into this post (see merge.ts)
   scraped_at TEXT DEFAULT (datetime('now')),
   -- Computed
   word_count INTEGER,
@@ -74,6 +138,87 @@ CREATE INDEX IF NOT EXISTS idx_jobs_posted_at ON jobs(posted_at);
 CREATE INDEX IF NOT EXISTS idx_jobs_source ON jobs(source);
 CREATE INDEX IF NOT EXISTS idx_jobs_run_id ON jobs(run_id);
 CREATE INDEX IF NOT EXISTS idx_jobs_company ON jobs(company);
+CREATE INDEX IF NOT EXISTS idx_jobs_next_attempt_at ON jobs(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_deferred ON jobs(status, source, scraped_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_dedup_key ON jobs(dedup_key, status);
+
+-- ============================================================================
+-- Job ID aliases: old or alternative IDs of a job (IDs are "source:id", see job-ids.ts)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS job_id_aliases (
+  alias TEXT PRIMARY KEY,           -- Old or alternative job ID
+  job_id TEXT NOT NULL,             -- The job's ID in the jobs table
+  source TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_id_aliases_job_id ON job_id_aliases(job_id);
+
+-- ============================================================================
+-- Job revisions: content changes detected on posted jobs (post edited in place)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS job_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id TEXT NOT NULL,             -- FK → jobs(id)
+  run_id INTEGER,                   -- FK → runs(id): run that detected the change
+  previous_hash TEXT,
+  content_hash TEXT NOT NULL,
+  changed_fields TEXT NOT NULL,     -- JSON array: ['deadline', 'description', ...]
+  previous_values TEXT,             -- JSON object: changed fields as they were before
+  telegram_edited INTEGER DEFAULT 0, -- 1 = the channel post was edited
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_revisions_job_id ON job_revisions(job_id);
+
+-- ============================================================================
+-- Companies: canonical employer names + aliases (job.company is resolved against these)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS companies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name_en TEXT,                     -- Canonical English name (used on jobs when set)
+  name_ar TEXT,                     -- Canonical Arabic name
+  logo_url TEXT,                    -- Used as the post image when a job has none
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS company_aliases (
+  alias_key TEXT PRIMARY KEY,       -- companyKey(alias): normalized tokens (see dedup.ts)
+  alias TEXT NOT NULL,              -- Alias as entered
+  company_id INTEGER NOT NULL,      -- FK → companies(id)
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_aliases_company_id ON company_aliases(company_id);
+
+-- Company names no alias matched, for admin review (/company unmatched)
+CREATE TABLE IF NOT EXISTS unmatched_companies (
+  name_key TEXT PRIMARY KEY,        -- companyKey(name)
+  name TEXT NOT NULL,               -- Latest spelling seen
+  source TEXT,                      -- Source of the latest job
+  job_id TEXT,                      -- Latest job with this name, for context
+  seen_count INTEGER DEFAULT 1,
+  first_seen_at TEXT DEFAULT (datetime('now')),
+  last_seen_at TEXT DEFAULT (datetime('now'))
+);
+
+-- ============================================================================
+-- Duplicate verdicts: AI same/different calls on grey-zone job pairs (admins can override)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS duplicate_verdicts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  pair_key TEXT NOT NULL UNIQUE,    -- Both job IDs, sorted, joined with '|'
+  job_id TEXT NOT NULL,             -- The job being checked
+  other_job_id TEXT NOT NULL,       -- The posting it resembled
+  score REAL,                       -- Similarity when the pair was checked (NULL = set by an admin)
+  verdict TEXT NOT NULL,            -- 'same' | 'different'
+  reason TEXT,                      -- Model's (or admin's) one-line reason
+  decided_by TEXT DEFAULT 'ai',     -- 'ai' | 'admin' (override)
+  model TEXT,                       -- Workers AI model that gave the verdict
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
 
 -- ============================================================================
 -- Settings: global config (prompt template, etc.)
@@ -0,0 +1,84 @@
+import type { Env } from '../../types';
+import { jsonResponse } from '../../utils/http';
+import {
+  getCompanies, getCompany, getCompanyAliases, createCompany, updateCompany,
+  addCompanyAlias, listUnmatchedCompanies,
+} from '../../services/storage';
+import { requireAuth } from '../auth';
+
+function isOptionalString(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+export async function handleListCompanies(_request: Request, _url: URL, env: Env): Promise<Response> {
+  const [companies, aliases] = await Promise.all([getCompanies(env), getCompanyAliases(env)]);
+  const data = companies.map(c => ({
+    ...c,
+    aliases: aliases.filter(a => a.company_id === c.id).map(a => a.alias),
+  }));
+  return jsonResponse(data);
+}
+
+export async function handleGetCompany(_request: Request, _url: URL, env: Env, companyId: number): Promise<Response> {
+  const company = await getCompany(env, companyId);
+  if (!company) return jsonResponse({ error: 'Company not found' }, 404);
+  const aliases = await getCompanyAliases(env, companyId);
+  return jsonResponse({ ...company, aliases: aliases.map(a => a.alias) });
+}
+
+export async function handleCreateCompany(request: Request, _url: URL, env: Env): Promise<Response> {
+  const authError = requireAuth(request, env);
+  if (authError) return authError;
+
+  const body = await request.json() as Record<string, unknown>;
+  if (!isOptionalString(body.name_en) || !isOptionalString(body.name_ar) || !isOptionalString(body.logo_url)) {
+    return jsonResponse({ error: 'name_en, name_ar and logo_url must be strings' }, 400);
+  }
+  if (!body.name_en && !body.name_ar) return jsonResponse({ error: 'name_en or name_ar is required' }, 400);
+  if (body.aliases !== undefined && (!Array.isArray(body.aliases) || !body.aliases.every(a => typeof a === 'string'))) {
+    return jsonResponse({ error: 'aliases must be an array of strings' }, 400);
+  }
+
+  const companyId = await createCompany(env, { name_en: body.name_en, name_ar: body.name_ar, logo_url: body.logo_url });
+  for (const alias of (body.aliases as string[] | undefined) ?? []) {
+    await addCompanyAlias(env, companyId, alias);
+  }
+  const [company, aliases] = await Promise.all([getCompany(env, companyId), getCompanyAliases(env, companyId)]);
+  return jsonResponse({ ...company!, aliases: aliases.map(a => a.alias) }, 201);
+}
+
+export async function handlePatchCompany(request: Request, _url: URL, env: Env, companyId: number): Promise<Response> {
+  const authError = requireAuth(request, env);
+  if (authError) return authError;
+
+  const body = await request.json() as Record<string, unknown>;
+  if (!isOptionalString(body.name_en) || !isOptionalString(body.name_ar) || !isOptionalString(body.logo_url)) {
+    return jsonResponse({ error: 'name_en, name_ar and logo_url must be strings or null' }, 400);
+  }
+
+  const updated = await updateCompany(env, companyId, {
+    name_en: body.name_en, name_ar: body.name_ar, logo_url: body.logo_url,
+  });
+  if (!updated) return jsonResponse({ error: 'Company not found or no changes' }, 404);
+  return handleGetCompany(request, _url, env, companyId);
+}
+
+export async function handleAddCompanyAlias(request: Request, _url: URL, env: Env, companyId: number): Promise<Response> {
+  const authError = requireAuth(request, env);
+  if (authError) return authError;
+
+  const body = await request.json() as { alias?: unknown };
+  if (typeof body.alias !== 'string' || !body.alias.trim()) return jsonResponse({ error: 'alias is required' }, 400);
+
+  const company = await getCompany(env, companyId);
+  if (!company) return jsonResponse({ error: 'Company not found' }, 404);
+
+  const key = await addCompanyAlias(env, companyId, body.alias);
+  if (!key) return jsonResponse({ error: 'alias has no letters to match on' }, 400);
+  return jsonResponse({ company_id: companyId, alias: body.alias.trim(), alias_key: key }, 201);
+}
+
+export async function handleListUnmatchedCompanies(_request: Request, url: URL, env: Env): Promise<Response> {
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 200);
+  return jsonResponse(await listUnmatchedCompanies(env, limit));
+}
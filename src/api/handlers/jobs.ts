@@ -1,6 +1,6 @@
 import type { Env, JobStatus } from '../../types';
 import { jsonResponse } from '../../utils/http';
-import { listJobs, getJobFromDB } from '../../services/storage';
+import { listJobs, getJobFromDB, listJobRevisions } from '../../services/storage';
 
 export async function handleListJobs(_request: Request, url: URL, env: Env): Promise<Response> {
   const page = parseInt(url.searchParams.get('page') || '1', 10);
@@ -18,3 +18,12 @@ export async function handleGetJob(_request: Request, _url: URL, env: Env, jobId
   if (!job) return jsonResponse({ error: 'Job not found' }, 404);
   return jsonResponse(job);
 }
+
+export async function handleListJobRevisions(_request: Request, _url: URL, env: Env, jobId: string): Promise<Response> {
+  const revisions = await listJobRevisions(env, decodeURIComponent(jobId));
+  return jsonResponse(revisions.map(r => ({
+    ...r,
+    changed_fields: JSON.parse(r.changed_fields),
+    previous_values: r.previous_values ? JSON.parse(r.previous_values) : null,
+  })));
+}
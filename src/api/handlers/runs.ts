@@ -1,6 +1,8 @@
 import type { Env } from '../../types';
 import { jsonResponse } from '../../utils/http';
 import { listRuns, getRunFromDB, getDashboardStats } from '../../services/storage';
+import { processJobs } from '../../services/pipeline';
+import { requireAuth } from '../auth';
 
 export async function handleListRuns(_request: Request, url: URL, env: Env): Promise<Response> {
   const page = parseInt(url.searchParams.get('page') || '1', 10);
@@ -27,3 +29,12 @@ export async function handleGetStats(_request: Request, _url: URL, env: Env): Pr
   const stats = await getDashboardStats(env);
   return jsonResponse(stats);
 }
+
+export async function handleDryRun(request: Request, url: URL, env: Env): Promise<Response> {
+  const authError = requireAuth(request, env);
+  if (authError) return authError;
+
+  const cron = url.searchParams.get('cron') || undefined;
+  const result = await processJobs(env, 'manual', cron, { dryRun: true });
+  return jsonResponse({ cron: cron || 'all', ...result });
+}
@@ -2,6 +2,7 @@ import type { Env } from '../../types';
 import { jsonResponse } from '../../utils/http';
 import { getSetting, setSetting } from '../../services/storage';
 import { requireAuth } from '../auth';
+import { validateStageSetting } from '../../services/stages';
 
 export async function handleGetSetting(_request: Request, _url: URL, env: Env, key: string): Promise<Response> {
   const value = await getSetting(env, key);
@@ -15,6 +16,8 @@ export async function handlePutSetting(request: Request, _url: URL, env: Env, ke
 
   const body = await request.json() as { value: string };
   if (!body.value) return jsonResponse({ error: 'value is required' }, 400);
+  const invalid = validateStageSetting(key, body.value);
+  if (invalid) return jsonResponse({ error: invalid }, 400);
   await setSetting(env, key, body.value);
   return jsonResponse({ key, value: body.value });
 }
@@ -1,7 +1,35 @@
-import type { Env } from '../../types';
+import type { Env, SourceRecord } from '../../types';
 import { jsonResponse } from '../../utils/http';
-import { getSourcesFromDB, getSourceFromDB, updateSourceInDB, getSourceStats } from '../../services/storage';
+import {
+  getSourcesFromDB, getSourceFromDB, updateSourceInDB, getSourceStats, getSourceHealthChecks, getLastPostedAtBySource,
+} from '../../services/storage';
 import { requireAuth } from '../auth';
+import { isRepostPolicyMode, REPOST_POLICY_MODES } from '../../services/repost';
+import { createRuntimeSource, getSourceDefinition } from '../../services/sources/registry';
+import { validateRuntimeConfig, isRuntimeSourceType } from '../../services/sources/runtime';
+
+/** A source row with its JSON columns parsed */
+function sourceResponse(source: SourceRecord) {
+  return {
+    ...source,
+    ai_prompt_config: source.ai_prompt_config ? JSON.parse(source.ai_prompt_config) : null,
+    config: source.config ? JSON.parse(source.config) : null,
+  };
+}
+
+/** The request body as a JSON object, or null if it isn't one */
+async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
 
 export async function handleListSources(_request: Request, _url: URL, env: Env): Promise<Response> {
   const [sources, stats] = await Promise.all([
@@ -10,8 +38,7 @@ export async function handleListSources(_request: Request, _url: URL, env: Env):
   ]);
   const statsMap = new Map(stats.map(s => [s.source, s.job_count]));
   const data = sources.map(s => ({
-    ...s,
-    ai_prompt_config: s.ai_prompt_config ? JSON.parse(s.ai_prompt_config) : null,
+    ...sourceResponse(s),
     job_count: statsMap.get(s.id) || 0,
   }));
   return jsonResponse(data);
@@ -20,17 +47,47 @@ export async function handleListSources(_request: Request, _url: URL, env: Env):
 export async function handleGetSource(_request: Request, _url: URL, env: Env, sourceId: string): Promise<Response> {
   const source = await getSourceFromDB(env, sourceId);
   if (!source) return jsonResponse({ error: 'Source not found' }, 404);
+  return jsonResponse(sourceResponse(source));
+}
+
+export async function handleGetSourceHealth(_request: Request, url: URL, env: Env, sourceId: string): Promise<Response> {
+  const source = await getSourceFromDB(env, sourceId);
+  if (!source) return jsonResponse({ error: 'Source not found' }, 404);
+
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, 200);
+  const [checks, lastPosted] = await Promise.all([
+    getSourceHealthChecks(env, sourceId, limit),
+    getLastPostedAtBySource(env),
+  ]);
+  const latest = checks[0];
   return jsonResponse({
-    ...source,
-    ai_prompt_config: source.ai_prompt_config ? JSON.parse(source.ai_prompt_config) : null,
+    source: sourceId,
+    status: source.quarantined_at ? 'quarantined' : latest?.status ?? null,
+    reason: source.quarantine_reason ?? latest?.reason ?? null,
+    quarantined_at: source.quarantined_at,
+    last_success_at: checks.find(c => !c.error && c.jobs_found > 0)?.checked_at ?? null,
+    last_posted_at: lastPosted.get(sourceId) ?? null,
+    checks: checks.map(c => ({ ...c, null_rates: c.null_rates ? JSON.parse(c.null_rates) : null })),
   });
 }
 
+export async function handleCreateSource(request: Request, _url: URL, env: Env): Promise<Response> {
+  const authError = requireAuth(request, env);
+  if (authError) return authError;
+
+  const body = await readJsonObject(request);
+  if (!body) return jsonResponse({ error: 'Body must be a JSON object' }, 400);
+  const result = await createRuntimeSource(env, body);
+  if ('error' in result) return jsonResponse({ error: result.error }, 400);
+  return jsonResponse(sourceResponse(result.source), 201);
+}
+
 export async function handlePatchSource(request: Request, _url: URL, env: Env, sourceId: string): Promise<Response> {
   const authError = requireAuth(request, env);
   if (authError) return authError;
 
-  const body = await request.json() as Record<string, unknown>;
+  const body = await readJsonObject(request);
+  if (!body) return jsonResponse({ error: 'Body must be a JSON object' }, 400);
   const fields: Parameters<typeof updateSourceInDB>[2] = {};
 
   if (body.display_name !== undefined) fields.display_name = body.display_name as string;
@@ -44,6 +101,59 @@ export async function handlePatchSource(request: Request, _url: URL, env: Env, s
       : body.ai_prompt_config === null ? null : JSON.stringify(body.ai_prompt_config);
   }
   if (body.cron_schedule !== undefined) fields.cron_schedule = body.cron_schedule as string;
+  if (body.quota_weight !== undefined) {
+    if (typeof body.quota_weight !== 'number' || !Number.isFinite(body.quota_weight) || body.quota_weight < 0) {
+      return jsonResponse({ error: 'quota_weight must be a number >= 0' }, 400);
+    }
+    fields.quota_weight = body.quota_weight;
+  }
+  if (body.max_per_run !== undefined) {
+    if (body.max_per_run !== null && !isNonNegativeInteger(body.max_per_run)) {
+      return jsonResponse({ error: 'max_per_run must be an integer >= 0 or null' }, 400);
+    }
+    fields.max_per_run = body.max_per_run;
+  }
+  if (body.min_per_run !== undefined) {
+    if (!isNonNegativeInteger(body.min_per_run)) {
+      return jsonResponse({ error: 'min_per_run must be an integer >= 0' }, 400);
+    }
+    fields.min_per_run = body.min_per_run;
+  }
+  if (body.repost_policy !== undefined) {
+    if (!isRepostPolicyMode(body.repost_policy)) {
+      return jsonResponse({ error: `repost_policy must be one of: ${REPOST_POLICY_MODES.join(', ')}` }, 400);
+    }
+    fields.repost_policy = body.repost_policy;
+  }
+  if (body.repost_after_days !== undefined) {
+    if (!isNonNegativeInteger(body.repost_after_days) || body.repost_after_days < 1) {
+      return jsonResponse({ error: 'repost_after_days must be an integer >= 1' }, 400);
+    }
+    fields.repost_after_days = body.repost_after_days;
+  }
+  if (body.merge_rank !== undefined) {
+    if (body.merge_rank !== null && !isNonNegativeInteger(body.merge_rank)) {
+      return jsonResponse({ error: 'merge_rank must be an integer >= 0 or null' }, 400);
+    }
+    fields.merge_rank = body.merge_rank;
+  }
+  if (body.config !== undefined) {
+    if (getSourceDefinition(sourceId)) {
+      return jsonResponse({ error: 'config is only for runtime-defined sources' }, 400);
+    }
+    const existing = await getSourceFromDB(env, sourceId);
+    if (!existing) return jsonResponse({ error: 'Source not found' }, 404);
+    if (body.config === null) {
+      fields.config = null;
+    } else {
+      if (!isRuntimeSourceType(existing.type)) {
+        return jsonResponse({ error: `config is not supported for ${existing.type} sources` }, 400);
+      }
+      const result = validateRuntimeConfig(existing.type, body.config);
+      if ('error' in result) return jsonResponse({ error: result.error }, 400);
+      fields.config = JSON.stringify(result.config);
+    }
+  }
 
   const updated = await updateSourceInDB(env, sourceId, fields);
   if (!updated) return jsonResponse({ error: 'Source not found or no changes' }, 404);
@@ -1,13 +1,17 @@
 /**
  * REST API router. Dispatches to domain-specific handlers.
- * Write endpoints (PATCH, PUT) require Bearer token when API_SECRET is configured.
+ * Write endpoints (PATCH, PUT, POST) require Bearer token when API_SECRET is configured.
  */
 
 import type { Env } from '../types';
-import { handleListJobs, handleGetJob } from './handlers/jobs';
-import { handleListSources, handleGetSource, handlePatchSource } from './handlers/sources';
-import { handleListRuns, handleGetRun, handleGetStats } from './handlers/runs';
+import { handleListJobs, handleGetJob, handleListJobRevisions } from './handlers/jobs';
+import { handleListSources, handleGetSource, handleGetSourceHealth, handleCreateSource, handlePatchSource } from './handlers/sources';
+import { handleListRuns, handleGetRun, handleGetStats, handleDryRun } from './handlers/runs';
 import { handleGetSetting, handlePutSetting } from './handlers/settings';
+import {
+  handleListCompanies, handleGetCompany, handleCreateCompany, handlePatchCompany,
+  handleAddCompanyAlias, handleListUnmatchedCompanies,
+} from './handlers/companies';
 
 /**
  * Route API requests. Returns null if path doesn't match any API route.
@@ -23,13 +27,24 @@ export async function handleApiRoute(
   // Static path routes
   if (path === '/api/jobs' && method === 'GET') return handleListJobs(request, url, env);
   if (path === '/api/sources' && method === 'GET') return handleListSources(request, url, env);
+  if (path === '/api/sources' && method === 'POST') return handleCreateSource(request, url, env);
   if (path === '/api/runs' && method === 'GET') return handleListRuns(request, url, env);
   if (path === '/api/stats' && method === 'GET') return handleGetStats(request, url, env);
+  if (path === '/api/runs/dry' && method === 'POST') return handleDryRun(request, url, env);
+  if (path === '/api/companies' && method === 'GET') return handleListCompanies(request, url, env);
+  if (path === '/api/companies' && method === 'POST') return handleCreateCompany(request, url, env);
+  if (path === '/api/companies/unmatched' && method === 'GET') return handleListUnmatchedCompanies(request, url, env);
 
   // Parameterized routes — match once, dispatch on method
+  const revisionsMatch = path.match(/^\/api\/jobs\/(.+)\/revisions$/);
+  if (revisionsMatch && method === 'GET') return handleListJobRevisions(request, url, env, revisionsMatch[1]);
+
   const jobMatch = path.match(/^\/api\/jobs\/(.+)$/);
   if (jobMatch && method === 'GET') return handleGetJob(request, url, env, jobMatch[1]);
 
+  const sourceHealthMatch = path.match(/^\/api\/sources\/([a-z0-9_-]+)\/health$/);
+  if (sourceHealthMatch && method === 'GET') return handleGetSourceHealth(request, url, env, sourceHealthMatch[1]);
+
   const sourceMatch = path.match(/^\/api\/sources\/([a-z0-9_-]+)$/);
   if (sourceMatch && method === 'GET') return handleGetSource(request, url, env, sourceMatch[1]);
   if (sourceMatch && method === 'PATCH') return handlePatchSource(request, url, env, sourceMatch[1]);
@@ -37,6 +52,13 @@ export async function handleApiRoute(
   const runMatch = path.match(/^\/api\/runs\/(\d+)$/);
   if (runMatch && method === 'GET') return handleGetRun(request, url, env, parseInt(runMatch[1], 10));
 
+  const companyAliasMatch = path.match(/^\/api\/companies\/(\d+)\/aliases$/);
+  if (companyAliasMatch && method === 'POST') return handleAddCompanyAlias(request, url, env, parseInt(companyAliasMatch[1], 10));
+
+  const companyMatch = path.match(/^\/api\/companies\/(\d+)$/);
+  if (companyMatch && method === 'GET') return handleGetCompany(request, url, env, parseInt(companyMatch[1], 10));
+  if (companyMatch && method === 'PATCH') return handlePatchCompany(request, url, env, parseInt(companyMatch[1], 10));
+
   const settingMatch = path.match(/^\/api\/settings\/([a-z0-9_-]+)$/);
   if (settingMatch && method === 'GET') return handleGetSetting(request, url, env, settingMatch[1]);
   if (settingMatch && method === 'PUT') return handlePutSetting(request, url, env, settingMatch[1]);
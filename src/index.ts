@@ -3,6 +3,9 @@ import type { TelegramUpdate } from './types/telegram';
 import { sendTextMessage, setMyCommands } from './services/telegram';
 import { handleWebhook, BOT_COMMANDS } from './services/commands';
 import { processJobs, sendDailySummary } from './services/pipeline';
+import { sweepExpiredJobs } from './services/expiry';
+import { pruneSourceHealthHistory } from './services/source-health';
+import { runScheduledReconcile } from './services/reconcile';
 import { syncSourcesTable } from './services/sources/registry';
 import { jsonResponse } from './utils/http';
 import { handleApiRoute } from './api/routes';
@@ -57,6 +60,19 @@ export default {
       return;
     }
 
+    // Expiry sweep cron — expires jobs whose application deadline has passed, prunes old health checks
+    if (cron === '0 3 * * *') {
+      ctx.waitUntil(sweepExpiredJobs(env).catch(error => console.error('Expiry sweep failed:', error)));
+      ctx.waitUntil(pruneSourceHealthHistory(env).catch(error => console.error('Source health prune failed:', error)));
+      return;
+    }
+
+    // Weekly consistency cron — reports KV/D1 drift to the admin (repair needs confirmation)
+    if (cron === '0 4 * * 1') {
+      ctx.waitUntil(runScheduledReconcile(env).catch(error => console.error('Reconcile scan failed:', error)));
+      return;
+    }
+
     // All other crons — process jobs for matching sources
     ctx.waitUntil(processJobs(env, 'cron', cron));
   },
@@ -78,7 +94,7 @@ export default {
     if (url.pathname === '/webhook' && request.method === 'POST') {
       try {
         const update = await request.json() as TelegramUpdate;
-        return await handleWebhook(update, env, ctx, () => processJobs(env, 'webhook'));
+        return await handleWebhook(update, env, ctx, (opts) => processJobs(env, 'webhook', undefined, opts));
       } catch (error) {
         console.error('Webhook error:', error);
         return new Response('Bad Request', { status: 400 });
@@ -89,6 +105,7 @@ export default {
     // (ctx.waitUntil on fetch handlers gets killed after ~30s, not enough for 25 jobs)
     if (url.pathname === '/__scheduled') {
       const cron = url.searchParams.get('cron') || undefined;
+      const dryRun = url.searchParams.get('dry') === '1';
 
       // Manual daily summary trigger
       if (cron === '0 23 * * *') {
@@ -96,8 +113,20 @@ export default {
         return jsonResponse({ status: 'complete', action: 'daily_summary', timestamp: new Date().toISOString() });
       }
 
-      const result = await processJobs(env, 'manual', cron);
-      return jsonResponse({ status: 'complete', cron: cron || 'all', ...result, timestamp: new Date().toISOString() });
+      // Manual expiry sweep trigger
+      if (cron === '0 3 * * *') {
+        const result = await sweepExpiredJobs(env);
+        return jsonResponse({ status: 'complete', action: 'expiry_sweep', sweep: result, timestamp: new Date().toISOString() });
+      }
+
+      // Manual consistency scan trigger (report only)
+      if (cron === '0 4 * * 1') {
+        const report = await runScheduledReconcile(env);
+        return jsonResponse({ status: 'complete', action: 'reconcile_scan', report, timestamp: new Date().toISOString() });
+      }
+
+      const result = await processJobs(env, 'manual', cron, { dryRun });
+      return jsonResponse({ status: 'complete', cron: cron || 'all', dryRun, ...result, timestamp: new Date().toISOString() });
     }
 
     // Register bot command menu with Telegram (one-time setup)
@@ -122,7 +151,7 @@ export default {
       name: 'Yemen Jobs Bot',
       description: 'Monitors Yemen HR, EOI Yemen, and ReliefWeb for new jobs and posts to Telegram',
       endpoints: {
-        '/__scheduled': 'Manually trigger job processing',
+        '/__scheduled': 'Manually trigger job processing (?dry=1 for a no-write preview)',
         '/health': 'Health check',
         '/api/jobs': 'List jobs (paginated, filterable)',
         '/api/jobs/:id': 'Get single job',
@@ -130,6 +159,7 @@ export default {
         '/api/sources/:id': 'Get/update source (GET/PATCH)',
         '/api/runs': 'Run history (paginated)',
         '/api/runs/:id': 'Get single run',
+        '/api/runs/dry': 'Preview the next run without side effects (POST)',
         '/api/stats': 'Dashboard statistics',
         '/api/settings/:key': 'Get/update settings (GET/PUT)',
         '/webhook': 'Telegram webhook for admin commands (POST)',
@@ -0,0 +1,134 @@
+/**
+ * AI adjudication of borderline duplicates.
+ *
+ * Fuzzy dedup (dedup.ts) is sure above DEDUP_SIMILARITY_THRESHOLD. Pairs scoring
+ * between DEDUP_AI_MIN_SIMILARITY and the threshold are shown to Workers AI, which
+ * answers whether both listings are the same vacancy, with a short reason.
+ * Verdicts are cached in D1 (duplicate_verdicts) by job pair, so a pair is asked
+ * about once; admins can flip a verdict with /dedup, and their answer wins.
+ */
+
+import type { Env, JobItem, JobRecord, DuplicateVerdictRecord } from '../types';
+import { askWorkersAI } from './ai';
+import { getDuplicateVerdict, saveDuplicateVerdict } from './storage';
+
+export const MAX_AI_ADJUDICATIONS_PER_RUN = 5; // New AI calls per run; cached verdicts don't count
+
+const MAX_DESCRIPTION_CHARS = 600;
+
+/** The parts of a listing shown to the AI */
+export interface PairJob {
+  id: string;
+  title: string;
+  company: string;
+  source?: string;
+  location?: string;
+  deadline?: string;
+  description?: string;
+}
+
+export interface Verdict {
+  same: boolean;
+  reason: string;
+}
+
+export function pairJobFromItem(job: JobItem): PairJob {
+  return { id: job.id, title: job.title, company: job.company, source: job.source, description: job.description };
+}
+
+export function pairJobFromRecord(row: JobRecord): PairJob {
+  return {
+    id: row.id,
+    title: row.title,
+    company: row.company || '',
+    source: row.source,
+    location: row.location ?? undefined,
+    deadline: row.deadline ?? undefined,
+    description: row.description_clean ?? undefined,
+  };
+}
+
+/**
+ * Parse DEDUP_AI_MIN_SIMILARITY. Returns null (adjudication off) when unset,
+ * out of range, or not below the fuzzy threshold.
+ */
+export function parseAdjudicationFloor(value: string | undefined, threshold: number): number | null {
+  const floor = value ? parseFloat(value) : NaN;
+  return floor > 0 && floor < threshold ? floor : null;
+}
+
+function describePairJob(label: string, job: PairJob): string {
+  const lines = [`${label}:`, `Title: ${job.title}`, `Organization: ${job.company || 'unknown'}`];
+  if (job.location) lines.push(`Location: ${job.location}`);
+  if (job.deadline) lines.push(`Deadline: ${job.deadline}`);
+  if (job.description) {
+    const text = job.description.replace(/\s+/g, ' ').trim();
+    lines.push(`Description: ${text.length > MAX_DESCRIPTION_CHARS ? `${text.slice(0, MAX_DESCRIPTION_CHARS)}…` : text}`);
+  }
+  return lines.join('\n');
+}
+
+export function buildAdjudicationPrompt(job: PairJob, other: PairJob): string {
+  return `Are these two job listings the same vacancy (same position at the same organization, possibly posted on different job boards or worded differently)?
+
+${describePairJob('Listing A', job)}
+
+${describePairJob('Listing B', other)}
+
+Different positions at the same organization, or the same title at different organizations or locations, are NOT the same vacancy.
+Answer with JSON only: {"same": true or false, "reason": "one short sentence"}`;
+}
+
+/**
+ * Read the verdict from the AI's answer. Tolerates reasoning, text or code fences
+ * around the JSON; returns null when there's no usable answer.
+ */
+export function parseVerdict(text: string): Verdict | null {
+  const json = text.replace(/<think>[\s\S]*?<\/think>/g, '').match(/\{[\s\S]*?\}/)?.[0];
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json) as { same?: unknown; reason?: unknown };
+    if (typeof parsed.same !== 'boolean') return null;
+    const reason = typeof parsed.reason === 'string' ? parsed.reason.trim().slice(0, 300) : '';
+    return { same: parsed.same, reason };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether two listings are the same vacancy: the cached verdict if there is one,
+ * otherwise the AI's answer (cached unless dryRun). With canAsk false only the cache is used.
+ * `asked` reports whether the AI was called; verdict is null when there's no usable answer.
+ */
+export async function adjudicateDuplicate(
+  env: Env,
+  job: PairJob,
+  other: PairJob,
+  score: number,
+  opts: { dryRun?: boolean; canAsk?: boolean } = {}
+): Promise<{ verdict: DuplicateVerdictRecord['verdict'] | null; asked: boolean }> {
+  const cached = await getDuplicateVerdict(env, job.id, other.id);
+  if (cached) return { verdict: cached.verdict, asked: false };
+  if (opts.canAsk === false) return { verdict: null, asked: false };
+
+  const answer = await askWorkersAI(env, buildAdjudicationPrompt(job, other), `dedup ${job.id}`);
+  const parsed = answer ? parseVerdict(answer.text) : null;
+  if (!answer || !parsed) {
+    console.warn(`No usable AI verdict for ${job.id} vs ${other.id}`);
+    return { verdict: null, asked: true };
+  }
+
+  const verdict = parsed.same ? 'same' : 'different';
+  if (!opts.dryRun) {
+    await saveDuplicateVerdict(env, {
+      jobId: job.id,
+      otherJobId: other.id,
+      score,
+      verdict,
+      reason: parsed.reason || null,
+      model: answer.model,
+    });
+  }
+  return { verdict, asked: true };
+}
@@ -15,23 +15,27 @@ const ENGLISH_MONTHS: Record<string, number> = {
   jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
 };
 
+const YEMEN_UTC_OFFSET_HOURS = 3;
+
+interface DateParts {
+  day: string;
+  monthIndex: number;
+  year: string;
+  time?: { hours: number; minutes: number };
+}
+
 /**
- * Convert a date string to Arabic format. Supports:
- * - "03-02-2026"       → "03 فبراير 2026"  (EOI: DD-MM-YYYY)
- * - "09-02-2026 23:59" → "09 فبراير 2026"  (EOI: DD-MM-YYYY HH:mm)
- * - "22 Feb, 26"       → "22 فبراير 2026"  (Yemen HR: DD Mon, YY)
- * - "22 Feb, 2026"     → "22 فبراير 2026"  (Yemen HR: DD Mon, YYYY)
+ * Split a source date string into its parts (formats listed on formatArabicDate).
  */
-export function formatArabicDate(dateStr: string): string {
-  if (!dateStr) return 'غير محدد';
-
+function parseDateParts(dateStr: string): DateParts | null {
   // EOI format: DD-MM-YYYY or DD-MM-YYYY HH:mm
-  const numericMatch = dateStr.match(/^(\d{2})-(\d{2})-(\d{4})/);
+  const numericMatch = dateStr.match(/^(\d{2})-(\d{2})-(\d{4})(?:\s+(\d{2}):(\d{2}))?/);
   if (numericMatch) {
-    const [, day, month, year] = numericMatch;
+    const [, day, month, year, hours, minutes] = numericMatch;
     const monthIndex = parseInt(month, 10) - 1;
     if (monthIndex >= 0 && monthIndex <= 11) {
-      return `${day} ${ARABIC_MONTHS[monthIndex]} ${year}`;
+      const time = hours ? { hours: parseInt(hours, 10), minutes: parseInt(minutes, 10) } : undefined;
+      return { day, monthIndex, year, time };
     }
   }
 
@@ -42,11 +46,43 @@ export function formatArabicDate(dateStr: string): string {
     const monthIndex = ENGLISH_MONTHS[monthStr.toLowerCase()];
     if (monthIndex !== undefined) {
       const year = yearStr.length === 2 ? `20${yearStr}` : yearStr;
-      return `${day} ${ARABIC_MONTHS[monthIndex]} ${year}`;
+      return { day, monthIndex, year };
     }
   }
 
-  return dateStr;
+  return null;
+}
+
+/**
+ * Convert a date string to Arabic format. Supports:
+ * - "03-02-2026"       → "03 فبراير 2026"  (EOI: DD-MM-YYYY)
+ * - "09-02-2026 23:59" → "09 فبراير 2026"  (EOI: DD-MM-YYYY HH:mm)
+ * - "22 Feb, 26"       → "22 فبراير 2026"  (Yemen HR: DD Mon, YY)
+ * - "22 Feb, 2026"     → "22 فبراير 2026"  (Yemen HR: DD Mon, YYYY)
+ */
+export function formatArabicDate(dateStr: string): string {
+  if (!dateStr) return 'غير محدد';
+  const parts = parseDateParts(dateStr);
+  return parts ? `${parts.day} ${ARABIC_MONTHS[parts.monthIndex]} ${parts.year}` : dateStr;
+}
+
+/**
+ * Parse a deadline (same formats as formatArabicDate) into the moment it passes.
+ * Times are Yemen time (UTC+3); a date without a time runs to the end of that day.
+ * Returns null for empty, unrecognized, or impossible dates (e.g. 31-02-2026).
+ */
+export function parseDeadline(dateStr: string): Date | null {
+  if (!dateStr) return null;
+  const parts = parseDateParts(dateStr);
+  if (!parts) return null;
+
+  const year = parseInt(parts.year, 10);
+  const day = parseInt(parts.day, 10);
+  const date = new Date(Date.UTC(year, parts.monthIndex, day));
+  if (date.getUTCMonth() !== parts.monthIndex || date.getUTCDate() !== day) return null;
+
+  const { hours, minutes } = parts.time ?? { hours: 24, minutes: 0 };
+  return new Date(Date.UTC(year, parts.monthIndex, day, hours - YEMEN_UTC_OFFSET_HOURS, minutes));
 }
 
 /**
@@ -87,24 +87,36 @@ function extractAIText(response: unknown): string | null {
   return null;
 }
 
+/** Per-call options for runWorkersAI */
+interface WorkersAIOptions {
+  instructions: string; // System instructions (Responses API models only)
+  maxTokens: number;
+  temperature: number;
+}
+
+const SUMMARY_AI_OPTIONS: WorkersAIOptions = {
+  instructions: 'You are a professional Arabic translator and job summarizer.',
+  maxTokens: 1024,
+  temperature: 0.7,
+};
+
 /**
- * Call Workers AI with retry logic, response validation, and cleanup.
- * Returns the header + AI content, or falls back to buildNoAIFallback.
+ * Run a prompt on Workers AI with retry logic and response validation.
+ * Returns the response text, or null once retries are exhausted.
  */
-async function callWorkersAI(
+async function runWorkersAI(
   ai: Ai,
   prompt: string,
-  job: ProcessedJob,
-  header: string,
-  sourceLabel: string,
-  aiModel: string = DEFAULT_AI_MODEL
-): Promise<string> {
+  label: string,
+  aiModel: string = DEFAULT_AI_MODEL,
+  options: WorkersAIOptions = SUMMARY_AI_OPTIONS
+): Promise<string | null> {
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     try {
       // Use Responses API format for gpt-oss models, chat completions for others
       const params = isResponsesAPIModel(aiModel)
-        ? { input: prompt, instructions: 'You are a professional Arabic translator and job summarizer.' }
-        : { messages: [{ role: 'user', content: prompt }], max_tokens: 1024, temperature: 0.7 };
+        ? { input: prompt, instructions: options.instructions }
+        : { messages: [{ role: 'user', content: prompt }], max_tokens: options.maxTokens, temperature: options.temperature };
 
       const response = await ai.run(
         aiModel as Parameters<typeof ai.run>[0],
@@ -113,45 +125,76 @@ async function callWorkersAI(
 
       // Extract text from response (handles both Workers AI and OpenAI formats)
       const text = extractAIText(response);
+      if (text) return text;
 
-      if (!text) {
-        console.error(`No text in AI response (${sourceLabel}):`, JSON.stringify(response).substring(0, 500));
-        if (attempt < MAX_RETRIES - 1) {
-          const waitTime = Math.pow(2, attempt) * INITIAL_BACKOFF_MS;
-          console.log(`Empty response, retrying after ${waitTime}ms...`);
-          await delay(waitTime);
-          continue;
-        }
-        return buildNoAIFallback(job);
-      }
-
-      // Clean any markdown formatting and remove preamble
-      let cleanedText = stripMarkdown(text);
-
-      // Remove any preamble before the actual content (starts with 🏷️ category or 📋)
-      const categoryStart = cleanedText.indexOf('🏷️');
-      const contentStart = cleanedText.indexOf('📋');
-      const start = categoryStart >= 0 ? categoryStart : contentStart;
-      if (start > 0) {
-        cleanedText = cleanedText.substring(start);
+      console.error(`No text in AI response (${label}):`, JSON.stringify(response).substring(0, 500));
+      if (attempt < MAX_RETRIES - 1) {
+        const waitTime = Math.pow(2, attempt) * INITIAL_BACKOFF_MS;
+        console.log(`Empty response, retrying after ${waitTime}ms...`);
+        await delay(waitTime);
       }
-
-      // Combine pre-built header with AI-generated content
-      return header + '\n\n' + cleanedText.trim();
     } catch (error) {
-      console.error(`Error calling Workers AI (${sourceLabel}, attempt ${attempt + 1}):`, error);
+      console.error(`Error calling Workers AI (${label}, attempt ${attempt + 1}):`, error);
 
       if (attempt < MAX_RETRIES - 1) {
         const waitTime = Math.pow(2, attempt) * INITIAL_BACKOFF_MS;
         console.log(`Error occurred, retry ${attempt + 1}/${MAX_RETRIES} after ${waitTime}ms`);
         await delay(waitTime);
-        continue;
       }
     }
   }
 
-  console.error(`All retries exhausted (${sourceLabel})`);
-  return buildNoAIFallback(job);
+  console.error(`All retries exhausted (${label})`);
+  return null;
+}
+
+/**
+ * Call Workers AI for a job summary, with cleanup.
+ * Returns the header + AI content, or falls back to buildNoAIFallback.
+ */
+async function callWorkersAI(
+  ai: Ai,
+  prompt: string,
+  job: ProcessedJob,
+  header: string,
+  sourceLabel: string,
+  aiModel: string = DEFAULT_AI_MODEL
+): Promise<string> {
+  const text = await runWorkersAI(ai, prompt, sourceLabel, aiModel);
+  if (!text) return buildNoAIFallback(job);
+
+  // Clean any markdown formatting and remove preamble
+  let cleanedText = stripMarkdown(text);
+
+  // Remove any preamble before the actual content (starts with 🏷️ category or 📋)
+  const categoryStart = cleanedText.indexOf('🏷️');
+  const contentStart = cleanedText.indexOf('📋');
+  const start = categoryStart >= 0 ? categoryStart : contentStart;
+  if (start > 0) {
+    cleanedText = cleanedText.substring(start);
+  }
+
+  // Combine pre-built header with AI-generated content
+  return header + '\n\n' + cleanedText.trim();
+}
+
+/**
+ * Ask the configured model a short structured question (e.g. a duplicate verdict).
+ * Low temperature, small token budget. Returns the raw text, or null if the model
+ * gave no answer after retries.
+ */
+export async function askWorkersAI(
+  env: Env,
+  prompt: string,
+  label: string
+): Promise<{ text: string; model: string } | null> {
+  const aiModel = await getAIModel(env);
+  const text = await runWorkersAI(env.AI, prompt, label, aiModel, {
+    instructions: 'You compare job postings and answer only with the requested JSON.',
+    maxTokens: 256,
+    temperature: 0.1,
+  });
+  return text ? { text, model: aiModel } : null;
 }
 
 /**
@@ -0,0 +1,143 @@
+/**
+ * Telegram /company command handlers.
+ * Manages canonical company names and their aliases, and reviews unmatched names.
+ */
+
+import type { Env } from '../../types';
+import {
+  getCompanies, getCompany, getCompanyAliases, createCompany, updateCompany,
+  addCompanyAlias, removeCompanyAlias, listUnmatchedCompanies, dismissUnmatchedCompany,
+} from '../storage';
+import { canonicalCompanyName } from '../companies';
+import { escapeHtml } from '../../utils/format';
+
+const USAGE = `<i>/company [id] — details
+/company add [English] | [Arabic]
+/company alias add [id] [alias]
+/company alias remove [alias]
+/company logo [id] [url|none]
+/company unmatched — names to review
+/company dismiss [name]</i>`;
+
+async function handleList(env: Env): Promise<string> {
+  const [companies, aliases, unmatched] = await Promise.all([
+    getCompanies(env),
+    getCompanyAliases(env),
+    listUnmatchedCompanies(env, 100),
+  ]);
+  const aliasCounts = new Map<number, number>();
+  for (const alias of aliases) aliasCounts.set(alias.company_id, (aliasCounts.get(alias.company_id) || 0) + 1);
+
+  const lines = [`🏢 <b>Companies</b> (${companies.length})\n`];
+  if (companies.length === 0) {
+    lines.push('<i>No companies yet — add one with /company add.</i>');
+  }
+  for (const company of companies.slice(0, 40)) {
+    const arabic = company.name_en && company.name_ar ? ` · ${escapeHtml(company.name_ar)}` : '';
+    lines.push(`<code>${company.id}</code> ${escapeHtml(canonicalCompanyName(company))}${arabic} (${aliasCounts.get(company.id) || 0} aliases)`);
+  }
+  if (companies.length > 40) lines.push(`<i>…and ${companies.length - 40} more</i>`);
+  if (unmatched.length > 0) lines.push(`\n⚠️ ${unmatched.length} unmatched names — /company unmatched`);
+  lines.push('', USAGE);
+  return lines.join('\n');
+}
+
+async function handleDetails(env: Env, companyId: number): Promise<string> {
+  const company = await getCompany(env, companyId);
+  if (!company) return `❌ Company not found: ${companyId}`;
+  const aliases = await getCompanyAliases(env, companyId);
+
+  const lines = [
+    `🏢 <b>${escapeHtml(canonicalCompanyName(company))}</b> (<code>${company.id}</code>)\n`,
+    `<b>English:</b> ${escapeHtml(company.name_en || '—')}`,
+    `<b>Arabic:</b> ${escapeHtml(company.name_ar || '—')}`,
+    `<b>Logo:</b> ${company.logo_url ? escapeHtml(company.logo_url) : '—'}`,
+    '',
+    `<b>Aliases (${aliases.length}):</b>`,
+    ...aliases.map(a => `• ${escapeHtml(a.alias)}`),
+  ];
+  return lines.join('\n');
+}
+
+async function handleAdd(env: Env, text: string): Promise<string> {
+  const [nameEn, nameAr] = text.split('|').map(part => part.trim());
+  if (!nameEn && !nameAr) return '❌ Usage: /company add [English] | [Arabic]';
+  const companyId = await createCompany(env, { name_en: nameEn || null, name_ar: nameAr || null });
+  return `✅ Added company <code>${companyId}</code>: ${escapeHtml(nameEn || nameAr)}\n\nAdd spellings with /company alias add ${companyId} [alias]`;
+}
+
+async function handleAlias(env: Env, args: string[]): Promise<string> {
+  const [action, ...rest] = args;
+
+  if (action === 'add') {
+    const companyId = parseInt(rest[0], 10);
+    const alias = rest.slice(1).join(' ');
+    if (!companyId || !alias) return '❌ Usage: /company alias add [id] [alias]';
+    const company = await getCompany(env, companyId);
+    if (!company) return `❌ Company not found: ${rest[0]}`;
+    const key = await addCompanyAlias(env, companyId, alias);
+    if (!key) return '❌ Alias has no letters to match on.';
+    return `✅ "${escapeHtml(alias)}" → ${escapeHtml(canonicalCompanyName(company))}`;
+  }
+
+  if (action === 'remove') {
+    const alias = rest.join(' ');
+    if (!alias) return '❌ Usage: /company alias remove [alias]';
+    const removed = await removeCompanyAlias(env, alias);
+    return removed ? `✅ Removed alias "${escapeHtml(alias)}"` : `❌ Alias not found: ${escapeHtml(alias)}`;
+  }
+
+  return '❌ Usage: /company alias [add|remove] ...';
+}
+
+async function handleLogo(env: Env, args: string[]): Promise<string> {
+  const companyId = parseInt(args[0], 10);
+  const url = args[1];
+  if (!companyId || !url) return '❌ Usage: /company logo [id] [url|none]';
+  if (url !== 'none' && !/^https?:\/\//.test(url)) return '❌ Logo must be an http(s) URL.';
+  const updated = await updateCompany(env, companyId, { logo_url: url === 'none' ? null : url });
+  return updated ? `✅ Logo ${url === 'none' ? 'removed' : 'updated'} for company <code>${companyId}</code>` : `❌ Company not found: ${args[0]}`;
+}
+
+async function handleUnmatched(env: Env): Promise<string> {
+  const names = await listUnmatchedCompanies(env);
+  if (names.length === 0) return '✅ No unmatched company names.';
+
+  const lines = ['🏷️ <b>Unmatched Companies</b>\n'];
+  for (const entry of names) {
+    lines.push(`• ${escapeHtml(entry.name)} — ${entry.seen_count}× (${entry.source || '?'}, <code>${escapeHtml(entry.job_id || '')}</code>)`);
+  }
+  lines.push('\n<i>/company alias add [id] [name] — map to a company</i>');
+  lines.push('<i>/company add [English] | [Arabic] — new company</i>');
+  lines.push('<i>/company dismiss [name] — drop from this list</i>');
+  return lines.join('\n');
+}
+
+/**
+ * Main /company command dispatcher.
+ */
+export async function handleCompany(env: Env, args: string[]): Promise<string> {
+  if (args.length === 0) return handleList(env);
+
+  const [sub, ...rest] = args;
+  switch (sub) {
+    case 'add':
+      return handleAdd(env, rest.join(' '));
+    case 'alias':
+      return handleAlias(env, rest);
+    case 'logo':
+      return handleLogo(env, rest);
+    case 'unmatched':
+      return handleUnmatched(env);
+    case 'dismiss': {
+      const name = rest.join(' ');
+      if (!name) return '❌ Usage: /company dismiss [name]';
+      return await dismissUnmatchedCompany(env, name)
+        ? `✅ Dismissed "${escapeHtml(name)}"`
+        : `❌ Not in the unmatched list: ${escapeHtml(name)}`;
+    }
+    default:
+      if (/^\d+$/.test(sub)) return handleDetails(env, parseInt(sub, 10));
+      return `❌ Unknown subcommand: ${escapeHtml(sub)}\n\n${USAGE}`;
+  }
+}
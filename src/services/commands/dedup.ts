@@ -0,0 +1,161 @@
+/**
+ * Telegram /dedup command handlers.
+ * Shows where dedup is answered from, backfills dedup keys for old D1 rows,
+ * rewrites legacy job IDs in the KV cache (see job-ids.ts), and lists/overrides
+ * the AI's verdicts on borderline duplicates (see adjudicate.ts).
+ */
+
+import type { Env, DuplicateVerdictRecord } from '../../types';
+import type { InlineKeyboardButton, InlineKeyboardMarkup } from '../../types/telegram';
+import {
+  getDedupKeyCoverage, backfillDedupKeys, isDedupCacheEnabled, getJobFromDB,
+  getSetting, setSetting, rewriteKVJobIds,
+  listDuplicateVerdicts, getDuplicateVerdict, getDuplicateVerdictById, setDuplicateVerdict, overrideDuplicateVerdict,
+} from '../storage';
+import { namespaceLegacyJobId } from '../job-ids';
+import type { CommandResult } from './kv';
+
+// Telegram rejects callback_data longer than 64 bytes
+const MAX_CALLBACK_BYTES = 64;
+
+const KV_ID_MIGRATION_SETTING_KEY = 'kv-job-id-migration'; // Cursor of an unfinished /dedup migrate-ids
+
+type VerdictValue = DuplicateVerdictRecord['verdict'];
+
+function isVerdictValue(value: string | undefined): value is VerdictValue {
+  return value === 'same' || value === 'different';
+}
+
+function verdictIcon(verdict: VerdictValue): string {
+  return verdict === 'same' ? '🟰' : '↔️';
+}
+
+/**
+ * "Force post" button for whichever job of a 'different' pair was skipped as the other's duplicate.
+ */
+async function forcePostButton(env: Env, verdict: DuplicateVerdictRecord): Promise<InlineKeyboardButton | null> {
+  if (verdict.verdict !== 'different') return null;
+  for (const [jobId, otherId] of [[verdict.job_id, verdict.other_job_id], [verdict.other_job_id, verdict.job_id]]) {
+    const row = await getJobFromDB(env, jobId);
+    const data = `force:${jobId}`;
+    if (row?.status === 'duplicate' && row.duplicate_of === otherId
+      && new TextEncoder().encode(data).length <= MAX_CALLBACK_BYTES) {
+      return { text: '📤 Force post', callback_data: data };
+    }
+  }
+  return null;
+}
+
+function formatVerdict(verdict: DuplicateVerdictRecord): string {
+  const score = verdict.score !== null ? ` · score ${verdict.score.toFixed(2)}` : '';
+  const by = verdict.decided_by === 'admin' ? 'admin' : `AI${verdict.model ? ` (${verdict.model})` : ''}`;
+  const lines = [
+    `<b>#${verdict.id}</b> ${verdictIcon(verdict.verdict)} <b>${verdict.verdict}</b>${score} · by ${by}`,
+    `  <code>${verdict.job_id}</code>`,
+    `  <code>${verdict.other_job_id}</code>`,
+  ];
+  if (verdict.reason) lines.push(`  💬 ${verdict.reason}`);
+  return lines.join('\n');
+}
+
+/**
+ * Result text after an admin sets a verdict, with a force-post button when a
+ * skipped duplicate turns out to be a different vacancy.
+ */
+async function verdictResult(env: Env, verdict: DuplicateVerdictRecord): Promise<CommandResult> {
+  const text = `✅ Verdict set\n\n${formatVerdict(verdict)}`;
+  const button = await forcePostButton(env, verdict);
+  return button ? { text, keyboard: { inline_keyboard: [[button]] } } : { text };
+}
+
+/**
+ * Handle /dedup verdicts — recent AI/admin verdicts with a button to flip each.
+ */
+export async function handleDuplicateVerdicts(env: Env): Promise<CommandResult> {
+  const verdicts = await listDuplicateVerdicts(env, 8);
+  if (verdicts.length === 0) {
+    return { text: '🤖 No duplicate verdicts yet. Set DEDUP_AI_MIN_SIMILARITY to have borderline pairs judged.' };
+  }
+
+  const lines = ['🤖 <b>Duplicate Verdicts</b>\n'];
+  const rows: InlineKeyboardButton[][] = [];
+  for (const verdict of verdicts) {
+    lines.push(formatVerdict(verdict), '');
+    const flipped: VerdictValue = verdict.verdict === 'same' ? 'different' : 'same';
+    rows.push([{ text: `#${verdict.id} → ${flipped}`, callback_data: `verdict:${verdict.id}:${flipped}` }]);
+  }
+  lines.push('<i>Or by job IDs: /dedup same|different [id] [id]</i>');
+
+  const keyboard: InlineKeyboardMarkup = {
+    inline_keyboard: [...rows, [{ text: '🔄 Refresh', callback_data: 'verdicts' }]],
+  };
+  return { text: lines.join('\n'), keyboard };
+}
+
+/**
+ * Handle a verdict flip button (verdict:<id>:<same|different>).
+ */
+export async function handleVerdictOverride(env: Env, id: number, verdict: string): Promise<string | CommandResult> {
+  if (!isVerdictValue(verdict)) return `❌ Unknown verdict: ${verdict}`;
+  if (!(await overrideDuplicateVerdict(env, id, verdict))) return `❌ Verdict not found: #${id}`;
+  const updated = await getDuplicateVerdictById(env, id);
+  return updated ? verdictResult(env, updated) : `❌ Verdict not found: #${id}`;
+}
+
+/**
+ * Handle /dedup migrate-ids — rewrite legacy job IDs in the KV cache to source:id,
+ * continuing where the previous call stopped (D1 rows are rewritten by migration 0016).
+ */
+export async function handleMigrateKVJobIds(env: Env): Promise<string> {
+  const cursor = await getSetting(env, KV_ID_MIGRATION_SETTING_KEY);
+  const result = await rewriteKVJobIds(env, namespaceLegacyJobId, { cursor: cursor || null });
+  await setSetting(env, KV_ID_MIGRATION_SETTING_KEY, result.cursor ?? '');
+  const counts = `${result.jobKeys} job keys, ${result.dedupKeys} dedup entries`;
+  return result.cursor
+    ? `⏳ Rewrote ${counts} — more to go. Run /dedup migrate-ids again.`
+    : `✅ Rewrote ${counts} — the KV cache uses source:id job IDs.`;
+}
+
+/**
+ * Main /dedup dispatcher.
+ * /dedup — coverage + cache status; /dedup backfill — fill in missing dedup keys;
+ * /dedup migrate-ids — rewrite legacy KV job IDs; /dedup verdicts — borderline-pair verdicts; /dedup same|different [id] [id] — set one.
+ */
+export async function handleDedup(env: Env, args: string[]): Promise<string | CommandResult> {
+  if (args[0] === 'backfill') {
+    const updated = await backfillDedupKeys(env);
+    const { missing } = await getDedupKeyCoverage(env);
+    return missing > 0
+      ? `⏳ Backfilled ${updated} rows — ${missing} still missing. Run /dedup backfill again.`
+      : `✅ Backfilled ${updated} rows — every job has a dedup key.`;
+  }
+
+  if (args[0] === 'migrate-ids') {
+    return handleMigrateKVJobIds(env);
+  }
+
+  if (args[0] === 'verdicts') {
+    return handleDuplicateVerdicts(env);
+  }
+
+  if (isVerdictValue(args[0]) && args.length === 3) {
+    const [verdict, jobId, otherJobId] = args as [VerdictValue, string, string];
+    if (jobId === otherJobId) return '❌ Give two different job IDs.';
+    await setDuplicateVerdict(env, jobId, otherJobId, verdict);
+    const saved = await getDuplicateVerdict(env, jobId, otherJobId);
+    return saved ? verdictResult(env, saved) : '❌ Failed to save the verdict.';
+  }
+
+  if (args.length > 0) {
+    return '❌ Usage: /dedup [backfill | migrate-ids | verdicts | same [id] [id] | different [id] [id]]';
+  }
+
+  const { withKey, missing } = await getDedupKeyCoverage(env);
+  return `🔁 <b>Dedup</b>
+
+<b>Source of truth:</b> D1 (job status + title/company key)
+<b>KV cache:</b> ${isDedupCacheEnabled(env) ? 'on (30-day TTL)' : 'off'}
+<b>Rows with dedup key:</b> ${withKey}
+<b>Rows missing a key:</b> ${missing}${missing > 0 ? '\n\n<i>Fill them in: /dedup backfill</i>' : ''}
+<b>AI verdicts:</b> ${env.DEDUP_AI_MIN_SIMILARITY ? `similarity ≥ ${env.DEDUP_AI_MIN_SIMILARITY} (/dedup verdicts)` : 'off'}`;
+}
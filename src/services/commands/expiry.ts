@@ -0,0 +1,42 @@
+/**
+ * Telegram /expiry command handlers.
+ * Views and sets what happens to posts whose deadline passed, and runs the sweep on demand.
+ */
+
+import type { Env } from '../../types';
+import { getExpiryAction, sweepExpiredJobs, formatExpirySweep, isExpiryAction, EXPIRY_SETTING_KEY } from '../expiry';
+import { setSetting } from '../storage';
+
+const ACTION_LABELS = {
+  none: 'leave the post as is',
+  edit: 'add an "انتهى التقديم" banner',
+  delete: 'delete the post',
+};
+
+/**
+ * Main /expiry dispatcher.
+ * /expiry — show the current action; /expiry [none|edit|delete] — set it; /expiry sweep — run now.
+ */
+export async function handleExpiry(env: Env, args: string[]): Promise<string> {
+  if (args.length === 0) {
+    const action = await getExpiryAction(env);
+    return `⌛ <b>Expired Posts</b>
+
+<b>Action:</b> <code>${action}</code> — ${ACTION_LABELS[action]}
+Jobs are marked expired by the daily sweep once their deadline passes.
+
+<i>Set: /expiry [none|edit|delete]
+Run now: /expiry sweep</i>`;
+  }
+
+  if (args[0] === 'sweep') {
+    const result = await sweepExpiredJobs(env);
+    return result.expired > 0 ? formatExpirySweep(result) : `✅ No expired jobs (${result.checked} checked).`;
+  }
+
+  if (!isExpiryAction(args[0])) {
+    return '❌ Usage: /expiry [none|edit|delete|sweep]';
+  }
+  await setSetting(env, EXPIRY_SETTING_KEY, args[0]);
+  return `✅ Expired posts: <code>${args[0]}</code> — ${ACTION_LABELS[args[0]]}`;
+}
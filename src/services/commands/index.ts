@@ -8,12 +8,19 @@ import type { TelegramUpdate, ParsedCommand, CallbackQuery, InlineKeyboardMarkup
 import { sendTextMessage, sendMessageWithKeyboard, editMessageWithKeyboard, answerCallbackQuery } from '../telegram';
 import {
   handleJobsList, handleJobDetails, handleSearch, handleClear, handleStatus,
-  handleStats, handleRuns, handleModel,
+  handleStats, handleRuns, handleModel, handleForcePost,
   type CommandResult,
 } from './kv';
-import { handleTest, handleSourceList, handleSourceDebug, handleSourceToggle } from './pipeline';
+import { handleTest, handleSourceList, handleSourceDebug, handleSourceToggle, handleSourceAdd, handleSourceHealth, formatDryRunPreview } from './pipeline';
+import type { ProcessJobsResult } from '../pipeline';
 import { getSourcesFromDB } from '../storage';
 import { handlePrompt } from './prompt';
+import { handleRetries, handleRetryQueue, handleRetryNow, handleRetryDrop } from './retries';
+import { handleStages } from './stages';
+import { handleExpiry } from './expiry';
+import { handleCompany } from './company';
+import { handleDedup, handleDuplicateVerdicts, handleVerdictOverride } from './dedup';
+import { handleReconcile, handleReconcileScan, handleReconcileRepair } from './reconcile';
 
 // ============================================================================
 // Help menu with inline keyboard
@@ -29,21 +36,30 @@ const COMMANDS_HELP = `
 /job [id] - Job details
 /search [keyword] - Find jobs
 /runs - Pipeline run history
+/retries - Failed posts retry queue
 
 <b>Sources</b>
 /source - List all sources
 /source [name] - Debug a source
 /source enable [name] - Enable a source
 /source disable [name] - Disable a source
+/source add [json] - Define an RSS/scraper/API source
+/source health [name] - Source health and history
 
 <b>Actions</b>
 /run - Trigger job processing
+/run dry - Preview next run (no writes)
 /test - Test pipeline (no writes)
-/clear [id] - Remove from KV
+/clear [id] - Release a job from dedup
+/dedup - Dedup store, key backfill, AI verdicts
+/reconcile - Check KV/D1 consistency
 
 <b>Config</b>
 /model - View/set AI model
 /prompt - AI prompt configs
+/stages - Filter/transform stages
+/expiry - Expired post handling
+/company - Company names + aliases
 
 <i>Admin only.</i>
 `.trim();
@@ -74,12 +90,18 @@ export const BOT_COMMANDS = [
   { command: 'job', description: 'View job details' },
   { command: 'search', description: 'Find jobs by keyword' },
   { command: 'runs', description: 'Pipeline run history' },
+  { command: 'retries', description: 'Failed posts retry queue' },
   { command: 'source', description: 'List or debug sources' },
   { command: 'run', description: 'Trigger job processing' },
   { command: 'test', description: 'Test pipeline (no writes)' },
-  { command: 'clear', description: 'Remove job from KV' },
+  { command: 'clear', description: 'Release a job from dedup' },
+  { command: 'dedup', description: 'Dedup store, key backfill, AI verdicts' },
+  { command: 'reconcile', description: 'Check KV/D1 consistency' },
   { command: 'model', description: 'View/set AI model' },
   { command: 'prompt', description: 'AI prompt configs' },
+  { command: 'stages', description: 'Filter/transform stages' },
+  { command: 'expiry', description: 'Expired post handling' },
+  { command: 'company', description: 'Company names and aliases' },
 ];
 
 // ============================================================================
@@ -212,6 +234,31 @@ async function handleCallbackQuery(
     } else if (data.startsWith('src:')) {
       const sourceName = data.split(':')[1];
       text = await handleSourceDebug(sourceName, env);
+    } else if (data === 'retries') {
+      const result = await handleRetryQueue(env);
+      text = result.text;
+      keyboard = result.keyboard;
+    } else if (data.startsWith('retry:now:')) {
+      text = await handleRetryNow(env, data.substring('retry:now:'.length));
+    } else if (data.startsWith('retry:drop:')) {
+      text = await handleRetryDrop(env, data.substring('retry:drop:'.length));
+    } else if (data === 'verdicts') {
+      const result = await handleDuplicateVerdicts(env);
+      text = result.text;
+      keyboard = result.keyboard;
+    } else if (data.startsWith('verdict:')) {
+      const [, id, verdict] = data.split(':');
+      const result = await handleVerdictOverride(env, parseInt(id, 10), verdict);
+      text = typeof result === 'string' ? result : result.text;
+      keyboard = typeof result === 'string' ? undefined : result.keyboard;
+    } else if (data === 'reconcile') {
+      const result = await handleReconcileScan(env);
+      text = result.text;
+      keyboard = result.keyboard;
+    } else if (data === 'reconcile:repair') {
+      text = await handleReconcileRepair(env);
+    } else if (data.startsWith('force:')) {
+      text = await handleForcePost(env, data.substring('force:'.length));
     } else if (data === 'model') {
       text = await handleModel(env, []);
     } else if (data === 'test') {
@@ -254,7 +301,7 @@ export async function handleWebhook(
   update: TelegramUpdate,
   env: Env,
   ctx: ExecutionContext,
-  triggerProcessing: () => Promise<{ processed: number; posted: number; skipped: number; failed: number }>
+  triggerProcessing: (opts?: { dryRun?: boolean }) => Promise<ProcessJobsResult>
 ): Promise<Response> {
   // Handle callback queries (button presses)
   if (update.callback_query) {
@@ -324,20 +371,31 @@ export async function handleWebhook(
         response = await handleRuns(env);
         break;
 
+      case 'retries':
+        response = await handleRetries(env, args);
+        break;
+
       case 'model':
         response = await handleModel(env, args);
         break;
 
-      case 'run':
+      case 'run': {
+        const dryRun = args[0] === 'dry';
         await sendTextMessage(env.TELEGRAM_BOT_TOKEN, String(chatId),
-          '⏳ Processing started...');
+          dryRun ? '🧪 Dry run started...' : '⏳ Processing started...');
         try {
-          const result = await triggerProcessing();
-          response = `✅ <b>Processing Complete</b>\n\nProcessed: ${result.processed}\nPosted: ${result.posted}\nSkipped: ${result.skipped}\nFailed: ${result.failed}`;
+          const result = await triggerProcessing({ dryRun });
+          response = dryRun
+            ? formatDryRunPreview(result)
+            : result.skippedLocked
+            ? '🔒 Another run is in progress — skipped. Try again when it finishes.'
+            : `✅ <b>Processing Complete</b>\n\nProcessed: ${result.processed}\nPosted: ${result.posted}\nSkipped: ${result.skipped}\nFailed: ${result.failed}`
+              + (result.carriedOver ? `\n\n⏱️ Time budget reached — ${result.carriedOver} jobs carried over to the next run` : '');
         } catch (error) {
           response = `❌ Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
         }
         break;
+      }
 
       case 'test':
         ctx.waitUntil(handleTest(env, String(chatId), args[0]));
@@ -349,6 +407,10 @@ export async function handleWebhook(
           response = await handleSourceList(env);
         } else if ((args[0] === 'enable' || args[0] === 'disable') && args[1]) {
           response = await handleSourceToggle(env, args[0], args[1]);
+        } else if (args[0] === 'add') {
+          response = await handleSourceAdd(env, args.slice(1).join(' '));
+        } else if (args[0] === 'health') {
+          response = await handleSourceHealth(env, args[1]);
         } else {
           response = await handleSourceDebug(args[0], env);
         }
@@ -358,6 +420,26 @@ export async function handleWebhook(
         response = await handlePrompt(env, args);
         break;
 
+      case 'stages':
+        response = await handleStages(env, args);
+        break;
+
+      case 'expiry':
+        response = await handleExpiry(env, args);
+        break;
+
+      case 'company':
+        response = await handleCompany(env, args);
+        break;
+
+      case 'dedup':
+        response = await handleDedup(env, args);
+        break;
+
+      case 'reconcile':
+        response = await handleReconcile(env, args);
+        break;
+
       default:
         response = `❓ Unknown command: /${command}\n\nUse /help to see available commands.`;
     }
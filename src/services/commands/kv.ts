@@ -1,19 +1,21 @@
 /**
  * Data command handlers.
  * D1-based: /jobs, /job, /search, /status, /stats, /runs, /model.
- * KV-based: /clear (dedup layer).
+ * D1 + KV cache: /clear (dedup layer).
  */
 
-import type { Env, JobStatus } from '../../types';
+import type { Env, JobStatus, RunRecord } from '../../types';
 import type { InlineKeyboardMarkup } from '../../types/telegram';
 import {
   // D1 functions
-  listJobs, getJobFromDB, getDashboardStats,
+  listJobs, getJobFromDB, getDashboardStats, listJobRevisions,
   listRuns,
   getSetting, setSetting,
-  // KV functions (for /clear only)
-  deleteJobFromKV, deleteDedupKey, getPostedJobRecord,
+  // Dedup (D1 + KV cache, for /clear only)
+  clearJobDedup, deleteJobFromKV, deleteDedupKey, getPostedJobRecord,
 } from '../storage';
+import { describeDuplicateMatch, duplicateMatchFromRecord } from '../dedup';
+import { forcePostDuplicate } from '../pipeline';
 
 /** Command response with optional inline keyboard. */
 export interface CommandResult {
@@ -56,7 +58,7 @@ function jobsKeyboard(page: number, totalPages: number, filter?: string): Inline
  */
 export async function handleJobsList(env: Env, page = 1, statusFilter?: string): Promise<CommandResult> {
   const opts: { page: number; limit: number; status?: JobStatus } = { page, limit: 8 };
-  if (statusFilter && ['posted', 'failed', 'fetched', 'skipped', 'duplicate'].includes(statusFilter)) {
+  if (statusFilter && ['posted', 'failed', 'fetched', 'skipped', 'duplicate', 'dead', 'deferred', 'filtered', 'expired', 'cleared'].includes(statusFilter)) {
     opts.status = statusFilter as JobStatus;
   }
 
@@ -84,7 +86,7 @@ export async function handleJobsList(env: Env, page = 1, statusFilter?: string):
 /**
  * Handle /job <id> command — get full job details from D1.
  */
-export async function handleJobDetails(env: Env, jobId: string): Promise<string> {
+export async function handleJobDetails(env: Env, jobId: string): Promise<string | CommandResult> {
   const job = await getJobFromDB(env, jobId);
 
   if (!job) {
@@ -100,10 +102,24 @@ export async function handleJobDetails(env: Env, jobId: string): Promise<string>
   if (job.location) lines.push(`<b>Location:</b> ${job.location}`);
   lines.push(`<b>Source:</b> ${job.source}`);
   lines.push(`<b>Status:</b> ${job.status}`);
+  if (job.filtered_by) lines.push(`<b>Filtered by:</b> ${job.filtered_by} — ${job.filter_reason || 'no reason'}`);
+  const duplicate = duplicateMatchFromRecord(job);
+  if (duplicate) {
+    const label = job.status === 'duplicate' ? 'Duplicate' : 'Posted despite match';
+    lines.push(`<b>${label}:</b> ${describeDuplicateMatch(duplicate)}`);
+  }
+  if (job.repost_of) lines.push(`<b>Repost of:</b> <code>${job.repost_of}</code>`);
   if (job.category) lines.push(`<b>Category:</b> ${job.category}`);
   if (job.posted_at) lines.push(`<b>Posted:</b> ${job.posted_at}`);
   if (job.deadline) lines.push(`<b>Deadline:</b> ${job.deadline}`);
+  if (job.expired_at) lines.push(`<b>Expired:</b> ${job.expired_at}`);
   if (job.telegram_message_id) lines.push(`<b>Telegram Msg:</b> ${job.telegram_message_id}`);
+  const revisions = await listJobRevisions(env, job.id).catch(() => []);
+  if (revisions.length > 0) {
+    const last = revisions[0];
+    const fields = (JSON.parse(last.changed_fields) as string[]).join(', ');
+    lines.push(`<b>Revisions:</b> ${revisions.length} (last ${last.created_at.substring(0, 10)}: ${fields}${last.telegram_edited ? '' : ', post not edited'})`);
+  }
   if (job.word_count) lines.push(`<b>Word Count:</b> ${job.word_count}`);
   if (job.ai_summary_ar) {
     const summary = job.ai_summary_ar.length > 200
@@ -112,6 +128,12 @@ export async function handleJobDetails(env: Env, jobId: string): Promise<string>
     lines.push(`\n<b>AI Summary:</b>\n${summary}`);
   }
 
+  if (job.status === 'duplicate' && job.raw_payload) {
+    const keyboard: InlineKeyboardMarkup = {
+      inline_keyboard: [[{ text: '📤 Force post anyway', callback_data: `force:${job.id}` }]],
+    };
+    return { text: lines.join('\n'), keyboard };
+  }
   return lines.join('\n');
 }
 
@@ -139,27 +161,52 @@ export async function handleSearch(env: Env, keyword: string, page = 1): Promise
 }
 
 /**
- * Handle /clear <id|all> command — remove job + dedup key from KV.
+ * Handle /clear <id> command — release a job from dedup so it can be re-posted:
+ * D1 status → 'cleared', plus the job + dedup keys in the KV cache.
  */
 export async function handleClear(env: Env, target: string): Promise<string> {
-  const record = await getPostedJobRecord(env, target);
-  if (!record) {
-    return `❌ Job not found in KV: <code>${target}</code>`;
+  const [row, record] = await Promise.all([getJobFromDB(env, target), getPostedJobRecord(env, target)]);
+  if (!row && !record) {
+    return `❌ Job not found: <code>${target}</code>`;
   }
 
-  await deleteJobFromKV(env, target);
+  const lines = [`✅ Cleared job: <code>${target}</code>`];
+  if (row) {
+    const released = await clearJobDedup(env, target);
+    lines.push(released
+      ? `D1 status: ${row.status} → cleared`
+      : `<i>D1 status ${row.status} left as is (not a dedup status).</i>`);
+  }
 
-  let dedupCleared = false;
-  if (record.company) {
-    await deleteDedupKey(env, record.title, record.company);
-    dedupCleared = true;
+  await deleteJobFromKV(env, target);
+  const title = row?.title ?? record!.title;
+  const company = row?.company || record?.company;
+  if (company) {
+    await deleteDedupKey(env, title, company);
+    lines.push('Also cleared the KV cache (job + title+company key).');
+  } else {
+    lines.push('<i>No company stored — KV dedup key not cleared.</i>');
   }
 
-  const dedupNote = dedupCleared
-    ? '\nAlso cleared dedup key (title+company).'
-    : '\n<i>No company stored — dedup key not cleared (old record).</i>';
+  lines.push('', 'This job can now be re-posted.');
+  return lines.join('\n');
+}
 
-  return `✅ Cleared job from KV: <code>${target}</code>${dedupNote}\n\nThis job can now be re-posted.`;
+/**
+ * Handle "force post anyway" — post a job dedup skipped, bypassing dedup.
+ */
+export async function handleForcePost(env: Env, jobId: string): Promise<string> {
+  const outcome = await forcePostDuplicate(env, jobId);
+  if (outcome === null) {
+    return `❌ Not a duplicate with a stored payload: <code>${jobId}</code>`;
+  }
+  if (outcome === 'locked') {
+    return '🔒 A run is in progress — try again when it finishes.';
+  }
+  if (outcome === 'posted') {
+    return `✅ Force-posted: <code>${jobId}</code>`;
+  }
+  return `⚠️ Post failed — <code>${jobId}</code> moved to the retry queue (/retries).`;
 }
 
 /**
@@ -196,7 +243,7 @@ export async function handleStats(env: Env): Promise<CommandResult> {
   // By status
   lines.push('<b>By Status:</b>');
   for (const [status, count] of Object.entries(stats.byStatus)) {
-    const icon = status === 'posted' ? '✅' : status === 'failed' ? '❌' : status === 'fetched' ? '📥' : '⏭️';
+    const icon = status === 'posted' ? '✅' : status === 'failed' ? '❌' : status === 'fetched' ? '📥' : status === 'dead' ? '💀' : status === 'deferred' ? '⏳' : status === 'filtered' ? '🚫' : status === 'expired' ? '⌛' : status === 'cleared' ? '♻️' : '⏭️';
     lines.push(`  ${icon} ${status}: ${count}`);
   }
 
@@ -206,11 +253,19 @@ export async function handleStats(env: Env): Promise<CommandResult> {
     lines.push(`  📡 ${source}: ${count}`);
   }
 
+  // Deferred backlog (fair-share overflow waiting for the next run)
+  if (stats.backlog.length > 0) {
+    lines.push('\n<b>Backlog:</b>');
+    for (const { source, count } of stats.backlog) {
+      lines.push(`  ⏳ ${source}: ${count}`);
+    }
+  }
+
   // Recent runs
   if (stats.recentRuns.length > 0) {
     lines.push('\n<b>Recent Runs:</b>');
     for (const run of stats.recentRuns.slice(0, 3)) {
-      const icon = run.status === 'completed' ? '✅' : run.status === 'failed' ? '❌' : '⏳';
+      const icon = runStatusIcon(run.status);
       const time = run.started_at.substring(11, 16); // HH:MM
       lines.push(`  ${icon} ${time} — ${run.jobs_posted}p/${run.jobs_skipped}s/${run.jobs_failed}f (${run.trigger_type})`);
     }
@@ -222,6 +277,16 @@ export async function handleStats(env: Env): Promise<CommandResult> {
   return { text: lines.join('\n'), keyboard };
 }
 
+function runStatusIcon(status: RunRecord['status']): string {
+  switch (status) {
+    case 'completed': return '✅';
+    case 'partial': return '⏱️';
+    case 'failed': return '❌';
+    case 'skipped_locked': return '🔒';
+    default: return '⏳';
+  }
+}
+
 /**
  * Handle /runs command — pipeline run history from D1.
  */
@@ -234,12 +299,19 @@ export async function handleRuns(env: Env, page = 1): Promise<CommandResult> {
 
   const lines = ['🔄 <b>Pipeline Runs</b>\n'];
   for (const run of result.data) {
-    const icon = run.status === 'completed' ? '✅' : run.status === 'failed' ? '❌' : '⏳';
+    const icon = runStatusIcon(run.status);
     const date = run.started_at.substring(0, 10);
     const time = run.started_at.substring(11, 16);
     lines.push(`${icon} <b>#${run.id}</b> ${date} ${time}`);
     lines.push(`  ${run.trigger_type} — ${run.jobs_posted} posted, ${run.jobs_skipped} skipped, ${run.jobs_failed} failed`);
     if (run.error) lines.push(`  ❌ ${run.error.substring(0, 60)}`);
+    if (run.resumed_from) lines.push(`  ↪️ resumed run #${run.resumed_from}`);
+    if (run.status === 'partial') {
+      const resumedBy = result.data.find(r => r.resumed_from === run.id);
+      let count = 0;
+      try { count = run.checkpoint ? (JSON.parse(run.checkpoint) as string[]).length : 0; } catch { /* malformed */ }
+      lines.push(`  ⏱️ time budget reached, ${count} jobs carried over${resumedBy ? ` → run #${resumedBy.id}` : ''}`);
+    }
     lines.push('');
   }
 
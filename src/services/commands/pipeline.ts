@@ -5,12 +5,21 @@
 import type { Env } from '../../types';
 import type { InlineKeyboardMarkup } from '../../types/telegram';
 import { sendTextMessage, sendPhotoMessage, sendMessageWithId, editMessageText } from '../telegram';
-import { getAllSources, getEnabledSources, getSource, getSourceEntries } from '../sources/registry';
-import { getSourcesFromDB, updateSourceInDB } from '../storage';
+import { getAllSourcesFromDB, getEnabledSourcesFromDB, getSourceEntries, createRuntimeSource } from '../sources/registry';
+import {
+  getSourcesFromDB, updateSourceInDB, getSourceHealthChecks, getLatestSourceHealthChecks, getLastPostedAtBySource,
+} from '../storage';
 import { summarizeJob } from '../ai';
-import { formatTelegramMessage } from '../../utils/format';
+import { formatTelegramMessage, escapeHtml } from '../../utils/format';
+import { describeRepostPolicy, DEFAULT_REPOST_AFTER_DAYS } from '../repost';
+import { formatSourceHealthOverview, formatSourceHealthHistory } from '../source-health';
+import type { ProcessJobsResult } from '../pipeline';
 import type { CommandResult } from './kv';
 
+const DRY_RUN_ICONS: Record<string, string> = {
+  new: '✅', retry: '🔁', updated: '✏️', duplicate: '♻️', filtered: '🚫', error: '❌',
+};
+
 /**
  * Handle /test command - process 1 job from each source through full pipeline.
  * Uses the plugin architecture: fetch → process → summarize → format → post.
@@ -21,7 +30,7 @@ import type { CommandResult } from './kv';
  */
 export async function handleTest(env: Env, adminChatId: string, sourceName?: string): Promise<void> {
   // Default to enabled sources only; allow any source when explicitly named
-  const allPlugins = getAllSources();
+  const allPlugins = await getAllSourcesFromDB(env);
 
   if (sourceName) {
     const validNames = allPlugins.map(p => p.name) as string[];
@@ -34,7 +43,7 @@ export async function handleTest(env: Env, adminChatId: string, sourceName?: str
 
   const plugins = sourceName
     ? allPlugins.filter(p => p.name === sourceName)
-    : getEnabledSources();
+    : await getEnabledSourcesFromDB(env);
 
   // Track status per source: null = pending, string = result line
   const statuses: Map<string, string | null> = new Map();
@@ -115,6 +124,40 @@ export async function handleTest(env: Env, adminChatId: string, sourceName?: str
   await updateProgress('🧪 <b>Test Complete</b>', '<i>No KV writes were made.</i>');
 }
 
+/**
+ * Format a dry-run result for /run dry.
+ * Lists jobs that would be posted, retried, deduped, or fail; counts the rest.
+ */
+export function formatDryRunPreview(result: ProcessJobsResult): string {
+  const preview = result.preview || [];
+  const alreadyPosted = preview.filter(e => e.decision === 'already_posted').length;
+  const deferred = preview.filter(e => e.decision === 'deferred').length;
+  const listed = preview.filter(e => e.decision !== 'already_posted' && e.decision !== 'deferred');
+
+  const lines = ['🧪 <b>Dry Run</b> — nothing was posted or saved\n'];
+  lines.push(`Would post: ${result.posted} · skip: ${result.skipped} · fail: ${result.failed}`);
+  lines.push(`Already posted: ${alreadyPosted} · deferred to backlog: ${deferred}\n`);
+
+  for (const entry of listed.slice(0, 20)) {
+    const reason = entry.decision === 'error' ? ` — ${escapeHtml(entry.error || 'Unknown error')}`
+      : entry.filter ? ` — ${entry.filter.stage}: ${escapeHtml(entry.filter.reason)}`
+      : entry.changes ? ` — changed: ${entry.changes.join(', ')}`
+      : entry.duplicateOf ? ` — dup of ${escapeHtml(entry.duplicateOf)}`
+      : entry.repostOf ? ` — repost of ${escapeHtml(entry.repostOf)}`
+      : entry.mergedFrom?.length ? ` — merged ${escapeHtml(entry.mergedFrom.join(', '))}`
+      : '';
+    lines.push(`${DRY_RUN_ICONS[entry.decision]} ${entry.source}: ${escapeHtml(entry.title)}${reason}`);
+  }
+  if (listed.length > 20) {
+    lines.push(`<i>...and ${listed.length - 20} more</i>`);
+  }
+  if (listed.length === 0) {
+    lines.push('<i>Nothing new to post.</i>');
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Handle /source with no args — list all sources with D1 metadata + buttons.
  */
@@ -126,9 +169,14 @@ export async function handleSourceList(env: Env): Promise<CommandResult> {
     let row: Array<{ text: string; callback_data: string }> = [];
 
     for (const s of dbSources) {
-      const icon = s.enabled ? '✅' : '⏸️';
-      lines.push(`${icon} <b>${s.display_name}</b> (<code>${s.id}</code>)`);
-      lines.push(`  ${s.type} · ${s.cron_schedule}`);
+      const icon = s.enabled ? '✅' : s.quarantined_at ? '🚫' : '⏸️';
+      lines.push(`${icon} <b>${s.display_name}</b> (<code>${s.id}</code>)${s.quarantined_at ? ' — quarantined' : ''}`);
+      lines.push(`  ${s.type}${s.config ? ' (runtime)' : ''} · ${s.cron_schedule}`);
+      lines.push(`  ⚖️ weight ${s.quota_weight ?? 1} · min ${s.min_per_run ?? 0} · max ${s.max_per_run ?? '∞'}`);
+      lines.push(`  🔁 repost: ${describeRepostPolicy({
+        mode: s.repost_policy ?? 'never',
+        afterDays: s.repost_after_days ?? DEFAULT_REPOST_AFTER_DAYS,
+      })} · merge rank ${s.merge_rank ?? '—'}`);
 
       // Debug button + toggle button per source
       const toggleLabel = s.enabled ? `⏸️ ${s.id}` : `▶️ ${s.id}`;
@@ -155,15 +203,14 @@ export async function handleSourceList(env: Env): Promise<CommandResult> {
  */
 export async function handleSourceDebug(sourceName: string, env: Env): Promise<string> {
   // Validate source name against registry
-  const allPlugins = getAllSources();
-  const validNames = allPlugins.map(p => p.name) as string[];
+  const allPlugins = await getAllSourcesFromDB(env);
+  const plugin = allPlugins.find(p => p.name === sourceName);
 
-  if (!validNames.includes(sourceName)) {
-    return `❌ Unknown source: <code>${sourceName}</code>\n\nAvailable: ${validNames.map(n => `<code>${n}</code>`).join(', ')}`;
+  if (!plugin) {
+    return `❌ Unknown source: <code>${sourceName}</code>\n\nAvailable: ${allPlugins.map(p => `<code>${p.name}</code>`).join(', ')}`;
   }
 
   try {
-    const plugin = getSource(sourceName);
     const jobs = await plugin.fetchJobs(env);
 
     if (jobs.length === 0) {
@@ -190,11 +237,28 @@ export async function handleSourceDebug(sourceName: string, env: Env): Promise<s
   }
 }
 
+/**
+ * Handle /source health [name] — every source's latest health, or one source's history.
+ */
+export async function handleSourceHealth(env: Env, sourceName?: string): Promise<string> {
+  const [sources, lastPosted] = await Promise.all([getSourcesFromDB(env), getLastPostedAtBySource(env)]);
+
+  if (!sourceName) {
+    return formatSourceHealthOverview(sources, await getLatestSourceHealthChecks(env), lastPosted);
+  }
+
+  const source = sources.find(s => s.id === sourceName);
+  if (!source) {
+    return `❌ Unknown source: <code>${escapeHtml(sourceName)}</code>\n\nAvailable: ${sources.map(s => `<code>${s.id}</code>`).join(', ')}`;
+  }
+  return formatSourceHealthHistory(source, await getSourceHealthChecks(env, source.id, 15), lastPosted.get(source.id));
+}
+
 /**
  * Handle /source enable|disable <name> — toggle source enabled state in D1.
  */
 export async function handleSourceToggle(env: Env, action: 'enable' | 'disable', sourceName: string): Promise<string> {
-  const allPlugins = getAllSources();
+  const allPlugins = await getAllSourcesFromDB(env);
   const validNames = allPlugins.map(p => p.name) as string[];
 
   if (!validNames.includes(sourceName)) {
@@ -211,3 +275,29 @@ export async function handleSourceToggle(env: Env, action: 'enable' | 'disable',
   const icon = action === 'enable' ? '✅' : '⏸️';
   return `${icon} Source <code>${sourceName}</code> ${action}d.\n\n<i>Takes effect on next cron run.</i>`;
 }
+
+/**
+ * Handle /source add <json> — define an RSS or scraper source at runtime (see sources/runtime.ts).
+ * The source starts disabled; check it with /source <id>, then /source enable <id>.
+ */
+export async function handleSourceAdd(env: Env, json: string): Promise<string> {
+  let input: unknown;
+  try {
+    // Some Telegram clients turn straight quotes into curly ones
+    input = JSON.parse(json.replace(/[“”]/g, '"'));
+  } catch {
+    input = null;
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return `❌ Usage: /source add {"id": "...", "type": "rss|scraper", "display_name": "...", "hashtag": "#...", "base_url": "https://...", "feed_url": "...", "config": {...}}`;
+  }
+
+  const result = await createRuntimeSource(env, input as Record<string, unknown>);
+  if ('error' in result) return `❌ ${escapeHtml(result.error)}`;
+
+  const { source } = result;
+  return `✅ Source <code>${source.id}</code> added (${source.type}, ${source.enabled ? 'enabled' : 'disabled'}).
+
+<i>Check it: /source ${source.id}
+Enable it: /source enable ${source.id}</i>`;
+}
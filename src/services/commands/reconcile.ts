@@ -0,0 +1,39 @@
+/**
+ * Telegram /reconcile command handlers.
+ * Scans KV and D1 for disagreements and repairs them once the admin confirms.
+ */
+
+import type { Env } from '../../types';
+import {
+  scanConsistency, repairConsistency, countInconsistencies,
+  formatReconcileReport, formatReconcileRepair, RECONCILE_KEYBOARD,
+} from '../reconcile';
+import type { CommandResult } from './kv';
+
+/**
+ * Main /reconcile dispatcher.
+ * /reconcile — scan and report (with a repair button); /reconcile repair — scan and repair.
+ */
+export async function handleReconcile(env: Env, args: string[]): Promise<string | CommandResult> {
+  if (args.length === 0) return handleReconcileScan(env);
+  if (args[0] === 'repair') return handleReconcileRepair(env);
+  return '❌ Usage: /reconcile [repair]';
+}
+
+/**
+ * Scan and report; the repair button is only offered when something disagrees.
+ */
+export async function handleReconcileScan(env: Env): Promise<CommandResult> {
+  const report = await scanConsistency(env);
+  const text = formatReconcileReport(report);
+  return countInconsistencies(report) > 0 ? { text, keyboard: RECONCILE_KEYBOARD } : { text };
+}
+
+/**
+ * Rescan and repair — the repair acts on what is inconsistent now, not on an older report.
+ */
+export async function handleReconcileRepair(env: Env): Promise<string> {
+  const report = await scanConsistency(env);
+  if (countInconsistencies(report) === 0) return '✅ KV and D1 agree — nothing to repair.';
+  return formatReconcileRepair(await repairConsistency(env, report));
+}
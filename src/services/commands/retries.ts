@@ -0,0 +1,98 @@
+/**
+ * Retry queue command handlers (/retries).
+ * Lists failed job posts with "retry now" / "give up" buttons.
+ */
+
+import type { Env } from '../../types';
+import type { InlineKeyboardButton, InlineKeyboardMarkup } from '../../types/telegram';
+import { listRetryQueue, giveUpRetry } from '../storage';
+import { retryJobById } from '../pipeline';
+import { MAX_RETRY_ATTEMPTS } from '../retry';
+import { escapeHtml } from '../../utils/format';
+import type { CommandResult } from './kv';
+
+// Telegram rejects callback_data longer than 64 bytes
+const MAX_CALLBACK_BYTES = 64;
+
+function retryButtons(jobId: string, index: number): InlineKeyboardButton[] {
+  const now = `retry:now:${jobId}`;
+  const drop = `retry:drop:${jobId}`;
+  if (new TextEncoder().encode(drop).length > MAX_CALLBACK_BYTES) return [];
+  return [
+    { text: `🔁 #${index} Retry now`, callback_data: now },
+    { text: `🗑 #${index} Give up`, callback_data: drop },
+  ];
+}
+
+/**
+ * Handle /retries — list the retry queue with per-job action buttons.
+ */
+export async function handleRetryQueue(env: Env): Promise<CommandResult> {
+  const { jobs, total } = await listRetryQueue(env, 8);
+
+  if (jobs.length === 0) {
+    return { text: '✅ Retry queue is empty.' };
+  }
+
+  const lines = [`🔁 <b>Retry Queue</b> (${total})\n`];
+  const rows: InlineKeyboardButton[][] = [];
+
+  jobs.forEach((job, i) => {
+    const index = i + 1;
+    lines.push(`<b>#${index}</b> <code>${job.id}</code>`);
+    lines.push(`  ${escapeHtml(job.title)}`);
+    lines.push(`  📡 ${job.source} · attempt ${job.retry_count || 0}/${MAX_RETRY_ATTEMPTS}`);
+    if (job.next_attempt_at) lines.push(`  ⏰ next: ${job.next_attempt_at.substring(0, 16).replace('T', ' ')}`);
+    if (job.last_error) lines.push(`  ❌ ${escapeHtml(job.last_error.substring(0, 80))}`);
+    lines.push('');
+
+    const buttons = retryButtons(job.id, index);
+    if (buttons.length > 0) rows.push(buttons);
+  });
+
+  lines.push('<i>Buttons missing? Use /retries now [id] or /retries drop [id].</i>');
+  const keyboard: InlineKeyboardMarkup = {
+    inline_keyboard: [...rows, [{ text: '🔄 Refresh', callback_data: 'retries' }]],
+  };
+  return { text: lines.join('\n'), keyboard };
+}
+
+/**
+ * Handle "retry now" — post the job immediately, bypassing backoff.
+ */
+export async function handleRetryNow(env: Env, jobId: string): Promise<string> {
+  const outcome = await retryJobById(env, jobId);
+  if (outcome === null) {
+    return `❌ Not in retry queue: <code>${jobId}</code>`;
+  }
+  if (outcome === 'locked') {
+    return '🔒 A run is in progress — try again when it finishes.';
+  }
+  if (outcome === 'posted') {
+    return `✅ Posted: <code>${jobId}</code>`;
+  }
+  if (outcome === 'dead') {
+    return `💀 Retry failed — <code>${jobId}</code> reached the retry cap and was marked dead.`;
+  }
+  return `⚠️ Retry failed — <code>${jobId}</code> stays queued with backoff.`;
+}
+
+/**
+ * Handle "give up" — mark the job dead and drop it from the queue.
+ */
+export async function handleRetryDrop(env: Env, jobId: string): Promise<string> {
+  const dropped = await giveUpRetry(env, jobId);
+  return dropped
+    ? `🗑 Gave up on <code>${jobId}</code> (marked dead).`
+    : `❌ Not in retry queue: <code>${jobId}</code>`;
+}
+
+/**
+ * Main /retries dispatcher.
+ */
+export async function handleRetries(env: Env, args: string[]): Promise<string | CommandResult> {
+  if (args.length === 0) return handleRetryQueue(env);
+  if (args[0] === 'now' && args[1]) return handleRetryNow(env, args[1]);
+  if (args[0] === 'drop' && args[1]) return handleRetryDrop(env, args[1]);
+  return '❌ Usage: /retries [now|drop] [id]';
+}
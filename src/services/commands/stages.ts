@@ -0,0 +1,83 @@
+/**
+ * Telegram /stages command handlers.
+ * Views and edits the filter/transform stage pipeline stored in D1 settings.
+ */
+
+import type { Env } from '../../types';
+import {
+  getRegisteredStages, isStageName, stageConfigKey, loadStages, validateStageConfig, STAGES_SETTING_KEY,
+} from '../stages';
+import { setSetting } from '../storage';
+import { escapeHtml } from '../../utils/format';
+
+async function handleList(env: Env): Promise<string> {
+  const active = await loadStages(env);
+  const lines = ['🧩 <b>Pipeline Stages</b>\n'];
+
+  if (active.length === 0) {
+    lines.push('<i>No stages active — every job goes straight to AI + post.</i>\n');
+  } else {
+    lines.push('<b>Active (in order):</b>');
+    active.forEach(({ name, config }, i) => {
+      lines.push(`${i + 1}. <b>${name}</b>`);
+      lines.push(`   <code>${escapeHtml(JSON.stringify(config)).substring(0, 200)}</code>`);
+    });
+    lines.push('');
+  }
+
+  const activeNames = new Set(active.map(s => s.name));
+  const available = getRegisteredStages().filter(s => !activeNames.has(s.name));
+  if (available.length > 0) {
+    lines.push('<b>Available:</b>');
+    for (const stage of available) {
+      lines.push(`• <code>${stage.name}</code> (${stage.kind}) — ${stage.description}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('<i>/stages order [a,b,c|none]</i>');
+  lines.push('<i>/stages set [name] [json]</i>');
+  return lines.join('\n');
+}
+
+async function handleOrder(env: Env, value: string): Promise<string> {
+  const names = value === 'none' ? [] : value.split(',').map(n => n.trim()).filter(Boolean);
+  const unknown = names.filter(n => !isStageName(n));
+  if (unknown.length > 0) {
+    const valid = getRegisteredStages().map(s => s.name).join(', ');
+    return `❌ Unknown stage: ${unknown.join(', ')}\nValid stages: ${valid}`;
+  }
+
+  await setSetting(env, STAGES_SETTING_KEY, JSON.stringify(names));
+  return names.length > 0
+    ? `✅ Stage order: ${names.join(' → ')}`
+    : '✅ All stages disabled.';
+}
+
+async function handleSet(env: Env, name: string, json: string): Promise<string> {
+  if (!isStageName(name)) {
+    return `❌ Unknown stage: ${name}`;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch {
+    return '❌ Config must be valid JSON, e.g. {"keywords": ["volunteer"]}';
+  }
+  const invalid = validateStageConfig(name, config);
+  if (invalid) return `❌ ${escapeHtml(invalid)}`;
+
+  await setSetting(env, stageConfigKey(name), JSON.stringify(config));
+  return `✅ Updated config for <b>${name}</b>`;
+}
+
+/**
+ * Main /stages command dispatcher.
+ */
+export async function handleStages(env: Env, args: string[]): Promise<string> {
+  if (args.length === 0) return handleList(env);
+  if (args[0] === 'order' && args[1]) return handleOrder(env, args.slice(1).join(''));
+  if (args[0] === 'set' && args[1] && args[2]) return handleSet(env, args[1], args.slice(2).join(' '));
+  return '❌ Usage: /stages [order a,b,c|none] or /stages set [name] [json]';
+}
@@ -0,0 +1,82 @@
+/**
+ * Company alias registry — maps the many spellings of an employer to one record.
+ *
+ * Aliases are matched on companyKey() (the fuzzy-dedup tokens), so case,
+ * punctuation, legal suffixes and Arabic spelling variants don't need their
+ * own alias. A company's canonical names always match it.
+ */
+
+import type { Env, CompanyRecord, CompanyAliasRecord, ProcessedJob } from '../types';
+import { companyKey } from './dedup';
+import { getCompanies, getCompanyAliases } from './storage';
+
+export interface CompanyResolver {
+  /** The company a name belongs to, or null when no alias matches */
+  resolve(name: string): CompanyRecord | null;
+  readonly size: number;
+}
+
+/**
+ * Display name for a company: English when set, otherwise Arabic.
+ */
+export function canonicalCompanyName(company: CompanyRecord): string {
+  return company.name_en || company.name_ar || '';
+}
+
+/**
+ * Build a resolver from D1 rows.
+ */
+export function createCompanyResolver(
+  companies: CompanyRecord[],
+  aliases: CompanyAliasRecord[]
+): CompanyResolver {
+  const byId = new Map(companies.map(c => [c.id, c]));
+  const byKey = new Map<string, CompanyRecord>();
+
+  for (const alias of aliases) {
+    const company = byId.get(alias.company_id);
+    if (company) byKey.set(alias.alias_key, company);
+  }
+  for (const company of companies) {
+    for (const name of [company.name_en, company.name_ar]) {
+      const key = name ? companyKey(name) : '';
+      if (key && !byKey.has(key)) byKey.set(key, company);
+    }
+  }
+
+  return {
+    resolve(name) {
+      const key = companyKey(name);
+      return key ? byKey.get(key) ?? null : null;
+    },
+    get size() {
+      return byId.size;
+    },
+  };
+}
+
+/**
+ * Load the registry from D1. Returns an empty resolver when it can't be read,
+ * so runs keep going with the names as scraped.
+ */
+export async function loadCompanyResolver(env: Env): Promise<CompanyResolver> {
+  try {
+    const [companies, aliases] = await Promise.all([getCompanies(env), getCompanyAliases(env)]);
+    return createCompanyResolver(companies, aliases);
+  } catch (error) {
+    console.error('Failed to load company registry:', error);
+    return createCompanyResolver([], []);
+  }
+}
+
+/**
+ * Rewrite a processed job's company to its canonical name, and use the company
+ * logo when the job has no image. Returns the matched company, if any.
+ */
+export function applyCompany(resolver: CompanyResolver, job: ProcessedJob): CompanyRecord | null {
+  const company = job.company ? resolver.resolve(job.company) : null;
+  if (!company) return null;
+  job.company = canonicalCompanyName(company) || job.company;
+  if (!job.imageUrl && company.logo_url) job.imageUrl = company.logo_url;
+  return company;
+}
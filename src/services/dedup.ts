@@ -1,8 +1,15 @@
 /**
  * Cross-source deduplication service.
  * Prevents posting the same job from different sources (Yemen HR vs EOI).
+ *
+ * Two layers: an exact title+company key (D1, cached in KV), and a fuzzy match against
+ * recent postings — token similarity after Arabic letter normalization and
+ * English abbreviation expansion, so "Sr. Finance Officer – Aden" at
+ * "مؤسسة" matches "Senior Finance Officer" at "موسسة".
  */
 
+import type { DuplicateMatch, JobRecord } from '../types';
+
 /**
  * Normalize a string for comparison.
  * Lowercases, removes punctuation, and collapses whitespace.
@@ -34,3 +41,193 @@ export function areJobsDuplicates(
 ): boolean {
   return normalizeJobKey(job1.title, job1.company) === normalizeJobKey(job2.title, job2.company);
 }
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+/** English abbreviations and spelling variants seen in job titles, mapped to one form */
+const ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior', snr: 'senior', jr: 'junior', jnr: 'junior',
+  asst: 'assistant', assoc: 'associate', coord: 'coordinator',
+  mgr: 'manager', mgmt: 'management', dir: 'director', exec: 'executive',
+  dept: 'department', ops: 'operations', eng: 'engineer', engr: 'engineer',
+  tech: 'technical', dev: 'development', fin: 'finance', prog: 'program',
+  programme: 'program', intl: 'international', org: 'organization',
+  organisation: 'organization',
+};
+
+/** Filler words that don't tell two postings apart */
+const STOPWORDS = new Set(['and', 'of', 'the', 'for', 'in', 'at', 'to', 'with', 'on', 'في', 'من', 'الى', 'علي', 'عن']);
+
+/** Legal-form words dropped from company names */
+const COMPANY_NOISE = new Set(['inc', 'ltd', 'llc', 'co', 'international']);
+
+/**
+ * Fold Arabic spelling variants: strip diacritics and tatweel, unify
+ * alef/hamza forms, alef maqsura → ya, ta marbuta → ha.
+ */
+export function normalizeArabic(str: string): string {
+  return str
+    .replace(/[\u064B-\u065F\u0670]/g, '') // Harakat, tanween, superscript alef
+    .replace(/\u0640/g, '') // Tatweel
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/ء/g, '')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه');
+}
+
+/**
+ * Split a title or company name into comparable tokens.
+ */
+export function matchTokens(str: string, kind: 'title' | 'company' = 'title'): string[] {
+  const tokens = normalizeArabic(str.toLowerCase())
+    .replace(/['’]s\b/g, '') // Possessives: "Children's" → "children"
+    .split(/[^\w\u0600-\u06FF]+/)
+    .map(token => ABBREVIATIONS[token] ?? token)
+    // Arabic definite article: "المنظمه" and "منظمه" are the same word
+    .map(token => /^ال[\u0600-\u06FF]{3,}$/.test(token) ? token.slice(2) : token)
+    .filter(token => token && !STOPWORDS.has(token));
+  return kind === 'company' ? tokens.filter(token => !COMPANY_NOISE.has(token)) : tokens;
+}
+
+/**
+ * Lookup key for a company name: its match tokens joined, so "Save the Children International"
+ * and "save the children" share a key.
+ */
+export function companyKey(name: string): string {
+  return matchTokens(name, 'company').join(' ');
+}
+
+/**
+ * Dice coefficient of two token sets (1 = same tokens, 0 = nothing shared).
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  for (const token of setA) {
+    if (setB.has(token)) shared++;
+  }
+  return (2 * shared) / (setA.size + setB.size);
+}
+
+interface MatchTokens {
+  title: string[];
+  company: string[];
+}
+
+function jobTokens(job: { title: string; company: string }): MatchTokens {
+  return { title: matchTokens(job.title), company: matchTokens(job.company || '', 'company') };
+}
+
+function tokensSimilarity(a: MatchTokens, b: MatchTokens): number {
+  // Both the title and the employer have to agree — the weaker of the two decides
+  return Math.min(tokenSimilarity(a.title, b.title), tokenSimilarity(a.company, b.company));
+}
+
+/**
+ * Similarity of two jobs by title and company (0–1).
+ */
+export function jobSimilarity(
+  job1: { title: string; company: string },
+  job2: { title: string; company: string }
+): number {
+  return tokensSimilarity(jobTokens(job1), jobTokens(job2));
+}
+
+export interface PostingRef {
+  id: string;
+  title: string;
+  company: string;
+  source?: string;
+}
+
+export interface FuzzyMatch {
+  job: PostingRef;
+  score: number;
+}
+
+export interface PostingIndex {
+  add(job: PostingRef): void;
+  findMatch(job: { title: string; company: string }, minScore?: number): FuzzyMatch | null;
+  readonly size: number;
+}
+
+/**
+ * In-memory index of recent postings for fuzzy duplicate lookups.
+ * `findMatch` returns the most similar posting at or above `threshold`
+ * (or `minScore`, for borderline lookups).
+ */
+export function createPostingIndex(
+  postings: PostingRef[] = [],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): PostingIndex {
+  const entries: Array<{ job: PostingRef; tokens: MatchTokens }> = [];
+
+  const index: PostingIndex = {
+    add(job) {
+      entries.push({ job, tokens: jobTokens(job) });
+    },
+    findMatch(job, minScore = threshold) {
+      const tokens = jobTokens(job);
+      let best: FuzzyMatch | null = null;
+      for (const entry of entries) {
+        const score = tokensSimilarity(tokens, entry.tokens);
+        if (score >= minScore && (!best || score > best.score)) {
+          best = { job: entry.job, score };
+        }
+      }
+      return best;
+    },
+    get size() {
+      return entries.length;
+    },
+  };
+
+  for (const posting of postings) index.add(posting);
+  return index;
+}
+
+/**
+ * Parse a similarity threshold setting, falling back to the default for
+ * missing or out-of-range values.
+ */
+export function parseSimilarityThreshold(value: string | undefined): number {
+  const threshold = value ? parseFloat(value) : NaN;
+  return threshold > 0 && threshold <= 1 ? threshold : DEFAULT_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Order-independent key for a pair of job IDs (duplicate_verdicts.pair_key).
+ */
+export function verdictPairKey(jobId: string, otherJobId: string): string {
+  return [jobId, otherJobId].sort().join('|');
+}
+
+/**
+ * One-line description of a duplicate match, for logs and /job.
+ */
+export function describeDuplicateMatch(match: DuplicateMatch): string {
+  const target = match.jobId
+    ? `${match.jobId}${match.source ? ` (${match.source})` : ''}`
+    : 'a cached posting (no job ID recorded)';
+  if (match.reason === 'fuzzy') return `similar to ${target}, score ${match.score.toFixed(2)}`;
+  if (match.reason === 'ai') return `judged the same vacancy as ${target} (AI, score ${match.score.toFixed(2)})`;
+  return `same title+company as ${target}`;
+}
+
+/**
+ * The duplicate match stored on a D1 job row, if any.
+ */
+export function duplicateMatchFromRecord(row: JobRecord): DuplicateMatch | null {
+  if (!row.duplicate_reason) return null;
+  return {
+    jobId: row.duplicate_of,
+    source: row.duplicate_of_source,
+    reason: row.duplicate_reason,
+    score: row.duplicate_score ?? 1,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Deadline expiry sweep — runs daily (cron 0 3 * * *).
+ *
+ * Posted and retry-queued jobs whose deadline has passed get status 'expired'.
+ * What happens to the channel post is the admin setting `expired-posts`:
+ * 'none' leaves it, 'edit' rebuilds it with an "انتهى التقديم" banner on top,
+ * 'delete' removes it (falling back to the banner edit if Telegram refuses).
+ */
+
+import type { Env, JobRecord } from '../types';
+import { editJobPost, deleteMessage, sendTextMessage } from './telegram';
+import { getSetting, getJobsWithDeadline, markJobExpired } from './storage';
+import { getHashtagsFromDB } from './sources/registry';
+import { parseDeadline } from './ai-format';
+import { creditHashtags, parseMergedSources } from './merge';
+import { formatTelegramMessage, delay } from '../utils/format';
+
+export const EXPIRY_SETTING_KEY = 'expired-posts';
+export const EXPIRED_BANNER = '⛔ انتهى التقديم';
+
+export const EXPIRY_ACTIONS = ['none', 'edit', 'delete'] as const;
+export type ExpiryAction = typeof EXPIRY_ACTIONS[number];
+
+const DEFAULT_EXPIRY_ACTION: ExpiryAction = 'edit';
+const MAX_POST_CHANGES_PER_SWEEP = 100; // Edits/deletes per sweep; the rest wait for the next day
+
+export interface ExpirySweepResult {
+  action: ExpiryAction;
+  checked: number;
+  expired: number;
+  edited: number;
+  deleted: number;
+  failed: number; // Post edits/deletes Telegram rejected (the job is still marked expired)
+}
+
+export function isExpiryAction(value: string): value is ExpiryAction {
+  return (EXPIRY_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Read the expired-post action from D1 settings (default: edit).
+ */
+export async function getExpiryAction(env: Env): Promise<ExpiryAction> {
+  try {
+    const value = await getSetting(env, EXPIRY_SETTING_KEY);
+    if (!value) return DEFAULT_EXPIRY_ACTION;
+    if (isExpiryAction(value)) return value;
+    console.error(`Invalid ${EXPIRY_SETTING_KEY} setting "${value}", using ${DEFAULT_EXPIRY_ACTION}`);
+  } catch (error) {
+    console.error(`Failed to read ${EXPIRY_SETTING_KEY} setting:`, error);
+  }
+  return DEFAULT_EXPIRY_ACTION;
+}
+
+/**
+ * Rebuild a posted job's message from its archived summary, with the expired banner on top.
+ * Returns false when there's no summary to rebuild from.
+ */
+async function editExpiredPost(env: Env, row: JobRecord, hashtag?: string): Promise<boolean> {
+  if (!row.ai_summary_ar || !row.telegram_message_id) return false;
+  const message = formatTelegramMessage(
+    `${EXPIRED_BANNER}\n\n${row.ai_summary_ar}`,
+    row.source_url || '',
+    row.image_url,
+    env.LINKEDIN_URL,
+    row.source,
+    row.category || undefined,
+    hashtag
+  );
+  return editJobPost(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, row.telegram_message_id, message);
+}
+
+/**
+ * Expire jobs whose deadline has passed and apply the configured post action.
+ * Jobs with unparseable deadlines are left alone.
+ */
+export async function sweepExpiredJobs(env: Env, now: Date = new Date()): Promise<ExpirySweepResult> {
+  const action = await getExpiryAction(env);
+  const rows = await getJobsWithDeadline(env);
+  const hashtags = action === 'none' ? {} : await getHashtagsFromDB(env);
+  const delayMs = parseInt(env.DELAY_BETWEEN_POSTS_MS || '1000', 10);
+  const result: ExpirySweepResult = { action, checked: rows.length, expired: 0, edited: 0, deleted: 0, failed: 0 };
+
+  const hashtagFor = (row: JobRecord) => creditHashtags(row.source, parseMergedSources(row.merged_sources), hashtags);
+
+  let postChanges = 0;
+  for (const row of rows) {
+    const deadline = parseDeadline(row.deadline || '');
+    if (!deadline || deadline.getTime() > now.getTime()) continue;
+
+    const hasPost = row.status === 'posted' && row.telegram_message_id !== null;
+    if (hasPost && action !== 'none') {
+      if (postChanges >= MAX_POST_CHANGES_PER_SWEEP) continue; // Left 'posted' for the next sweep
+      if (postChanges > 0) await delay(delayMs);
+      postChanges++;
+
+      if (action === 'delete' && await deleteMessage(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, row.telegram_message_id!)) {
+        result.deleted++;
+      } else if (await editExpiredPost(env, row, hashtagFor(row))) {
+        result.edited++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    await markJobExpired(env, row.id);
+    result.expired++;
+  }
+
+  console.log(`Expiry sweep (${action}): ${result.expired}/${result.checked} expired, ${result.edited} edited, ${result.deleted} deleted, ${result.failed} failed`);
+
+  if (env.ADMIN_CHAT_ID && result.expired > 0) {
+    await sendTextMessage(env.TELEGRAM_BOT_TOKEN, env.ADMIN_CHAT_ID, formatExpirySweep(result));
+  }
+  return result;
+}
+
+/**
+ * Format a sweep result for the admin chat.
+ */
+export function formatExpirySweep(result: ExpirySweepResult): string {
+  const lines = [`⌛ <b>Expiry Sweep</b> (posts: ${result.action})\n`];
+  lines.push(`Checked: ${result.checked} · expired: ${result.expired}`);
+  if (result.edited > 0) lines.push(`✏️ Edited: ${result.edited}`);
+  if (result.deleted > 0) lines.push(`🗑 Deleted: ${result.deleted}`);
+  if (result.failed > 0) lines.push(`⚠️ Post not changed: ${result.failed}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,154 @@
+/**
+ * Conditional HTTP fetching for source listings (RSS feeds, listing pages).
+ *
+ * A scheduled run creates a FetchCache and hands it to each plugin's fetchJobs.
+ * Through it, each URL's validators (ETag, Last-Modified and a body hash) come from
+ * KV and go out as If-None-Match / If-Modified-Since. A 304, or a 200 whose body
+ * hashes the same as last time, is a hit: the listing hasn't changed since the last
+ * run, so the source has nothing new. New validators are only written when the run
+ * ends cleanly — a run that dies mid-way leaves the old ones, and the next run
+ * fetches everything again instead of trusting a listing it never finished.
+ *
+ * Without a cache (dry runs, /test, /source) requests are plain fetches.
+ */
+
+import type { Env } from '../types';
+// Not the storage barrel: other storage modules import the registry, whose plugins import this module
+import { getFetchValidators, saveFetchValidators, type FetchValidators } from './storage/kv-fetch-cache';
+
+/** Conditional requests and hits of one source in a run */
+export interface FetchCacheStats {
+  requests: number;
+  hits: number;
+}
+
+export interface ConditionalFetchResult {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  /** 304, or the same body as the last full fetch */
+  unchanged: boolean;
+  /** Response body (null on a 304 or a failed response) */
+  body: string | null;
+}
+
+/** One run's conditional-fetch state — created per run, never shared between runs */
+export interface FetchCache {
+  env: Env;
+  /** Validators of this run's full fetches by source, then URL; written to KV by commitFetchCache */
+  pending: Map<string, Map<string, FetchValidators>>;
+  stats: Map<string, FetchCacheStats>;
+}
+
+/**
+ * Create the fetch cache of a pipeline run.
+ */
+export function createFetchCache(env: Env): FetchCache {
+  return { env, pending: new Map(), stats: new Map() };
+}
+
+/**
+ * Write the run's validators to KV. Only for runs that ended cleanly.
+ */
+export async function commitFetchCache(cache: FetchCache): Promise<void> {
+  for (const validatorsByUrl of cache.pending.values()) {
+    for (const [url, validators] of validatorsByUrl) {
+      try {
+        await saveFetchValidators(cache.env, url, validators);
+      } catch (error) {
+        console.error(`Failed to save fetch validators for ${url}:`, error);
+      }
+    }
+  }
+  cache.pending.clear();
+}
+
+/**
+ * Drop a source's validators from the run, so its listings are fetched in full next
+ * run. For sources whose pages weren't all read, or with a job that failed before it
+ * was saved anywhere.
+ */
+export function discardFetchValidators(cache: FetchCache, source: string): void {
+  cache.pending.delete(source);
+}
+
+/**
+ * A source's request and hit counts in the run so far.
+ */
+export function getFetchCacheStats(cache: FetchCache, source: string): FetchCacheStats {
+  return cache.stats.get(source) ?? { requests: 0, hits: 0 };
+}
+
+async function hashBody(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fetch a URL, conditionally when a fetch cache is given.
+ * @param options.source - Source the request is counted against
+ * @param options.cache - The run's fetch cache (omit for a plain fetch)
+ */
+export async function conditionalFetch(
+  url: string,
+  init: RequestInit & { headers?: Record<string, string> },
+  options: { source: string; cache?: FetchCache }
+): Promise<ConditionalFetchResult> {
+  const { source, cache } = options;
+  if (!cache) {
+    const response = await fetch(url, init);
+    return {
+      ok: response.ok, status: response.status, statusText: response.statusText,
+      unchanged: false, body: response.ok ? await response.text() : null,
+    };
+  }
+
+  let stats = cache.stats.get(source);
+  if (!stats) {
+    stats = { requests: 0, hits: 0 };
+    cache.stats.set(source, stats);
+  }
+  stats.requests++;
+
+  let pending = cache.pending.get(source);
+  if (!pending) {
+    pending = new Map();
+    cache.pending.set(source, pending);
+  }
+
+  let previous: FetchValidators | null = pending.get(url) ?? null;
+  if (!previous) {
+    try {
+      previous = await getFetchValidators(cache.env, url);
+    } catch (error) {
+      console.warn(`Failed to read fetch validators for ${url}: ${error}`);
+    }
+  }
+
+  const headers: Record<string, string> = { ...init.headers };
+  if (previous?.etag) headers['If-None-Match'] = previous.etag;
+  if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+  const response = await fetch(url, { ...init, headers });
+
+  if (response.status === 304 && previous) {
+    stats.hits++;
+    return { ok: true, status: 304, statusText: response.statusText, unchanged: true, body: null };
+  }
+  if (!response.ok) {
+    return { ok: false, status: response.status, statusText: response.statusText, unchanged: false, body: null };
+  }
+
+  const body = await response.text();
+  const hash = await hashBody(body);
+  const unchanged = previous?.hash === hash;
+  if (unchanged) stats.hits++;
+
+  const etag = response.headers.get('ETag') ?? undefined;
+  const lastModified = response.headers.get('Last-Modified') ?? undefined;
+  if (!unchanged || etag !== previous?.etag || lastModified !== previous?.lastModified) {
+    pending.set(url, { etag, lastModified, hash });
+  }
+
+  return { ok: true, status: response.status, statusText: response.statusText, unchanged, body };
+}
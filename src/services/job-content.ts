@@ -0,0 +1,70 @@
+/**
+ * Job content fingerprinting — detects meaningful changes to a posted job on refetch.
+ *
+ * Only the fields a reader acts on are compared: deadline, location, description,
+ * how-to-apply text and application links. Values are normalized first, so
+ * whitespace or link-order noise from the source doesn't count as a change.
+ */
+
+import type { JobRecord, ProcessedJob } from '../types';
+
+export const CONTENT_FIELDS = ['deadline', 'location', 'description', 'howToApply', 'applicationLinks'] as const;
+
+export type ContentField = typeof CONTENT_FIELDS[number];
+
+/** The part of a job that the content hash covers */
+export type JobContent = Pick<ProcessedJob, ContentField>;
+
+function clean(value: string | null | undefined): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalized value of each content field.
+ */
+export function normalizeContent(job: JobContent): Record<ContentField, string> {
+  return {
+    deadline: clean(job.deadline),
+    location: clean(job.location),
+    description: clean(job.description),
+    howToApply: clean(job.howToApply),
+    applicationLinks: (job.applicationLinks ?? []).map(clean).filter(Boolean).sort().join('\n'),
+  };
+}
+
+/**
+ * SHA-256 hex digest of the normalized content fields.
+ */
+export async function hashJobContent(job: JobContent): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(normalizeContent(job)));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * List the content fields that differ between two versions of a job.
+ */
+export function diffJobContent(before: JobContent, after: JobContent): ContentField[] {
+  const a = normalizeContent(before);
+  const b = normalizeContent(after);
+  return CONTENT_FIELDS.filter(field => a[field] !== b[field]);
+}
+
+/**
+ * Content fields as archived in a D1 job row.
+ */
+export function recordContent(row: JobRecord): JobContent {
+  let applicationLinks: string[] | undefined;
+  try {
+    applicationLinks = row.application_links ? JSON.parse(row.application_links) as string[] : undefined;
+  } catch {
+    applicationLinks = undefined;
+  }
+  return {
+    deadline: row.deadline ?? undefined,
+    location: row.location ?? undefined,
+    description: row.description_clean ?? '',
+    howToApply: row.how_to_apply ?? undefined,
+    applicationLinks,
+  };
+}
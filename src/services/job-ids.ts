@@ -0,0 +1,64 @@
+/**
+ * Job IDs — every job is identified as `source:id` (e.g. "eoi:21270", "yemenhr:finance-officer-ab12").
+ *
+ * Source fetchers extract the site's own ID from the job link and namespace it
+ * with the source name, so two boards can never collide. IDs from before
+ * namespacing ("eoi-21270", bare YemenHR slugs) are rewritten by migration
+ * 0016_namespaced_job_ids.sql (D1) and /dedup migrate-ids (KV cache).
+ *
+ * If a source's ID extraction changes, fetched IDs stop matching archived jobs.
+ * The job_id_aliases table maps such IDs to the archived one: an unknown ID whose
+ * link and title match an archived job of the same source is recorded as its
+ * alias (see resolveJobIdAliases), so the backlog isn't posted again under new IDs.
+ */
+
+export const JOB_ID_SEPARATOR = ':';
+
+/** Source that unprefixed legacy IDs came from (the YemenHR RSS feed and scraper) */
+export const LEGACY_UNPREFIXED_SOURCE = 'yemenhr';
+
+/** Prefixes sources put on their IDs before namespacing */
+export const LEGACY_ID_PREFIXES: Record<string, string> = {
+  eoi: 'eoi-',
+  reliefweb: 'rw-',
+  ykbank: 'ykbank-',
+  qtb: 'qtb-',
+  yldf: 'yldf-',
+};
+
+/**
+ * Namespace a source's own job ID as `source:id`. Empty IDs stay empty (no job),
+ * and IDs already namespaced for the source are returned as they are.
+ */
+export function namespaceJobId(source: string, localId: string): string {
+  if (!localId) return '';
+  const prefix = `${source}${JOB_ID_SEPARATOR}`;
+  return localId.startsWith(prefix) ? localId : `${prefix}${localId}`;
+}
+
+/**
+ * Whether an ID is already `source:id` (a URL fallback ID like "https://..." is not).
+ */
+export function isNamespacedJobId(id: string): boolean {
+  return /^[a-z][a-z0-9_-]*:(?!\/\/)/.test(id);
+}
+
+/**
+ * The source part of a namespaced ID, or null for legacy IDs.
+ */
+export function jobIdSource(id: string): string | null {
+  return isNamespacedJobId(id) ? id.slice(0, id.indexOf(JOB_ID_SEPARATOR)) : null;
+}
+
+/**
+ * The namespaced form of a pre-namespacing ID: "eoi-21270" → "eoi:21270",
+ * "rw-123" → "reliefweb:123", a bare slug → "yemenhr:slug". Namespaced IDs are unchanged.
+ * Mirrors the rewrite in migration 0016_namespaced_job_ids.sql.
+ */
+export function namespaceLegacyJobId(id: string): string {
+  if (!id || isNamespacedJobId(id)) return id;
+  for (const [source, prefix] of Object.entries(LEGACY_ID_PREFIXES)) {
+    if (id.startsWith(prefix)) return namespaceJobId(source, id.slice(prefix.length));
+  }
+  return namespaceJobId(LEGACY_UNPREFIXED_SOURCE, id);
+}
@@ -0,0 +1,133 @@
+/**
+ * Cross-source merging — one post for a vacancy listed on several boards.
+ *
+ * Jobs that match each other within a run (same or similar title+company) form a
+ * group. The group's primary is the best-ranked source (sources table: merge_rank,
+ * lower first; unranked sources last), ties going to the richest listing. Fields
+ * the primary lacks are filled from the others: application links are combined,
+ * and how-to-apply, deadline and logo are taken from the first member that has them.
+ * The post credits every member source's hashtag.
+ *
+ * MERGE_WINDOW_MINUTES holds a new job in the backlog for up to that long from when it
+ * was first seen, so the same vacancy turning up on another board in a later run joins
+ * its post. A job is merged straight away when its other listing is already here: held
+ * in the backlog, fetched in the same run, or posted less than the window ago — then
+ * the post is edited to take in the new listing.
+ */
+
+import type { JobItem, JobRecord, ProcessedJob } from '../types';
+import { parseDeadline } from './ai-format';
+import { jobSimilarity, normalizeJobKey } from './dedup';
+
+export const DEFAULT_MERGE_WINDOW_MINUTES = 0; // 0 = merge only jobs seen in the same run
+
+/** One processed member of a merge group */
+export interface MergeMember {
+  source: string;
+  processedJob: ProcessedJob;
+}
+
+function hasLogo(job: ProcessedJob): boolean {
+  return !!job.imageUrl && job.imageUrl.startsWith('http');
+}
+
+function hasDeadline(job: ProcessedJob): boolean {
+  return parseDeadline(job.deadline || '') !== null;
+}
+
+/**
+ * How much of what readers act on a listing has (0-4): apply links, how-to-apply,
+ * a readable deadline, a logo.
+ */
+export function jobRichness(job: ProcessedJob): number {
+  return Number((job.applicationLinks?.length ?? 0) > 0)
+    + Number(!!job.howToApply?.trim())
+    + Number(hasDeadline(job))
+    + Number(hasLogo(job));
+}
+
+/**
+ * Order group members best first: by merge rank, then richness, then description length.
+ * Input order breaks remaining ties.
+ */
+export function rankMembers<T extends MergeMember>(members: T[], ranks: Record<string, number> = {}): T[] {
+  const rankOf = (m: MergeMember) => ranks[m.source] ?? Number.MAX_SAFE_INTEGER;
+  return members
+    .map((member, index) => ({ member, index }))
+    .sort((a, b) =>
+      rankOf(a.member) - rankOf(b.member)
+      || jobRichness(b.member.processedJob) - jobRichness(a.member.processedJob)
+      || (b.member.processedJob.description?.length ?? 0) - (a.member.processedJob.description?.length ?? 0)
+      || a.index - b.index)
+    .map(({ member }) => member);
+}
+
+/**
+ * A listing from another source that is the same vacancy as `job` (same title+company
+ * key, or similarity at or above `threshold`), or undefined.
+ */
+export function findMergeCandidate(job: JobItem, others: JobItem[], threshold: number): JobItem | undefined {
+  const key = normalizeJobKey(job.title, job.company);
+  return others.find(other =>
+    other.source !== job.source
+    && (normalizeJobKey(other.title, other.company) === key || jobSimilarity(job, other) >= threshold));
+}
+
+/**
+ * Whether an archived job's post went out less than `minutes` ago, so a later listing
+ * of the same vacancy can still join it.
+ */
+export function isRecentPost(row: JobRecord, minutes: number, now: number): boolean {
+  if (row.status !== 'posted' || !row.telegram_message_id || !row.posted_at) return false;
+  const postedAt = new Date(row.posted_at).getTime();
+  return Number.isFinite(postedAt) && now - postedAt < minutes * 60 * 1000;
+}
+
+/**
+ * Fill the primary listing's gaps from the other members (in order).
+ */
+export function mergeProcessedJobs(primary: ProcessedJob, others: ProcessedJob[]): ProcessedJob {
+  const merged: ProcessedJob = { ...primary };
+
+  const links = [...(primary.applicationLinks ?? []), ...others.flatMap(o => o.applicationLinks ?? [])];
+  const uniqueLinks = [...new Map(links.map(l => [l.trim().toLowerCase(), l.trim()])).values()].filter(Boolean);
+  if (uniqueLinks.length > 0) merged.applicationLinks = uniqueLinks;
+
+  if (!merged.howToApply?.trim()) {
+    merged.howToApply = others.find(o => o.howToApply?.trim())?.howToApply ?? merged.howToApply;
+  }
+  if (!hasDeadline(merged)) {
+    merged.deadline = others.find(hasDeadline)?.deadline ?? merged.deadline;
+  }
+  if (!hasLogo(merged)) {
+    merged.imageUrl = others.find(hasLogo)?.imageUrl ?? merged.imageUrl;
+  }
+  return merged;
+}
+
+/**
+ * Footer hashtag crediting the posting source and any merged sources, e.g. "#YemenHR #EOI".
+ * Without merged sources this is just the posting source's hashtag.
+ */
+export function creditHashtags(
+  source: string,
+  mergedSources: string[] | undefined,
+  hashtagMap: Record<string, string>
+): string | undefined {
+  if (!mergedSources || mergedSources.length === 0) return hashtagMap[source];
+  const tags = [source, ...mergedSources].map(s => hashtagMap[s]).filter(Boolean);
+  return tags.length > 0 ? [...new Set(tags)].join(' ') : undefined;
+}
+
+/**
+ * Merged sources as stored on a D1 row (JSON array).
+ */
+export function parseMergedSources(value: string | null | undefined): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const sources = JSON.parse(value) as unknown;
+    return Array.isArray(sources) ? sources.filter((s): s is string => typeof s === 'string') : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -3,35 +3,97 @@
  * Orchestrates: fetch → dedup → process → AI → format → post → archive.
  */
 
-import type { Env, JobItem } from '../types';
-import { sendTextMessage, sendPhotoMessage, sendMessageWithId, editMessageText } from './telegram';
+import type { Env, JobItem, JobRecord, ProcessedJob, TelegramMessage, DryRunEntry, DuplicateMatch } from '../types';
+import { sendTextMessage, sendPhotoMessage, sendMessageWithId, editMessageText, editJobPost } from './telegram';
 import {
-  isJobPosted, markJobAsPosted, isDuplicateJob, markDedupKey,
+  isJobPosted, markJobAsPosted, findDuplicateJob, markDedupKey, saveDuplicateJob, setDuplicateMatch,
+  releaseDuplicateJob, deleteJobFromKV, markJobRepost, markJobMerged, getRecentlyDeferredIds, getKnownJobIds,
   createRun, completeRun, saveJobOnFetch, saveSkippedJob, updateJobStatus,
-  getTodayRuns,
+  getTodayRuns, getJobFromDB, recordJobFailure, getDueRetries, getRetryQueueIds,
+  saveDeferredJob, getDeferredJobs, markJobFiltered,
+  acquireRunLease, renewRunLease, releaseRunLease, skipLockedRun, failStaleRuns,
+  getPendingCheckpoint, markRunResumed, markContentChecked, saveJobRevision, getRecentPostings,
+  recordUnmatchedCompanies, resolveJobIdAliases,
 } from './storage';
 import { formatTelegramMessage, delay } from '../utils/format';
-import { getEnabledSourcesFromDB, getHashtagsFromDB, getSource, DEFAULT_SOURCE } from './sources/registry';
+import { createLimiter } from '../utils/concurrency';
+import { allocateQuota } from './quota';
+import {
+  loadSourceCatalog, catalogEnabledSources, catalogHashtags, catalogQuotaPolicies, catalogRepostPolicies,
+  catalogMergeRanks, catalogSource, getHashtagsFromDB, resolveSource, DEFAULT_SOURCE, type SourceCatalog,
+} from './sources/registry';
 import { summarizeJob } from './ai';
+import {
+  normalizeJobKey, jobSimilarity, createPostingIndex, parseSimilarityThreshold, describeDuplicateMatch,
+  duplicateMatchFromRecord, type FuzzyMatch,
+} from './dedup';
+import {
+  adjudicateDuplicate, parseAdjudicationFloor, pairJobFromItem, pairJobFromRecord, MAX_AI_ADJUDICATIONS_PER_RUN,
+} from './adjudicate';
+import { loadStages, runStages, type ConfiguredStage } from './stages';
+import { loadCompanyResolver, applyCompany, canonicalCompanyName, type CompanyResolver } from './companies';
+import { hashJobContent, diffJobContent, normalizeContent, recordContent, type ContentField } from './job-content';
+import { checkRepost, deadlineMovedForward, labelRepost, DEFAULT_REPOST_POLICY, type RepostPolicy } from './repost';
+import {
+  rankMembers, mergeProcessedJobs, creditHashtags, parseMergedSources, findMergeCandidate, isRecentPost,
+  DEFAULT_MERGE_WINDOW_MINUTES, type MergeMember,
+} from './merge';
+import { createFetchCache, commitFetchCache, discardFetchValidators, getFetchCacheStats, type FetchCache, type FetchCacheStats } from './fetch-cache';
+import { recordSourceHealth, type SourceFetchOutcome } from './source-health';
 
 // Default values (can be overridden via env vars)
 const DEFAULT_DELAY_BETWEEN_POSTS_MS = 1000;
 const DEFAULT_MAX_JOBS_PER_RUN = 15;
+const DEFAULT_PROCESS_CONCURRENCY = 3;
+const DEFAULT_RUN_TIME_BUDGET_MS = 10 * 60 * 1000; // Cron invocations are killed at 15 min
+const DEFAULT_FETCH_RUN_TIME_BUDGET_MS = 25 * 1000; // Runs started from a request are cut off about 30s in
+const MAX_UPDATE_CHECKS_PER_RUN = 5; // Posted jobs reprocessed per run to look for content changes
+const UPDATE_WINDOW_MS = 14 * 24 * 60 * 60 * 1000; // Only posts this recent are edited
+const UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000; // Each posted job is re-checked at most daily
+const DEDUP_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // Fuzzy dedup compares against postings this recent
+const LEASE_HEARTBEAT_MS = 60 * 1000;
+
+export interface ProcessJobsResult {
+  processed: number;
+  posted: number;
+  skipped: number;
+  failed: number;
+  preview?: DryRunEntry[]; // Dry runs only
+  skippedLocked?: boolean; // Another run held the lease — nothing was done
+  carriedOver?: number; // Time budget ran out — jobs checkpointed for the next run
+}
 
 interface SourceStats {
   fetched: number;
   posted: number;
   skipped: number;
+  filtered: number; // Rejected by a filter stage
   failed: number;
+  updated: number; // Posted jobs whose content changed and whose post was edited
+  deferred: number; // Backlog depth after this run (jobs waiting for a later run)
+  cache?: FetchCacheStats; // Conditional requests and hits (see fetch-cache.ts)
   error?: string;
 }
 
+/**
+ * Group jobs by source, preserving input order within each source.
+ */
+function groupBySource(jobs: JobItem[]): Map<string, JobItem[]> {
+  const bySource = new Map<string, JobItem[]>();
+  for (const job of jobs) {
+    const src = job.source || DEFAULT_SOURCE;
+    if (!bySource.has(src)) bySource.set(src, []);
+    bySource.get(src)!.push(job);
+  }
+  return bySource;
+}
+
 /**
  * Build the hourly summary message from per-source stats.
  */
 function buildSummary(
   sourceStats: Map<string, SourceStats>,
-  totals: { processed: number; posted: number; skipped: number; failed: number },
+  totals: { processed: number; posted: number; skipped: number; failed: number; carriedOver?: number },
   done: boolean,
   environment?: string
 ): string {
@@ -39,64 +101,671 @@ function buildSummary(
   const header = done ? `📊 <b>Hourly Run Complete</b>${envLabel}` : `⏳ <b>Processing...</b>${envLabel}`;
   const lines = [header, ''];
 
+  let backlog = 0;
   for (const [name, s] of sourceStats) {
+    backlog += s.deferred;
+    const backlogNote = s.deferred > 0 ? ` (${s.deferred} in backlog)` : '';
     if (s.error) {
-      lines.push(`❌ ${name}: ${s.error}`);
+      lines.push(`❌ ${name}: ${s.error}${backlogNote}`);
+    } else if (s.fetched === 0 && s.cache?.hits) {
+      lines.push(`♻️ ${name}: unchanged${backlogNote}`);
     } else if (s.fetched === 0) {
-      lines.push(`⚠️ ${name}: 0 jobs`);
+      lines.push(`⚠️ ${name}: 0 jobs${backlogNote}`);
     } else {
       const parts: string[] = [];
       if (s.posted > 0) parts.push(`${s.posted} posted`);
       if (s.skipped > 0) parts.push(`${s.skipped} skipped`);
+      if (s.filtered > 0) parts.push(`${s.filtered} filtered`);
       if (s.failed > 0) parts.push(`${s.failed} failed`);
+      if (s.updated > 0) parts.push(`${s.updated} updated`);
       const detail = parts.length > 0 ? parts.join(', ') : 'pending';
-      lines.push(`${s.failed > 0 ? '⚠️' : '✅'} ${name}: ${s.fetched} fetched → ${detail}`);
+      lines.push(`${s.failed > 0 ? '⚠️' : '✅'} ${name}: ${s.fetched} fetched → ${detail}${backlogNote}`);
     }
   }
 
   lines.push('');
   lines.push(`<b>Total:</b> ${totals.posted} posted, ${totals.skipped} skipped, ${totals.failed} failed`);
+  if (backlog > 0) lines.push(`<b>Backlog:</b> ${backlog} deferred to next run`);
+  if (totals.carriedOver) lines.push(`⏱️ Time budget reached — ${totals.carriedOver} jobs carried over`);
   return lines.join('\n');
 }
 
+/**
+ * Rebuild a ProcessedJob from its D1 row. The retry stage posts from the
+ * archived data instead of refetching the source.
+ */
+function jobRecordToProcessedJob(row: JobRecord): ProcessedJob {
+  // A malformed links column shouldn't stop the job (or the run) — post without links
+  let applicationLinks: string[] | undefined;
+  try {
+    applicationLinks = row.application_links ? JSON.parse(row.application_links) as string[] : undefined;
+  } catch {
+    applicationLinks = undefined;
+  }
+  return {
+    title: row.title,
+    company: row.company || 'Unknown Company',
+    link: row.source_url || '',
+    description: row.description_clean || 'No description available',
+    imageUrl: row.image_url,
+    location: row.location || undefined,
+    postedDate: row.posted_date || undefined,
+    deadline: row.deadline || undefined,
+    howToApply: row.how_to_apply || undefined,
+    applicationLinks,
+    source: row.source,
+    category: row.category || undefined,
+    repostOf: row.repost_of || undefined,
+    mergedSources: parseMergedSources(row.merged_sources),
+  };
+}
+
+/**
+ * Footer hashtag(s) for an archived job: its source plus any sources merged into it.
+ */
+function rowHashtag(row: JobRecord, hashtagMap: Record<string, string>): string | undefined {
+  return creditHashtags(row.source, parseMergedSources(row.merged_sources), hashtagMap);
+}
+
+/**
+ * Store how an archived job relates to other postings: the post it re-advertises
+ * and the sources merged into it.
+ */
+async function markJobLinks(env: Env, jobId: string, processedJob: ProcessedJob): Promise<void> {
+  if (processedJob.repostOf) await markJobRepost(env, jobId, processedJob.repostOf);
+  if (processedJob.mergedSources) await markJobMerged(env, jobId, processedJob.mergedSources);
+}
+
+/**
+ * What a job merged into another's post matched (stored like a duplicate).
+ */
+function mergeMatch(job: JobItem, primary: JobItem): DuplicateMatch {
+  const exact = normalizeJobKey(job.title, job.company) === normalizeJobKey(primary.title, primary.company);
+  return {
+    jobId: primary.id,
+    source: primary.source || DEFAULT_SOURCE,
+    reason: exact ? 'exact' : 'fuzzy',
+    score: exact ? 1 : jobSimilarity(job, primary),
+  };
+}
+
+interface RenderedJob {
+  message: TelegramMessage;
+  summary: string;
+  category: string;
+}
+
+/** A duplicate the source's repost policy may let through (see repost.ts) */
+interface RepostCandidate {
+  original: JobRecord;
+  match: DuplicateMatch;
+  deadlineMustMove: boolean; // 'deadline_moved' policy: decided once the job is processed
+}
+
+/**
+ * A job prepared for publishing (processed, filtered, summarized) — or why it can't be.
+ * `job` is the listing that gets posted: the merge group's primary (see merge.ts),
+ * and `merged` the other listings folded into it.
+ */
+type PreparedJob = { job: JobItem; merged: JobItem[] } & (
+  | { kind: 'ready'; processedJob: ProcessedJob; rendered: RenderedJob }
+  | { kind: 'duplicate'; processedJob: ProcessedJob } // Repost candidate whose deadline didn't move
+  | { kind: 'filtered'; processedJob: ProcessedJob; stage: string; reason: string }
+  | { kind: 'error'; processedJob?: ProcessedJob; error: string }
+);
+
+/**
+ * Summarize and format one job into the exact message a run would send.
+ */
+async function renderJob(
+  env: Env,
+  job: Pick<JobItem, 'title' | 'link'>,
+  processedJob: ProcessedJob,
+  source: string,
+  hashtag?: string
+): Promise<RenderedJob> {
+  // Generate AI summary and category
+  console.log(`Generating AI summary for: ${job.title}`);
+  const ai = await summarizeJob(processedJob, env);
+  const { category } = ai;
+  const summary = processedJob.repostOf ? labelRepost(ai.summary) : ai.summary;
+  processedJob.category = category;
+
+  const message = formatTelegramMessage(summary, job.link, processedJob.imageUrl, env.LINKEDIN_URL, source, category, hashtag);
+  return { message, summary, category };
+}
+
+/**
+ * Render a job for a dry-run preview. Errors are reported in the entry, not thrown.
+ */
+async function previewJob(
+  env: Env,
+  job: Pick<JobItem, 'id' | 'title' | 'company' | 'link'>,
+  processedJob: ProcessedJob,
+  source: string,
+  decision: 'new' | 'retry',
+  hashtag?: string
+): Promise<DryRunEntry> {
+  const entry: DryRunEntry = { jobId: job.id, source, title: job.title, company: job.company, decision };
+  try {
+    entry.message = (await renderJob(env, job, processedJob, source, hashtag)).message;
+  } catch (error) {
+    entry.decision = 'error';
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+  return entry;
+}
+
+/**
+ * Everything before the send: plugin processing, filter/transform stages, AI summary.
+ * No KV/D1 writes or sends, so jobs can be prepared concurrently. Never throws.
+ *
+ * With `partners` (the same vacancy from other boards this run), every listing is
+ * processed and the best-ranked one is posted with the others' details merged in.
+ * A repost candidate is checked against the earlier deadline before the AI summary.
+ */
+async function prepareJob(
+  env: Env,
+  job: JobItem,
+  sources: SourceCatalog,
+  stages: ConfiguredStage[],
+  companies: CompanyResolver,
+  hashtagMap: Record<string, string>,
+  opts: { repost?: RepostCandidate; partners?: JobItem[]; mergeRanks?: Record<string, number> } = {}
+): Promise<PreparedJob> {
+  const { repost, partners = [], mergeRanks } = opts;
+  let primary = job;
+  let merged: JobItem[] = [];
+  let processedJob: ProcessedJob | undefined;
+  try {
+    // Process each listing (clean HTML, fetch details if needed); a failed partner is left out
+    const members: Array<MergeMember & { job: JobItem }> = [];
+    const errors: unknown[] = [];
+    for (const member of [job, ...partners]) {
+      const memberSource = member.source || DEFAULT_SOURCE;
+      try {
+        console.log(`Processing job with ${memberSource} plugin: ${member.title}`);
+        members.push({ job: member, source: memberSource, processedJob: await catalogSource(sources, memberSource).processJob(member, env) });
+      } catch (error) {
+        console.error(`Error processing job ${member.id}:`, error);
+        errors.push(error);
+      }
+    }
+    if (members.length === 0) throw errors[0];
+
+    const [best, ...others] = rankMembers(members, mergeRanks);
+    primary = best.job;
+    merged = others.map(o => o.job);
+    processedJob = best.processedJob;
+    if (others.length > 0) {
+      processedJob = mergeProcessedJobs(processedJob, others.map(o => o.processedJob));
+      const mergedSources = [...new Set(others.map(o => o.source))].filter(s => s !== best.source);
+      if (mergedSources.length > 0) processedJob.mergedSources = mergedSources;
+      console.log(`Merged ${merged.map(m => m.id).join(', ')} into ${primary.id}`);
+    }
+    applyCompany(companies, processedJob);
+
+    if (repost) {
+      if (repost.deadlineMustMove && !deadlineMovedForward(repost.original.deadline, processedJob.deadline)) {
+        return { kind: 'duplicate', job: primary, merged, processedJob };
+      }
+      processedJob.repostOf = repost.original.id;
+    }
+
+    // Filter/transform stages — first rejection drops the job
+    const staged = runStages(processedJob, stages);
+    if (!staged.ok) {
+      return { kind: 'filtered', job: primary, merged, processedJob, stage: staged.stage, reason: staged.reason };
+    }
+    processedJob = staged.job;
+
+    const source = primary.source || DEFAULT_SOURCE;
+    const hashtag = creditHashtags(source, processedJob.mergedSources, hashtagMap);
+    const rendered = await renderJob(env, primary, processedJob, source, hashtag);
+    return { kind: 'ready', job: primary, merged, processedJob, rendered };
+  } catch (error) {
+    console.error(`Error preparing job ${primary.id}:`, error);
+    return {
+      kind: 'error', job: primary, merged: [], processedJob,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Send a rendered job to the channel.
+ * On success marks D1 as posted and caches the job ID + dedup key in KV.
+ * Returns false when Telegram rejected the post.
+ */
+async function sendJob(
+  env: Env,
+  job: Pick<JobItem, 'id' | 'title' | 'company' | 'source'>,
+  { message, summary, category }: RenderedJob
+): Promise<boolean> {
+  console.log(`Sending to Telegram: ${job.title}`);
+  const sendResult = message.hasImage && message.imageUrl
+    ? await sendPhotoMessage(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, message.imageUrl, message.fullMessage)
+    : await sendTextMessage(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, message.fullMessage);
+
+  if (!sendResult.success) return false;
+
+  // Cache source-specific ID + dedup key (title+company) in KV; D1 status is the source of truth
+  await markJobAsPosted(env, job.id, job.title, job.company);
+  await markDedupKey(env, job.title, job.company, job.id, job.source);
+  await updateJobStatus(env, job.id, 'posted', {
+    aiSummary: summary,
+    category,
+    telegramMessageId: sendResult.messageId,
+  });
+  return true;
+}
+
+/**
+ * Summarize, format, and send one job to the channel (see renderJob and sendJob).
+ */
+async function publishJob(
+  env: Env,
+  job: Pick<JobItem, 'id' | 'title' | 'company' | 'link'>,
+  processedJob: ProcessedJob,
+  source: string,
+  hashtag?: string
+): Promise<boolean> {
+  return sendJob(env, { ...job, source }, await renderJob(env, job, processedJob, source, hashtag));
+}
+
+/** Result of comparing a refetched posted job with its archived content */
+type UpdateCheck =
+  | { kind: 'unchanged'; contentHash: string }
+  | { kind: 'changed'; contentHash: string; processedJob: ProcessedJob; rendered: RenderedJob; changes: ContentField[] };
+
+/**
+ * Whether a posted job is due for an update check: it has a channel post to edit,
+ * was posted within UPDATE_WINDOW_MS, and wasn't checked in the last interval.
+ */
+function isUpdateCheckDue(row: JobRecord | null, now: number): row is JobRecord {
+  if (!row || row.status !== 'posted' || !row.telegram_message_id || !row.posted_at) return false;
+  if (now - new Date(row.posted_at).getTime() > UPDATE_WINDOW_MS) return false;
+  const lastChecked = row.content_checked_at ?? row.posted_at;
+  return now - new Date(lastChecked).getTime() >= UPDATE_CHECK_INTERVAL_MS;
+}
+
+/**
+ * Reprocess a posted job and compare it with its D1 row.
+ * The new version is only summarized (AI) when a content field actually changed.
+ */
+async function checkJobUpdate(
+  env: Env,
+  job: JobItem,
+  row: JobRecord,
+  sources: SourceCatalog,
+  stages: ConfiguredStage[],
+  hashtag?: string
+): Promise<UpdateCheck> {
+  const source = job.source || DEFAULT_SOURCE;
+  let processedJob = await catalogSource(sources, source).processJob(job, env);
+  // Transforms (e.g. title-rewrite) apply as they did when posting; filters don't take posts down
+  const staged = runStages(processedJob, stages);
+  if (staged.ok) processedJob = staged.job;
+  if (row.repost_of) processedJob.repostOf = row.repost_of; // Keep the repost label on edits
+  if (row.merged_sources) {
+    // Details merged from other boards aren't on this source's page — keep them from the archive
+    processedJob = mergeProcessedJobs(processedJob, [jobRecordToProcessedJob(row)]);
+    processedJob.mergedSources = parseMergedSources(row.merged_sources);
+  }
+
+  const contentHash = await hashJobContent(processedJob);
+  if (contentHash === row.content_hash) return { kind: 'unchanged', contentHash };
+  const changes = diffJobContent(recordContent(row), processedJob);
+  if (changes.length === 0) return { kind: 'unchanged', contentHash };
+
+  const rendered = await renderJob(env, job, processedJob, source, hashtag);
+  return { kind: 'changed', contentHash, processedJob, rendered, changes };
+}
+
+/** A later listing folded into a post that already went out */
+interface PostJoin {
+  processedJob: ProcessedJob;
+  rendered: RenderedJob;
+  contentHash: string;
+  changes: ContentField[];
+}
+
+/**
+ * Fold a later listing of a posted vacancy into its post (merge window, see merge.ts):
+ * the post keeps its own details, fills its gaps from the listing and credits its source.
+ */
+async function joinPostedJob(
+  env: Env,
+  job: JobItem,
+  row: JobRecord,
+  sources: SourceCatalog,
+  stages: ConfiguredStage[],
+  hashtagMap: Record<string, string>
+): Promise<PostJoin> {
+  const source = job.source || DEFAULT_SOURCE;
+  let listing = await catalogSource(sources, source).processJob(job, env);
+  const staged = runStages(listing, stages);
+  if (staged.ok) listing = staged.job;
+
+  const processedJob = mergeProcessedJobs(jobRecordToProcessedJob(row), [listing]);
+  processedJob.mergedSources = [...new Set([...(processedJob.mergedSources ?? []), source])].filter(s => s !== row.source);
+  const contentHash = await hashJobContent(processedJob);
+  const changes = diffJobContent(recordContent(row), processedJob);
+  const hashtag = creditHashtags(row.source, processedJob.mergedSources, hashtagMap);
+  const rendered = await renderJob(env, { title: row.title, link: row.source_url || '' }, processedJob, row.source, hashtag);
+  return { processedJob, rendered, contentHash, changes };
+}
+
+/**
+ * Decide whether a duplicate may be posted as a repost under its source's policy.
+ * Returns null (stay a duplicate) when the policy or the earlier posting rules it out.
+ */
+async function findRepostCandidate(
+  env: Env,
+  match: DuplicateMatch,
+  policy: RepostPolicy
+): Promise<RepostCandidate | null> {
+  if (policy.mode === 'never' || !match.jobId) return null;
+  try {
+    const original = await getJobFromDB(env, match.jobId);
+    if (!original) return null;
+    const decision = checkRepost(policy, original);
+    if (decision === 'no') return null;
+    return { original, match, deadlineMustMove: decision === 'if_deadline_moved' };
+  } catch (error) {
+    console.error(`Failed to load ${match.jobId} for the repost check:`, error);
+    return null;
+  }
+}
+
+/**
+ * Retry a single failed job from its D1 row (retry stage and /retries "retry now").
+ * Returns the job's resulting status.
+ */
+export async function retryFailedJob(
+  env: Env,
+  row: JobRecord,
+  hashtagMap?: Record<string, string>
+): Promise<'posted' | 'failed' | 'dead'> {
+  const hashtags = hashtagMap ?? await getHashtagsFromDB(env);
+  const job = { id: row.id, title: row.title, company: row.company || '', link: row.source_url || '' };
+
+  try {
+    const ok = await publishJob(env, job, jobRecordToProcessedJob(row), row.source, rowHashtag(row, hashtags));
+    if (ok) return 'posted';
+    const plan = await recordJobFailure(env, row.id, 'Telegram send failed');
+    return plan?.status ?? 'failed';
+  } catch (error) {
+    const plan = await recordJobFailure(env, row.id, error instanceof Error ? error.message : String(error));
+    return plan?.status ?? 'failed';
+  }
+}
+
+/**
+ * Run a single-job action under the pipeline run lease (see processJobs), so it can't
+ * post alongside a run. Returns 'locked' while a run holds the lease; D1 errors fail
+ * open, as they do for runs.
+ */
+async function withRunLease<T>(env: Env, action: () => Promise<T>): Promise<T | 'locked'> {
+  const holder = crypto.randomUUID();
+  let leased = false;
+  try {
+    const lease = await acquireRunLease(env, holder);
+    if (!lease.acquired) {
+      console.log(`Run lease held by run #${lease.heldBy ?? '?'} — not posting`);
+      return 'locked';
+    }
+    leased = true;
+  } catch (error) {
+    console.error('Failed to acquire run lease, continuing without it:', error);
+  }
+
+  try {
+    return await action();
+  } finally {
+    if (leased) {
+      await releaseRunLease(env, holder).catch(error => console.error('Failed to release run lease:', error));
+    }
+  }
+}
+
+/**
+ * Retry a failed job by ID immediately (bypasses next_attempt_at).
+ * Returns 'locked' while a run is in progress, null when the job isn't failed or dead.
+ */
+export async function retryJobById(env: Env, jobId: string): Promise<'posted' | 'failed' | 'dead' | 'locked' | null> {
+  const isRetryable = (row: JobRecord | null): row is JobRecord => !!row && (row.status === 'failed' || row.status === 'dead');
+  if (!isRetryable(await getJobFromDB(env, jobId))) return null;
+
+  return withRunLease(env, async () => {
+    // A run may have retried it before we got the lease
+    const row = await getJobFromDB(env, jobId);
+    return isRetryable(row) ? retryFailedJob(env, row) : null;
+  });
+}
+
+/**
+ * Post a job that dedup skipped ("force post anyway" on /job). The job is processed
+ * and summarized like a new job from its stored payload, without dedup or filter stages.
+ * Its match stays on the row (a posted row with duplicate_of = force-posted).
+ * Returns 'locked' while a run is in progress, null when the job isn't a duplicate
+ * with a stored payload.
+ */
+export async function forcePostDuplicate(env: Env, jobId: string): Promise<'posted' | 'failed' | 'dead' | 'locked' | null> {
+  const isForcePostable = (row: JobRecord | null): row is JobRecord => !!row && row.status === 'duplicate' && !!row.raw_payload;
+  if (!isForcePostable(await getJobFromDB(env, jobId))) return null;
+
+  return withRunLease(env, async () => {
+    // A run may have changed the row before we got the lease
+    const row = await getJobFromDB(env, jobId);
+    return isForcePostable(row) ? postDuplicate(env, row) : null;
+  });
+}
+
+/**
+ * The force post itself (see forcePostDuplicate), under the run lease.
+ */
+async function postDuplicate(env: Env, row: JobRecord): Promise<'posted' | 'failed' | 'dead'> {
+  const jobId = row.id;
+  const job = JSON.parse(row.raw_payload!) as JobItem;
+  const source = row.source;
+  const match = duplicateMatchFromRecord(row);
+
+  // Processing can throw (e.g. detail page gone) — do it before touching stored state
+  const processedJob = await (await resolveSource(env, source)).processJob(job, env);
+  applyCompany(await loadCompanyResolver(env), processedJob);
+
+  await deleteJobFromKV(env, jobId);
+  await releaseDuplicateJob(env, jobId);
+  await saveJobOnFetch(env, job, processedJob, job.description || '', source);
+  if (match) await setDuplicateMatch(env, jobId, match);
+
+  try {
+    const hashtags = await getHashtagsFromDB(env);
+    if (await publishJob(env, job, processedJob, source, hashtags[source])) return 'posted';
+    const plan = await recordJobFailure(env, jobId, 'Telegram send failed');
+    return plan?.status ?? 'failed';
+  } catch (error) {
+    const plan = await recordJobFailure(env, jobId, error instanceof Error ? error.message : String(error));
+    return plan?.status ?? 'failed';
+  }
+}
+
 /**
  * Process all new jobs from all registered sources.
+ * Due retries from the D1 retry queue are drained first and share the run quota.
+ * Deferred jobs from earlier runs go ahead of freshly fetched ones; anything over
+ * a source's share (see quota.ts) is stored as 'deferred' for the next run.
+ *
+ * Each new job passes through the configured filter/transform stages (see stages.ts)
+ * after plugin processing; rejected jobs are archived as 'filtered'.
+ *
+ * Company names are resolved to their canonical spelling via the alias registry
+ * (see companies.ts) before dedup; names with no alias are queued for admin review.
+ *
+ * A job that duplicates an earlier posting may still go out as a labelled repost
+ * if its source's repost policy allows it (see repost.ts).
+ *
+ * Jobs matching each other in a run (the same vacancy on several boards) go out as one
+ * post from the best-ranked source, with the others' details merged in (see merge.ts).
+ * With MERGE_WINDOW_MINUTES, a new job waits up to that long in the backlog (outside the
+ * fair share) so a listing on another board can join it; a listing whose partner is
+ * already held, fetched or just posted is merged at once (a posted one by editing the post).
+ *
+ * Refetched jobs that are already posted get a content check (see job-content.ts, at most
+ * MAX_UPDATE_CHECKS_PER_RUN per run): if the deadline, description, etc. changed, the
+ * channel post is edited in place and the change is recorded in job_revisions.
+ *
+ * Plugin processing and AI summaries run with PROCESS_CONCURRENCY jobs in flight;
+ * sends still go out one at a time in fair-share (pubDate) order, at least
+ * DELAY_BETWEEN_POSTS_MS apart.
+ *
+ * Only one run executes at a time: the run takes a D1 lease right after createRun
+ * and renews it with a heartbeat. A run that finds the lease held exits at once and
+ * is recorded as 'skipped_locked'. Taking the lease also fails any stale 'running' rows.
+ * If a heartbeat finds the lease taken over, the run sends nothing more and stops
+ * as if its time budget had run out.
+ *
+ * Runs stop cleanly after RUN_TIME_BUDGET_MS (cron) or FETCH_RUN_TIME_BUDGET_MS (manual
+ * and webhook runs, started from a request): jobs not yet published are saved to the
+ * backlog and their IDs checkpointed on the run, which ends as 'partial'. The next run
+ * takes the checkpointed jobs first and links back to it via resumed_from.
+ *
+ * With `dryRun`, runs the same decisions with no side effects (no Telegram sends,
+ * no KV or D1 writes, no lease) and returns a preview of what each job would get.
  */
 export async function processJobs(
   env: Env,
   triggerType: 'cron' | 'manual' | 'webhook' = 'manual',
-  cron?: string
-): Promise<{ processed: number; posted: number; skipped: number; failed: number }> {
-  console.log('Starting job processing...');
+  cron?: string,
+  opts: { dryRun?: boolean } = {}
+): Promise<ProcessJobsResult> {
+  const budgetMs = triggerType === 'cron'
+    ? parseInt(env.RUN_TIME_BUDGET_MS || String(DEFAULT_RUN_TIME_BUDGET_MS), 10)
+    : parseInt(env.FETCH_RUN_TIME_BUDGET_MS || String(DEFAULT_FETCH_RUN_TIME_BUDGET_MS), 10);
+
+  if (opts.dryRun) {
+    return runPipeline(env, cron, budgetMs, true);
+  }
+
+  // Create run record in D1
+  let runId: number | undefined;
+  try {
+    runId = await createRun(env, triggerType);
+  } catch (error) {
+    console.error('Failed to create run record:', error);
+  }
+
+  // Take the run lease — D1 errors fail open so an outage doesn't stop posting
+  const holder = crypto.randomUUID();
+  let leased = false;
+  try {
+    const lease = await acquireRunLease(env, holder, runId);
+    if (!lease.acquired) {
+      console.log(`Run lease held by run #${lease.heldBy ?? '?'} — skipping this run`);
+      if (runId) await skipLockedRun(env, runId, lease.heldBy);
+      return { processed: 0, posted: 0, skipped: 0, failed: 0, skippedLocked: true };
+    }
+    leased = true;
+    const stale = await failStaleRuns(env, runId);
+    if (stale > 0) console.log(`Marked ${stale} stale run(s) as failed`);
+  } catch (error) {
+    console.error('Failed to acquire run lease, continuing without it:', error);
+  }
+
+  // Set by the heartbeat; runPipeline checks it before each send
+  const lease = { lost: false };
+  const heartbeat = leased
+    ? setInterval(() => {
+      renewRunLease(env, holder)
+        .then(ok => {
+          if (ok) return;
+          console.error('Run lease lost to another run');
+          lease.lost = true;
+        })
+        .catch(error => console.error('Run lease heartbeat failed:', error));
+    }, LEASE_HEARTBEAT_MS)
+    : undefined;
+
+  // Pick up where the last partial run stopped
+  let resume: { runId: number; jobIds: string[] } | null = null;
+  if (runId) {
+    try {
+      resume = await getPendingCheckpoint(env);
+      if (resume) await markRunResumed(env, runId, resume.runId);
+    } catch (error) {
+      console.error('Failed to load run checkpoint:', error);
+      resume = null;
+    }
+  }
+
+  try {
+    return await runPipeline(env, cron, budgetMs, false, runId, resume, lease);
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
+    if (leased) {
+      await releaseRunLease(env, holder).catch(error => console.error('Failed to release run lease:', error));
+    }
+  }
+}
+
+/**
+ * The pipeline itself (see processJobs). Lease and run creation are handled by the caller.
+ */
+async function runPipeline(
+  env: Env,
+  cron: string | undefined,
+  budgetMs: number,
+  dryRun: boolean,
+  runId?: number,
+  resume: { runId: number; jobIds: string[] } | null = null,
+  lease: { lost: boolean } = { lost: false }
+): Promise<ProcessJobsResult> {
+  console.log(dryRun ? 'Starting dry run...' : 'Starting job processing...');
 
   // Read configuration from env vars with defaults
   const maxJobs = parseInt(env.MAX_JOBS_PER_RUN || String(DEFAULT_MAX_JOBS_PER_RUN), 10);
   const delayMs = parseInt(env.DELAY_BETWEEN_POSTS_MS || String(DEFAULT_DELAY_BETWEEN_POSTS_MS), 10);
+  const concurrency = parseInt(env.PROCESS_CONCURRENCY || String(DEFAULT_PROCESS_CONCURRENCY), 10);
+  const deadline = Date.now() + budgetMs;
+  // The run stops at the time budget, or at once if another run took over the lease
+  const outOfTime = () => lease.lost || Date.now() >= deadline;
+  const stopReason = () => lease.lost ? 'Run lease lost' : `Time budget of ${budgetMs}ms reached`;
 
   let processed = 0;
   let posted = 0;
   let skipped = 0;  // Jobs skipped (already posted or duplicate)
   let failed = 0;   // Jobs that failed to post
 
-  // Create run record in D1
-  let runId: number | undefined;
-  try {
-    runId = await createRun(env, triggerType);
-  } catch (error) {
-    console.error('Failed to create run record:', error);
-  }
+  // Dry run: what each job would get
+  const preview: DryRunEntry[] = [];
+  // Set when the time budget runs out: IDs of jobs carried over to the next run
+  let checkpoint: string[] | undefined;
+  const buildResult = (): ProcessJobsResult => {
+    const result: ProcessJobsResult = { processed, posted, skipped, failed };
+    if (dryRun) result.preview = preview;
+    if (checkpoint) result.carriedOver = checkpoint.length;
+    return result;
+  };
 
   // Per-source tracking
   const sourceStats: Map<string, SourceStats> = new Map();
 
+  // Telegram pacing: sends at least delayMs apart (time spent preparing counts toward it)
+  let lastSendAt = 0;
+  const waitForSendSlot = async () => {
+    const wait = lastSendAt + delayMs - Date.now();
+    if (wait > 0) await delay(wait);
+  };
+
   // Admin message: only created when there are posted jobs or errors (reduces noise)
   let adminMsgId: number | null = null;
 
   const sendOrUpdateAdmin = async (done: boolean) => {
-    if (!env.ADMIN_CHAT_ID) return;
+    if (!env.ADMIN_CHAT_ID || dryRun) return;
     // Only notify admin when there's actual activity (posted or failed jobs)
     if (posted === 0 && failed === 0) return;
-    const text = buildSummary(sourceStats, { processed, posted, skipped, failed }, done, env.ENVIRONMENT);
+    const text = buildSummary(sourceStats, { processed, posted, skipped, failed, carriedOver: checkpoint?.length }, done, env.ENVIRONMENT);
     if (adminMsgId) {
       await editMessageText(env.TELEGRAM_BOT_TOKEN, env.ADMIN_CHAT_ID, adminMsgId, text);
     } else {
@@ -104,231 +773,696 @@ export async function processJobs(
     }
   };
 
+  // Conditional-fetch state of this run (none on dry runs, so they fetch everything)
+  let fetchCache: FetchCache | undefined;
+
+  const finishRun = async (error?: string) => {
+    if (fetchCache) {
+      // Validators are only kept from runs that got to the end (see fetch-cache.ts)
+      if (!error) await commitFetchCache(fetchCache);
+      for (const [source, cache] of fetchCache.stats) {
+        const stats = sourceStats.get(source);
+        if (stats) stats.cache = cache;
+      }
+    }
+    if (!runId) return;
+    await completeRun(env, runId, {
+      jobs_fetched: processed, jobs_posted: posted, jobs_skipped: skipped, jobs_failed: failed,
+      source_stats: Object.fromEntries(sourceStats),
+      error,
+      checkpoint,
+    });
+  };
+
   try {
     // 1. Fetch jobs from all registered sources in parallel
-    const [plugins, hashtagMap] = await Promise.all([
-      getEnabledSourcesFromDB(env, cron),
-      getHashtagsFromDB(env),
-    ]);
+    const [sources, stages] = await Promise.all([loadSourceCatalog(env), loadStages(env)]);
+    const plugins = catalogEnabledSources(sources, cron);
+    const hashtagMap = catalogHashtags(sources);
+    const quotaPolicies = catalogQuotaPolicies(sources);
+    const repostPolicies = catalogRepostPolicies(sources);
     console.log(`Fetching jobs from ${plugins.length} sources: ${plugins.map(p => p.name).join(', ')}...`);
+    if (!dryRun) fetchCache = createFetchCache(env);
 
     // Init stats for all sources
     for (const p of plugins) {
-      sourceStats.set(p.name, { fetched: 0, posted: 0, skipped: 0, failed: 0 });
+      sourceStats.set(p.name, { fetched: 0, posted: 0, skipped: 0, filtered: 0, failed: 0, updated: 0, deferred: 0 });
+    }
+
+    // 1a. Retry stage — drain due retries before fresh jobs (they share the quota)
+    let dueRetries: JobRecord[] = [];
+    try {
+      dueRetries = await getDueRetries(env, maxJobs, plugins.map(p => p.name));
+    } catch (error) {
+      console.error('Failed to load retry queue:', error);
+    }
+    for (const row of dueRetries) {
+      if (outOfTime()) break; // Unsent retries stay due in the queue
+      processed++;
+      const stats = sourceStats.get(row.source);
+      console.log(`Retrying failed job: ${row.title} (${row.id}), attempt ${(row.retry_count || 0) + 1}`);
+      if (dryRun) {
+        const job = { id: row.id, title: row.title, company: row.company || '', link: row.source_url || '' };
+        const entry = await previewJob(env, job, jobRecordToProcessedJob(row), row.source, 'retry', rowHashtag(row, hashtagMap));
+        preview.push(entry);
+        if (entry.decision === 'error') {
+          failed++;
+          if (stats) stats.failed++;
+        } else {
+          posted++;
+          if (stats) stats.posted++;
+        }
+        continue;
+      }
+      await waitForSendSlot();
+      const outcome = await retryFailedJob(env, row, hashtagMap);
+      lastSendAt = Date.now();
+      if (outcome === 'posted') {
+        posted++;
+        if (stats) stats.posted++;
+      } else {
+        failed++;
+        if (stats) stats.failed++;
+      }
     }
+    if (outOfTime()) {
+      console.log(`${stopReason()} in retry stage — fresh jobs wait for the next run`);
+      checkpoint = [];
+      await sendOrUpdateAdmin(true);
+      await finishRun();
+      return buildResult();
+    }
+    const freshQuota = maxJobs - dueRetries.length;
 
     const fetchResults = await Promise.allSettled(
       plugins.map(plugin =>
-        plugin.fetchJobs(env).then(jobs => ({ plugin, jobs }))
+        plugin.fetchJobs(env, { fetchCache }).then(jobs => ({ plugin, jobs }))
       )
     );
 
     // Extract jobs, handling failures gracefully
-    const allJobs: JobItem[] = [];
+    const fetchedJobs: JobItem[] = [];
     for (const result of fetchResults) {
       if (result.status === 'fulfilled') {
         const { plugin, jobs } = result.value;
         console.log(`Found ${jobs.length} jobs from ${plugin.name}`);
         const stats = sourceStats.get(plugin.name)!;
         stats.fetched = jobs.length;
-        allJobs.push(...jobs);
+        fetchedJobs.push(...jobs);
       } else {
         console.error('Failed to fetch jobs from source:', result.reason);
       }
     }
 
-    // Mark fetch errors by matching allSettled order to plugins array
+    // IDs a source's changed ID scheme gave to archived jobs map back to the archived ID (see job-ids.ts)
+    try {
+      const renamed = await resolveJobIdAliases(env, fetchedJobs, { dryRun });
+      if (renamed > 0) console.log(`${renamed} fetched job IDs resolved to archived jobs`);
+    } catch (error) {
+      console.error('Failed to resolve job ID aliases:', error);
+    }
+
+    // Failed/dead jobs belong to the retry queue — relisting must not bypass backoff
+    let retryQueueIds = new Set<string>();
+    try {
+      retryQueueIds = await getRetryQueueIds(env, fetchedJobs.map(j => j.id));
+    } catch (error) {
+      console.error('Failed to check retry queue:', error);
+    }
+    const freshJobs = fetchedJobs.filter(j => !retryQueueIds.has(j.id));
+
+    // 1b. Backlog — jobs deferred by earlier runs, oldest first
+    let backlogJobs: JobItem[] = [];
+    try {
+      backlogJobs = await getDeferredJobs(env, plugins.map(p => p.name));
+    } catch (error) {
+      console.error('Failed to load deferred backlog:', error);
+    }
+    if (resume && resume.jobIds.length > 0) {
+      // Jobs checkpointed by the partial run go ahead of the rest of the backlog
+      const resumed = new Set(resume.jobIds);
+      backlogJobs.sort((a, b) => Number(resumed.has(b.id)) - Number(resumed.has(a.id)));
+      console.log(`Resuming run #${resume.runId}: ${backlogJobs.filter(j => resumed.has(j.id)).length} checkpointed jobs`);
+    }
+    const backlogIds = new Set(backlogJobs.map(j => j.id));
+    const allJobs = [...backlogJobs, ...freshJobs.filter(j => !backlogIds.has(j.id))];
+
+    // Mark fetch errors by matching allSettled order to plugins array. A failed fetch may have
+    // read some of the source's pages: their validators are dropped, so none are trusted next run.
     for (let i = 0; i < fetchResults.length; i++) {
       const result = fetchResults[i];
       if (result.status === 'rejected') {
         const name = plugins[i].name;
         const stats = sourceStats.get(name)!;
         stats.error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        if (fetchCache) discardFetchValidators(fetchCache, name);
       }
     }
 
-    console.log(`Total jobs from all sources: ${allJobs.length}`);
+    // Source health — an empty listing on a source that usually has jobs is a broken scraper (see source-health.ts)
+    if (!dryRun) {
+      const outcomes: SourceFetchOutcome[] = plugins.map((plugin, i) => {
+        const result = fetchResults[i];
+        const jobs = result.status === 'fulfilled' ? result.value.jobs : [];
+        const cache = fetchCache ? getFetchCacheStats(fetchCache, plugin.name) : null;
+        return {
+          source: plugin.name,
+          jobs,
+          error: sourceStats.get(plugin.name)!.error,
+          unchanged: jobs.length === 0 && (cache?.hits ?? 0) > 0,
+        };
+      });
+      await recordSourceHealth(env, outcomes, runId);
+    }
+
+    console.log(`Total jobs from all sources: ${allJobs.length} (${backlogJobs.length} from backlog)`);
     await sendOrUpdateAdmin(false);
 
     if (allJobs.length === 0) {
       console.log('No jobs found from any source');
       await sendOrUpdateAdmin(true);
-      if (runId) {
-        await completeRun(env, runId, {
-          jobs_fetched: 0, jobs_posted: 0, jobs_skipped: 0, jobs_failed: 0,
-          source_stats: Object.fromEntries(sourceStats),
-        });
-      }
-      return { processed: 0, posted: 0, skipped: 0, failed: 0 };
+      await finishRun();
+      return buildResult();
     }
 
-    // 2. Per-source fair share: distribute maxJobs quota evenly across sources
-    const jobsBySource = new Map<string, JobItem[]>();
-    for (const job of allJobs) {
-      const src = job.source || DEFAULT_SOURCE;
-      if (!jobsBySource.has(src)) jobsBySource.set(src, []);
-      jobsBySource.get(src)!.push(job);
+    // Merge window (see merge.ts): a new job waits in the backlog so the same vacancy on another
+    // board can join its post, unless that listing is here already (it's merged in the prechecks).
+    // Held jobs are set aside before the fair share.
+    const similarityThreshold = parseSimilarityThreshold(env.DEDUP_SIMILARITY_THRESHOLD);
+    const parsedWindow = parseInt(env.MERGE_WINDOW_MINUTES || String(DEFAULT_MERGE_WINDOW_MINUTES), 10);
+    const mergeWindow = Number.isFinite(parsedWindow) && parsedWindow > 0 ? parsedWindow : 0;
+    const held: JobItem[] = [];
+    if (mergeWindow > 0) {
+      try {
+        const fresh = allJobs.filter(j => !backlogIds.has(j.id));
+        const [recentBacklog, known] = await Promise.all([
+          getRecentlyDeferredIds(env, allJobs.filter(j => backlogIds.has(j.id)).map(j => j.id), mergeWindow),
+          getKnownJobIds(env, fresh.map(j => j.id)),
+        ]);
+        // Jobs not decided yet: new this run, or waiting in the backlog
+        const pending = allJobs.filter(j => backlogIds.has(j.id) || !known.has(j.id));
+        for (const job of pending) {
+          const inWindow = !backlogIds.has(job.id) || recentBacklog.has(job.id);
+          if (inWindow && !findMergeCandidate(job, pending, similarityThreshold)) held.push(job);
+        }
+      } catch (error) {
+        console.error('Failed to check jobs for the merge window:', error);
+      }
     }
-    for (const jobs of jobsBySource.values()) {
+    const heldIds = new Set(held.map(j => j.id));
+
+    // 2. Per-source fair share: split the remaining quota by each source's weight,
+    // min_per_run and max_per_run. Each source's backlog (already oldest first)
+    // goes ahead of its fresh jobs.
+    const queued = allJobs.filter(j => !heldIds.has(j.id));
+    const jobsBySource = groupBySource(queued.filter(j => backlogIds.has(j.id)));
+    for (const [src, jobs] of groupBySource(queued.filter(j => !backlogIds.has(j.id)))) {
       jobs.sort((a, b) => new Date(a.pubDate).getTime() - new Date(b.pubDate).getTime());
+      jobsBySource.set(src, [...(jobsBySource.get(src) || []), ...jobs]);
     }
 
     const numSources = jobsBySource.size;
-    const baseShare = Math.floor(maxJobs / numSources);
-    let remaining = maxJobs;
+    const quota = Math.max(0, freshQuota);
+    const available = new Map([...jobsBySource].map(([src, jobs]) => [src, jobs.length]));
+    const allocations = allocateQuota(quota, available, quotaPolicies);
 
-    // First pass: give each source min(baseShare, their job count)
-    const allocations = new Map<string, number>();
-    for (const [src, jobs] of jobsBySource) {
-      const alloc = Math.min(baseShare, jobs.length);
-      allocations.set(src, alloc);
-      remaining -= alloc;
-    }
-    // Second pass: distribute remaining slots to sources with excess
-    for (const [src, jobs] of jobsBySource) {
-      if (remaining <= 0) break;
-      const current = allocations.get(src)!;
-      const extra = Math.min(remaining, jobs.length - current);
-      if (extra > 0) {
-        allocations.set(src, current + extra);
-        remaining -= extra;
-      }
-    }
-
-    // Build final list + count deferred jobs as skipped
+    // Build final list + store over-quota jobs in the backlog
     const jobsToProcess: JobItem[] = [];
     for (const [src, jobs] of jobsBySource) {
       const alloc = allocations.get(src)!;
       jobsToProcess.push(...jobs.slice(0, alloc));
-      const dropped = jobs.length - alloc;
-      if (dropped > 0) {
+      const overflow = jobs.slice(alloc);
+      if (overflow.length > 0) {
+        let depth = 0;
+        for (const job of overflow) {
+          // Already-archived jobs (posted, skipped, ...) are not re-queued
+          if (dryRun) {
+            if (backlogIds.has(job.id) || !(await getJobFromDB(env, job.id))) {
+              depth++;
+              preview.push({ jobId: job.id, source: src, title: job.title, company: job.company, decision: 'deferred' });
+            }
+          } else if (backlogIds.has(job.id) || await saveDeferredJob(env, job, runId)) {
+            depth++;
+          }
+        }
         const stats = sourceStats.get(src);
-        if (stats) stats.skipped += dropped;
-        skipped += dropped;
-        console.log(`${src}: ${dropped} jobs deferred (quota: ${alloc}/${jobs.length})`);
+        if (stats) stats.deferred = depth;
+        console.log(`${src}: ${depth} jobs deferred (quota: ${alloc}/${jobs.length})`);
       }
     }
 
-    if (allJobs.length > maxJobs) {
-      console.log(`Fair share: ${maxJobs} quota across ${numSources} sources (${allJobs.length - jobsToProcess.length} deferred)`);
+    if (queued.length > quota) {
+      console.log(`Fair share: ${quota} quota across ${numSources} sources (${queued.length - jobsToProcess.length} over quota)`);
     }
 
+    // Fuzzy dedup index: recent postings from D1, plus jobs queued earlier this run
+    const postingIndex = createPostingIndex([], similarityThreshold);
+    try {
+      const since = new Date(Date.now() - DEDUP_WINDOW_MS).toISOString();
+      for (const posting of await getRecentPostings(env, since)) postingIndex.add(posting);
+    } catch (error) {
+      console.error('Failed to load recent postings for fuzzy dedup:', error);
+    }
+
+    // Borderline fuzzy matches go to Workers AI (see adjudicate.ts); cached verdicts are reused
+    const aiFloor = parseAdjudicationFloor(env.DEDUP_AI_MIN_SIMILARITY, similarityThreshold);
+    let aiCalls = 0;
+    const adjudicate = async (job: JobItem, match: FuzzyMatch): Promise<DuplicateMatch | null> => {
+      try {
+        const inRun = candidateById.get(match.job.id);
+        const row = inRun ? null : await getJobFromDB(env, match.job.id);
+        const other = inRun ? pairJobFromItem(inRun) : row ? pairJobFromRecord(row) : null;
+        if (!other) return null;
+        const { verdict, asked } = await adjudicateDuplicate(
+          env, pairJobFromItem(job), other, match.score,
+          { dryRun, canAsk: aiCalls < MAX_AI_ADJUDICATIONS_PER_RUN }
+        );
+        if (asked) aiCalls++;
+        if (verdict !== 'same') return null;
+        return { jobId: match.job.id, source: match.job.source ?? null, reason: 'ai', score: match.score };
+      } catch (error) {
+        console.error(`AI adjudication failed for ${job.id} vs ${match.job.id}:`, error);
+        return null;
+      }
+    };
+
+    // Canonical company names (see companies.ts) — dedup and archival use the resolved name
+    const companies = await loadCompanyResolver(env);
+    const unmatchedCompanies: Array<{ name: string; source: string; jobId: string }> = [];
+
+    // 3-4. Prechecks run sequentially so in-run dedup follows fair-share order
+    const runKeys = new Map<string, JobItem>(); // Dedup keys claimed by an earlier job in this run
+    const candidates: JobItem[] = [];
+    const candidateById = new Map<string, JobItem>();
+    const partners = new Map<string, JobItem[]>(); // Candidate ID → same vacancy from other listings, merged into its post
+    const reposts = new Map<string, RepostCandidate>(); // Candidates that duplicate an earlier posting
+    const postedSeen: JobItem[] = []; // Already-posted jobs, checked for content changes after publishing
+    const postJoins: Array<{ job: JobItem; row: JobRecord; match: DuplicateMatch }> = []; // Listings joining a recent post
+    // A post another board made less than the merge window ago: a later listing joins it instead of being dropped
+    const findRecentPost = async (job: JobItem, match: DuplicateMatch | null): Promise<JobRecord | null> => {
+      if (mergeWindow === 0 || !match?.jobId) return null;
+      const row = await getJobFromDB(env, match.jobId);
+      return row && row.source !== (job.source || DEFAULT_SOURCE) && isRecentPost(row, mergeWindow, Date.now()) ? row : null;
+    };
+    const addPartner = (lead: JobItem, job: JobItem) => {
+      if (!partners.has(lead.id)) partners.set(lead.id, []);
+      partners.get(lead.id)!.push(job);
+    };
     for (const job of jobsToProcess) {
       processed++;
       const source = job.source || DEFAULT_SOURCE;
       const stats = sourceStats.get(source);
+      const company = job.company ? companies.resolve(job.company) : null;
+      if (company) job.company = canonicalCompanyName(company) || job.company;
 
       // 3. Check if already posted by source-specific ID
       const alreadyPosted = await isJobPosted(env, job.id);
       if (alreadyPosted) {
         console.log(`Job already posted: ${job.id} (${source})`);
-        await saveSkippedJob(env, job.id, job.title, job.company, 'skipped', source, runId);
+        if (dryRun) {
+          preview.push({ jobId: job.id, source, title: job.title, company: job.company, decision: 'already_posted' });
+        } else {
+          await saveSkippedJob(env, job.id, job.title, job.company, 'skipped', source, runId);
+        }
         skipped++;
         if (stats) stats.skipped++;
+        postedSeen.push(job);
         continue;
       }
 
-      // 4. Check cross-source deduplication (title+company)
-      const isDuplicate = await isDuplicateJob(env, job.title, job.company);
-      if (isDuplicate) {
-        console.log(`Skipping duplicate job: "${job.title}" at "${job.company}" (${source})`);
-        await saveSkippedJob(env, job.id, job.title, job.company, 'duplicate', source, runId);
-        // Mark the source-specific ID so we don't check again
-        await markJobAsPosted(env, job.id, job.title, job.company);
+      // 4. Check cross-source deduplication (title+company), including jobs queued earlier this run:
+      // exact key first, then similarity against recent postings
+      const dedupKey = normalizeJobKey(job.title, job.company);
+      const earlier = runKeys.get(dedupKey);
+      let duplicate: DuplicateMatch | null = earlier
+        ? { jobId: earlier.id, source: earlier.source || DEFAULT_SOURCE, reason: 'exact', score: 1 }
+        : await findDuplicateJob(env, job.title, job.company);
+      if (!duplicate) {
+        const fuzzy = postingIndex.findMatch(job);
+        if (fuzzy) duplicate = { jobId: fuzzy.job.id, source: fuzzy.job.source ?? null, reason: 'fuzzy', score: fuzzy.score };
+      }
+      if (!duplicate && aiFloor !== null) {
+        const borderline = postingIndex.findMatch(job, aiFloor);
+        if (borderline) duplicate = await adjudicate(job, borderline);
+      }
+
+      // Same vacancy as a job queued earlier this run: merged into its post (see merge.ts)
+      const lead = earlier ?? (duplicate?.jobId ? candidateById.get(duplicate.jobId) : undefined);
+      if (lead) {
+        console.log(`Merging "${job.title}" (${source}) into ${lead.id}`);
+        addPartner(lead, job);
+        continue;
+      }
+      const recentPost = await findRecentPost(job, duplicate);
+      if (recentPost) {
+        console.log(`Joining "${job.title}" (${source}) to the post of ${recentPost.id}`);
+        postJoins.push({ job, row: recentPost, match: duplicate! });
+        continue;
+      }
+
+      // Re-advertised jobs: the source's repost policy may let a match with an earlier run's post through
+      const repost = duplicate
+        ? await findRepostCandidate(env, duplicate, repostPolicies[source] ?? DEFAULT_REPOST_POLICY)
+        : null;
+      if (duplicate && !repost) {
+        console.log(`Skipping duplicate job: "${job.title}" at "${job.company}" (${source}) — ${describeDuplicateMatch(duplicate)}`);
+        if (dryRun) {
+          preview.push({
+            jobId: job.id, source, title: job.title, company: job.company, decision: 'duplicate',
+            duplicateOf: duplicate.jobId ?? undefined,
+          });
+        } else {
+          await saveDuplicateJob(env, { ...job, source }, duplicate, runId);
+          // Mark the source-specific ID so we don't check again
+          await markJobAsPosted(env, job.id, job.title, job.company);
+        }
         skipped++;
         if (stats) stats.skipped++;
         continue;
       }
 
+      if (repost) {
+        console.log(`Repost candidate: "${job.title}" (${source}) re-advertises ${repost.original.id}`);
+        reposts.set(job.id, repost);
+      }
       console.log(`Processing new job: ${job.title} (${job.id}) from ${source}`);
+      runKeys.set(dedupKey, job);
+      candidateById.set(job.id, job);
+      postingIndex.add({ id: job.id, title: job.title, company: job.company, source });
+      if (job.company && !company) unmatchedCompanies.push({ name: job.company, source, jobId: job.id });
+      candidates.push(job);
+    }
 
-      try {
-        // 5. Get the plugin for this job's source
-        const plugin = getSource(source);
+    // Held jobs whose other listing is a candidate this run join its post now; the rest wait in the backlog
+    if (held.length > 0) {
+      const candidateIndex = createPostingIndex([], similarityThreshold);
+      for (const job of candidates) candidateIndex.add({ id: job.id, title: job.title, company: job.company });
+      let waiting = 0;
+      for (const job of held) {
+        const source = job.source || DEFAULT_SOURCE;
+        const lead = runKeys.get(normalizeJobKey(job.title, job.company))
+          ?? candidateById.get(candidateIndex.findMatch(job)?.job.id ?? '');
+        if (lead) {
+          console.log(`Merging "${job.title}" (${source}) into ${lead.id}`);
+          processed++;
+          addPartner(lead, job);
+          continue;
+        }
+        const company = job.company ? companies.resolve(job.company) : null;
+        if (company) job.company = canonicalCompanyName(company) || job.company;
+        const fuzzy = postingIndex.findMatch(job);
+        const match = await findDuplicateJob(env, job.title, job.company)
+          ?? (fuzzy ? { jobId: fuzzy.job.id, source: fuzzy.job.source ?? null, reason: 'fuzzy' as const, score: fuzzy.score } : null);
+        const recentPost = await findRecentPost(job, match);
+        if (recentPost) {
+          console.log(`Joining "${job.title}" (${source}) to the post of ${recentPost.id}`);
+          processed++;
+          postJoins.push({ job, row: recentPost, match: match! });
+          continue;
+        }
+        waiting++;
+        const stats = sourceStats.get(source);
+        if (stats) stats.deferred++;
+        if (dryRun) {
+          preview.push({ jobId: job.id, source, title: job.title, company: job.company, decision: 'deferred' });
+        } else if (!backlogIds.has(job.id)) {
+          await saveDeferredJob(env, job, runId);
+        }
+      }
+      if (waiting > 0) console.log(`${waiting} jobs held for the ${mergeWindow}-minute merge window`);
+    }
 
-        // 6. Process job (clean HTML, fetch details if needed)
-        console.log(`Processing job with ${source} plugin: ${job.title}`);
-        const processedJob = await plugin.processJob(job, env);
+    // New company names no alias matched go on the /company unmatched review list
+    if (!dryRun && unmatchedCompanies.length > 0) {
+      try {
+        await recordUnmatchedCompanies(env, unmatchedCompanies);
+      } catch (error) {
+        console.error('Failed to record unmatched companies:', error);
+      }
+    }
 
-        // 6.5 Save job to D1 on fetch (status='fetched')
-        await saveJobOnFetch(env, job.id, processedJob, job.description || '', source, runId);
+    // Listings merged into another's post are archived as its duplicates
+    const archiveMerged = async (primary: JobItem, merged: JobItem[]) => {
+      for (const other of merged) {
+        const otherSource = other.source || DEFAULT_SOURCE;
+        const match = mergeMatch(other, primary);
+        if (dryRun) {
+          preview.push({
+            jobId: other.id, source: otherSource, title: other.title, company: other.company, decision: 'duplicate',
+            duplicateOf: primary.id,
+          });
+        } else {
+          await saveDuplicateJob(env, { ...other, source: otherSource }, match, runId);
+          await markJobAsPosted(env, other.id, other.title, other.company);
+        }
+        skipped++;
+        const otherStats = sourceStats.get(otherSource);
+        if (otherStats) otherStats.skipped++;
+      }
+    };
 
-        // 7. Generate AI summary and category
-        console.log(`Generating AI summary for: ${job.title}`);
-        const { summary, category } = await summarizeJob(processedJob, env);
+    // 5-7. Process, filter, and summarize with bounded concurrency
+    const mergeRanks = partners.size > 0 ? catalogMergeRanks(sources) : {};
+    const limit = createLimiter(concurrency);
+    const prepared = candidates.map(job =>
+      limit(() => outOfTime() ? Promise.resolve(null) : prepareJob(env, job, sources, stages, companies, hashtagMap, {
+        repost: reposts.get(job.id),
+        partners: partners.get(job.id),
+        mergeRanks,
+      }))
+    );
 
-        // Update category in processed job
-        processedJob.category = category;
+    // 8-11. Publish in order — each send waits only for its own job to be ready
+    for (let i = 0; i < candidates.length; i++) {
+      const lead = candidates[i];
+      const ready = outOfTime() ? null : await prepared[i];
+      // Pace the send first, so the lease is checked right before it goes out
+      if (ready?.kind === 'ready' && !dryRun) await waitForSendSlot();
+      const result = lease.lost ? null : ready;
 
-        // 8. Format message
-        const message = formatTelegramMessage(summary, job.link, processedJob.imageUrl, env.LINKEDIN_URL, source, category, hashtagMap[source]);
+      if (!result) {
+        // Time budget reached or lease lost — save this job and the rest (with their merge partners) to the backlog
+        const rest = candidates.slice(i).flatMap(left => [left, ...(partners.get(left.id) ?? [])]);
+        console.log(`${stopReason()} — carrying over ${rest.length} jobs`);
+        for (const left of rest) {
+          const leftSource = left.source || DEFAULT_SOURCE;
+          if (dryRun) {
+            preview.push({ jobId: left.id, source: leftSource, title: left.title, company: left.company, decision: 'deferred' });
+          } else {
+            await saveDeferredJob(env, left, runId);
+          }
+          processed--;
+          const leftStats = sourceStats.get(leftSource);
+          if (leftStats) leftStats.deferred++;
+        }
+        checkpoint = rest.map(j => j.id);
+        break;
+      }
 
-        // 9. Send to Telegram
-        console.log(`Sending to Telegram: ${job.title}`);
-        let sendResult;
+      // The posted listing: the merge group's primary, which may not be the job queued first
+      const job = result.job;
+      const source = job.source || DEFAULT_SOURCE;
+      const stats = sourceStats.get(source);
+      await archiveMerged(job, result.merged);
 
-        if (message.hasImage && message.imageUrl) {
-          sendResult = await sendPhotoMessage(
-            env.TELEGRAM_BOT_TOKEN,
-            env.TELEGRAM_CHAT_ID,
-            message.imageUrl,
-            message.fullMessage
-          );
+      if (result.kind === 'duplicate') {
+        const { match } = reposts.get(lead.id)!;
+        console.log(`Skipping duplicate job: "${job.title}" (${source}) — deadline not later than ${match.jobId}'s`);
+        if (dryRun) {
+          preview.push({
+            jobId: job.id, source, title: job.title, company: job.company, decision: 'duplicate',
+            duplicateOf: match.jobId ?? undefined,
+          });
         } else {
-          sendResult = await sendTextMessage(
-            env.TELEGRAM_BOT_TOKEN,
-            env.TELEGRAM_CHAT_ID,
-            message.fullMessage
-          );
+          await saveDuplicateJob(env, { ...job, source }, match, runId);
+          await markJobAsPosted(env, job.id, job.title, job.company);
         }
+        skipped++;
+        if (stats) stats.skipped++;
+        continue;
+      }
 
-        // 10. Mark as posted only if successful
-        if (sendResult.success) {
-          // Mark source-specific ID
-          await markJobAsPosted(env, job.id, job.title, job.company);
-          // Mark dedup key (title+company) for cross-source deduplication
-          await markDedupKey(env, job.title, job.company);
-          // Update job status in D1 with AI summary and telegram message ID
-          await updateJobStatus(env, job.id, 'posted', {
-            aiSummary: summary,
-            category,
-            telegramMessageId: sendResult.messageId,
+      if (result.kind === 'filtered') {
+        console.log(`Filtered by ${result.stage}: ${job.title} (${source}) — ${result.reason}`);
+        if (dryRun) {
+          preview.push({
+            jobId: job.id, source, title: job.title, company: job.company, decision: 'filtered',
+            filter: { stage: result.stage, reason: result.reason },
           });
+        } else {
+          await saveJobOnFetch(env, job, result.processedJob, job.description || '', source, runId);
+          await markJobFiltered(env, job.id, result.stage, result.reason);
+          // Mark the source-specific ID so the job isn't reprocessed every run
+          await markJobAsPosted(env, job.id, job.title, job.company);
+        }
+        skipped++;
+        if (stats) stats.filtered++;
+        continue;
+      }
+
+      if (result.kind === 'error') {
+        if (dryRun) {
+          preview.push({ jobId: job.id, source, title: job.title, company: job.company, decision: 'error', error: result.error });
+        } else {
+          // Archive what we have so the retry stage can pick it up; if the plugin
+          // itself failed there's no D1 row, so keep the old validators of its listings —
+          // an unchanged listing would otherwise hide the job from the next run.
+          // A backlog job the plugin failed on stays deferred and is processed again next run.
+          if (result.processedJob) {
+            await saveJobOnFetch(env, job, result.processedJob, job.description || '', source, runId);
+            await markJobLinks(env, job.id, result.processedJob);
+          } else if (fetchCache) {
+            for (const member of [job, ...(partners.get(job.id) ?? [])]) {
+              discardFetchValidators(fetchCache, member.source || DEFAULT_SOURCE);
+            }
+          }
+          if (result.processedJob || !backlogIds.has(job.id)) await recordJobFailure(env, job.id, result.error);
+        }
+        failed++;
+        if (stats) stats.failed++;
+        continue;
+      }
+
+      if (dryRun) {
+        preview.push({
+          jobId: job.id, source, title: job.title, company: job.company, decision: 'new',
+          message: result.rendered.message, repostOf: result.processedJob.repostOf,
+          mergedFrom: result.merged.length > 0 ? result.merged.map(m => m.id) : undefined,
+        });
+        posted++;
+        if (stats) stats.posted++;
+        continue;
+      }
+
+      // 8. Save job to D1 (status='fetched')
+      await saveJobOnFetch(env, job, result.processedJob, job.description || '', source, runId);
+      await markJobLinks(env, job.id, result.processedJob);
+
+      // 9-10. Send and mark as posted only if successful (rate limited between sends)
+      try {
+        const ok = await sendJob(env, job, result.rendered);
+        lastSendAt = Date.now();
+        if (ok) {
           posted++;
           if (stats) stats.posted++;
           console.log(`Successfully posted: ${job.title} (${source})`);
         } else {
           console.error(`Failed to post: ${job.title}`);
-          await updateJobStatus(env, job.id, 'failed');
+          // Not marked as posted — the retry stage picks it up after backoff
+          await recordJobFailure(env, job.id, 'Telegram send failed');
           failed++;
           if (stats) stats.failed++;
-          // Don't mark as posted, will retry next hour
-        }
-
-        // 11. Rate limit delay
-        if (posted < jobsToProcess.length) {
-          await delay(delayMs);
         }
       } catch (error) {
-        console.error(`Error processing job ${job.id}:`, error);
-        try { await updateJobStatus(env, job.id, 'failed'); } catch { /* job may not exist in D1 yet */ }
+        console.error(`Error posting job ${job.id}:`, error);
+        await recordJobFailure(env, job.id, error instanceof Error ? error.message : String(error));
         failed++;
         if (stats) stats.failed++;
-        // Continue with next job
+      }
+    }
+
+    // 11b. Listings that joined a recent post: edit the post to take them in, archive them as its duplicates.
+    // One not archived (time budget, lease or error) is fetched again next run.
+    for (const { job, row, match } of postJoins) {
+      if (outOfTime()) break;
+      const source = job.source || DEFAULT_SOURCE;
+      const stats = sourceStats.get(source);
+      try {
+        const joined = await joinPostedJob(env, job, row, sources, stages, hashtagMap);
+        if (dryRun) {
+          preview.push({ jobId: job.id, source, title: job.title, company: job.company, decision: 'duplicate', duplicateOf: row.id });
+          preview.push({
+            jobId: row.id, source: row.source, title: row.title, company: row.company || '', decision: 'updated',
+            message: joined.rendered.message, changes: joined.changes,
+          });
+          skipped++;
+          if (stats) stats.skipped++;
+          continue;
+        }
+
+        await waitForSendSlot();
+        if (lease.lost) break;
+        const edited = await editJobPost(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, row.telegram_message_id!, joined.rendered.message);
+        lastSendAt = Date.now();
+        if (!edited) console.error(`Failed to edit post for ${row.id} — ${job.id} merged without edit`);
+
+        await markJobMerged(env, row.id, joined.processedJob.mergedSources!);
+        if (joined.changes.length > 0) {
+          const before = normalizeContent(recordContent(row));
+          await saveJobRevision(env, row.id, joined.processedJob, {
+            runId,
+            previousHash: row.content_hash,
+            contentHash: joined.contentHash,
+            changedFields: joined.changes,
+            previousValues: Object.fromEntries(joined.changes.map(field => [field, before[field]])),
+            telegramEdited: edited,
+            aiSummary: edited ? joined.rendered.summary : undefined,
+          });
+        }
+        await saveDuplicateJob(env, { ...job, source }, match, runId);
+        await markJobAsPosted(env, job.id, job.title, job.company);
+        console.log(`Merged "${job.title}" (${source}) into the post of ${row.id}`);
+        skipped++;
+        if (stats) stats.skipped++;
+      } catch (error) {
+        console.error(`Failed to merge ${job.id} into the post of ${row.id}:`, error);
+      }
+    }
+
+    // 12. Update stage — edit the posts of refetched jobs whose content changed
+    let updateChecks = 0;
+    for (const job of postedSeen) {
+      if (updateChecks >= MAX_UPDATE_CHECKS_PER_RUN || outOfTime()) break;
+      const source = job.source || DEFAULT_SOURCE;
+      const stats = sourceStats.get(source);
+      try {
+        const row = await getJobFromDB(env, job.id);
+        if (!isUpdateCheckDue(row, Date.now())) continue;
+        updateChecks++;
+
+        const check = await checkJobUpdate(env, job, row, sources, stages, rowHashtag(row, hashtagMap));
+        if (check.kind === 'unchanged') {
+          if (!dryRun) await markContentChecked(env, job.id, check.contentHash);
+          continue;
+        }
+
+        console.log(`Content changed for posted job ${job.id}: ${check.changes.join(', ')}`);
+        if (dryRun) {
+          preview.push({
+            jobId: job.id, source, title: job.title, company: job.company, decision: 'updated',
+            message: check.rendered.message, changes: check.changes,
+          });
+          if (stats) stats.updated++;
+          continue;
+        }
+
+        await waitForSendSlot();
+        if (lease.lost) break;
+        const edited = await editJobPost(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, row.telegram_message_id!, check.rendered.message);
+        lastSendAt = Date.now();
+        if (!edited) console.error(`Failed to edit post for ${job.id} — revision recorded without edit`);
+
+        const before = normalizeContent(recordContent(row));
+        await saveJobRevision(env, job.id, check.processedJob, {
+          runId,
+          previousHash: row.content_hash,
+          contentHash: check.contentHash,
+          changedFields: check.changes,
+          previousValues: Object.fromEntries(check.changes.map(field => [field, before[field]])),
+          telegramEdited: edited,
+          aiSummary: edited ? check.rendered.summary : undefined,
+        });
+        if (edited && stats) stats.updated++;
+      } catch (error) {
+        console.error(`Update check failed for ${job.id}:`, error);
       }
     }
   } catch (error) {
     console.error('Error in processJobs:', error);
     // Complete run with error
-    if (runId) {
-      await completeRun(env, runId, {
-        jobs_fetched: processed, jobs_posted: posted, jobs_skipped: skipped, jobs_failed: failed,
-        source_stats: Object.fromEntries(sourceStats),
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
+    await finishRun(error instanceof Error ? error.message : String(error));
     // Send critical error alert
-    if (env.ADMIN_CHAT_ID) {
+    if (env.ADMIN_CHAT_ID && !dryRun) {
       await sendTextMessage(env.TELEGRAM_BOT_TOKEN, env.ADMIN_CHAT_ID,
         `❌ <b>Critical error in processJobs</b>\n\n${error instanceof Error ? error.message : String(error)}\n\n<i>${new Date().toISOString()}</i>`);
     }
@@ -337,21 +1471,13 @@ export async function processJobs(
 
   console.log(`Processing complete. Processed: ${processed}, Posted: ${posted}, Skipped: ${skipped}, Failed: ${failed}`);
 
-  // Complete run record in D1
-  if (runId) {
-    await completeRun(env, runId, {
-      jobs_fetched: processed,
-      jobs_posted: posted,
-      jobs_skipped: skipped,
-      jobs_failed: failed,
-      source_stats: Object.fromEntries(sourceStats),
-    });
-  }
+  // Complete run record in D1 ('partial' if the time budget ran out)
+  await finishRun();
 
   // Final summary edit with complete stats
   await sendOrUpdateAdmin(true);
 
-  return { processed, posted, skipped, failed };
+  return buildResult();
 }
 
 /**
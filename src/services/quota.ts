@@ -0,0 +1,77 @@
+/**
+ * Per-source quota allocation — splits a run's job quota across sources.
+ *
+ * Each source has a weight, an optional per-run cap, and a reserved minimum
+ * (sources table: quota_weight, max_per_run, min_per_run). Minimums are
+ * handed out first, then the rest is split by weight. Slots a source can't use
+ * (too few jobs, or capped) go to the other sources.
+ */
+
+export interface SourceQuota {
+  weight: number;
+  max: number | null;
+  min: number;
+}
+
+export const DEFAULT_SOURCE_QUOTA: SourceQuota = { weight: 1, max: null, min: 0 };
+
+/**
+ * Allocate `quota` slots across sources.
+ *
+ * `available` maps each source to how many jobs it has this run, in priority
+ * order (ties go to the earlier source). Sources missing from `policies` use
+ * DEFAULT_SOURCE_QUOTA. A source with weight 0 only gets its minimum.
+ */
+export function allocateQuota(
+  quota: number,
+  available: Map<string, number>,
+  policies: Record<string, SourceQuota> = {}
+): Map<string, number> {
+  const allocations = new Map<string, number>();
+  const caps = new Map<string, number>();
+  let remaining = Math.max(0, Math.floor(quota));
+
+  for (const [src, count] of available) {
+    const { max } = policies[src] ?? DEFAULT_SOURCE_QUOTA;
+    caps.set(src, Math.max(0, max === null ? count : Math.min(count, max)));
+    allocations.set(src, 0);
+  }
+
+  // First pass: reserved minimums, in source order
+  for (const src of available.keys()) {
+    if (remaining <= 0) break;
+    const min = Math.max(0, (policies[src] ?? DEFAULT_SOURCE_QUOTA).min);
+    const alloc = Math.min(min, caps.get(src)!, remaining);
+    allocations.set(src, alloc);
+    remaining -= alloc;
+  }
+
+  // Second pass: split what's left by weight, redistributing slots capped sources can't use
+  const weightOf = (src: string) => Math.max(0, (policies[src] ?? DEFAULT_SOURCE_QUOTA).weight);
+  while (remaining > 0) {
+    const open = [...available.keys()].filter(src => weightOf(src) > 0 && allocations.get(src)! < caps.get(src)!);
+    if (open.length === 0) break;
+
+    const totalWeight = open.reduce((sum, src) => sum + weightOf(src), 0);
+    let given = 0;
+    for (const src of open) {
+      const room = caps.get(src)! - allocations.get(src)!;
+      const share = Math.min(room, Math.floor(remaining * weightOf(src) / totalWeight));
+      allocations.set(src, allocations.get(src)! + share);
+      given += share;
+    }
+    remaining -= given;
+
+    // Rounding left slots nobody's share covered: hand them out one at a time, heaviest first
+    if (given === 0) {
+      const byWeight = [...open].sort((a, b) => weightOf(b) - weightOf(a));
+      for (const src of byWeight) {
+        if (remaining <= 0) break;
+        allocations.set(src, allocations.get(src)! + 1);
+        remaining--;
+      }
+    }
+  }
+
+  return allocations;
+}
@@ -0,0 +1,207 @@
+/**
+ * KV/D1 consistency reconciler — runs weekly (cron 0 4 * * 1) and on /reconcile.
+ *
+ * D1 jobs.status is the source of truth; the KV cache (job:<id>, dedup:<key>) drifts
+ * from it when a D1 write fails after a job was handled, a KV delete fails on /clear,
+ * or a run dies mid-job. The scan reports disagreements by category, and nothing is
+ * changed until an admin confirms the repair:
+ *
+ * - unrecorded: KV marks the job handled, but D1 has no row or still has it
+ *   fetched/failed/dead/deferred → recorded in D1 as 'skipped', so it isn't posted again.
+ * - released: KV marks a job /clear released (D1 'cleared') → KV key deleted.
+ * - staleDedup: a dedup entry names a job that isn't posted → entry deleted.
+ * - stuckFetched: 'fetched' for over a day without a KV mark → handed to the retry queue.
+ */
+
+import type { Env, JobStatus } from '../types';
+import type { InlineKeyboardMarkup } from '../types/telegram';
+import { sendMessageWithKeyboard } from './telegram';
+import {
+  listKVKeys, deleteKVKeys, getPostedJobRecord, getCachedDedupEntry,
+  getJobStatuses, saveSkippedJob, updateJobStatus, getStuckFetchedIds, requeueStuckJobs,
+} from './storage';
+import { jobIdSource } from './job-ids';
+import { DEFAULT_SOURCE } from './sources/registry';
+
+export const STUCK_FETCHED_HOURS = 24;
+
+const JOB_KEY_PREFIX = 'job:';
+const DEDUP_KEY_PREFIX = 'dedup:';
+const MAX_KV_JOB_KEYS = 5000; // job: keys listed per scan (list calls only)
+const MAX_DEDUP_READS = 500; // dedup: entries per scan (one KV read each)
+const MAX_EXAMPLES = 3; // IDs shown per category
+
+/** D1 statuses that contradict a KV "handled" mark */
+const UNHANDLED_STATUSES: JobStatus[] = ['fetched', 'failed', 'dead', 'deferred'];
+
+/** D1 statuses a dedup entry's job may have */
+const POSTED_STATUSES: JobStatus[] = ['posted', 'expired'];
+
+export interface ReconcileReport {
+  kvJobKeys: number;
+  dedupEntries: number;
+  complete: boolean; // false when the KV cache was too big to scan in one go
+  unrecorded: Array<{ id: string; status: JobStatus | null }>;
+  released: string[];
+  staleDedup: Array<{ key: string; jobId: string; status: JobStatus }>;
+  stuckFetched: string[];
+}
+
+export interface ReconcileRepairResult {
+  recorded: number;
+  released: number;
+  dedupKeys: number;
+  requeued: number;
+}
+
+export const RECONCILE_KEYBOARD: InlineKeyboardMarkup = {
+  inline_keyboard: [[
+    { text: '🛠 Repair', callback_data: 'reconcile:repair' },
+    { text: '🔄 Rescan', callback_data: 'reconcile' },
+  ]],
+};
+
+export function countInconsistencies(report: ReconcileReport): number {
+  return report.unrecorded.length + report.released.length + report.staleDedup.length + report.stuckFetched.length;
+}
+
+/**
+ * Compare the KV cache with D1 job statuses and list stuck 'fetched' rows. Read-only.
+ */
+export async function scanConsistency(env: Env): Promise<ReconcileReport> {
+  const jobKeys = await listKVKeys(env, JOB_KEY_PREFIX, MAX_KV_JOB_KEYS);
+  const dedupKeys = await listKVKeys(env, DEDUP_KEY_PREFIX, MAX_DEDUP_READS);
+  const markedIds = jobKeys.names.map(name => name.slice(JOB_KEY_PREFIX.length));
+
+  const dedupEntries: Array<{ key: string; jobId: string }> = [];
+  for (const key of dedupKeys.names) {
+    const entry = await getCachedDedupEntry(env, key);
+    if (entry?.jobId) dedupEntries.push({ key, jobId: entry.jobId }); // Timestamp-only entries name no job
+  }
+
+  const statuses = await getJobStatuses(env, [...new Set([...markedIds, ...dedupEntries.map(e => e.jobId)])]);
+  const report: ReconcileReport = {
+    kvJobKeys: markedIds.length,
+    dedupEntries: dedupKeys.names.length,
+    complete: jobKeys.complete && dedupKeys.complete,
+    unrecorded: [],
+    released: [],
+    staleDedup: [],
+    stuckFetched: [],
+  };
+
+  for (const id of markedIds) {
+    const status = statuses.get(id) ?? null;
+    if (status === 'cleared') report.released.push(id);
+    else if (status === null || UNHANDLED_STATUSES.includes(status)) report.unrecorded.push({ id, status });
+  }
+
+  // A job D1 hasn't caught up on yet keeps its dedup entry (KV is right about it)
+  const unrecorded = new Set(report.unrecorded.map(u => u.id));
+  for (const entry of dedupEntries) {
+    const status = statuses.get(entry.jobId);
+    if (status && !POSTED_STATUSES.includes(status) && !unrecorded.has(entry.jobId)) {
+      report.staleDedup.push({ ...entry, status });
+    }
+  }
+
+  const marked = new Set(markedIds);
+  report.stuckFetched = (await getStuckFetchedIds(env, STUCK_FETCHED_HOURS)).filter(id => !marked.has(id));
+  return report;
+}
+
+/**
+ * Repair what a scan found (see the module comment for what each category gets).
+ */
+export async function repairConsistency(env: Env, report: ReconcileReport): Promise<ReconcileRepairResult> {
+  for (const { id, status } of report.unrecorded) {
+    if (status === null) {
+      const record = await getPostedJobRecord(env, id);
+      await saveSkippedJob(env, id, record?.title || id, record?.company, 'skipped', jobIdSource(id) ?? DEFAULT_SOURCE);
+    } else {
+      await updateJobStatus(env, id, 'skipped');
+    }
+  }
+
+  await deleteKVKeys(env, [
+    ...report.released.map(id => `${JOB_KEY_PREFIX}${id}`),
+    ...report.staleDedup.map(entry => entry.key),
+  ]);
+  const requeued = await requeueStuckJobs(env, report.stuckFetched);
+
+  const result: ReconcileRepairResult = {
+    recorded: report.unrecorded.length,
+    released: report.released.length,
+    dedupKeys: report.staleDedup.length,
+    requeued,
+  };
+  console.log(`Reconcile repair: ${result.recorded} recorded, ${result.released} released, ${result.dedupKeys} dedup keys, ${result.requeued} requeued`);
+  return result;
+}
+
+/**
+ * Weekly cron: scan and, if anything disagrees, send the report to the admin chat
+ * with a repair button.
+ */
+export async function runScheduledReconcile(env: Env): Promise<ReconcileReport> {
+  const report = await scanConsistency(env);
+  const issues = countInconsistencies(report);
+  console.log(`Reconcile scan: ${issues} inconsistencies (${report.kvJobKeys} job keys, ${report.dedupEntries} dedup entries)`);
+
+  if (env.ADMIN_CHAT_ID && issues > 0) {
+    await sendMessageWithKeyboard(env.TELEGRAM_BOT_TOKEN, env.ADMIN_CHAT_ID, formatReconcileReport(report), RECONCILE_KEYBOARD);
+  }
+  return report;
+}
+
+function examples(ids: string[]): string {
+  const shown = ids.slice(0, MAX_EXAMPLES).map(id => `<code>${id}</code>`).join(', ');
+  return ids.length > MAX_EXAMPLES ? `${shown} …` : shown;
+}
+
+/**
+ * Format a scan for the admin chat.
+ */
+export function formatReconcileReport(report: ReconcileReport): string {
+  const lines = ['🩺 <b>KV/D1 Consistency</b>\n'];
+  lines.push(`Scanned: ${report.kvJobKeys} KV job keys · ${report.dedupEntries} dedup entries`);
+  if (!report.complete) lines.push('⚠️ KV cache too large to scan at once — run again after repairing');
+
+  if (countInconsistencies(report) === 0) {
+    lines.push('\n✅ KV and D1 agree.');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  if (report.unrecorded.length > 0) {
+    lines.push(`📝 Handled in KV, not in D1: ${report.unrecorded.length}`);
+    lines.push(`  ${examples(report.unrecorded.map(u => u.id))}`);
+  }
+  if (report.released.length > 0) {
+    lines.push(`🔓 Released by /clear, still in KV: ${report.released.length}`);
+    lines.push(`  ${examples(report.released)}`);
+  }
+  if (report.staleDedup.length > 0) {
+    lines.push(`🔑 Dedup entries for unposted jobs: ${report.staleDedup.length}`);
+    lines.push(`  ${examples(report.staleDedup.map(e => e.jobId))}`);
+  }
+  if (report.stuckFetched.length > 0) {
+    lines.push(`⏳ Stuck in fetched over ${STUCK_FETCHED_HOURS}h: ${report.stuckFetched.length}`);
+    lines.push(`  ${examples(report.stuckFetched)}`);
+  }
+
+  lines.push('\n<i>Repair records KV-handled jobs as skipped in D1, deletes stale KV entries and queues stuck jobs for retry.</i>');
+  return lines.join('\n');
+}
+
+/**
+ * Format a repair result for the admin chat.
+ */
+export function formatReconcileRepair(result: ReconcileRepairResult): string {
+  const lines = ['🛠 <b>Consistency Repair</b>\n'];
+  lines.push(`📝 Recorded as skipped: ${result.recorded}`);
+  lines.push(`🔓 KV job keys deleted: ${result.released}`);
+  lines.push(`🔑 Dedup entries deleted: ${result.dedupKeys}`);
+  lines.push(`🔁 Queued for retry: ${result.requeued}`);
+  return lines.join('\n');
+}
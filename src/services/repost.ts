@@ -0,0 +1,85 @@
+/**
+ * Repost policy — whether a re-advertised job is posted again.
+ *
+ * NGOs often re-advertise a position weeks later with a new deadline. When a job
+ * matches an earlier posting (exact or fuzzy title+company), its source's policy
+ * decides (sources table: repost_policy, repost_after_days):
+ * 'never' skips it as a duplicate, 'after_days' reposts once the earlier post is
+ * at least N days old, 'deadline_moved' reposts when the new deadline is later.
+ * Reposts carry the "إعادة إعلان" label and link to the earlier job via repost_of.
+ */
+
+import type { JobRecord, RepostPolicyMode } from '../types';
+import { parseDeadline } from './ai-format';
+
+export const REPOST_LABEL = '🔁 إعادة إعلان';
+
+export const REPOST_POLICY_MODES: readonly RepostPolicyMode[] = ['never', 'after_days', 'deadline_moved'];
+
+export interface RepostPolicy {
+  mode: RepostPolicyMode;
+  afterDays: number;
+}
+
+export const DEFAULT_REPOST_AFTER_DAYS = 30;
+export const DEFAULT_REPOST_POLICY: RepostPolicy = { mode: 'never', afterDays: DEFAULT_REPOST_AFTER_DAYS };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRepostPolicyMode(value: unknown): value is RepostPolicyMode {
+  return typeof value === 'string' && (REPOST_POLICY_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * First check, before the job is processed: can it be a repost of `original`?
+ * - 'no': stays a duplicate (policy 'never', earlier post too recent, or not a posting)
+ * - 'yes': repost it
+ * - 'if_deadline_moved': decide once the new deadline is known (see deadlineMovedForward)
+ */
+export function checkRepost(
+  policy: RepostPolicy,
+  original: Pick<JobRecord, 'status' | 'posted_at'>,
+  now: Date = new Date()
+): 'no' | 'yes' | 'if_deadline_moved' {
+  if (original.status !== 'posted' && original.status !== 'expired') return 'no';
+
+  switch (policy.mode) {
+    case 'after_days': {
+      if (!original.posted_at) return 'no';
+      const age = now.getTime() - new Date(original.posted_at).getTime();
+      return age >= policy.afterDays * DAY_MS ? 'yes' : 'no';
+    }
+    case 'deadline_moved':
+      return 'if_deadline_moved';
+    default:
+      return 'no';
+  }
+}
+
+/**
+ * Whether `next` is a later deadline than `previous`. Unparseable or missing
+ * deadlines never count as moved.
+ */
+export function deadlineMovedForward(previous: string | null | undefined, next: string | null | undefined): boolean {
+  const before = parseDeadline(previous || '');
+  const after = parseDeadline(next || '');
+  return before !== null && after !== null && after.getTime() > before.getTime();
+}
+
+/**
+ * Put the repost label above a job summary.
+ */
+export function labelRepost(summary: string): string {
+  return `${REPOST_LABEL}\n\n${summary}`;
+}
+
+/**
+ * Describe a policy for /source and logs.
+ */
+export function describeRepostPolicy(policy: RepostPolicy): string {
+  switch (policy.mode) {
+    case 'after_days': return `after ${policy.afterDays}d`;
+    case 'deadline_moved': return 'if deadline moved';
+    default: return 'never';
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Retry policy for failed job posts.
+ * Exponential backoff aligned to the hourly cron; jobs past the cap are marked dead.
+ */
+
+/** Failed attempts allowed before a job is given up on (status 'dead'). */
+export const MAX_RETRY_ATTEMPTS = 5;
+
+/** First retry waits one cron interval, then doubles: 1h → 2h → 4h → 8h. */
+const RETRY_BASE_DELAY_MS = 60 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetryPlan {
+  status: 'failed' | 'dead';
+  retryCount: number;
+  nextAttemptAt: string | null;
+}
+
+/**
+ * Backoff delay after the given number of failed attempts (1-based).
+ */
+export function getRetryDelayMs(retryCount: number): number {
+  const exponent = Math.max(0, retryCount - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, exponent), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Decide what happens after another failed attempt.
+ * @param previousCount - retry_count stored before this failure
+ */
+export function planRetry(previousCount: number, now: Date = new Date()): RetryPlan {
+  const retryCount = previousCount + 1;
+  if (retryCount >= MAX_RETRY_ATTEMPTS) {
+    return { status: 'dead', retryCount, nextAttemptAt: null };
+  }
+  return {
+    status: 'failed',
+    retryCount,
+    nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(retryCount)).toISOString(),
+  };
+}
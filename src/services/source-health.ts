@@ -0,0 +1,298 @@
+/**
+ * Source health — tells a broken source apart from a quiet one.
+ *
+ * A site that changes its markup doesn't fail: the scraper finds no job containers
+ * and returns no jobs, like on a quiet day. So every scheduled run records a health
+ * check per fetched source (source_health_checks) and compares it with the source's
+ * healthy history:
+ *
+ * - failing run: the fetch threw, or the listing was empty although the source
+ *   averages at least one job per run. Runs whose listing was unchanged since the
+ *   last run (fetch cache hit) don't count either way.
+ * - field regression: a listing field (company, image, …) missing from nearly all
+ *   jobs when it is usually there — a selector stopped matching.
+ *
+ * DEGRADED_AFTER failing runs in a row (or a field regression) mark the source
+ * degraded; SOURCE_QUARANTINE_AFTER in a row quarantine it: it is disabled with the
+ * reason recorded until an admin re-enables it. The admin is told on each change.
+ */
+
+import type { Env, JobItem, SourceHealthCheckRecord, SourceHealthStatus, SourceRecord } from '../types';
+import { sendTextMessage } from './telegram';
+import { escapeHtml } from '../utils/format';
+import { getSourceHealthChecks, saveSourceHealthCheck, quarantineSource, pruneSourceHealthChecks } from './storage';
+
+export const DEFAULT_QUARANTINE_AFTER = 6;
+
+const DEGRADED_AFTER = 2; // Failing runs in a row before a source counts as degraded
+const MIN_AVG_JOBS = 1; // Sources averaging fewer jobs per run may have genuinely empty runs
+const MIN_BASELINE_CHECKS = 3; // Healthy checks needed before averages are trusted
+const HISTORY_CHECKS = 50; // Checks loaded to assess a source
+const KEPT_CHECKS = 500; // Checks kept per source by the daily prune (hourly sources: about three weeks)
+const FIELD_MISSING_RATE = 0.9; // A field missing from this share of jobs…
+const FIELD_BASELINE_RATE = 0.5; // …when it is usually missing from at most this share is a regression
+
+/** Listing fields whose null rates are tracked */
+export const HEALTH_FIELDS = ['company', 'image', 'description', 'pubDate'] as const;
+
+export type HealthField = typeof HEALTH_FIELDS[number];
+
+/** What a run got from one source */
+export interface SourceFetchOutcome {
+  source: string;
+  jobs: JobItem[];
+  error?: string;
+  unchanged: boolean;
+}
+
+export interface HealthAssessment {
+  status: SourceHealthStatus;
+  reason?: string;
+  failingStreak: number;
+  avgJobs: number | null; // Average jobs per healthy run (null = not enough history)
+}
+
+interface HealthSample {
+  jobsFound: number;
+  error?: string | null;
+  unchanged: boolean;
+  nullRates: Partial<Record<HealthField, number>>;
+  status?: SourceHealthStatus;
+}
+
+/**
+ * Parse SOURCE_QUARANTINE_AFTER, falling back to the default for missing or invalid values.
+ */
+export function parseQuarantineAfter(value: string | undefined): number {
+  const count = value ? parseInt(value, 10) : NaN;
+  return count >= 1 ? count : DEFAULT_QUARANTINE_AFTER;
+}
+
+function isMissing(job: JobItem, field: HealthField): boolean {
+  switch (field) {
+    case 'company': return !job.company || job.company === 'Unknown Company';
+    case 'image': return !job.imageUrl;
+    case 'description': return !job.description;
+    case 'pubDate': return !job.pubDate;
+  }
+}
+
+/**
+ * Share of jobs missing each tracked field (empty when there are no jobs).
+ */
+export function fieldNullRates(jobs: JobItem[]): Partial<Record<HealthField, number>> {
+  if (jobs.length === 0) return {};
+  return Object.fromEntries(HEALTH_FIELDS.map(field => {
+    const missing = jobs.filter(job => isMissing(job, field)).length;
+    return [field, Math.round((missing / jobs.length) * 100) / 100];
+  }));
+}
+
+function parseNullRates(value: string | null): Partial<Record<HealthField, number>> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value) as Partial<Record<HealthField, number>>;
+  } catch {
+    return {};
+  }
+}
+
+function toSample(check: SourceHealthCheckRecord): HealthSample {
+  return {
+    jobsFound: check.jobs_found,
+    error: check.error,
+    unchanged: check.unchanged === 1,
+    nullRates: parseNullRates(check.null_rates),
+    status: check.status,
+  };
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Assess a source from this run's sample and its earlier checks (newest first).
+ */
+export function assessSourceHealth(
+  current: HealthSample,
+  history: SourceHealthCheckRecord[],
+  quarantineAfter: number
+): HealthAssessment {
+  const samples = [current, ...history.map(toSample)].filter(s => !s.unchanged);
+
+  // Trailing run of errors / empty listings, up to the check that last quarantined the source
+  const streak: HealthSample[] = [];
+  for (const sample of samples) {
+    if (sample !== current && sample.status === 'quarantined') break;
+    if (!sample.error && sample.jobsFound > 0) break;
+    streak.push(sample);
+  }
+  const firstEmpty = streak.findIndex(s => !s.error);
+  const errorStreak = firstEmpty === -1 ? streak.length : firstEmpty;
+
+  // Earlier healthy runs before the streak
+  const baseline = samples.slice(streak.length).filter(s =>
+    s !== current && !s.error && s.status !== 'degraded' && s.status !== 'quarantined'
+  );
+  const avgJobs = baseline.length >= MIN_BASELINE_CHECKS ? mean(baseline.map(s => s.jobsFound)) : null;
+  const emptyMeansBroken = avgJobs !== null && avgJobs >= MIN_AVG_JOBS;
+  const failingStreak = emptyMeansBroken ? streak.length : errorStreak;
+
+  let reason: string | undefined;
+  if (failingStreak > 0) {
+    reason = errorStreak === failingStreak
+      ? `${failingStreak} failed fetch${failingStreak === 1 ? '' : 'es'} in a row: ${current.error ?? streak[0].error}`
+      : `${failingStreak} run${failingStreak === 1 ? '' : 's'} in a row with no jobs (usually ${avgJobs!.toFixed(1)})`;
+  }
+  if (failingStreak >= quarantineAfter) return { status: 'quarantined', reason, failingStreak, avgJobs };
+  if (failingStreak >= DEGRADED_AFTER) return { status: 'degraded', reason, failingStreak, avgJobs };
+
+  // Field regressions — only meaningful when this run found jobs
+  if (current.jobsFound > 0 && !current.error && !current.unchanged) {
+    const regressions: string[] = [];
+    for (const field of HEALTH_FIELDS) {
+      const rate = current.nullRates[field];
+      const usual = baseline.filter(s => s.jobsFound > 0 && s.nullRates[field] !== undefined).map(s => s.nullRates[field]!);
+      if (rate === undefined || usual.length < MIN_BASELINE_CHECKS) continue;
+      const usualRate = mean(usual);
+      if (rate >= FIELD_MISSING_RATE && usualRate <= FIELD_BASELINE_RATE) {
+        regressions.push(`${field} missing on ${percent(rate)} of jobs (usually ${percent(usualRate)})`);
+      }
+    }
+    if (regressions.length > 0) {
+      return { status: 'degraded', reason: regressions.join('; '), failingStreak, avgJobs };
+    }
+  }
+
+  return { status: 'healthy', reason, failingStreak, avgJobs };
+}
+
+function healthAlert(source: string, status: SourceHealthStatus, reason: string | undefined): string {
+  const why = reason ? `\n${escapeHtml(reason)}` : '';
+  switch (status) {
+    case 'quarantined':
+      return `🚫 <b>Source quarantined: ${source}</b>${why}\n\nIt is disabled until /source enable ${source}.`;
+    case 'degraded':
+      return `⚠️ <b>Source degraded: ${source}</b>${why}\n\n/source health ${source}`;
+    case 'healthy':
+      return `✅ <b>Source recovered: ${source}</b>`;
+  }
+}
+
+/**
+ * Record this run's health check for each fetched source, quarantine sources that
+ * keep failing, and tell the admin about status changes.
+ */
+export async function recordSourceHealth(env: Env, outcomes: SourceFetchOutcome[], runId?: number): Promise<void> {
+  const quarantineAfter = parseQuarantineAfter(env.SOURCE_QUARANTINE_AFTER);
+
+  for (const outcome of outcomes) {
+    try {
+      const history = await getSourceHealthChecks(env, outcome.source, HISTORY_CHECKS);
+      const nullRates = fieldNullRates(outcome.jobs);
+      const assessment = assessSourceHealth(
+        { jobsFound: outcome.jobs.length, error: outcome.error, unchanged: outcome.unchanged, nullRates },
+        history,
+        quarantineAfter
+      );
+
+      await saveSourceHealthCheck(env, {
+        source: outcome.source,
+        runId,
+        jobsFound: outcome.jobs.length,
+        unchanged: outcome.unchanged,
+        error: outcome.error,
+        nullRates,
+        status: assessment.status,
+        reason: assessment.reason,
+      });
+
+      let notify = assessment.status !== (history[0]?.status ?? 'healthy');
+      if (assessment.status === 'quarantined') {
+        notify = await quarantineSource(env, outcome.source, assessment.reason ?? 'Failing health checks');
+        console.warn(`Source ${outcome.source} quarantined: ${assessment.reason}`);
+      }
+      if (notify && env.ADMIN_CHAT_ID) {
+        await sendTextMessage(env.TELEGRAM_BOT_TOKEN, env.ADMIN_CHAT_ID, healthAlert(outcome.source, assessment.status, assessment.reason));
+      }
+    } catch (error) {
+      console.error(`Failed to record health for ${outcome.source}:`, error);
+    }
+  }
+}
+
+/**
+ * Delete old health checks (daily cron), keeping each source's newest KEPT_CHECKS —
+ * well past what assessments and /source health read.
+ */
+export async function pruneSourceHealthHistory(env: Env): Promise<number> {
+  const deleted = await pruneSourceHealthChecks(env, KEPT_CHECKS);
+  console.log(`Source health prune: ${deleted} old checks deleted`);
+  return deleted;
+}
+
+const STATUS_ICONS: Record<SourceHealthStatus, string> = { healthy: '✅', degraded: '⚠️', quarantined: '🚫' };
+
+function describeCheck(check: SourceHealthCheckRecord): string {
+  if (check.error) return `❌ ${escapeHtml(check.error)}`;
+  if (check.unchanged) return '♻️ unchanged';
+  return `${check.jobs_found} jobs`;
+}
+
+/**
+ * /source health — every source's latest status.
+ */
+export function formatSourceHealthOverview(
+  sources: SourceRecord[],
+  latest: SourceHealthCheckRecord[],
+  lastPosted: Map<string, string>
+): string {
+  const bySource = new Map(latest.map(c => [c.source, c]));
+  const lines = ['🩺 <b>Source Health</b>', ''];
+  for (const source of sources) {
+    const check = bySource.get(source.id);
+    const status: SourceHealthStatus | null = source.quarantined_at ? 'quarantined' : check?.status ?? null;
+    lines.push(`${status ? STATUS_ICONS[status] : '❔'} <b>${source.id}</b>${source.enabled || source.quarantined_at ? '' : ' (disabled)'}`);
+    if (source.quarantined_at) {
+      lines.push(`  quarantined ${source.quarantined_at}: ${escapeHtml(source.quarantine_reason ?? '')}`);
+    } else if (check?.reason && check.status !== 'healthy') {
+      lines.push(`  ${escapeHtml(check.reason)}`);
+    }
+    lines.push(`  last run: ${check ? `${describeCheck(check)} (${check.checked_at})` : 'never checked'} · last post: ${lastPosted.get(source.id) ?? 'never'}`);
+  }
+  lines.push('', '<i>/source health [id] for a source\'s history</i>');
+  return lines.join('\n');
+}
+
+/**
+ * /source health <id> — a source's recent checks, newest first.
+ */
+export function formatSourceHealthHistory(
+  source: SourceRecord,
+  checks: SourceHealthCheckRecord[],
+  lastPosted: string | undefined
+): string {
+  const lines = [`🩺 <b>${source.display_name}</b> (<code>${source.id}</code>)`, ''];
+  if (source.quarantined_at) {
+    lines.push(`🚫 Quarantined ${source.quarantined_at}: ${escapeHtml(source.quarantine_reason ?? '')}`);
+    lines.push(`Release with /source enable ${source.id}`, '');
+  }
+  if (checks.length === 0) {
+    lines.push('No health checks yet.');
+    return lines.join('\n');
+  }
+
+  const latest = checks[0];
+  lines.push(`Status: ${STATUS_ICONS[latest.status]} ${latest.status}${latest.reason ? ` — ${escapeHtml(latest.reason)}` : ''}`);
+  const lastSuccess = checks.find(c => !c.error && c.jobs_found > 0);
+  lines.push(`Last jobs found: ${lastSuccess?.checked_at ?? 'not in recent checks'} · last post: ${lastPosted ?? 'never'}`);
+  const rates = parseNullRates(latest.null_rates);
+  const missing = HEALTH_FIELDS.filter(f => rates[f] !== undefined).map(f => `${f} ${percent(rates[f]!)}`);
+  if (missing.length > 0) lines.push(`Missing fields: ${missing.join(', ')}`);
+
+  lines.push('', '<b>Recent runs</b>');
+  for (const check of checks) {
+    lines.push(`${STATUS_ICONS[check.status]} ${check.checked_at} — ${describeCheck(check)}`);
+  }
+  return lines.join('\n');
+}
@@ -1,5 +1,6 @@
 import type { JobItem } from '../../../types';
 import type { EOIJob } from './types';
+import { namespaceJobId } from '../../job-ids';
 
 /**
  * Parse job listings from EOI API HTML response.
@@ -124,7 +125,7 @@ export function convertEOIJobToJobItem(eoiJob: EOIJob): JobItem {
   if (eoiJob.deadline) descriptionParts.push(`آخر موعد للتقديم: ${eoiJob.deadline}`);
 
   return {
-    id: `eoi-${eoiJob.id}`, // Prefix to avoid ID collision with Yemen HR
+    id: namespaceJobId('eoi', eoiJob.id), // Namespaced to avoid ID collision with other sources
     title: eoiJob.title,
     company: eoiJob.company,
     link: eoiJob.url,
@@ -0,0 +1,164 @@
+/**
+ * JSON API logic: fetch an endpoint (page by page if configured), map items to jobs via field paths.
+ */
+
+import type { Env, JobItem } from '../../../types';
+import type { JsonApiSourceConfig } from './types';
+import { namespaceJobId } from '../../job-ids';
+import { conditionalFetch, discardFetchValidators, type FetchCache } from '../../fetch-cache';
+
+/**
+ * Read a dot-separated path ("data.jobs", "fields.source.0.name") from a JSON value.
+ */
+export function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function readText(item: unknown, path?: string): string | undefined {
+  if (!path) return undefined;
+  const value = getPath(item, path);
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readList(item: unknown, path?: string): string[] | undefined {
+  if (!path) return undefined;
+  const value = getPath(item, path);
+  const list = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => v.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  if (url.startsWith('http')) return url;
+  const base = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  return `${base}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Map one API item to a job. Items without a title or link are skipped (null).
+ */
+export function mapJsonItem(config: JsonApiSourceConfig, item: unknown): JobItem | null {
+  const { fields } = config;
+  const title = readText(item, fields.title);
+  if (!title) return null;
+
+  const localId = readText(item, fields.id);
+  let link = readText(item, fields.link);
+  if (!link && localId && config.linkTemplate) link = config.linkTemplate.replace('{id}', encodeURIComponent(localId));
+  if (!link) return null;
+  link = resolveUrl(link, config.baseUrl);
+
+  const id = namespaceJobId(config.sourceName, localId ?? (config.idExtractor ? config.idExtractor(link) : link));
+  if (!id) return null;
+
+  const image = readText(item, fields.image);
+  return {
+    id,
+    title,
+    company: readText(item, fields.company) || config.defaultCompany || 'Unknown Company',
+    link,
+    pubDate: readText(item, fields.postedDate) || '',
+    imageUrl: image ? resolveUrl(image, config.baseUrl) : null,
+    description: readText(item, fields.description),
+    location: readText(item, fields.location),
+    deadline: readText(item, fields.deadline),
+    category: readText(item, fields.category),
+    source: config.sourceName,
+    howToApply: readText(item, fields.howToApply),
+    applicationLinks: readList(item, fields.applyLinks),
+  };
+}
+
+/**
+ * URL of a page (0-based) of the endpoint.
+ */
+export function buildPageUrl(config: JsonApiSourceConfig, page: number, env?: Env): string {
+  const endpoint = config.getEndpointUrl(env);
+  const { pagination } = config;
+  if (!pagination) return endpoint;
+
+  const url = new URL(endpoint);
+  const value = pagination.mode === 'page' ? page + 1 : page * (pagination.pageSize ?? 0);
+  url.searchParams.set(pagination.param, String(value));
+  if (pagination.sizeParam && pagination.pageSize) url.searchParams.set(pagination.sizeParam, String(pagination.pageSize));
+  return url.toString();
+}
+
+/**
+ * Fetch one page of items. Returns null when it is unchanged since the last run.
+ */
+async function fetchItems(config: JsonApiSourceConfig, url: string, fetchCache?: FetchCache): Promise<unknown[] | null> {
+  const response = await conditionalFetch(url, {
+    headers: {
+      'User-Agent': 'Yemen-Jobs-Bot/1.0',
+      'Accept': 'application/json',
+      ...config.fetchHeaders,
+    },
+    signal: AbortSignal.timeout(10000),
+  }, { source: config.sourceName, cache: fetchCache });
+
+  if (!response.ok) {
+    throw new Error(`JSON API fetch failed for ${config.sourceName}: ${response.status} ${response.statusText}`);
+  }
+  if (response.unchanged || response.body === null) return null;
+
+  const body = JSON.parse(response.body) as unknown;
+  const items = config.itemsPath ? getPath(body, config.itemsPath) : body;
+  if (!Array.isArray(items)) {
+    console.warn(`[${config.sourceName}] No items array at path: ${config.itemsPath ?? '(root)'}`);
+    return [];
+  }
+  return items;
+}
+
+/**
+ * Fetch a JSON API and map its items to jobs, following pagination up to maxPages.
+ * Paging stops at an empty or short page, one with no new jobs, or one unchanged
+ * since the last run (see fetch-cache.ts — an unchanged first page means no jobs).
+ * Jobs are deduplicated by ID across pages; a failed later page keeps the jobs already read,
+ * but drops the run's validators of the endpoint so the next run reads all its pages again.
+ */
+export async function fetchAndParseJsonJobs(
+  config: JsonApiSourceConfig,
+  env?: Env,
+  fetchCache?: FetchCache
+): Promise<JobItem[]> {
+  const { pagination } = config;
+  const maxPages = pagination ? Math.max(1, pagination.maxPages) : 1;
+  const jobs = new Map<string, JobItem>();
+
+  for (let page = 0; page < maxPages; page++) {
+    let items: unknown[] | null;
+    try {
+      items = await fetchItems(config, buildPageUrl(config, page, env), fetchCache);
+    } catch (error) {
+      if (page === 0) throw error;
+      console.warn(`[${config.sourceName}] Page ${page + 1} failed, keeping ${jobs.size} jobs: ${error}`);
+      if (fetchCache) discardFetchValidators(fetchCache, config.sourceName);
+      break;
+    }
+    // Unchanged since the last run: its jobs were read then
+    if (items === null) break;
+
+    let added = 0;
+    for (const item of items) {
+      const job = mapJsonItem(config, item);
+      if (!job || jobs.has(job.id)) continue;
+      jobs.set(job.id, job);
+      added++;
+    }
+
+    if (added === 0) break;
+    if (pagination?.pageSize && items.length < pagination.pageSize) break;
+  }
+
+  return [...jobs.values()];
+}
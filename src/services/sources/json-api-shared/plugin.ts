@@ -0,0 +1,54 @@
+/**
+ * Generic JSON API-based job source plugin.
+ * Config-driven: new JSON boards only need a JsonApiSourceConfig.
+ */
+
+import type { Env, JobItem, ProcessedJob } from '../../../types';
+import type { JobSourcePlugin, FetchJobsOptions } from '../types';
+import type { JsonApiSourceConfig } from './types';
+import { fetchAndParseJsonJobs } from './fetcher';
+import { htmlToText, cleanWhitespace } from '../../../utils/html';
+
+/**
+ * Generic plugin for JSON API job sources.
+ * Items carry everything the post needs, so there is no detail page to fetch:
+ * the default processor turns HTML fields into text and keeps the listing fields.
+ * Custom processing can be overridden via config.processJob.
+ */
+export class JsonApiPlugin implements JobSourcePlugin {
+  readonly name;
+  private config: JsonApiSourceConfig;
+
+  constructor(config: JsonApiSourceConfig) {
+    this.name = config.sourceName;
+    this.config = config;
+  }
+
+  async fetchJobs(env?: Env, options?: FetchJobsOptions): Promise<JobItem[]> {
+    return fetchAndParseJsonJobs(this.config, env, options?.fetchCache);
+  }
+
+  async processJob(job: JobItem): Promise<ProcessedJob> {
+    if (this.config.processJob) {
+      return this.config.processJob(job);
+    }
+
+    const description = cleanWhitespace(htmlToText(job.description || ''));
+    const howToApply = job.howToApply ? cleanWhitespace(htmlToText(job.howToApply)) : undefined;
+
+    return {
+      title: job.title,
+      company: job.company,
+      link: job.link,
+      description: description || 'No description available',
+      imageUrl: job.imageUrl || this.config.defaultImage || null,
+      location: job.location,
+      postedDate: job.pubDate || undefined,
+      deadline: job.deadline,
+      category: job.category,
+      howToApply: howToApply || undefined,
+      applicationLinks: job.applicationLinks,
+      source: this.config.sourceName,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import type { Env, JobItem, ProcessedJob } from '../../../types';
+
+/**
+ * Configuration for a JSON API-based job source.
+ * Adding a new JSON board requires only defining this config + 1 registry line.
+ *
+ * Paths are dot-separated keys into the response ("data.jobs", "fields.source.0.name");
+ * a numeric segment indexes an array.
+ */
+export interface JsonApiSourceConfig {
+  /** Unique source name. Type safety enforced at registry level via satisfies. */
+  sourceName: string;
+
+  /** Get the endpoint URL. May use env vars. */
+  getEndpointUrl: (env?: Env) => string;
+
+  /** Base URL of the site (used for resolving relative links and images) */
+  baseUrl: string;
+
+  /** Custom HTTP headers for the API request */
+  fetchHeaders?: Record<string, string>;
+
+  /** Path to the items array. Omit when the response itself is the array. */
+  itemsPath?: string;
+
+  /** Paths to each job field within an item */
+  fields: {
+    title: string;
+    /** Job page URL. Omit to build it from linkTemplate. */
+    link?: string;
+    /** The site's own job ID (namespaced as `source:id`). Omit to use idExtractor on the link. */
+    id?: string;
+    company?: string;
+    location?: string;
+    postedDate?: string;
+    deadline?: string;
+    category?: string;
+    image?: string;
+    /** Job description — HTML or plain text */
+    description?: string;
+    /** How to apply — HTML or plain text */
+    howToApply?: string;
+    /** Application links: a string or an array of strings */
+    applyLinks?: string;
+  };
+
+  /** Job page URL built from the item's ID when items have no link, e.g. "https://site.org/jobs/{id}" */
+  linkTemplate?: string;
+
+  /** Extract the site's own job ID from a link (used when fields.id is not set) */
+  idExtractor?: (link: string) => string;
+
+  /** Page through the endpoint with a query parameter. Omit to fetch one page. */
+  pagination?: {
+    /** Query parameter carrying the page number or offset */
+    param: string;
+    /** 'page' counts 1, 2, 3…; 'offset' counts items 0, pageSize, 2×pageSize… */
+    mode: 'page' | 'offset';
+    /** Items per page — required for 'offset'; a shorter page ends paging */
+    pageSize?: number;
+    /** Query parameter carrying pageSize, if the API takes one */
+    sizeParam?: string;
+    /** Pages to fetch at most per run */
+    maxPages: number;
+  };
+
+  /** Default company name when items have none */
+  defaultCompany?: string;
+
+  /** Default image URL when items have none (e.g., org logo) */
+  defaultImage?: string;
+
+  /** Optional custom job processor override */
+  processJob?: (job: JobItem) => ProcessedJob;
+}
@@ -2,6 +2,9 @@
  * Centralized source registry — the SINGLE source of truth for all job sources.
  *
  * Adding a source:  1 config object + 1 entry here. Everything else auto-derives.
+ *   RSS feeds → RSSPlugin, SSR HTML pages → ScraperPlugin, JSON APIs → JsonApiPlugin.
+ * All three can also be defined at runtime in the D1 sources table
+ * (see runtime.ts); they are loaded with the other D1 source metadata.
  * Removing a source: delete the entry. TypeScript catches remaining references.
  *
  * Exports: JobSource type, DEFAULT_SOURCE, plugin accessors, metadata derivation helpers.
@@ -9,12 +12,17 @@
 
 import type { JobSourcePlugin } from './types';
 import type { AIPromptConfig } from '../ai-prompts';
-import type { Env } from '../../types';
+import type { Env, SourceRecord } from '../../types';
+import type { SourceQuota } from '../quota';
+import { DEFAULT_REPOST_AFTER_DAYS, isRepostPolicyMode, type RepostPolicy } from '../repost';
 import { RSSPlugin } from './rss-shared/plugin';
 import { reliefwebConfig } from './rss-shared/configs';
 import { ScraperPlugin } from './scraper-shared/plugin';
 import { yemenhrScraperConfig, eoiScraperConfig, qtbConfig, yldfConfig } from './scraper-shared/configs';
-import { getSourcesFromDB } from '../storage';
+import {
+  buildRuntimePlugin, validateRuntimeConfig, isRuntimeSourceType, RUNTIME_SOURCE_TYPES, type RuntimeRSSConfig, type RuntimeJsonApiConfig,
+} from './runtime';
+import { getSourcesFromDB, getSourceFromDB, createSourceInDB } from '../storage';
 
 // ============================================================================
 // Source Definition
@@ -150,20 +158,79 @@ export const DEFAULT_SOURCE: JobSource = 'rss';
 // Widened view for iteration helpers (satisfies preserves literal types which complicates Object.values)
 const DEFS: Record<string, SourceDefinition> = SOURCES;
 
+/**
+ * One read of the D1 sources table with the plugins it defines. A pipeline run loads
+ * it once and derives its sources, hashtags and policies from it (see the catalog*
+ * helpers below); nothing is kept between requests.
+ */
+export interface SourceCatalog {
+  rows: SourceRecord[];
+  /** Code-defined plugins plus the runtime-defined ones built from `rows`, by source ID */
+  plugins: Map<string, JobSourcePlugin>;
+  /** False when D1 couldn't be read and the code defaults stand in */
+  fromDB: boolean;
+}
+
+function codePlugins(): Map<string, JobSourcePlugin> {
+  return new Map(getAllSources().map(plugin => [plugin.name, plugin]));
+}
+
+/**
+ * Read the sources table once. Falls back to the code-defined sources if D1 fails.
+ */
+export async function loadSourceCatalog(env: Env): Promise<SourceCatalog> {
+  let rows: SourceRecord[];
+  try {
+    rows = await getSourcesFromDB(env);
+  } catch {
+    // D1 read failed — fall back to code defaults
+    return { rows: [], plugins: codePlugins(), fromDB: false };
+  }
+  const plugins = codePlugins();
+  for (const row of rows) {
+    if (DEFS[row.id] || !row.config) continue;
+    const plugin = buildRuntimePlugin(row);
+    if (plugin) plugins.set(row.id, plugin);
+  }
+  return { rows, plugins, fromDB: true };
+}
+
 // ============================================================================
 // Plugin accessors (same API as before)
 // ============================================================================
 
 /**
- * Get a job source plugin by name (enabled or disabled).
+ * Get a code-defined job source plugin by name (enabled or disabled).
+ * Runtime-defined sources live in D1 — see catalogSource and resolveSource.
  * @throws Error if source not found or has no plugin
  */
 export function getSource(name: string): JobSourcePlugin {
-  const entry = DEFS[name];
-  if (!entry?.plugin) {
+  const plugin = DEFS[name]?.plugin;
+  if (!plugin) {
     throw new Error(`Job source plugin not found: ${name}`);
   }
-  return entry.plugin;
+  return plugin;
+}
+
+/**
+ * Get a job source plugin by name from a loaded catalog (code- or runtime-defined).
+ * @throws Error if source not found or has no plugin
+ */
+export function catalogSource(catalog: SourceCatalog, name: string): JobSourcePlugin {
+  const plugin = catalog.plugins.get(name);
+  if (!plugin) {
+    throw new Error(`Job source plugin not found: ${name}`);
+  }
+  return plugin;
+}
+
+/**
+ * Get a job source plugin by name, reading runtime-defined sources from D1 if needed.
+ * @throws Error if source not found or has no plugin
+ */
+export async function resolveSource(env: Env, name: string): Promise<JobSourcePlugin> {
+  if (DEFS[name]?.plugin) return DEFS[name].plugin!;
+  return catalogSource(await loadSourceCatalog(env), name);
 }
 
 /** Get enabled source plugins only (for cron/run pipeline). */
@@ -247,36 +314,117 @@ export async function syncSourcesTable(env: Env): Promise<void> {
   }
 }
 
+const SOURCE_ID_PATTERN = /^[a-z][a-z0-9_-]{1,31}$/;
+
+/**
+ * Define a source at runtime (POST /api/sources, /source add). Validates the fields
+ * and the RSS/scraper/API config, then inserts the row — disabled unless `enabled` is set,
+ * so it can be checked with /source <id> first. Returns the row or the first problem found.
+ */
+export async function createRuntimeSource(
+  env: Env,
+  input: Record<string, unknown>
+): Promise<{ source: SourceRecord } | { error: string }> {
+  const { id, type } = input;
+  if (typeof id !== 'string' || !SOURCE_ID_PATTERN.test(id)) {
+    return { error: 'id must be 2-32 lowercase letters, digits, _ or -, starting with a letter' };
+  }
+  if (DEFS[id]) return { error: `Source ${id} is defined in code` };
+  if (!isRuntimeSourceType(type)) return { error: `type must be one of: ${RUNTIME_SOURCE_TYPES.join(', ')}` };
+  if (typeof input.display_name !== 'string' || !input.display_name.trim()) return { error: 'display_name is required' };
+  if (typeof input.hashtag !== 'string' || !input.hashtag.startsWith('#')) return { error: 'hashtag is required and must start with #' };
+  if (typeof input.base_url !== 'string' || !/^https?:\/\//.test(input.base_url)) return { error: 'base_url must be an http(s) URL' };
+  if (input.feed_url !== undefined && input.feed_url !== null && typeof input.feed_url !== 'string') return { error: 'feed_url must be a string' };
+  if (input.cron_schedule !== undefined && typeof input.cron_schedule !== 'string') return { error: 'cron_schedule must be a string' };
+  if (input.ai_prompt_config !== undefined && input.ai_prompt_config !== null && typeof input.ai_prompt_config !== 'object') {
+    return { error: 'ai_prompt_config must be an object' };
+  }
+
+  const result = validateRuntimeConfig(type, input.config ?? {});
+  if ('error' in result) return result;
+  const feedUrl = (input.feed_url as string | null | undefined) || null;
+  if (type === 'rss' && !feedUrl && !(result.config as RuntimeRSSConfig).feedUrl) {
+    return { error: 'RSS sources need feed_url or config.feedUrl' };
+  }
+  if (type === 'api' && !feedUrl && !(result.config as RuntimeJsonApiConfig).endpointUrl) {
+    return { error: 'API sources need feed_url or config.endpointUrl' };
+  }
+
+  const created = await createSourceInDB(env, {
+    id,
+    display_name: input.display_name.trim(),
+    hashtag: input.hashtag,
+    type,
+    base_url: input.base_url,
+    feed_url: feedUrl,
+    enabled: input.enabled ? 1 : 0,
+    cron_schedule: (input.cron_schedule as string | undefined) ?? '0 * * * *',
+    ai_prompt_config: input.ai_prompt_config ? JSON.stringify(input.ai_prompt_config) : null,
+    config: JSON.stringify(result.config),
+  });
+  if (!created) return { error: `Source ${id} already exists` };
+  return { source: (await getSourceFromDB(env, id))! };
+}
+
 /**
- * Get enabled source plugins using D1 enabled flag.
+ * Enabled source plugins by the D1 enabled flag.
  * If `cron` is provided, only returns sources matching that cron_schedule.
  * If `cron` is undefined (manual/webhook), returns ALL enabled sources.
- * Falls back to code defaults if D1 read fails.
+ * Without D1, the code defaults.
+ */
+export function catalogEnabledSources(catalog: SourceCatalog, cron?: string): JobSourcePlugin[] {
+  if (!catalog.fromDB) return getEnabledSources();
+  const enabledIds = new Set(catalog.rows.filter(s => s.enabled && (!cron || s.cron_schedule === cron)).map(s => s.id));
+  return [...catalog.plugins].filter(([id]) => enabledIds.has(id)).map(([_, plugin]) => plugin);
+}
+
+/** Hashtag map from the sources table (code defaults without D1). */
+export function catalogHashtags(catalog: SourceCatalog): Record<string, string> {
+  if (!catalog.fromDB) return getHashtags();
+  return Object.fromEntries(catalog.rows.map(s => [s.id, s.hashtag]));
+}
+
+/** Per-source quota policies ({} without D1, so every source gets an equal share). */
+export function catalogQuotaPolicies(catalog: SourceCatalog): Record<string, SourceQuota> {
+  return Object.fromEntries(catalog.rows.map(s => [s.id, {
+    weight: s.quota_weight ?? 1,
+    max: s.max_per_run ?? null,
+    min: s.min_per_run ?? 0,
+  }]));
+}
+
+/** Per-source repost policies ({} without D1, so every source falls back to 'never'). */
+export function catalogRepostPolicies(catalog: SourceCatalog): Record<string, RepostPolicy> {
+  return Object.fromEntries(catalog.rows.map(s => [s.id, {
+    mode: isRepostPolicyMode(s.repost_policy) ? s.repost_policy : 'never',
+    afterDays: s.repost_after_days ?? DEFAULT_REPOST_AFTER_DAYS,
+  }]));
+}
+
+/** Cross-source merge ranks, unranked sources left out ({} without D1: the richest listing wins). */
+export function catalogMergeRanks(catalog: SourceCatalog): Record<string, number> {
+  return Object.fromEntries(catalog.rows.filter(s => s.merge_rank !== null && s.merge_rank !== undefined)
+    .map(s => [s.id, s.merge_rank!]));
+}
+
+/**
+ * Get enabled source plugins using D1 enabled flag (see catalogEnabledSources).
  */
 export async function getEnabledSourcesFromDB(env: Env, cron?: string): Promise<JobSourcePlugin[]> {
-  try {
-    const dbSources = await getSourcesFromDB(env);
-    const filtered = dbSources.filter(s =>
-      s.enabled && (!cron || s.cron_schedule === cron)
-    );
-    const enabledIds = new Set(filtered.map(s => s.id));
-    return Object.entries(DEFS)
-      .filter(([id, def]) => def.plugin && enabledIds.has(id))
-      .map(([_, def]) => def.plugin!);
-  } catch {
-    // D1 read failed — fall back to code defaults
-    return getEnabledSources();
-  }
+  return catalogEnabledSources(await loadSourceCatalog(env), cron);
+}
+
+/**
+ * Get ALL source plugins, code-defined and runtime-defined (for /test and /source).
+ * Falls back to code-defined sources if D1 read fails.
+ */
+export async function getAllSourcesFromDB(env: Env): Promise<JobSourcePlugin[]> {
+  return [...(await loadSourceCatalog(env)).plugins.values()];
 }
 
 /**
  * Get hashtag map from D1 sources table (with code fallback).
  */
 export async function getHashtagsFromDB(env: Env): Promise<Record<string, string>> {
-  try {
-    const dbSources = await getSourcesFromDB(env);
-    return Object.fromEntries(dbSources.map(s => [s.id, s.hashtag]));
-  } catch {
-    return getHashtags();
-  }
+  return catalogHashtags(await loadSourceCatalog(env));
 }
@@ -6,6 +6,7 @@
 import type { RSSSourceConfig } from './types';
 import { processReliefWebJob } from '../reliefweb/processor';
 import { processYKBankJob } from '../ykbank/processor';
+import { extractYemenHRJobId } from '../scraper-shared/configs';
 
 /**
  * Yemen HR configuration.
@@ -20,10 +21,7 @@ export const yemenhrConfig: RSSSourceConfig = {
     return env.RSS_FEED_URL;
   },
   baseUrl: 'https://yemenhr.com',
-  idExtractor: (link) => {
-    const match = link.match(/\/jobs\/([^/?#]+)/);
-    return match ? match[1] : link;
-  },
+  idExtractor: extractYemenHRJobId,
 };
 
 /**
@@ -36,7 +34,7 @@ export const reliefwebConfig: RSSSourceConfig = {
   baseUrl: 'https://reliefweb.int',
   idExtractor: (link) => {
     const match = link.match(/\/job\/(\d+)/);
-    return match ? `rw-${match[1]}` : link;
+    return match ? match[1] : link;
   },
   processJob: processReliefWebJob,
 };
@@ -52,7 +50,7 @@ export const ykbankConfig: RSSSourceConfig = {
   idExtractor: (link) => {
     // URL: .../jobs/Careers/{ID}/{slug}?source=RSS — extract numeric ID
     const match = link.match(/\/(\d+)\//);
-    return match ? `ykbank-${match[1]}` : link;
+    return match ? match[1] : link;
   },
   processJob: processYKBankJob,
 };
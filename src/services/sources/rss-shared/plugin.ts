@@ -4,7 +4,7 @@
  */
 
 import type { Env, JobItem, ProcessedJob } from '../../../types';
-import type { JobSourcePlugin } from '../types';
+import type { JobSourcePlugin, FetchJobsOptions } from '../types';
 import type { RSSSourceConfig } from './types';
 import { fetchAndParseRSSFeed } from './rss-parser';
 import { cleanJobDescription } from '../yemenhr/processor';
@@ -23,9 +23,19 @@ export class RSSPlugin implements JobSourcePlugin {
     this.config = config;
   }
 
-  async fetchJobs(env?: Env): Promise<JobItem[]> {
+  async fetchJobs(env?: Env, options?: FetchJobsOptions): Promise<JobItem[]> {
     const feedUrl = this.config.getFeedUrl(env);
-    return fetchAndParseRSSFeed(feedUrl, this.config.sourceName, this.config.baseUrl, this.config.idExtractor);
+    const jobs = await fetchAndParseRSSFeed(
+      feedUrl, this.config.sourceName, this.config.baseUrl, this.config.idExtractor, options?.fetchCache
+    );
+
+    const { defaultCompany, defaultImage } = this.config;
+    if (!defaultCompany && !defaultImage) return jobs;
+    return jobs.map(job => ({
+      ...job,
+      company: defaultCompany && job.company === 'Unknown Company' ? defaultCompany : job.company,
+      imageUrl: job.imageUrl ?? defaultImage ?? null,
+    }));
   }
 
   async processJob(job: JobItem): Promise<ProcessedJob> {
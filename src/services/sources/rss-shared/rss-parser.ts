@@ -6,6 +6,8 @@
 
 import { XMLParser } from 'fast-xml-parser';
 import type { JobItem } from '../../../types';
+import { namespaceJobId } from '../../job-ids';
+import { conditionalFetch, type FetchCache } from '../../fetch-cache';
 
 // ============================================================================
 // Atom feed types
@@ -126,7 +128,7 @@ function parseAtomEntries(
     }
 
     // Generate ID from link
-    const id = link ? idExtractor(link) : (typeof entry.id === 'string' ? entry.id : '');
+    const id = namespaceJobId(source, link ? idExtractor(link) : (typeof entry.id === 'string' ? entry.id : ''));
 
     // Extract content/description
     let description = '';
@@ -185,7 +187,7 @@ function parseRSSItems(
     }
 
     // Generate ID from link
-    const id = link ? idExtractor(link) : '';
+    const id = namespaceJobId(source, link ? idExtractor(link) : '');
 
     const description = item.description || '';
 
@@ -219,29 +221,35 @@ function parseRSSItems(
  * - Atom: `<feed><entry>` elements
  * - RSS 2.0: `<rss><channel><item>` elements
  *
+ * Returns no jobs when the feed is unchanged since the last run (see fetch-cache.ts).
+ *
  * @param url - Feed URL
  * @param source - Source name to tag each job with
  * @param baseUrl - Base URL for resolving relative image URLs
- * @param idExtractor - Function to extract a unique ID from a job link
+ * @param idExtractor - Function to extract the site's job ID from a job link (namespaced as `source:id`)
+ * @param fetchCache - The run's fetch cache, for a conditional request
  */
 export async function fetchAndParseRSSFeed(
   url: string,
   source: string,
   baseUrl: string,
-  idExtractor: (link: string) => string
+  idExtractor: (link: string) => string,
+  fetchCache?: FetchCache
 ): Promise<JobItem[]> {
-  const response = await fetch(url, {
+  const response = await conditionalFetch(url, {
     headers: {
       'User-Agent': 'Yemen-HR-Bot/1.0',
     },
     signal: AbortSignal.timeout(15000),
-  });
+  }, { source, cache: fetchCache });
 
   if (!response.ok) {
     throw new Error(`RSS fetch failed: ${response.status} ${response.statusText}`);
   }
 
-  const xml = await response.text();
+  // Feed unchanged since the last run — nothing new to read
+  if (response.unchanged || response.body === null) return [];
+  const xml = response.body;
 
   const parser = new XMLParser({
     ignoreAttributes: false,
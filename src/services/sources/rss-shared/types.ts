@@ -14,9 +14,15 @@ export interface RSSSourceConfig {
   /** Base URL of the site (used for resolving relative image URLs) */
   baseUrl: string;
 
-  /** Extract a unique job ID from a job URL */
+  /** Extract the site's own job ID from a job URL (namespaced as `source:id` by the parser) */
   idExtractor: (link: string) => string;
 
+  /** Company name for items without an author */
+  defaultCompany?: string;
+
+  /** Image URL for items without one (e.g., org logo) */
+  defaultImage?: string;
+
   /**
    * Optional: custom job processor.
    * If not provided, the default RSS processor is used (HTML cleaning + metadata extraction).
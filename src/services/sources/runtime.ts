@@ -0,0 +1,343 @@
+/**
+ * Runtime-defined sources — RSS, scraper and JSON API sources configured entirely in D1.
+ *
+ * A sources row that isn't in registry.ts and has a `config` JSON column becomes an
+ * RSSPlugin, ScraperPlugin or JsonApiPlugin when the registry loads sources from D1, so a new board
+ * is onboarded with POST /api/sources or /source add — no deploy. Job IDs come from
+ * the `idExtractor` regex (first capture group, or the whole match) with an optional
+ * prefix; without one, the job link is the ID.
+ */
+
+import type { SourceRecord } from '../../types';
+import type { JobSourcePlugin } from './types';
+import type { ScraperSourceConfig } from './scraper-shared/types';
+import type { JsonApiSourceConfig } from './json-api-shared/types';
+import { RSSPlugin } from './rss-shared/plugin';
+import { ScraperPlugin } from './scraper-shared/plugin';
+import { JsonApiPlugin } from './json-api-shared/plugin';
+
+export const RUNTIME_SOURCE_TYPES = ['rss', 'scraper', 'api'] as const;
+export type RuntimeSourceType = typeof RUNTIME_SOURCE_TYPES[number];
+
+/** Regex that pulls the site's own job ID out of a job link */
+export interface RuntimeIdExtractor {
+  pattern: string;
+  prefix?: string;
+}
+
+export interface RuntimeRSSConfig {
+  /** Feed URL (default: the row's feed_url) */
+  feedUrl?: string;
+  idExtractor?: RuntimeIdExtractor;
+  defaultCompany?: string;
+  defaultImage?: string;
+}
+
+export interface RuntimeScraperConfig {
+  /** Listing page URL (default: the row's feed_url, then base_url) */
+  listingUrl?: string;
+  selectors: ScraperSourceConfig['selectors'];
+  listingCleanupSelectors?: string[];
+  idExtractor?: RuntimeIdExtractor;
+  defaultCompany?: string;
+  defaultImage?: string;
+  fetchHeaders?: Record<string, string>;
+  pagination?: ScraperSourceConfig['pagination'];
+  detailPage?: {
+    descriptionSelector: string;
+    cleanupSelectors?: string[];
+    imageSelector?: string;
+  };
+}
+
+export interface RuntimeJsonApiConfig {
+  /** Endpoint URL (default: the row's feed_url) */
+  endpointUrl?: string;
+  itemsPath?: string;
+  fields: JsonApiSourceConfig['fields'];
+  linkTemplate?: string;
+  idExtractor?: RuntimeIdExtractor;
+  defaultCompany?: string;
+  defaultImage?: string;
+  fetchHeaders?: Record<string, string>;
+  pagination?: JsonApiSourceConfig['pagination'];
+}
+
+export type RuntimeSourceConfig = RuntimeRSSConfig | RuntimeScraperConfig | RuntimeJsonApiConfig;
+
+const SELECTOR_KEYS = ['jobContainer', 'title', 'link', 'linkAttr', 'company', 'image', 'location', 'postedDate', 'deadline', 'category'] as const;
+const REQUIRED_SELECTORS = ['jobContainer', 'title', 'link'] as const;
+const FIELD_KEYS = [
+  'title', 'link', 'id', 'company', 'location', 'postedDate', 'deadline', 'category', 'image', 'description', 'howToApply', 'applyLinks',
+] as const;
+
+export function isRuntimeSourceType(value: unknown): value is RuntimeSourceType {
+  return typeof value === 'string' && (RUNTIME_SOURCE_TYPES as readonly string[]).includes(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/** Check the optional string fields of `value`; returns the first bad key */
+function badStringField(value: Record<string, unknown>, keys: readonly string[]): string | undefined {
+  return keys.find(key => value[key] !== undefined && typeof value[key] !== 'string');
+}
+
+function validateIdExtractor(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!isObject(value) || typeof value.pattern !== 'string') return 'idExtractor must be { pattern, prefix? }';
+  if (value.prefix !== undefined && typeof value.prefix !== 'string') return 'idExtractor.prefix must be a string';
+  try {
+    new RegExp(value.pattern);
+  } catch {
+    return `idExtractor.pattern is not a valid regex: ${value.pattern}`;
+  }
+  return null;
+}
+
+function validateFetchHeaders(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!isObject(value) || badStringField(value, Object.keys(value))) return 'config.fetchHeaders must map header names to strings';
+  return null;
+}
+
+function validateJsonApiConfig(
+  value: Record<string, unknown>,
+  defaults: Pick<RuntimeJsonApiConfig, 'idExtractor' | 'defaultCompany' | 'defaultImage'>
+): { config: RuntimeJsonApiConfig } | { error: string } {
+  const badString = badStringField(value, ['endpointUrl', 'itemsPath', 'linkTemplate']);
+  if (badString) return { error: `config.${badString} must be a string` };
+  if (!isObject(value.fields)) return { error: 'config.fields is required' };
+  const fields = value.fields;
+  if (typeof fields.title !== 'string' || !fields.title) return { error: 'config.fields.title is required' };
+  const badField = badStringField(fields, FIELD_KEYS);
+  if (badField) return { error: `config.fields.${badField} must be a string` };
+  if (!fields.link && !(value.linkTemplate && fields.id)) {
+    return { error: 'config.fields.link is required (or linkTemplate with fields.id)' };
+  }
+  const headersError = validateFetchHeaders(value.fetchHeaders);
+  if (headersError) return { error: headersError };
+
+  let pagination: RuntimeJsonApiConfig['pagination'];
+  if (value.pagination !== undefined) {
+    const paging = value.pagination;
+    if (!isObject(paging) || !Number.isInteger(paging.maxPages) || (paging.maxPages as number) < 1) {
+      return { error: 'config.pagination.maxPages must be a positive integer' };
+    }
+    if (typeof paging.param !== 'string' || !paging.param) return { error: 'config.pagination.param is required' };
+    if (paging.mode !== 'page' && paging.mode !== 'offset') return { error: "config.pagination.mode must be 'page' or 'offset'" };
+    if (paging.pageSize !== undefined && (!Number.isInteger(paging.pageSize) || (paging.pageSize as number) < 1)) {
+      return { error: 'config.pagination.pageSize must be a positive integer' };
+    }
+    if (paging.mode === 'offset' && paging.pageSize === undefined) return { error: 'config.pagination.pageSize is required for offset paging' };
+    if (paging.sizeParam !== undefined && typeof paging.sizeParam !== 'string') return { error: 'config.pagination.sizeParam must be a string' };
+    pagination = {
+      param: paging.param,
+      mode: paging.mode,
+      pageSize: paging.pageSize as number | undefined,
+      sizeParam: paging.sizeParam as string | undefined,
+      maxPages: paging.maxPages as number,
+    };
+  }
+
+  return {
+    config: {
+      endpointUrl: value.endpointUrl as string | undefined,
+      itemsPath: value.itemsPath as string | undefined,
+      fields: Object.fromEntries(FIELD_KEYS.filter(key => fields[key] !== undefined).map(key => [key, fields[key]])) as JsonApiSourceConfig['fields'],
+      linkTemplate: value.linkTemplate as string | undefined,
+      fetchHeaders: value.fetchHeaders as Record<string, string> | undefined,
+      pagination,
+      ...defaults,
+    },
+  };
+}
+
+/**
+ * Validate a runtime source config for the given type.
+ * Returns the config (known keys only) or the first problem found.
+ */
+export function validateRuntimeConfig(
+  type: RuntimeSourceType,
+  value: unknown
+): { config: RuntimeSourceConfig } | { error: string } {
+  if (!isObject(value)) return { error: 'config must be an object' };
+
+  const idError = validateIdExtractor(value.idExtractor);
+  if (idError) return { error: idError };
+  const badDefault = badStringField(value, ['defaultCompany', 'defaultImage']);
+  if (badDefault) return { error: `config.${badDefault} must be a string` };
+
+  const idExtractor = value.idExtractor as RuntimeIdExtractor | undefined;
+  const defaults = {
+    idExtractor: idExtractor && { pattern: idExtractor.pattern, prefix: idExtractor.prefix },
+    defaultCompany: value.defaultCompany as string | undefined,
+    defaultImage: value.defaultImage as string | undefined,
+  };
+
+  if (type === 'rss') {
+    if (value.feedUrl !== undefined && typeof value.feedUrl !== 'string') return { error: 'config.feedUrl must be a string' };
+    return { config: { feedUrl: value.feedUrl as string | undefined, ...defaults } };
+  }
+  if (type === 'api') return validateJsonApiConfig(value, defaults);
+
+  if (value.listingUrl !== undefined && typeof value.listingUrl !== 'string') return { error: 'config.listingUrl must be a string' };
+  if (!isObject(value.selectors)) return { error: 'config.selectors is required' };
+  const selectors = value.selectors;
+  const missing = REQUIRED_SELECTORS.find(key => typeof selectors[key] !== 'string' || !selectors[key]);
+  if (missing) return { error: `config.selectors.${missing} is required` };
+  const badSelector = badStringField(selectors, SELECTOR_KEYS);
+  if (badSelector) return { error: `config.selectors.${badSelector} must be a string` };
+
+  if (value.listingCleanupSelectors !== undefined && !isStringArray(value.listingCleanupSelectors)) {
+    return { error: 'config.listingCleanupSelectors must be an array of strings' };
+  }
+  const headersError = validateFetchHeaders(value.fetchHeaders);
+  if (headersError) return { error: headersError };
+
+  let pagination: RuntimeScraperConfig['pagination'];
+  if (value.pagination !== undefined) {
+    const paging = value.pagination;
+    if (!isObject(paging) || !Number.isInteger(paging.maxPages) || (paging.maxPages as number) < 1) {
+      return { error: 'config.pagination.maxPages must be a positive integer' };
+    }
+    const badPaging = badStringField(paging, ['nextPageSelector', 'pageUrlTemplate']);
+    if (badPaging) return { error: `config.pagination.${badPaging} must be a string` };
+    if (!paging.nextPageSelector && !paging.pageUrlTemplate) {
+      return { error: 'config.pagination needs nextPageSelector or pageUrlTemplate' };
+    }
+    if (paging.stopWhenAllKnown !== undefined && typeof paging.stopWhenAllKnown !== 'boolean') {
+      return { error: 'config.pagination.stopWhenAllKnown must be a boolean' };
+    }
+    pagination = {
+      nextPageSelector: paging.nextPageSelector as string | undefined,
+      pageUrlTemplate: paging.pageUrlTemplate as string | undefined,
+      maxPages: paging.maxPages as number,
+      stopWhenAllKnown: paging.stopWhenAllKnown as boolean | undefined,
+    };
+  }
+
+  let detailPage: RuntimeScraperConfig['detailPage'];
+  if (value.detailPage !== undefined) {
+    const detail = value.detailPage;
+    if (!isObject(detail) || typeof detail.descriptionSelector !== 'string') {
+      return { error: 'config.detailPage.descriptionSelector is required' };
+    }
+    if (detail.cleanupSelectors !== undefined && !isStringArray(detail.cleanupSelectors)) {
+      return { error: 'config.detailPage.cleanupSelectors must be an array of strings' };
+    }
+    if (detail.imageSelector !== undefined && typeof detail.imageSelector !== 'string') {
+      return { error: 'config.detailPage.imageSelector must be a string' };
+    }
+    detailPage = {
+      descriptionSelector: detail.descriptionSelector,
+      cleanupSelectors: detail.cleanupSelectors as string[] | undefined,
+      imageSelector: detail.imageSelector as string | undefined,
+    };
+  }
+
+  return {
+    config: {
+      listingUrl: value.listingUrl as string | undefined,
+      selectors: Object.fromEntries(SELECTOR_KEYS.filter(key => selectors[key] !== undefined).map(key => [key, selectors[key]])) as ScraperSourceConfig['selectors'],
+      listingCleanupSelectors: value.listingCleanupSelectors as string[] | undefined,
+      fetchHeaders: value.fetchHeaders as Record<string, string> | undefined,
+      pagination,
+      detailPage,
+      ...defaults,
+    },
+  };
+}
+
+/**
+ * Build the ID extractor a runtime config describes. Links the pattern doesn't match keep the link as ID.
+ */
+export function compileIdExtractor(spec?: RuntimeIdExtractor): (link: string) => string {
+  if (!spec) return (link) => link;
+  const regex = new RegExp(spec.pattern);
+  return (link) => {
+    const match = link.match(regex);
+    return match ? `${spec.prefix ?? ''}${match[1] ?? match[0]}` : link;
+  };
+}
+
+/**
+ * Build the plugin for a runtime-defined source row. Returns null when the row has
+ * no config, an unsupported type, or a config that doesn't validate.
+ */
+export function buildRuntimePlugin(row: SourceRecord): JobSourcePlugin | null {
+  if (!row.config || !isRuntimeSourceType(row.type)) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(row.config);
+  } catch {
+    console.warn(`Runtime source ${row.id}: config is not valid JSON`);
+    return null;
+  }
+  const result = validateRuntimeConfig(row.type, parsed);
+  if ('error' in result) {
+    console.warn(`Runtime source ${row.id}: ${result.error}`);
+    return null;
+  }
+
+  if (row.type === 'rss') {
+    const config = result.config as RuntimeRSSConfig;
+    const feedUrl = config.feedUrl || row.feed_url;
+    if (!feedUrl) {
+      console.warn(`Runtime source ${row.id}: no feed URL`);
+      return null;
+    }
+    return new RSSPlugin({
+      sourceName: row.id,
+      getFeedUrl: () => feedUrl,
+      baseUrl: row.base_url,
+      idExtractor: compileIdExtractor(config.idExtractor),
+      defaultCompany: config.defaultCompany,
+      defaultImage: config.defaultImage,
+    });
+  }
+
+  if (row.type === 'api') {
+    const config = result.config as RuntimeJsonApiConfig;
+    const endpointUrl = config.endpointUrl || row.feed_url;
+    if (!endpointUrl) {
+      console.warn(`Runtime source ${row.id}: no endpoint URL`);
+      return null;
+    }
+    return new JsonApiPlugin({
+      sourceName: row.id,
+      getEndpointUrl: () => endpointUrl,
+      baseUrl: row.base_url,
+      fetchHeaders: config.fetchHeaders,
+      itemsPath: config.itemsPath,
+      fields: config.fields,
+      linkTemplate: config.linkTemplate,
+      idExtractor: config.idExtractor && compileIdExtractor(config.idExtractor),
+      pagination: config.pagination,
+      defaultCompany: config.defaultCompany,
+      defaultImage: config.defaultImage,
+    });
+  }
+
+  const config = result.config as RuntimeScraperConfig;
+  const listingUrl = config.listingUrl || row.feed_url || row.base_url;
+  return new ScraperPlugin({
+    sourceName: row.id,
+    getListingUrl: () => listingUrl,
+    baseUrl: row.base_url,
+    selectors: config.selectors,
+    listingCleanupSelectors: config.listingCleanupSelectors,
+    idExtractor: compileIdExtractor(config.idExtractor),
+    defaultCompany: config.defaultCompany,
+    defaultImage: config.defaultImage,
+    fetchHeaders: config.fetchHeaders,
+    pagination: config.pagination,
+    detailPage: config.detailPage,
+  });
+}
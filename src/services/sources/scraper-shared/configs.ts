@@ -1,14 +1,24 @@
 /**
  * Scraper source configurations.
  * Each config defines CSS selectors and extraction logic for an SSR job site.
- * Also handles JSON API sources via responseExtractor (e.g., EOI).
+ * Also handles JSON APIs that wrap an HTML fragment, via responseExtractor (e.g., EOI).
+ * APIs returning job items as JSON use JsonApiPlugin (json-api-shared/) instead.
  */
 
 import type { ScraperSourceConfig } from './types';
 
+/**
+ * Yemen HR job ID: the slug in https://yemenhr.com/jobs/some-job-slug-abcd1234.
+ * Shared with the RSS config so both fetchers give a job the same ID.
+ */
+export function extractYemenHRJobId(link: string): string {
+  const match = link.match(/\/jobs\/([^/?#]+)/);
+  return match ? match[1] : link;
+}
+
 /**
  * Yemen HR — yemenhr.com/jobs
- * SSR table layout. Replaces RSS Bridge (eliminates external dependency).
+ * SSR table layout, paginated. Replaces RSS Bridge (eliminates external dependency).
  */
 export const yemenhrScraperConfig: ScraperSourceConfig = {
   sourceName: 'yemenhr',
@@ -24,10 +34,12 @@ export const yemenhrScraperConfig: ScraperSourceConfig = {
     postedDate: 'td:nth-child(1)',
     deadline: 'td:nth-child(5)',
   },
-  idExtractor: (link) => {
-    // URL: https://yemenhr.com/jobs/some-job-slug-abcd1234
-    const match = link.match(/\/jobs\/([^/?#]+)/);
-    return match ? match[1] : link;
+  idExtractor: extractYemenHRJobId,
+  // Busy days push new jobs onto page 2 between hourly runs
+  pagination: {
+    nextPageSelector: 'a[rel="next"]',
+    maxPages: 3,
+    stopWhenAllKnown: true,
   },
   detailPage: {
     descriptionSelector: '.job-description-container',
@@ -58,7 +70,7 @@ export const eoiScraperConfig: ScraperSourceConfig = {
   idExtractor: (link) => {
     // URL: https://eoi-ye.com/jobs/21270/
     const match = link.match(/\/jobs\/(\d+)/);
-    return match ? `eoi-${match[1]}` : link;
+    return match ? match[1] : link;
   },
   fetchHeaders: {
     'X-Requested-With': 'XMLHttpRequest',
@@ -94,7 +106,7 @@ export const qtbConfig: ScraperSourceConfig = {
   },
   idExtractor: (link) => {
     const match = link.match(/id_job=(\d+)/);
-    return match ? `qtb-${match[1]}` : `qtb-${link}`;
+    return match ? match[1] : link;
   },
   defaultCompany: 'بنك القطيبي الإسلامي',
   detailPage: {
@@ -141,7 +153,7 @@ export const yldfConfig: ScraperSourceConfig = {
   idExtractor: (link) => {
     // Link is like https://erp.yldf.org/jobs/yldf/some-job-slug
     const match = link.match(/jobs\/[^/]+\/(.+)/);
-    return match ? `yldf-${match[1]}` : `yldf-${link}`;
+    return match ? match[1] : link;
   },
   defaultCompany: 'Youth Leadership Development Foundation',
   defaultImage: 'https://erp.yldf.org/files/yldflogo96974f111f45.jpg',
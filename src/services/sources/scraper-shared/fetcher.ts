@@ -1,40 +1,44 @@
 /**
- * HTML scraping logic: fetch a listing page, parse job cards via CSS selectors.
+ * HTML scraping logic: fetch listing pages, parse job cards via CSS selectors.
  */
 
-import type { JobItem } from '../../../types';
+import type { HTMLElement } from 'node-html-parser';
+import type { Env, JobItem } from '../../../types';
 import type { ScraperSourceConfig } from './types';
 import { parseHTML, extractText, extractAttr } from './html-parser';
+import { namespaceJobId } from '../../job-ids';
+// Not the storage barrel: other storage modules import the registry, which imports this fetcher
+import { getKnownJobIds } from '../../storage/d1-aliases';
+import { conditionalFetch, discardFetchValidators, type FetchCache } from '../../fetch-cache';
 
 /**
- * Fetch an HTML listing page and extract job items using CSS selectors.
+ * Fetch one listing page. Returns null when it is unchanged since the last run.
  */
-export async function fetchAndParseHTMLJobs(
-  config: ScraperSourceConfig
-): Promise<JobItem[]> {
-  const url = config.getListingUrl();
-  const { baseUrl, selectors, idExtractor, defaultCompany } = config;
-
+async function fetchListingPage(config: ScraperSourceConfig, url: string, fetchCache?: FetchCache): Promise<string | null> {
   const headers: Record<string, string> = {
     'User-Agent': 'Yemen-Jobs-Bot/1.0',
     ...config.fetchHeaders,
   };
 
-  const response = await fetch(url, {
+  const response = await conditionalFetch(url, {
     headers,
     signal: AbortSignal.timeout(10000),
-  });
+  }, { source: config.sourceName, cache: fetchCache });
 
   if (!response.ok) {
     throw new Error(`Scraper fetch failed for ${config.sourceName}: ${response.status} ${response.statusText}`);
   }
-
-  const body = await response.text();
+  if (response.unchanged || response.body === null) return null;
 
   // Extract HTML from response body (e.g., JSON API wrapping HTML in a field)
-  const html = config.responseExtractor ? config.responseExtractor(body) : body;
+  return config.responseExtractor ? config.responseExtractor(response.body) : response.body;
+}
 
-  const doc = parseHTML(html);
+/**
+ * Extract job items from one listing page using CSS selectors.
+ */
+export function parseListingJobs(config: ScraperSourceConfig, doc: HTMLElement): JobItem[] {
+  const { baseUrl, selectors, idExtractor, defaultCompany } = config;
   const containers = doc.querySelectorAll(selectors.jobContainer);
 
   if (containers.length === 0) {
@@ -86,7 +90,7 @@ export async function fetchAndParseHTMLJobs(
 
     if (!link) continue;
 
-    const id = idExtractor(link, title);
+    const id = namespaceJobId(config.sourceName, idExtractor(link, title));
     if (!id) continue;
 
     const company = (selectors.company ? extractText(container, selectors.company) : null) || defaultCompany || 'Unknown Company';
@@ -117,3 +121,72 @@ export async function fetchAndParseHTMLJobs(
 
   return jobs;
 }
+
+/**
+ * URL of the page after `page` (1-based), or null when the listing has no next page.
+ */
+export function nextPageUrl(config: ScraperSourceConfig, doc: HTMLElement, page: number): string | null {
+  const { pagination } = config;
+  if (!pagination) return null;
+  if (pagination.nextPageSelector) {
+    return extractAttr(doc, pagination.nextPageSelector, 'href', config.baseUrl);
+  }
+  if (pagination.pageUrlTemplate) {
+    return pagination.pageUrlTemplate.replace('{page}', String(page + 1));
+  }
+  return null;
+}
+
+/**
+ * Fetch an HTML listing and extract job items, following pagination up to maxPages.
+ * Paging stops when there is no next page, a page is unchanged since the last run
+ * (see fetch-cache.ts — an unchanged first page means no jobs), a page has no new
+ * jobs, or (with stopWhenAllKnown and env) a page has only jobs already in D1. Jobs
+ * are deduplicated by ID across pages; a failed later page keeps the jobs already read,
+ * but drops the run's validators of the listing so the next run reads all its pages again.
+ */
+export async function fetchAndParseHTMLJobs(
+  config: ScraperSourceConfig,
+  env?: Env,
+  fetchCache?: FetchCache
+): Promise<JobItem[]> {
+  const { pagination } = config;
+  const maxPages = pagination ? Math.max(1, pagination.maxPages) : 1;
+  const jobs = new Map<string, JobItem>();
+  const visited = new Set<string>();
+  let url: string | null = config.getListingUrl(env);
+
+  for (let page = 1; url && page <= maxPages; page++) {
+    visited.add(url);
+    let html: string | null;
+    try {
+      html = await fetchListingPage(config, url, fetchCache);
+    } catch (error) {
+      if (page === 1) throw error;
+      console.warn(`[${config.sourceName}] Page ${page} failed, keeping ${jobs.size} jobs: ${error}`);
+      if (fetchCache) discardFetchValidators(fetchCache, config.sourceName);
+      break;
+    }
+    // Unchanged since the last run: its jobs were read then
+    if (html === null) break;
+    const doc = parseHTML(html);
+
+    const pageJobs = parseListingJobs(config, doc).filter(job => !jobs.has(job.id));
+    if (pageJobs.length === 0) break;
+    for (const job of pageJobs) jobs.set(job.id, job);
+
+    url = page < maxPages ? nextPageUrl(config, doc, page) : null;
+    if (!url || visited.has(url)) break;
+
+    if (pagination?.stopWhenAllKnown && env) {
+      try {
+        const known = await getKnownJobIds(env, pageJobs.map(j => j.id));
+        if (pageJobs.every(job => known.has(job.id))) break;
+      } catch (error) {
+        console.warn(`[${config.sourceName}] Known-job check failed, paging on: ${error}`);
+      }
+    }
+  }
+
+  return [...jobs.values()];
+}
@@ -4,7 +4,7 @@
  */
 
 import type { Env, JobItem, ProcessedJob } from '../../../types';
-import type { JobSourcePlugin } from '../types';
+import type { JobSourcePlugin, FetchJobsOptions } from '../types';
 import type { ScraperSourceConfig } from './types';
 import { fetchAndParseHTMLJobs } from './fetcher';
 import { parseHTML, extractText, extractAttr } from './html-parser';
@@ -19,8 +19,8 @@ export class ScraperPlugin implements JobSourcePlugin {
     this.config = config;
   }
 
-  async fetchJobs(env?: Env): Promise<JobItem[]> {
-    return fetchAndParseHTMLJobs(this.config);
+  async fetchJobs(env?: Env, options?: FetchJobsOptions): Promise<JobItem[]> {
+    return fetchAndParseHTMLJobs(this.config, env, options?.fetchCache);
   }
 
   async processJob(job: JobItem, env?: Env): Promise<ProcessedJob> {
@@ -104,6 +104,7 @@ export class ScraperPlugin implements JobSourcePlugin {
   }
 
   private async fetchDetailPage(url: string): Promise<string | null> {
+    // Not conditional: each detail page is fetched about once, so cached validators would only add KV traffic
     const response = await fetch(url, {
       headers: { 'User-Agent': 'Yemen-Jobs-Bot/1.0' },
       signal: AbortSignal.timeout(10000),
@@ -42,7 +42,7 @@ export interface ScraperSourceConfig {
   /** CSS selectors for elements to remove from each container before extracting fields */
   listingCleanupSelectors?: string[];
 
-  /** Extract a unique job ID from a link URL or path */
+  /** Extract the site's own job ID from a link URL or path (namespaced as `source:id` by the fetcher) */
   idExtractor: (link: string, title?: string) => string;
 
   /** Default company name when not extractable from the page */
@@ -65,6 +65,18 @@ export interface ScraperSourceConfig {
     detailMetaExtractor?: (doc: HTMLElement) => { postedDate?: string; deadline?: string };
   };
 
+  /** Follow the listing onto later pages. Omit to read the first page only. */
+  pagination?: {
+    /** Selector for the "next page" link on a listing page (href is followed) */
+    nextPageSelector?: string;
+    /** Page URL built from the page number (2, 3…), e.g. "https://site.org/jobs?page={page}". Used without nextPageSelector. */
+    pageUrlTemplate?: string;
+    /** Pages to fetch at most per run, including the first */
+    maxPages: number;
+    /** Stop once a page has only jobs already in D1 (needs env) */
+    stopWhenAllKnown?: boolean;
+  };
+
   /** Custom HTTP headers for the listing page request */
   fetchHeaders?: Record<string, string>;
 
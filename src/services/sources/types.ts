@@ -1,4 +1,11 @@
 import type { Env, JobItem, ProcessedJob } from '../../types';
+import type { FetchCache } from '../fetch-cache';
+
+/** Per-run options for fetchJobs */
+export interface FetchJobsOptions {
+  /** The scheduled run's conditional-fetch state (see fetch-cache.ts); omit for plain fetches */
+  fetchCache?: FetchCache;
+}
 
 /**
  * Plugin interface for job sources.
@@ -12,9 +19,10 @@ export interface JobSourcePlugin {
   /**
    * Fetch jobs from this source.
    * @param env - Cloudflare environment bindings
+   * @param options - Per-run options (fetch cache)
    * @returns Array of raw job items
    */
-  fetchJobs(env?: Env): Promise<JobItem[]>;
+  fetchJobs(env?: Env, options?: FetchJobsOptions): Promise<JobItem[]>;
 
   /**
    * Process a single job item (e.g., clean HTML, fetch details).
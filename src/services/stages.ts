@@ -0,0 +1,285 @@
+/**
+ * Filter/transform stages — run on each processed job before it is summarized and posted.
+ *
+ * Stages are registered here by name. Which stages run, and in what order, is
+ * the JSON array in settings key `pipeline-stages` (e.g. ["company-blocklist", "title-rewrite"]).
+ * Each stage reads its config from settings key `stage-<name>`, merged over its defaults.
+ */
+
+import type { Env, ProcessedJob } from '../types';
+import { getSetting } from './storage';
+
+export const STAGES_SETTING_KEY = 'pipeline-stages';
+
+/** Result of one stage: keep the (possibly rewritten) job, or reject it with a reason */
+export type StageOutcome = { ok: true; job: ProcessedJob } | { ok: false; reason: string };
+
+/** Reads one config field from a setting: the field's value, or undefined when it's invalid */
+type FieldParser<T> = (value: unknown) => T | undefined;
+
+interface Stage<C> {
+  kind: 'filter' | 'transform';
+  description: string;
+  defaults: C;
+  fields: { [K in keyof C]: FieldParser<C[K]> };
+  run(job: ProcessedJob, config: C): StageOutcome;
+}
+
+interface TitleRewriteRule {
+  pattern: string;
+  replacement: string;
+  flags?: string;
+}
+
+const stringList: FieldParser<string[]> = value =>
+  Array.isArray(value) && value.every(v => typeof v === 'string') ? value : undefined;
+
+const wholeNumber: FieldParser<number> = value =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+
+const flag: FieldParser<boolean> = value => typeof value === 'boolean' ? value : undefined;
+
+/** Rewrite rules with a pattern that compiles; a missing replacement removes the match */
+const rewriteRules: FieldParser<TitleRewriteRule[]> = value => {
+  if (!Array.isArray(value)) return undefined;
+  const rules: TitleRewriteRule[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return undefined;
+    const { pattern, replacement = '', flags } = item as Record<string, unknown>;
+    if (typeof pattern !== 'string' || typeof replacement !== 'string') return undefined;
+    if (flags !== undefined && typeof flags !== 'string') return undefined;
+    try {
+      new RegExp(pattern, flags ?? 'g');
+    } catch {
+      return undefined;
+    }
+    rules.push(flags === undefined ? { pattern, replacement } : { pattern, replacement, flags });
+  }
+  return rules;
+};
+
+// Place names accepted by the yemen-location filter (matched case-insensitively as substrings)
+const YEMEN_PLACES = [
+  'yemen', 'sanaa', "sana'a", 'sana’a', 'aden', 'taiz', 'taizz', 'hodeidah', 'hudaydah', 'marib', "ma'rib",
+  'mukalla', 'ibb', 'hadramout', 'hadramaut', 'hadhramaut', 'saada', "sa'ada", 'hajjah', 'dhamar',
+  'amran', 'lahj', 'abyan', 'shabwa', 'shabwah', 'mahra', 'socotra', 'seiyun', 'sayun', 'al bayda', 'al dhale',
+  'اليمن', 'صنعاء', 'عدن', 'تعز', 'الحديدة', 'مأرب', 'المكلا', 'إب', 'حضرموت', 'صعدة', 'حجة', 'ذمار',
+  'عمران', 'لحج', 'أبين', 'شبوة', 'المهرة', 'سقطرى', 'سيئون', 'البيضاء', 'الضالع',
+];
+
+const keep = (job: ProcessedJob): StageOutcome => ({ ok: true, job });
+const reject = (reason: string): StageOutcome => ({ ok: false, reason });
+
+function defineStage<C>(stage: Stage<C>): Stage<C> {
+  return stage;
+}
+
+const STAGES = {
+  'keyword-blocklist': defineStage<{ keywords: string[] }>({
+    kind: 'filter',
+    description: 'Reject jobs whose title or description contains a blocked keyword',
+    defaults: { keywords: [] },
+    fields: { keywords: stringList },
+    run(job, { keywords }) {
+      const text = `${job.title}\n${job.description}`.toLowerCase();
+      const hit = keywords.find(k => k && text.includes(k.toLowerCase()));
+      return hit ? reject(`keyword "${hit}"`) : keep(job);
+    },
+  }),
+
+  'company-blocklist': defineStage<{ companies: string[] }>({
+    kind: 'filter',
+    description: 'Reject jobs from blocked companies (case-insensitive exact match)',
+    defaults: { companies: [] },
+    fields: { companies: stringList },
+    run(job, { companies }) {
+      const company = job.company.trim().toLowerCase();
+      const hit = companies.find(c => c.trim().toLowerCase() === company);
+      return hit ? reject(`company "${job.company}"`) : keep(job);
+    },
+  }),
+
+  'min-description-length': defineStage<{ minWords: number }>({
+    kind: 'filter',
+    description: 'Reject jobs with too short a description',
+    defaults: { minWords: 30 },
+    fields: { minWords: wholeNumber },
+    run(job, { minWords }) {
+      const words = job.description.split(/\s+/).filter(Boolean).length;
+      return words < minWords ? reject(`description has ${words} words (min ${minWords})`) : keep(job);
+    },
+  }),
+
+  'yemen-location': defineStage<{ allowMissing: boolean; extraPlaces: string[] }>({
+    kind: 'filter',
+    description: 'Reject jobs whose location is outside Yemen',
+    defaults: { allowMissing: true, extraPlaces: [] },
+    fields: { allowMissing: flag, extraPlaces: stringList },
+    run(job, { allowMissing, extraPlaces }) {
+      const location = job.location?.trim().toLowerCase();
+      if (!location) return allowMissing ? keep(job) : reject('no location');
+      const places = [...YEMEN_PLACES, ...extraPlaces.map(p => p.toLowerCase())];
+      return places.some(p => location.includes(p)) ? keep(job) : reject(`location "${job.location}"`);
+    },
+  }),
+
+  'title-rewrite': defineStage<{ rules: TitleRewriteRule[] }>({
+    kind: 'transform',
+    description: 'Rewrite job titles with regex replace rules',
+    defaults: { rules: [] },
+    fields: { rules: rewriteRules },
+    run(job, { rules }) {
+      let title = job.title;
+      for (const rule of rules) {
+        try {
+          title = title.replace(new RegExp(rule.pattern, rule.flags ?? 'g'), rule.replacement);
+        } catch {
+          console.error(`title-rewrite: invalid pattern ${rule.pattern}`);
+        }
+      }
+      title = title.replace(/\s+/g, ' ').trim();
+      return keep(title && title !== job.title ? { ...job, title } : job);
+    },
+  }),
+};
+
+export type StageName = keyof typeof STAGES;
+
+/** A stage selected for this run, with its resolved config */
+export interface ConfiguredStage {
+  name: StageName;
+  config: unknown;
+}
+
+/**
+ * Get all registered stages with their kind, description, and default config.
+ */
+export function getRegisteredStages(): Array<{ name: StageName; kind: 'filter' | 'transform'; description: string; defaults: unknown }> {
+  return (Object.keys(STAGES) as StageName[]).map(name => {
+    const { kind, description, defaults } = STAGES[name];
+    return { name, kind, description, defaults };
+  });
+}
+
+export function isStageName(name: string): name is StageName {
+  return Object.prototype.hasOwnProperty.call(STAGES, name);
+}
+
+/**
+ * Settings key holding a stage's config.
+ */
+export function stageConfigKey(name: StageName): string {
+  return `stage-${name}`;
+}
+
+/**
+ * Merge a stage config override over its defaults. Fields that don't parse (e.g. a
+ * string where a list is expected, a list of numbers, a rewrite rule whose pattern
+ * doesn't compile) keep their default and are listed in `errors`.
+ */
+function parseStageConfig(name: StageName, override: Record<string, unknown>): { config: unknown; errors: string[] } {
+  const stage: Stage<Record<string, unknown>> = STAGES[name] as unknown as Stage<Record<string, unknown>>;
+  const config: Record<string, unknown> = { ...stage.defaults };
+  const errors: string[] = [];
+  for (const [key, parse] of Object.entries(stage.fields)) {
+    if (!(key in override)) continue;
+    const value = parse(override[key]);
+    if (value === undefined) {
+      errors.push(`invalid "${key}"`);
+    } else {
+      config[key] = value;
+    }
+  }
+  return { config, errors };
+}
+
+/**
+ * Check a stage config before it is saved (/stages set, PUT /api/settings/stage-<name>).
+ * Returns why it's invalid, or null.
+ */
+export function validateStageConfig(name: StageName, config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return 'Config must be a JSON object.';
+  const { errors } = parseStageConfig(name, config as Record<string, unknown>);
+  return errors.length > 0 ? `Stage ${name}: ${errors.join(', ')}` : null;
+}
+
+/**
+ * Check a stage setting value before it is saved: the stage list or a stage's config.
+ * Returns why it's invalid, or null (also for keys that aren't stage settings).
+ */
+export function validateStageSetting(key: string, value: string): string | null {
+  const name = key.startsWith('stage-') ? key.slice('stage-'.length) : null;
+  if (key !== STAGES_SETTING_KEY && !(name && isStageName(name))) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return `${key} must be valid JSON`;
+  }
+  if (name && isStageName(name)) return validateStageConfig(name, parsed);
+  if (!Array.isArray(parsed) || !parsed.every(n => typeof n === 'string' && isStageName(n))) {
+    return `${STAGES_SETTING_KEY} must be a JSON array of stage names`;
+  }
+  return null;
+}
+
+/**
+ * Load the ordered stage list and each stage's config from D1 settings.
+ * Unknown stage names and malformed configs are logged and skipped/defaulted,
+ * so a bad setting never stops a run. Returns [] when no stages are configured.
+ */
+export async function loadStages(env: Env): Promise<ConfiguredStage[]> {
+  let names: string[];
+  try {
+    const value = await getSetting(env, STAGES_SETTING_KEY);
+    if (!value) return [];
+    names = JSON.parse(value) as string[];
+    if (!Array.isArray(names)) throw new Error('expected a JSON array of stage names');
+  } catch (error) {
+    console.error(`Invalid ${STAGES_SETTING_KEY} setting:`, error);
+    return [];
+  }
+
+  const stages: ConfiguredStage[] = [];
+  for (const name of names) {
+    if (!isStageName(name)) {
+      console.error(`Unknown pipeline stage: ${name}`);
+      continue;
+    }
+    let override: Record<string, unknown> = {};
+    try {
+      const value = await getSetting(env, stageConfigKey(name));
+      const parsed: unknown = value ? JSON.parse(value) : {};
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        override = parsed as Record<string, unknown>;
+      } else {
+        console.error(`Config for stage ${name} must be a JSON object, using defaults`);
+      }
+    } catch (error) {
+      console.error(`Invalid config for stage ${name}, using defaults:`, error);
+    }
+    const { config, errors } = parseStageConfig(name, override);
+    if (errors.length > 0) console.error(`Stage ${name}: ignoring ${errors.join(', ')} in config`);
+    stages.push({ name, config });
+  }
+  return stages;
+}
+
+/**
+ * Run a job through the configured stages in order.
+ * Stops at the first rejection and reports which stage dropped the job and why.
+ */
+export function runStages(
+  job: ProcessedJob,
+  stages: ConfiguredStage[]
+): { ok: true; job: ProcessedJob } | { ok: false; stage: StageName; reason: string } {
+  let current = job;
+  for (const { name, config } of stages) {
+    const stage: Stage<unknown> = STAGES[name];
+    const outcome = stage.run(current, config);
+    if (!outcome.ok) return { ok: false, stage: name, reason: outcome.reason };
+    current = outcome.job;
+  }
+  return { ok: true, job: current };
+}
@@ -0,0 +1,124 @@
+import type { Env, JobItem } from '../../types';
+import { normalize } from '../dedup';
+import { jobIdSource } from '../job-ids';
+
+// D1 caps bound parameters per statement — query in chunks
+const CHUNK_SIZE = 50;
+
+const placeholders = (values: string[]) => values.map(() => '?').join(', ');
+
+/**
+ * Look up the job IDs the given IDs are aliases of. IDs without an alias are left out.
+ */
+export async function getJobIdAliases(env: Env, aliases: string[]): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  for (let i = 0; i < aliases.length; i += CHUNK_SIZE) {
+    const chunk = aliases.slice(i, i + CHUNK_SIZE);
+    const result = await env.JOBS_DB.prepare(
+      `SELECT alias, job_id FROM job_id_aliases WHERE alias IN (${placeholders(chunk)})`
+    ).bind(...chunk).all<{ alias: string; job_id: string }>();
+    for (const row of result.results) resolved.set(row.alias, row.job_id);
+  }
+  return resolved;
+}
+
+/**
+ * Which of the given IDs are already in D1, as a job or as an alias of one.
+ */
+export async function getKnownJobIds(env: Env, ids: string[]): Promise<Set<string>> {
+  const known = new Set<string>();
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + CHUNK_SIZE);
+    const [jobs, aliases] = await Promise.all([
+      env.JOBS_DB.prepare(`SELECT id FROM jobs WHERE id IN (${placeholders(chunk)})`).bind(...chunk).all<{ id: string }>(),
+      env.JOBS_DB.prepare(`SELECT alias AS id FROM job_id_aliases WHERE alias IN (${placeholders(chunk)})`).bind(...chunk).all<{ id: string }>(),
+    ]);
+    for (const row of [...jobs.results, ...aliases.results]) known.add(row.id);
+  }
+  return known;
+}
+
+/**
+ * Find archived jobs of a source by link. Returns link → archived jobs (a link may
+ * have several rows: a job after an ID scheme change that wasn't aliased yet, or
+ * separate vacancies sharing a generic apply URL).
+ */
+export async function findJobsByLink(
+  env: Env,
+  source: string,
+  links: string[]
+): Promise<Map<string, Array<{ id: string; title: string }>>> {
+  const byLink = new Map<string, Array<{ id: string; title: string }>>();
+  const unique = [...new Set(links.filter(Boolean))];
+  for (let i = 0; i < unique.length; i += CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + CHUNK_SIZE);
+    const result = await env.JOBS_DB.prepare(
+      `SELECT id, title, source_url FROM jobs WHERE source = ? AND source_url IN (${placeholders(chunk)}) ORDER BY scraped_at ASC`
+    ).bind(source, ...chunk).all<{ id: string; title: string; source_url: string }>();
+    for (const row of result.results) {
+      if (!byLink.has(row.source_url)) byLink.set(row.source_url, []);
+      byLink.get(row.source_url)!.push({ id: row.id, title: row.title });
+    }
+  }
+  return byLink;
+}
+
+/**
+ * Record that `alias` identifies the same job as `jobId`. An existing alias keeps its target.
+ */
+export async function addJobIdAlias(env: Env, alias: string, jobId: string, source: string): Promise<void> {
+  await env.JOBS_DB.prepare(
+    'INSERT OR IGNORE INTO job_id_aliases (alias, job_id, source) VALUES (?, ?, ?)'
+  ).bind(alias, jobId, source).run();
+}
+
+/**
+ * Replace fetched job IDs with the archived job's ID where they are aliases of one:
+ * known aliases first, then unknown IDs whose link and title match an archived job
+ * of the same source (recorded as new aliases unless dryRun). The title keeps
+ * separate vacancies behind one generic apply URL apart. Updates the jobs in place
+ * and returns how many were renamed.
+ */
+export async function resolveJobIdAliases(
+  env: Env,
+  jobs: JobItem[],
+  opts: { dryRun?: boolean } = {}
+): Promise<number> {
+  if (jobs.length === 0) return 0;
+
+  const aliases = await getJobIdAliases(env, jobs.map(j => j.id));
+  const unresolved: JobItem[] = [];
+  let renamed = 0;
+  for (const job of jobs) {
+    const canonical = aliases.get(job.id);
+    if (canonical) {
+      job.id = canonical;
+      renamed++;
+    } else if (job.link) {
+      unresolved.push(job);
+    }
+  }
+
+  const bySource = new Map<string, JobItem[]>();
+  for (const job of unresolved) {
+    const source = job.source ?? jobIdSource(job.id);
+    if (!source) continue;
+    if (!bySource.has(source)) bySource.set(source, []);
+    bySource.get(source)!.push(job);
+  }
+
+  for (const [source, group] of bySource) {
+    const archivedByLink = await findJobsByLink(env, source, group.map(j => j.link));
+    for (const job of group) {
+      const archived = archivedByLink.get(job.link) ?? [];
+      if (archived.some(a => a.id === job.id)) continue;
+      const match = archived.find(a => normalize(a.title) === normalize(job.title));
+      if (!match) continue;
+      console.log(`Job ID ${job.id} is an alias of ${match.id} (same link and title)`);
+      if (!opts.dryRun) await addJobIdAlias(env, job.id, match.id, source);
+      job.id = match.id;
+      renamed++;
+    }
+  }
+  return renamed;
+}
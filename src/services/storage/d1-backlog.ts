@@ -0,0 +1,73 @@
+import type { Env, JobItem } from '../../types';
+import { DEFAULT_SOURCE } from '../sources/registry';
+
+/**
+ * Store a job that didn't fit its source's fair share as status='deferred'.
+ * Keeps the raw JobItem so the next run can process it without refetching.
+ * Uses INSERT OR IGNORE — a job already in the backlog keeps its original age,
+ * and jobs already archived (posted, skipped, ...) are not re-queued.
+ * Returns true if the job was added to the backlog.
+ */
+export async function saveDeferredJob(env: Env, job: JobItem, runId?: number): Promise<boolean> {
+  try {
+    const result = await env.JOBS_DB.prepare(`
+      INSERT OR IGNORE INTO jobs (id, title, company, source_url, status, run_id, source, raw_payload)
+      VALUES (?, ?, ?, ?, 'deferred', ?, ?, ?)
+    `).bind(
+      job.id,
+      job.title,
+      job.company || null,
+      job.link,
+      runId || null,
+      job.source || DEFAULT_SOURCE,
+      JSON.stringify(job)
+    ).run();
+    return result.meta.changes > 0;
+  } catch (error) {
+    console.error(`Failed to save deferred job ${job.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Load the deferred backlog for the given sources, oldest first.
+ * Rows with an unreadable payload are skipped.
+ */
+export async function getDeferredJobs(env: Env, sources: string[]): Promise<JobItem[]> {
+  if (sources.length === 0) return [];
+  const result = await env.JOBS_DB.prepare(
+    `SELECT id, raw_payload FROM jobs
+     WHERE status = 'deferred' AND source IN (${sources.map(() => '?').join(', ')})
+     ORDER BY scraped_at ASC`
+  ).bind(...sources).all<{ id: string; raw_payload: string | null }>();
+
+  const jobs: JobItem[] = [];
+  for (const row of result.results) {
+    if (!row.raw_payload) continue;
+    try {
+      // The row's ID wins over the payload's (rewritten by 0016_namespaced_job_ids.sql)
+      jobs.push({ ...(JSON.parse(row.raw_payload) as JobItem), id: row.id });
+    } catch {
+      console.error(`Malformed deferred payload for ${row.id}`);
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Which of the given jobs entered the backlog less than `minutes` ago
+ * (still inside the merge window, see merge.ts).
+ */
+export async function getRecentlyDeferredIds(env: Env, jobIds: string[], minutes: number): Promise<Set<string>> {
+  const recent = new Set<string>();
+  // D1 caps bound parameters per statement — query in chunks
+  for (let i = 0; i < jobIds.length; i += 50) {
+    const chunk = jobIds.slice(i, i + 50);
+    const result = await env.JOBS_DB.prepare(
+      `SELECT id FROM jobs WHERE status = 'deferred' AND scraped_at > datetime('now', ?)
+       AND id IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(`-${minutes} minutes`, ...chunk).all<{ id: string }>();
+    for (const row of result.results) recent.add(row.id);
+  }
+  return recent;
+}
@@ -0,0 +1,153 @@
+import type { Env, CompanyRecord, CompanyAliasRecord, UnmatchedCompanyRecord } from '../../types';
+import { companyKey } from '../dedup';
+
+/**
+ * Get all companies, by name.
+ */
+export async function getCompanies(env: Env): Promise<CompanyRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    'SELECT * FROM companies ORDER BY COALESCE(name_en, name_ar) ASC'
+  ).all<CompanyRecord>();
+  return result.results;
+}
+
+/**
+ * Get a single company by ID.
+ */
+export async function getCompany(env: Env, companyId: number): Promise<CompanyRecord | null> {
+  return env.JOBS_DB.prepare(
+    'SELECT * FROM companies WHERE id = ?'
+  ).bind(companyId).first<CompanyRecord>();
+}
+
+/**
+ * Get all company aliases (optionally for one company).
+ */
+export async function getCompanyAliases(env: Env, companyId?: number): Promise<CompanyAliasRecord[]> {
+  const result = companyId === undefined
+    ? await env.JOBS_DB.prepare('SELECT * FROM company_aliases ORDER BY alias ASC').all<CompanyAliasRecord>()
+    : await env.JOBS_DB.prepare(
+      'SELECT * FROM company_aliases WHERE company_id = ? ORDER BY alias ASC'
+    ).bind(companyId).all<CompanyAliasRecord>();
+  return result.results;
+}
+
+/**
+ * Create a company. Its English and Arabic names are added as aliases.
+ * Returns the new company ID.
+ */
+export async function createCompany(
+  env: Env,
+  fields: { name_en?: string | null; name_ar?: string | null; logo_url?: string | null }
+): Promise<number> {
+  const row = await env.JOBS_DB.prepare(
+    'INSERT INTO companies (name_en, name_ar, logo_url) VALUES (?, ?, ?) RETURNING id'
+  ).bind(fields.name_en || null, fields.name_ar || null, fields.logo_url || null).first<{ id: number }>();
+  const companyId = row!.id;
+
+  for (const name of [fields.name_en, fields.name_ar]) {
+    if (name) await addCompanyAlias(env, companyId, name);
+  }
+  return companyId;
+}
+
+/**
+ * Update a company's names or logo. Changed names are added as aliases.
+ */
+export async function updateCompany(
+  env: Env,
+  companyId: number,
+  fields: Partial<Pick<CompanyRecord, 'name_en' | 'name_ar' | 'logo_url'>>
+): Promise<boolean> {
+  const sets: string[] = [];
+  const values: unknown[] = [];
+
+  if (fields.name_en !== undefined) { sets.push('name_en = ?'); values.push(fields.name_en); }
+  if (fields.name_ar !== undefined) { sets.push('name_ar = ?'); values.push(fields.name_ar); }
+  if (fields.logo_url !== undefined) { sets.push('logo_url = ?'); values.push(fields.logo_url); }
+
+  if (sets.length === 0) return false;
+
+  sets.push("updated_at = datetime('now')");
+  values.push(companyId);
+
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE companies SET ${sets.join(', ')} WHERE id = ?`
+  ).bind(...values).run();
+  if (result.meta.changes === 0) return false;
+
+  for (const name of [fields.name_en, fields.name_ar]) {
+    if (name) await addCompanyAlias(env, companyId, name);
+  }
+  return true;
+}
+
+/**
+ * Point an alias at a company (re-pointing it if it already belonged to another),
+ * and take the name off the unmatched review list.
+ * Returns the alias key, or null when the alias normalizes to nothing.
+ */
+export async function addCompanyAlias(env: Env, companyId: number, alias: string): Promise<string | null> {
+  const key = companyKey(alias);
+  if (!key) return null;
+
+  await env.JOBS_DB.prepare(`
+    INSERT INTO company_aliases (alias_key, alias, company_id) VALUES (?, ?, ?)
+    ON CONFLICT(alias_key) DO UPDATE SET alias = excluded.alias, company_id = excluded.company_id
+  `).bind(key, alias.trim(), companyId).run();
+  await env.JOBS_DB.prepare(
+    'DELETE FROM unmatched_companies WHERE name_key = ?'
+  ).bind(key).run();
+  return key;
+}
+
+/**
+ * Remove an alias. Returns false if no alias had that name.
+ */
+export async function removeCompanyAlias(env: Env, alias: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    'DELETE FROM company_aliases WHERE alias_key = ?'
+  ).bind(companyKey(alias)).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Record company names that matched no alias (upsert: bumps seen_count).
+ */
+export async function recordUnmatchedCompanies(
+  env: Env,
+  names: Array<{ name: string; source: string; jobId: string }>
+): Promise<void> {
+  const now = new Date().toISOString();
+  for (const { name, source, jobId } of names) {
+    const key = companyKey(name);
+    if (!key) continue;
+    await env.JOBS_DB.prepare(`
+      INSERT INTO unmatched_companies (name_key, name, source, job_id, seen_count, first_seen_at, last_seen_at)
+      VALUES (?, ?, ?, ?, 1, ?, ?)
+      ON CONFLICT(name_key) DO UPDATE SET
+        name = excluded.name, source = excluded.source, job_id = excluded.job_id,
+        seen_count = seen_count + 1, last_seen_at = excluded.last_seen_at
+    `).bind(key, name.trim(), source, jobId, now, now).run();
+  }
+}
+
+/**
+ * Unmatched company names for review, most frequent first.
+ */
+export async function listUnmatchedCompanies(env: Env, limit = 20): Promise<UnmatchedCompanyRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    'SELECT * FROM unmatched_companies ORDER BY seen_count DESC, last_seen_at DESC LIMIT ?'
+  ).bind(limit).all<UnmatchedCompanyRecord>();
+  return result.results;
+}
+
+/**
+ * Drop a name from the unmatched review list without aliasing it (it returns if seen again).
+ */
+export async function dismissUnmatchedCompany(env: Env, name: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    'DELETE FROM unmatched_companies WHERE name_key = ?'
+  ).bind(companyKey(name)).run();
+  return result.meta.changes > 0;
+}
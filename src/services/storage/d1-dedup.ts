@@ -0,0 +1,189 @@
+import type { Env, DuplicateMatch, JobItem } from '../../types';
+import { normalizeJobKey } from '../dedup';
+import { DEFAULT_SOURCE } from '../sources/registry';
+import { isDedupCacheEnabled, isJobCached, getCachedDedupEntry } from './kv-dedup';
+
+/**
+ * Statuses that mean a job ID was already handled and must not be processed again.
+ * 'failed'/'dead' belong to the retry queue, 'deferred' to the backlog, 'fetched' to a
+ * run that died mid-job, and 'cleared' was released by /clear.
+ */
+const HANDLED_STATUSES = ['posted', 'skipped', 'duplicate', 'filtered', 'expired'];
+
+/** Statuses whose dedup key blocks other jobs with the same title+company */
+const POSTED_STATUSES = ['posted', 'expired'];
+
+const placeholders = (values: string[]) => values.map(() => '?').join(', ');
+
+/**
+ * Check if a job ID was already handled (posted, deduped, filtered...).
+ * Answered from D1 job status; the KV cache is checked first when enabled.
+ * If D1 can't be read, the KV answer stands.
+ */
+export async function isJobPosted(env: Env, jobId: string): Promise<boolean> {
+  if (isDedupCacheEnabled(env) && await isJobCached(env, jobId)) return true;
+  try {
+    const row = await env.JOBS_DB.prepare(
+      `SELECT 1 AS hit FROM jobs WHERE id = ? AND status IN (${placeholders(HANDLED_STATUSES)}) LIMIT 1`
+    ).bind(jobId, ...HANDLED_STATUSES).first();
+    return row !== null;
+  } catch (error) {
+    console.error(`Failed to check job ${jobId} in D1:`, error);
+    return false;
+  }
+}
+
+/**
+ * Find the posted job a title+company duplicates: the latest posted row with the
+ * same dedup key, however long ago it was posted (the repost policy compares against
+ * it). The KV cache, which holds the last posting's ID, is checked first; a cache
+ * entry without a job ID still asks D1 for one.
+ */
+export async function findDuplicateJob(
+  env: Env,
+  title: string,
+  company: string
+): Promise<DuplicateMatch | null> {
+  const key = normalizeJobKey(title, company);
+  const cached = isDedupCacheEnabled(env) ? await getCachedDedupEntry(env, key) : null;
+  if (cached?.jobId) return { jobId: cached.jobId, source: cached.source ?? null, reason: 'exact', score: 1 };
+
+  try {
+    const row = await env.JOBS_DB.prepare(
+      `SELECT id, source FROM jobs WHERE dedup_key = ? AND status IN (${placeholders(POSTED_STATUSES)})
+       ORDER BY posted_at DESC LIMIT 1`
+    ).bind(key, ...POSTED_STATUSES).first<{ id: string; source: string }>();
+    if (row) return { jobId: row.id ?? null, source: row.source ?? null, reason: 'exact', score: 1 };
+  } catch (error) {
+    console.error('Failed to check dedup key in D1:', error);
+  }
+  return cached ? { jobId: null, source: null, reason: 'exact', score: 1 } : null;
+}
+
+/**
+ * Check if a job is a cross-source duplicate using title+company (see findDuplicateJob).
+ */
+export async function isDuplicateJob(env: Env, title: string, company: string): Promise<boolean> {
+  return (await findDuplicateJob(env, title, company)) !== null;
+}
+
+/**
+ * Release a job from D1 dedup so it can be posted again (/clear).
+ * Returns false if the job wasn't in a handled status.
+ */
+export async function clearJobDedup(env: Env, jobId: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE jobs SET status = 'cleared' WHERE id = ? AND status IN (${placeholders(HANDLED_STATUSES)})`
+  ).bind(jobId, ...HANDLED_STATUSES).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Archive a job skipped as a duplicate, with what it matched and its JobItem
+ * payload (for "force post anyway"). Only a 'deferred' backlog row is overwritten.
+ */
+export async function saveDuplicateJob(
+  env: Env,
+  job: JobItem,
+  match: DuplicateMatch,
+  runId?: number
+): Promise<void> {
+  try {
+    await env.JOBS_DB.prepare(`
+      INSERT INTO jobs
+      (id, title, company, source_url, status, run_id, dedup_key, raw_payload,
+       duplicate_of, duplicate_of_source, duplicate_reason, duplicate_score, source)
+      VALUES (?, ?, ?, ?, 'duplicate', ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = 'duplicate', run_id = excluded.run_id, dedup_key = excluded.dedup_key, raw_payload = excluded.raw_payload,
+        duplicate_of = excluded.duplicate_of, duplicate_of_source = excluded.duplicate_of_source,
+        duplicate_reason = excluded.duplicate_reason, duplicate_score = excluded.duplicate_score
+      WHERE jobs.status = 'deferred'
+    `).bind(
+      job.id,
+      job.title,
+      job.company || null,
+      job.link || null,
+      runId || null,
+      normalizeJobKey(job.title, job.company || ''),
+      JSON.stringify(job),
+      match.jobId,
+      match.source,
+      match.reason,
+      match.score,
+      job.source || DEFAULT_SOURCE
+    ).run();
+  } catch (error) {
+    console.error(`Failed to save duplicate job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Store what a job matched on an existing row (kept on force-posted jobs for audit).
+ */
+export async function setDuplicateMatch(env: Env, jobId: string, match: DuplicateMatch): Promise<void> {
+  await env.JOBS_DB.prepare(
+    `UPDATE jobs SET duplicate_of = ?, duplicate_of_source = ?, duplicate_reason = ?, duplicate_score = ? WHERE id = ?`
+  ).bind(match.jobId, match.source, match.reason, match.score, jobId).run();
+}
+
+/**
+ * Link a reposted job to the earlier posting it re-advertises.
+ */
+export async function markJobRepost(env: Env, jobId: string, originalId: string): Promise<void> {
+  await env.JOBS_DB.prepare(
+    'UPDATE jobs SET repost_of = ? WHERE id = ?'
+  ).bind(originalId, jobId).run();
+}
+
+/**
+ * Record the other sources merged into a posted job (credited in its footer).
+ */
+export async function markJobMerged(env: Env, jobId: string, sources: string[]): Promise<void> {
+  await env.JOBS_DB.prepare(
+    'UPDATE jobs SET merged_sources = ? WHERE id = ?'
+  ).bind(JSON.stringify(sources), jobId).run();
+}
+
+/**
+ * Delete a duplicate row so regular archival (saveJobOnFetch) can write the full
+ * record when it is force-posted. Returns false if the row isn't a duplicate.
+ */
+export async function releaseDuplicateJob(env: Env, jobId: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `DELETE FROM jobs WHERE id = ? AND status = 'duplicate'`
+  ).bind(jobId).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Count job rows with and without a dedup key.
+ */
+export async function getDedupKeyCoverage(env: Env): Promise<{ withKey: number; missing: number }> {
+  const row = await env.JOBS_DB.prepare(
+    `SELECT COUNT(dedup_key) AS with_key, COUNT(*) - COUNT(dedup_key) AS missing FROM jobs`
+  ).first<{ with_key: number; missing: number }>();
+  return { withKey: row?.with_key ?? 0, missing: row?.missing ?? 0 };
+}
+
+/**
+ * Fill in dedup_key for rows archived before the column existed.
+ * Processes up to `batches` batches of `batchSize` rows; returns how many were updated.
+ */
+export async function backfillDedupKeys(env: Env, batchSize = 500, batches = 10): Promise<number> {
+  let updated = 0;
+  const stmt = env.JOBS_DB.prepare('UPDATE jobs SET dedup_key = ? WHERE id = ?');
+
+  for (let i = 0; i < batches; i++) {
+    const result = await env.JOBS_DB.prepare(
+      'SELECT id, title, company FROM jobs WHERE dedup_key IS NULL LIMIT ?'
+    ).bind(batchSize).all<{ id: string; title: string; company: string | null }>();
+    const rows = result.results;
+    if (rows.length === 0) break;
+
+    await env.JOBS_DB.batch(rows.map(row => stmt.bind(normalizeJobKey(row.title, row.company || ''), row.id)));
+    updated += rows.length;
+    if (rows.length < batchSize) break;
+  }
+  return updated;
+}
@@ -1,13 +1,20 @@
-import type { Env, ProcessedJob, JobStatus, JobRecord, RunRecord, PaginatedResponse } from '../../types';
+import type { Env, JobItem, ProcessedJob, JobStatus, JobRecord, RunRecord, PaginatedResponse } from '../../types';
 import { DEFAULT_SOURCE } from '../sources/registry';
+import { hashJobContent } from '../job-content';
+import { normalizeJobKey, type PostingRef } from '../dedup';
 
 /**
- * Save a job to D1 on initial fetch (status='fetched').
- * Uses INSERT OR IGNORE — won't overwrite if job already exists from a previous run.
+ * Save a job to D1 on initial fetch (status='fetched'), with its content hash.
+ * Won't overwrite a job that already exists from a previous run. A backlog job's
+ * 'deferred' row gets the full record but stays deferred (with its original age)
+ * until the send outcome sets its status, so a run that dies first leaves it queued.
+ *
+ * dedup_key comes from the listing's title and company — what findDuplicateJob is
+ * given — not from the processed job, whose title a stage may have rewritten.
  */
 export async function saveJobOnFetch(
   env: Env,
-  jobId: string,
+  listing: Pick<JobItem, 'id' | 'title' | 'company'>,
   job: ProcessedJob,
   rawDescription: string,
   source: string = DEFAULT_SOURCE,
@@ -15,13 +22,21 @@ export async function saveJobOnFetch(
 ): Promise<void> {
   try {
     await env.JOBS_DB.prepare(`
-      INSERT OR IGNORE INTO jobs
+      INSERT INTO jobs
       (id, title, company, location, description_raw, description_clean,
        image_url, source_url, posted_date, deadline, how_to_apply,
-       application_links, category, status, run_id, word_count, source)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'fetched', ?, ?, ?)
+       application_links, category, status, run_id, dedup_key, content_hash, word_count, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'fetched', ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        title = excluded.title, company = excluded.company, location = excluded.location,
+        description_raw = excluded.description_raw, description_clean = excluded.description_clean,
+        image_url = excluded.image_url, source_url = excluded.source_url, posted_date = excluded.posted_date,
+        deadline = excluded.deadline, how_to_apply = excluded.how_to_apply,
+        application_links = excluded.application_links, category = excluded.category, run_id = excluded.run_id,
+        dedup_key = excluded.dedup_key, content_hash = excluded.content_hash, word_count = excluded.word_count
+      WHERE jobs.status = 'deferred'
     `).bind(
-      jobId,
+      listing.id,
       job.title,
       job.company || null,
       job.location || null,
@@ -35,6 +50,8 @@ export async function saveJobOnFetch(
       job.applicationLinks ? JSON.stringify(job.applicationLinks) : null,
       job.category || null,
       runId || null,
+      normalizeJobKey(listing.title, listing.company || ''),
+      await hashJobContent(job),
       job.description ? job.description.split(/\s+/).length : null,
       source
     ).run();
@@ -45,7 +62,8 @@ export async function saveJobOnFetch(
 
 /**
  * Archive a skipped/duplicate job with minimal data (no plugin processing needed).
- * Uses INSERT OR IGNORE — safe to call for jobs that already exist from a previous run.
+ * Safe to call for jobs that already exist from a previous run — only a 'deferred'
+ * backlog row is overwritten.
  */
 export async function saveSkippedJob(
   env: Env,
@@ -58,9 +76,11 @@ export async function saveSkippedJob(
 ): Promise<void> {
   try {
     await env.JOBS_DB.prepare(`
-      INSERT OR IGNORE INTO jobs (id, title, company, status, run_id, source)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(jobId, title, company || null, status, runId || null, source).run();
+      INSERT INTO jobs (id, title, company, status, run_id, dedup_key, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET status = excluded.status, run_id = excluded.run_id, dedup_key = excluded.dedup_key
+      WHERE jobs.status = 'deferred'
+    `).bind(jobId, title, company || null, status, runId || null, normalizeJobKey(title, company || ''), source).run();
   } catch {
     // Silently ignore — skipped job archival is best-effort
   }
@@ -103,6 +123,52 @@ export async function updateJobStatus(
   }
 }
 
+/**
+ * Mark a job as rejected by a pipeline stage, recording which stage and why.
+ */
+export async function markJobFiltered(env: Env, jobId: string, stage: string, reason: string): Promise<void> {
+  try {
+    await env.JOBS_DB.prepare(
+      `UPDATE jobs SET status = 'filtered', filtered_by = ?, filter_reason = ? WHERE id = ?`
+    ).bind(stage, reason.substring(0, 500), jobId).run();
+  } catch (error) {
+    console.error(`Failed to mark job ${jobId} as filtered:`, error);
+  }
+}
+
+/**
+ * Get posted and retry-queued jobs that have a deadline, oldest post first (expiry sweep).
+ */
+export async function getJobsWithDeadline(env: Env, limit = 500): Promise<JobRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    `SELECT * FROM jobs
+     WHERE status IN ('posted', 'failed') AND deadline IS NOT NULL AND deadline != ''
+     ORDER BY posted_at ASC LIMIT ?`
+  ).bind(limit).all<JobRecord>();
+  return result.results;
+}
+
+/**
+ * Jobs posted since `since` (ISO timestamp), newest first — the fuzzy dedup index.
+ */
+export async function getRecentPostings(env: Env, since: string, limit = 2000): Promise<PostingRef[]> {
+  const result = await env.JOBS_DB.prepare(
+    `SELECT id, title, company, source FROM jobs
+     WHERE status = 'posted' AND posted_at >= ?
+     ORDER BY posted_at DESC LIMIT ?`
+  ).bind(since, limit).all<{ id: string; title: string; company: string | null; source: string }>();
+  return result.results.map(row => ({ id: row.id, title: row.title, company: row.company || '', source: row.source }));
+}
+
+/**
+ * Mark a job whose application deadline has passed as expired.
+ */
+export async function markJobExpired(env: Env, jobId: string): Promise<void> {
+  await env.JOBS_DB.prepare(
+    `UPDATE jobs SET status = 'expired', expired_at = ?, next_attempt_at = NULL WHERE id = ?`
+  ).bind(new Date().toISOString(), jobId).run();
+}
+
 /**
  * List jobs with pagination and optional filters.
  */
@@ -128,6 +194,8 @@ export async function listJobs(
   if (opts.search) { where.push('(title LIKE ? OR company LIKE ?)'); params.push(`%${opts.search}%`, `%${opts.search}%`); }
 
   const whereClause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  // The failed list doubles as the retry queue — soonest retry first
+  const orderBy = opts.status === 'failed' ? 'next_attempt_at ASC' : 'scraped_at DESC';
 
   // Count total
   const countResult = await env.JOBS_DB.prepare(
@@ -137,7 +205,7 @@ export async function listJobs(
 
   // Fetch page
   const dataResult = await env.JOBS_DB.prepare(
-    `SELECT * FROM jobs ${whereClause} ORDER BY scraped_at DESC LIMIT ? OFFSET ?`
+    `SELECT * FROM jobs ${whereClause} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
   ).bind(...params, limit, offset).all<JobRecord>();
 
   return {
@@ -155,6 +223,22 @@ export async function getJobFromDB(env: Env, jobId: string): Promise<JobRecord |
   ).bind(jobId).first<JobRecord>();
 }
 
+/**
+ * Look up the status of each given job ID. IDs without a D1 row are left out.
+ */
+export async function getJobStatuses(env: Env, jobIds: string[]): Promise<Map<string, JobStatus>> {
+  const statuses = new Map<string, JobStatus>();
+  // D1 caps bound parameters per statement — query in chunks
+  for (let i = 0; i < jobIds.length; i += 50) {
+    const chunk = jobIds.slice(i, i + 50);
+    const result = await env.JOBS_DB.prepare(
+      `SELECT id, status FROM jobs WHERE id IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(...chunk).all<{ id: string; status: JobStatus }>();
+    for (const row of result.results) statuses.set(row.id, row.status);
+  }
+  return statuses;
+}
+
 /**
  * Get dashboard stats.
  */
@@ -162,9 +246,10 @@ export async function getDashboardStats(env: Env): Promise<{
   totalJobs: number;
   byStatus: Record<string, number>;
   bySource: Array<{ source: string; count: number }>;
+  backlog: Array<{ source: string; count: number }>;
   recentRuns: RunRecord[];
 }> {
-  const [totalResult, statusResult, sourceResult, runsResult] = await Promise.all([
+  const [totalResult, statusResult, sourceResult, backlogResult, runsResult] = await Promise.all([
     env.JOBS_DB.prepare('SELECT COUNT(*) as total FROM jobs').first<{ total: number }>(),
     env.JOBS_DB.prepare(
       'SELECT status, COUNT(*) as count FROM jobs GROUP BY status'
@@ -172,6 +257,9 @@ export async function getDashboardStats(env: Env): Promise<{
     env.JOBS_DB.prepare(
       'SELECT source, COUNT(*) as count FROM jobs GROUP BY source ORDER BY count DESC'
     ).all<{ source: string; count: number }>(),
+    env.JOBS_DB.prepare(
+      "SELECT source, COUNT(*) as count FROM jobs WHERE status = 'deferred' GROUP BY source ORDER BY count DESC"
+    ).all<{ source: string; count: number }>(),
     env.JOBS_DB.prepare(
       'SELECT * FROM runs ORDER BY started_at DESC LIMIT 5'
     ).all<RunRecord>(),
@@ -186,6 +274,7 @@ export async function getDashboardStats(env: Env): Promise<{
     totalJobs: totalResult?.total || 0,
     byStatus,
     bySource: sourceResult.results,
+    backlog: backlogResult.results,
     recentRuns: runsResult.results,
   };
 }
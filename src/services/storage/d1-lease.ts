@@ -0,0 +1,61 @@
+import type { Env } from '../../types';
+
+const PIPELINE_LEASE = 'pipeline';
+
+/** How long a lease lasts without a heartbeat */
+export const RUN_LEASE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Try to take the pipeline run lease. Succeeds if no lease exists or the current one expired.
+ * The conditional upsert is a single statement, so two runs can't both win.
+ * On failure returns the run ID holding the lease (null if unknown).
+ */
+export async function acquireRunLease(
+  env: Env,
+  holder: string,
+  runId?: number,
+  ttlMs = RUN_LEASE_TTL_MS
+): Promise<{ acquired: true } | { acquired: false; heldBy: number | null }> {
+  const now = new Date();
+  const result = await env.JOBS_DB.prepare(
+    `INSERT INTO run_lease (name, holder, run_id, acquired_at, expires_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET
+       holder = excluded.holder, run_id = excluded.run_id,
+       acquired_at = excluded.acquired_at, expires_at = excluded.expires_at
+     WHERE run_lease.expires_at <= ?`
+  ).bind(
+    PIPELINE_LEASE,
+    holder,
+    runId ?? null,
+    now.toISOString(),
+    new Date(now.getTime() + ttlMs).toISOString(),
+    now.toISOString()
+  ).run();
+
+  if (result.meta.changes > 0) return { acquired: true };
+
+  const current = await env.JOBS_DB.prepare(
+    'SELECT run_id FROM run_lease WHERE name = ?'
+  ).bind(PIPELINE_LEASE).first<{ run_id: number | null }>();
+  return { acquired: false, heldBy: current?.run_id ?? null };
+}
+
+/**
+ * Extend the lease (heartbeat). Returns false if the lease was lost to another run.
+ */
+export async function renewRunLease(env: Env, holder: string, ttlMs = RUN_LEASE_TTL_MS): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    'UPDATE run_lease SET expires_at = ? WHERE name = ? AND holder = ?'
+  ).bind(new Date(Date.now() + ttlMs).toISOString(), PIPELINE_LEASE, holder).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Release the lease if still held by this holder.
+ */
+export async function releaseRunLease(env: Env, holder: string): Promise<void> {
+  await env.JOBS_DB.prepare(
+    'DELETE FROM run_lease WHERE name = ? AND holder = ?'
+  ).bind(PIPELINE_LEASE, holder).run();
+}
@@ -0,0 +1,136 @@
+import type { Env, JobRecord } from '../../types';
+import { planRetry, type RetryPlan } from '../retry';
+
+/**
+ * Record a failed post attempt and schedule the next retry with backoff.
+ * Marks the job 'dead' once the retry cap is reached.
+ * Returns null if the job has no D1 row yet (failed before saveJobOnFetch).
+ */
+export async function recordJobFailure(
+  env: Env,
+  jobId: string,
+  error: string
+): Promise<RetryPlan | null> {
+  try {
+    const row = await env.JOBS_DB.prepare(
+      'SELECT retry_count FROM jobs WHERE id = ?'
+    ).bind(jobId).first<{ retry_count: number | null }>();
+    if (!row) return null;
+
+    const plan = planRetry(row.retry_count || 0);
+    await env.JOBS_DB.prepare(
+      `UPDATE jobs SET status = ?, retry_count = ?, next_attempt_at = ?, last_error = ?
+       WHERE id = ?`
+    ).bind(plan.status, plan.retryCount, plan.nextAttemptAt, error.substring(0, 500), jobId).run();
+    return plan;
+  } catch (err) {
+    console.error(`Failed to record failure for ${jobId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Get failed jobs whose next retry is due, oldest schedule first.
+ */
+export async function getDueRetries(
+  env: Env,
+  limit: number,
+  sources?: string[]
+): Promise<JobRecord[]> {
+  if (limit <= 0) return [];
+  const params: unknown[] = [new Date().toISOString()];
+  let sourceClause = '';
+  if (sources) {
+    if (sources.length === 0) return [];
+    sourceClause = `AND source IN (${sources.map(() => '?').join(', ')})`;
+    params.push(...sources);
+  }
+
+  const result = await env.JOBS_DB.prepare(
+    `SELECT * FROM jobs
+     WHERE status = 'failed' AND next_attempt_at IS NOT NULL AND next_attempt_at <= ? ${sourceClause}
+     ORDER BY next_attempt_at ASC LIMIT ?`
+  ).bind(...params, limit).all<JobRecord>();
+  return result.results;
+}
+
+/**
+ * List the retry queue (failed jobs, soonest retry first).
+ */
+export async function listRetryQueue(env: Env, limit = 10): Promise<{ jobs: JobRecord[]; total: number }> {
+  const [countResult, dataResult] = await Promise.all([
+    env.JOBS_DB.prepare(
+      `SELECT COUNT(*) as total FROM jobs WHERE status = 'failed'`
+    ).first<{ total: number }>(),
+    env.JOBS_DB.prepare(
+      `SELECT * FROM jobs WHERE status = 'failed' ORDER BY next_attempt_at ASC LIMIT ?`
+    ).bind(limit).all<JobRecord>(),
+  ]);
+  return { jobs: dataResult.results, total: countResult?.total || 0 };
+}
+
+/**
+ * Make a failed (or dead) job due for retry immediately.
+ */
+export async function scheduleRetryNow(env: Env, jobId: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE jobs SET status = 'failed', next_attempt_at = ?
+     WHERE id = ? AND status IN ('failed', 'dead')`
+  ).bind(new Date().toISOString(), jobId).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Give up on a failed job — removes it from the retry queue.
+ */
+export async function giveUpRetry(env: Env, jobId: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE jobs SET status = 'dead', next_attempt_at = NULL
+     WHERE id = ? AND status = 'failed'`
+  ).bind(jobId).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Of the given job IDs, return those owned by the retry queue (status failed or dead).
+ * The fresh-job loop skips these so backoff isn't bypassed when a source relists them.
+ */
+export async function getRetryQueueIds(env: Env, jobIds: string[]): Promise<Set<string>> {
+  const queued = new Set<string>();
+  // D1 caps bound parameters per statement — query in chunks
+  for (let i = 0; i < jobIds.length; i += 50) {
+    const chunk = jobIds.slice(i, i + 50);
+    const result = await env.JOBS_DB.prepare(
+      `SELECT id FROM jobs WHERE status IN ('failed', 'dead') AND id IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(...chunk).all<{ id: string }>();
+    for (const row of result.results) queued.add(row.id);
+  }
+  return queued;
+}
+
+/**
+ * IDs of jobs left 'fetched' for longer than `hours` — their run died mid-job
+ * and the source no longer lists them, so no run will pick them up again.
+ */
+export async function getStuckFetchedIds(env: Env, hours = 24, limit = 500): Promise<string[]> {
+  const result = await env.JOBS_DB.prepare(
+    `SELECT id FROM jobs WHERE status = 'fetched' AND scraped_at < datetime('now', ?)
+     ORDER BY scraped_at ASC LIMIT ?`
+  ).bind(`-${hours} hours`, limit).all<{ id: string }>();
+  return result.results.map(row => row.id);
+}
+
+/**
+ * Hand stuck 'fetched' jobs to the retry queue (failed, due now).
+ * Returns how many were still 'fetched' and got queued.
+ */
+export async function requeueStuckJobs(env: Env, jobIds: string[]): Promise<number> {
+  if (jobIds.length === 0) return 0;
+  const stmt = env.JOBS_DB.prepare(
+    `UPDATE jobs SET status = 'failed', next_attempt_at = ?, last_error = ?
+     WHERE id = ? AND status = 'fetched'`
+  );
+  const now = new Date().toISOString();
+  const results = await env.JOBS_DB.batch(jobIds.map(id => stmt.bind(now, 'Stuck in fetched (run ended mid-job)', id)));
+  return results.reduce((sum, r) => sum + (r.meta.changes ?? 0), 0);
+}
@@ -0,0 +1,77 @@
+import type { Env, JobRevisionRecord, ProcessedJob } from '../../types';
+import type { ContentField } from '../job-content';
+
+/**
+ * Record that a posted job was compared against its source, storing the current hash.
+ */
+export async function markContentChecked(env: Env, jobId: string, contentHash: string): Promise<void> {
+  try {
+    await env.JOBS_DB.prepare(
+      'UPDATE jobs SET content_hash = ?, content_checked_at = ? WHERE id = ?'
+    ).bind(contentHash, new Date().toISOString(), jobId).run();
+  } catch (error) {
+    console.error(`Failed to mark content checked for ${jobId}:`, error);
+  }
+}
+
+/**
+ * Store a detected content change: append a job_revisions row, then update the
+ * job's archived fields, hash, and AI summary to the new version.
+ */
+export async function saveJobRevision(
+  env: Env,
+  jobId: string,
+  job: ProcessedJob,
+  revision: {
+    runId?: number;
+    previousHash: string | null;
+    contentHash: string;
+    changedFields: ContentField[];
+    previousValues: Partial<Record<ContentField, string>>;
+    telegramEdited: boolean;
+    aiSummary?: string;
+  }
+): Promise<void> {
+  await env.JOBS_DB.prepare(`
+    INSERT INTO job_revisions
+    (job_id, run_id, previous_hash, content_hash, changed_fields, previous_values, telegram_edited, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    jobId,
+    revision.runId || null,
+    revision.previousHash,
+    revision.contentHash,
+    JSON.stringify(revision.changedFields),
+    JSON.stringify(revision.previousValues),
+    revision.telegramEdited ? 1 : 0,
+    new Date().toISOString()
+  ).run();
+
+  await env.JOBS_DB.prepare(`
+    UPDATE jobs SET location = ?, deadline = ?, description_clean = ?, how_to_apply = ?,
+      application_links = ?, word_count = ?, content_hash = ?, content_checked_at = ?,
+      ai_summary_ar = COALESCE(?, ai_summary_ar)
+    WHERE id = ?
+  `).bind(
+    job.location || null,
+    job.deadline || null,
+    job.description || null,
+    job.howToApply || null,
+    job.applicationLinks ? JSON.stringify(job.applicationLinks) : null,
+    job.description ? job.description.split(/\s+/).length : null,
+    revision.contentHash,
+    new Date().toISOString(),
+    revision.aiSummary || null,
+    jobId
+  ).run();
+}
+
+/**
+ * List a job's revisions, newest first.
+ */
+export async function listJobRevisions(env: Env, jobId: string): Promise<JobRevisionRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    'SELECT * FROM job_revisions WHERE job_id = ? ORDER BY id DESC'
+  ).bind(jobId).all<JobRevisionRecord>();
+  return result.results;
+}
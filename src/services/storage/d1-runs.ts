@@ -33,14 +33,15 @@ export async function completeRun(
     jobs_failed: number;
     source_stats?: Record<string, unknown>;
     error?: string;
+    checkpoint?: string[]; // Set when the run stopped at its time budget
   }
 ): Promise<void> {
-  const status = stats.error ? 'failed' : 'completed';
+  const status = stats.error ? 'failed' : stats.checkpoint ? 'partial' : 'completed';
   await env.JOBS_DB.prepare(
     `UPDATE runs SET
        completed_at = ?, status = ?,
        jobs_fetched = ?, jobs_posted = ?, jobs_skipped = ?, jobs_failed = ?,
-       source_stats = ?, error = ?
+       source_stats = ?, error = ?, checkpoint = ?
      WHERE id = ?`
   ).bind(
     new Date().toISOString(),
@@ -51,10 +52,68 @@ export async function completeRun(
     stats.jobs_failed,
     stats.source_stats ? JSON.stringify(stats.source_stats) : null,
     stats.error || null,
+    stats.checkpoint ? JSON.stringify(stats.checkpoint) : null,
     runId
   ).run();
 }
 
+/**
+ * Close a run that didn't start because another run holds the lease.
+ */
+export async function skipLockedRun(env: Env, runId: number, heldBy: number | null): Promise<void> {
+  await env.JOBS_DB.prepare(
+    `UPDATE runs SET completed_at = ?, status = 'skipped_locked', error = ? WHERE id = ?`
+  ).bind(
+    new Date().toISOString(),
+    heldBy ? `Run #${heldBy} in progress` : 'Another run in progress',
+    runId
+  ).run();
+}
+
+/**
+ * Mark runs left 'running' by killed workers as failed.
+ * Only safe while holding the run lease — any other 'running' row is then stale.
+ * Returns the number of runs marked failed.
+ */
+export async function failStaleRuns(env: Env, currentRunId?: number): Promise<number> {
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE runs SET completed_at = ?, status = 'failed', error = 'Stale run: worker stopped before completing'
+     WHERE status = 'running' AND id != ?`
+  ).bind(new Date().toISOString(), currentRunId ?? -1).run();
+  return result.meta.changes;
+}
+
+/**
+ * Get the latest partial run that no later run has resumed yet, with its checkpointed job IDs.
+ */
+export async function getPendingCheckpoint(env: Env): Promise<{ runId: number; jobIds: string[] } | null> {
+  const row = await env.JOBS_DB.prepare(
+    `SELECT id, checkpoint FROM runs r
+     WHERE status = 'partial'
+       AND NOT EXISTS (SELECT 1 FROM runs n WHERE n.resumed_from = r.id)
+     ORDER BY id DESC LIMIT 1`
+  ).first<{ id: number; checkpoint: string | null }>();
+  if (!row) return null;
+
+  let jobIds: string[] = [];
+  try {
+    const parsed: unknown = row.checkpoint ? JSON.parse(row.checkpoint) : [];
+    if (Array.isArray(parsed)) jobIds = parsed.filter((id): id is string => typeof id === 'string');
+  } catch {
+    console.error(`Malformed checkpoint on run #${row.id}`);
+  }
+  return { runId: row.id, jobIds };
+}
+
+/**
+ * Link a run to the partial run it resumes.
+ */
+export async function markRunResumed(env: Env, runId: number, fromRunId: number): Promise<void> {
+  await env.JOBS_DB.prepare(
+    'UPDATE runs SET resumed_from = ? WHERE id = ?'
+  ).bind(fromRunId, runId).run();
+}
+
 /**
  * List runs with pagination.
  */
@@ -0,0 +1,87 @@
+import type { Env, SourceHealthCheckRecord, SourceHealthStatus } from '../../types';
+
+/**
+ * Record one source's health check for a run.
+ */
+export async function saveSourceHealthCheck(
+  env: Env,
+  check: {
+    source: string;
+    runId?: number;
+    jobsFound: number;
+    unchanged: boolean;
+    error?: string;
+    nullRates: Record<string, number>;
+    status: SourceHealthStatus;
+    reason?: string;
+  }
+): Promise<void> {
+  await env.JOBS_DB.prepare(
+    `INSERT INTO source_health_checks (source, run_id, jobs_found, unchanged, error, null_rates, status, reason)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    check.source, check.runId ?? null, check.jobsFound, check.unchanged ? 1 : 0, check.error ?? null,
+    JSON.stringify(check.nullRates), check.status, check.reason ?? null
+  ).run();
+}
+
+/**
+ * Get a source's recent health checks, newest first.
+ */
+export async function getSourceHealthChecks(env: Env, source: string, limit: number = 50): Promise<SourceHealthCheckRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    'SELECT * FROM source_health_checks WHERE source = ? ORDER BY id DESC LIMIT ?'
+  ).bind(source, limit).all<SourceHealthCheckRecord>();
+  return result.results;
+}
+
+/**
+ * Delete all but the newest `keepPerSource` health checks of each source.
+ * Returns how many rows were deleted.
+ */
+export async function pruneSourceHealthChecks(env: Env, keepPerSource: number): Promise<number> {
+  const result = await env.JOBS_DB.prepare(
+    `DELETE FROM source_health_checks WHERE id IN (
+       SELECT id FROM (
+         SELECT id, ROW_NUMBER() OVER (PARTITION BY source ORDER BY id DESC) AS rank FROM source_health_checks
+       ) WHERE rank > ?
+     )`
+  ).bind(keepPerSource).run();
+  return result.meta.changes;
+}
+
+/**
+ * Get the latest health check of every source.
+ */
+export async function getLatestSourceHealthChecks(env: Env): Promise<SourceHealthCheckRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    `SELECT * FROM source_health_checks
+     WHERE id IN (SELECT MAX(id) FROM source_health_checks GROUP BY source)
+     ORDER BY source`
+  ).all<SourceHealthCheckRecord>();
+  return result.results;
+}
+
+/**
+ * When each source last had a job posted.
+ */
+export async function getLastPostedAtBySource(env: Env): Promise<Map<string, string>> {
+  const result = await env.JOBS_DB.prepare(
+    `SELECT source, MAX(posted_at) AS last_posted_at FROM jobs
+     WHERE status = 'posted' AND posted_at IS NOT NULL
+     GROUP BY source`
+  ).all<{ source: string; last_posted_at: string }>();
+  return new Map(result.results.map(r => [r.source, r.last_posted_at]));
+}
+
+/**
+ * Quarantine a source: disable it and record why. `/source enable` (or PATCH enabled)
+ * releases it. Returns false if the source was already disabled.
+ */
+export async function quarantineSource(env: Env, source: string, reason: string): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE sources SET enabled = 0, quarantined_at = datetime('now'), quarantine_reason = ?, updated_at = datetime('now')
+     WHERE id = ? AND enabled = 1`
+  ).bind(reason, source).run();
+  return result.meta.changes > 0;
+}
@@ -19,14 +19,37 @@ export async function getSourceFromDB(env: Env, sourceId: string): Promise<Sourc
   ).bind(sourceId).first<SourceRecord>();
 }
 
+/**
+ * Insert a runtime-defined source. Returns false if the ID is already taken.
+ */
+export async function createSourceInDB(
+  env: Env,
+  fields: Pick<SourceRecord, 'id' | 'display_name' | 'hashtag' | 'type' | 'base_url' | 'feed_url' | 'enabled' | 'cron_schedule' | 'config'> & {
+    ai_prompt_config: string | null;
+  }
+): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `INSERT OR IGNORE INTO sources (id, display_name, hashtag, type, base_url, feed_url, enabled, ai_prompt_config, cron_schedule, config)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    fields.id, fields.display_name, fields.hashtag, fields.type, fields.base_url, fields.feed_url,
+    fields.enabled, fields.ai_prompt_config, fields.cron_schedule, fields.config
+  ).run();
+  return result.meta.changes > 0;
+}
+
 /**
  * Update source metadata in D1.
  */
 export async function updateSourceInDB(
   env: Env,
   sourceId: string,
-  fields: Partial<Pick<SourceRecord, 'display_name' | 'hashtag' | 'enabled' | 'base_url' | 'feed_url' | 'cron_schedule'>> & {
+  fields: Partial<Pick<SourceRecord,
+    'display_name' | 'hashtag' | 'enabled' | 'base_url' | 'feed_url' | 'cron_schedule' |
+    'quota_weight' | 'max_per_run' | 'min_per_run' | 'repost_policy' | 'repost_after_days' | 'merge_rank'
+  >> & {
     ai_prompt_config?: string | null;
+    config?: string | null;
   }
 ): Promise<boolean> {
   const sets: string[] = [];
@@ -34,11 +57,23 @@ export async function updateSourceInDB(
 
   if (fields.display_name !== undefined) { sets.push('display_name = ?'); values.push(fields.display_name); }
   if (fields.hashtag !== undefined) { sets.push('hashtag = ?'); values.push(fields.hashtag); }
-  if (fields.enabled !== undefined) { sets.push('enabled = ?'); values.push(fields.enabled); }
+  if (fields.enabled !== undefined) {
+    sets.push('enabled = ?');
+    values.push(fields.enabled);
+    // Enabling a source releases it from health quarantine (see source-health.ts)
+    if (fields.enabled) sets.push('quarantined_at = NULL', 'quarantine_reason = NULL');
+  }
   if (fields.ai_prompt_config !== undefined) { sets.push('ai_prompt_config = ?'); values.push(fields.ai_prompt_config); }
   if (fields.base_url !== undefined) { sets.push('base_url = ?'); values.push(fields.base_url); }
   if (fields.feed_url !== undefined) { sets.push('feed_url = ?'); values.push(fields.feed_url); }
   if (fields.cron_schedule !== undefined) { sets.push('cron_schedule = ?'); values.push(fields.cron_schedule); }
+  if (fields.quota_weight !== undefined) { sets.push('quota_weight = ?'); values.push(fields.quota_weight); }
+  if (fields.max_per_run !== undefined) { sets.push('max_per_run = ?'); values.push(fields.max_per_run); }
+  if (fields.min_per_run !== undefined) { sets.push('min_per_run = ?'); values.push(fields.min_per_run); }
+  if (fields.repost_policy !== undefined) { sets.push('repost_policy = ?'); values.push(fields.repost_policy); }
+  if (fields.repost_after_days !== undefined) { sets.push('repost_after_days = ?'); values.push(fields.repost_after_days); }
+  if (fields.merge_rank !== undefined) { sets.push('merge_rank = ?'); values.push(fields.merge_rank); }
+  if (fields.config !== undefined) { sets.push('config = ?'); values.push(fields.config); }
 
   if (sets.length === 0) return false;
 
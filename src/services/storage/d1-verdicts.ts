@@ -0,0 +1,94 @@
+import type { Env, DuplicateVerdictRecord } from '../../types';
+import { verdictPairKey } from '../dedup';
+
+/**
+ * Get the cached verdict for a job pair (either order).
+ */
+export async function getDuplicateVerdict(
+  env: Env,
+  jobId: string,
+  otherJobId: string
+): Promise<DuplicateVerdictRecord | null> {
+  return env.JOBS_DB.prepare(
+    'SELECT * FROM duplicate_verdicts WHERE pair_key = ?'
+  ).bind(verdictPairKey(jobId, otherJobId)).first<DuplicateVerdictRecord>();
+}
+
+/**
+ * Get a verdict by ID.
+ */
+export async function getDuplicateVerdictById(env: Env, id: number): Promise<DuplicateVerdictRecord | null> {
+  return env.JOBS_DB.prepare(
+    'SELECT * FROM duplicate_verdicts WHERE id = ?'
+  ).bind(id).first<DuplicateVerdictRecord>();
+}
+
+/**
+ * Cache an AI verdict. A pair that already has one (e.g. an admin override) keeps it.
+ */
+export async function saveDuplicateVerdict(
+  env: Env,
+  verdict: {
+    jobId: string;
+    otherJobId: string;
+    score: number;
+    verdict: DuplicateVerdictRecord['verdict'];
+    reason: string | null;
+    model: string | null;
+  }
+): Promise<void> {
+  await env.JOBS_DB.prepare(`
+    INSERT INTO duplicate_verdicts (pair_key, job_id, other_job_id, score, verdict, reason, decided_by, model)
+    VALUES (?, ?, ?, ?, ?, ?, 'ai', ?)
+    ON CONFLICT(pair_key) DO NOTHING
+  `).bind(
+    verdictPairKey(verdict.jobId, verdict.otherJobId),
+    verdict.jobId,
+    verdict.otherJobId,
+    verdict.score,
+    verdict.verdict,
+    verdict.reason,
+    verdict.model
+  ).run();
+}
+
+/**
+ * Set a pair's verdict as an admin, creating the row if the pair was never checked.
+ */
+export async function setDuplicateVerdict(
+  env: Env,
+  jobId: string,
+  otherJobId: string,
+  verdict: DuplicateVerdictRecord['verdict']
+): Promise<void> {
+  await env.JOBS_DB.prepare(`
+    INSERT INTO duplicate_verdicts (pair_key, job_id, other_job_id, verdict, reason, decided_by)
+    VALUES (?, ?, ?, ?, 'Set by admin', 'admin')
+    ON CONFLICT(pair_key) DO UPDATE SET
+      verdict = excluded.verdict, decided_by = 'admin', updated_at = datetime('now')
+  `).bind(verdictPairKey(jobId, otherJobId), jobId, otherJobId, verdict).run();
+}
+
+/**
+ * Override a cached verdict by ID. Returns false if there's no such verdict.
+ */
+export async function overrideDuplicateVerdict(
+  env: Env,
+  id: number,
+  verdict: DuplicateVerdictRecord['verdict']
+): Promise<boolean> {
+  const result = await env.JOBS_DB.prepare(
+    `UPDATE duplicate_verdicts SET verdict = ?, decided_by = 'admin', updated_at = datetime('now') WHERE id = ?`
+  ).bind(verdict, id).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * List the most recently decided verdicts.
+ */
+export async function listDuplicateVerdicts(env: Env, limit: number = 10): Promise<DuplicateVerdictRecord[]> {
+  const result = await env.JOBS_DB.prepare(
+    'SELECT * FROM duplicate_verdicts ORDER BY updated_at DESC, id DESC LIMIT ?'
+  ).bind(limit).all<DuplicateVerdictRecord>();
+  return result.results;
+}
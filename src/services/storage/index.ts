@@ -1,7 +1,17 @@
 // Barrel re-export — all consumers continue importing from './storage' or '../storage'
 export * from './kv-dedup';
+export * from './d1-dedup';
 export * from './kv-admin';
 export * from './d1-runs';
 export * from './d1-jobs';
 export * from './d1-sources';
 export * from './d1-settings';
+export * from './d1-retries';
+export * from './d1-backlog';
+export * from './d1-lease';
+export * from './d1-revisions';
+export * from './d1-companies';
+export * from './d1-verdicts';
+export * from './d1-aliases';
+export * from './kv-fetch-cache';
+export * from './d1-source-health';
@@ -136,3 +136,102 @@ export async function clearAllKV(env: Env): Promise<ClearKVResult> {
     keyNames: allKeys.map(k => k.name),
   };
 }
+
+export interface RewriteKVJobIdsResult {
+  jobKeys: number; // job:<id> keys moved to the rewritten ID
+  dedupKeys: number; // dedup: entries whose recorded job ID was rewritten
+  cursor: string | null; // Where to continue next call (null = done)
+}
+
+const REWRITE_PHASES = [JOB_KEY_PREFIX, 'dedup:'];
+
+/**
+ * Rewrite job IDs in the KV cache: job:<id> keys are moved to job:<rewrite(id)>
+ * and dedup: entries get the rewritten job ID. Entries keep their expiry.
+ * Workers cap KV operations per invocation, so this stops after about `maxOps`
+ * and returns a cursor to continue from (pass it back in).
+ */
+export async function rewriteKVJobIds(
+  env: Env,
+  rewrite: (jobId: string) => string,
+  opts: { cursor?: string | null; maxOps?: number } = {}
+): Promise<RewriteKVJobIdsResult> {
+  const maxOps = opts.maxOps ?? 900;
+  const result: RewriteKVJobIdsResult = { jobKeys: 0, dedupKeys: 0, cursor: null };
+  let ops = 0;
+
+  // Cursor format: "<prefix>|<KV list cursor>"
+  const split = opts.cursor ? opts.cursor.indexOf('|') : -1;
+  const startPrefix = split >= 0 ? opts.cursor!.slice(0, split) : JOB_KEY_PREFIX;
+  const startCursor = split >= 0 ? opts.cursor!.slice(split + 1) : '';
+  for (const prefix of REWRITE_PHASES.slice(Math.max(0, REWRITE_PHASES.indexOf(startPrefix)))) {
+    let cursor: string | undefined = prefix === startPrefix && startCursor ? startCursor : undefined;
+    do {
+      // A page must fit the budget: at most 3 operations per key (get, put, delete)
+      const limit = Math.min(1000, Math.floor((maxOps - ops - 1) / 3));
+      if (limit < 1) {
+        result.cursor = `${prefix}|${cursor ?? ''}`;
+        return result;
+      }
+      const list = await env.POSTED_JOBS.list({ prefix, cursor, limit });
+      ops++;
+
+      for (const key of list.keys) {
+        const options = key.expiration ? { expiration: key.expiration } : {};
+
+        if (prefix === JOB_KEY_PREFIX) {
+          const jobId = key.name.slice(JOB_KEY_PREFIX.length);
+          const newId = rewrite(jobId);
+          if (newId === jobId) continue;
+          const value = await env.POSTED_JOBS.get(key.name);
+          if (value !== null) await env.POSTED_JOBS.put(`${JOB_KEY_PREFIX}${newId}`, value, options);
+          await env.POSTED_JOBS.delete(key.name);
+          ops += 3;
+          result.jobKeys++;
+          continue;
+        }
+
+        const value = await env.POSTED_JOBS.get(key.name);
+        ops++;
+        let entry: { jobId?: string } | null;
+        try {
+          entry = JSON.parse(value ?? '') as { jobId?: string } | null;
+        } catch {
+          continue; // Timestamp-only entry, no job ID
+        }
+        if (!entry?.jobId || rewrite(entry.jobId) === entry.jobId) continue;
+        await env.POSTED_JOBS.put(key.name, JSON.stringify({ ...entry, jobId: rewrite(entry.jobId) }), options);
+        ops++;
+        result.dedupKeys++;
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+  }
+  return result;
+}
+
+/**
+ * List KV key names under a prefix, following list cursors up to `max` keys.
+ * `complete` is false when keys were left unlisted.
+ */
+export async function listKVKeys(
+  env: Env,
+  prefix: string,
+  max = 5000
+): Promise<{ names: string[]; complete: boolean }> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await env.POSTED_JOBS.list({ prefix, cursor, limit: Math.min(1000, max - names.length) });
+    names.push(...list.keys.map(k => k.name));
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor && names.length < max);
+  return { names, complete: !cursor };
+}
+
+/**
+ * Delete KV keys by name.
+ */
+export async function deleteKVKeys(env: Env, keys: string[]): Promise<void> {
+  await Promise.all(keys.map(key => env.POSTED_JOBS.delete(key)));
+}
@@ -5,16 +5,24 @@ const TTL_30_DAYS = 30 * 24 * 60 * 60; // 30 days in seconds
 const JOB_KEY_PREFIX = 'job:';
 
 /**
- * Check if a job has already been posted.
+ * Whether the KV hot cache is in use. D1 is the dedup source of truth
+ * (see d1-dedup.ts); KV only saves D1 reads for recently posted jobs.
  */
-export async function isJobPosted(env: Env, jobId: string): Promise<boolean> {
+export function isDedupCacheEnabled(env: Env): boolean {
+  return env.DEDUP_KV_CACHE !== 'off';
+}
+
+/**
+ * Check the KV cache for a job ID (a miss says nothing — ask D1).
+ */
+export async function isJobCached(env: Env, jobId: string): Promise<boolean> {
   const key = `${JOB_KEY_PREFIX}${jobId}`;
   const value = await env.POSTED_JOBS.get(key);
   return value !== null;
 }
 
 /**
- * Mark a job as posted in KV storage.
+ * Cache a handled job ID in KV.
  */
 export async function markJobAsPosted(
   env: Env,
@@ -22,6 +30,7 @@ export async function markJobAsPosted(
   title: string,
   company?: string
 ): Promise<void> {
+  if (!isDedupCacheEnabled(env)) return;
   const key = `${JOB_KEY_PREFIX}${jobId}`;
   const record: PostedJobRecord = {
     postedAt: new Date().toISOString(),
@@ -34,29 +43,40 @@ export async function markJobAsPosted(
   });
 }
 
+/** KV cache entry for a dedup key (older entries hold only a timestamp) */
+export interface DedupCacheEntry {
+  jobId?: string;
+  source?: string;
+}
+
 /**
- * Check if a job is a cross-source duplicate using title+company.
+ * Check the KV cache for a title+company dedup key (a miss says nothing — ask D1).
+ * Returns the job that claimed the key when the entry records it.
  */
-export async function isDuplicateJob(
-  env: Env,
-  title: string,
-  company: string
-): Promise<boolean> {
-  const key = normalizeJobKey(title, company);
-  const value = await env.POSTED_JOBS.get(key);
-  return value !== null;
+export async function getCachedDedupEntry(env: Env, dedupKey: string): Promise<DedupCacheEntry | null> {
+  const value = await env.POSTED_JOBS.get(dedupKey);
+  if (value === null) return null;
+  try {
+    const entry = JSON.parse(value) as DedupCacheEntry;
+    return entry && typeof entry === 'object' ? entry : {};
+  } catch {
+    return {}; // Timestamp-only entry
+  }
 }
 
 /**
- * Mark a job's dedup key as posted (for cross-source deduplication).
+ * Cache a posted job's dedup key in KV (for cross-source deduplication).
  */
 export async function markDedupKey(
   env: Env,
   title: string,
-  company: string
+  company: string,
+  jobId?: string,
+  source?: string
 ): Promise<void> {
+  if (!isDedupCacheEnabled(env)) return;
   const key = normalizeJobKey(title, company);
-  await env.POSTED_JOBS.put(key, new Date().toISOString(), {
+  await env.POSTED_JOBS.put(key, JSON.stringify({ postedAt: new Date().toISOString(), jobId, source }), {
     expirationTtl: TTL_30_DAYS,
   });
 }
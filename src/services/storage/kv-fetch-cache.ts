@@ -0,0 +1,34 @@
+import type { Env } from '../../types';
+
+const TTL_1_DAY = 24 * 60 * 60; // 1 day in seconds — at least one full fetch per URL a day
+const FETCH_KEY_PREFIX = 'fetch:';
+
+/** What the last full fetch of a URL returned, for conditional requests (see fetch-cache.ts) */
+export interface FetchValidators {
+  etag?: string;
+  lastModified?: string;
+  /** SHA-256 hex digest of the body */
+  hash: string;
+}
+
+/**
+ * Get the stored validators for a URL (null on a miss or a malformed entry).
+ */
+export async function getFetchValidators(env: Env, url: string): Promise<FetchValidators | null> {
+  const value = await env.POSTED_JOBS.get(`${FETCH_KEY_PREFIX}${url}`);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as FetchValidators;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the validators of a URL's latest full fetch.
+ */
+export async function saveFetchValidators(env: Env, url: string, validators: FetchValidators): Promise<void> {
+  await env.POSTED_JOBS.put(`${FETCH_KEY_PREFIX}${url}`, JSON.stringify(validators), {
+    expirationTtl: TTL_1_DAY,
+  });
+}
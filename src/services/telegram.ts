@@ -1,4 +1,4 @@
-import type { TelegramSendResult } from '../types';
+import type { TelegramMessage, TelegramSendResult } from '../types';
 import type { InlineKeyboardMarkup } from '../types/telegram';
 
 interface TelegramResponse {
@@ -125,6 +125,74 @@ export async function editMessageText(
   }
 }
 
+/**
+ * Edit a job post in place: the caption of a photo post, or the text of a text post.
+ * Photo sends fall back to text when the image fails, so the other edit is tried
+ * if the first doesn't fit the message. An unchanged message counts as success.
+ */
+export async function editJobPost(
+  botToken: string,
+  chatId: string,
+  messageId: number,
+  message: TelegramMessage
+): Promise<boolean> {
+  const edit = async (method: 'editMessageCaption' | 'editMessageText'): Promise<TelegramResponse> => {
+    const field = method === 'editMessageCaption' ? 'caption' : 'text';
+    const response = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: chatId, message_id: messageId, [field]: message.fullMessage, parse_mode: 'HTML' }),
+    });
+    return response.json();
+  };
+  const done = (data: TelegramResponse) => data.ok || /message is not modified/i.test(data.description || '');
+
+  try {
+    const first = message.hasImage ? 'editMessageCaption' : 'editMessageText';
+    let data = await edit(first);
+    if (done(data)) return true;
+    if (/no (caption|text) in the message/i.test(data.description || '')) {
+      data = await edit(first === 'editMessageCaption' ? 'editMessageText' : 'editMessageCaption');
+      if (done(data)) return true;
+    }
+    console.error(`Telegram edit error for message ${messageId}:`, data.description);
+    return false;
+  } catch (error) {
+    console.error('Error editing Telegram post:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete a message by message_id.
+ */
+export async function deleteMessage(
+  botToken: string,
+  chatId: string,
+  messageId: number
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://api.telegram.org/bot${botToken}/deleteMessage`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: chatId, message_id: messageId }),
+      }
+    );
+
+    const data: TelegramResponse = await response.json();
+    if (!data.ok) {
+      console.error('Telegram deleteMessage error:', data.description);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error deleting Telegram message:', error);
+    return false;
+  }
+}
+
 /**
  * Send a text message with inline keyboard buttons.
  */
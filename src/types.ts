@@ -11,9 +11,17 @@ export interface Env {
   ADMIN_CHAT_ID?: string;
   MAX_JOBS_PER_RUN?: string;
   DELAY_BETWEEN_POSTS_MS?: string;
+  PROCESS_CONCURRENCY?: string; // Jobs processed/summarized in parallel (default: 3)
+  RUN_TIME_BUDGET_MS?: string; // Stop and checkpoint a cron run after this long (default: 600000)
+  FETCH_RUN_TIME_BUDGET_MS?: string; // Same for manual and webhook runs, started from a request (default: 25000)
+  DEDUP_KV_CACHE?: string; // "off" = answer dedup from D1 only, no KV reads/writes (default: on)
+  DEDUP_SIMILARITY_THRESHOLD?: string; // Fuzzy dedup: title+company similarity that counts as a duplicate (default: 0.85)
+  DEDUP_AI_MIN_SIMILARITY?: string; // Fuzzy dedup: similarity from which borderline pairs are judged by Workers AI (unset = off)
+  MERGE_WINDOW_MINUTES?: string; // Hold new jobs this long, so the same vacancy on another board merges into one post (default: 0)
   LINKEDIN_URL?: string;
   AI_MODEL?: string; // Workers AI model ID (default: @cf/qwen/qwen3-30b-a3b-fp8)
   API_SECRET?: string; // Bearer token for write API endpoints (PATCH, PUT)
+  SOURCE_QUARANTINE_AFTER?: string; // Failing runs in a row before a source is quarantined (default: 6, see source-health.ts)
 }
 
 export type { JobSource } from './services/sources/registry';
@@ -30,6 +38,9 @@ export interface JobItem {
   howToApply?: string; // How to apply instructions
   applicationLinks?: string[]; // Application URLs, emails, phones
   categories?: string[]; // Raw category tags from RSS/source (country, org, job type mixed)
+  location?: string; // Listing fields, for sources whose listing has them as structured data
+  deadline?: string;
+  category?: string;
 }
 
 export interface ProcessedJob {
@@ -45,6 +56,8 @@ export interface ProcessedJob {
   applicationLinks?: string[]; // Application URLs, emails, phones
   source?: string; // Job source identifier (validated at registry level)
   category?: string;
+  repostOf?: string; // Set by the pipeline: earlier posted job this re-advertises
+  mergedSources?: string[]; // Set by the pipeline: other sources merged into this job (credited in the footer)
 }
 
 export interface TelegramMessage {
@@ -53,6 +66,33 @@ export interface TelegramMessage {
   hasImage: boolean;
 }
 
+/** What a run would do with a job — reported by dry runs */
+export type DryRunDecision = 'new' | 'retry' | 'updated' | 'already_posted' | 'duplicate' | 'deferred' | 'filtered' | 'error';
+
+/** One job in a dry-run preview */
+export interface DryRunEntry {
+  jobId: string;
+  source: string;
+  title: string;
+  company: string;
+  decision: DryRunDecision;
+  message?: TelegramMessage; // Exact message that would be sent ('new', 'retry' and 'updated' only)
+  error?: string;
+  filter?: { stage: string; reason: string }; // 'filtered' only
+  changes?: string[]; // Content fields that changed ('updated' only)
+  duplicateOf?: string; // Job ID it matched ('duplicate' only)
+  repostOf?: string; // Earlier posting it re-advertises ('new' reposts only)
+  mergedFrom?: string[]; // Job IDs from other sources merged into it ('new' only)
+}
+
+/** What a duplicate job collided with */
+export interface DuplicateMatch {
+  jobId: string | null; // null = KV cache hit from before provenance was stored
+  source: string | null;
+  reason: 'exact' | 'fuzzy' | 'ai'; // exact = same title+company key, fuzzy = similarity (see dedup.ts), ai = grey-zone verdict (see adjudicate.ts)
+  score: number; // 1 for exact matches
+}
+
 export interface PostedJobRecord {
   postedAt: string;
   title: string;
@@ -63,7 +103,7 @@ export interface PostedJobRecord {
 // D1 Database Records
 // ============================================================================
 
-export type JobStatus = 'fetched' | 'posted' | 'skipped' | 'failed' | 'duplicate';
+export type JobStatus = 'fetched' | 'posted' | 'skipped' | 'failed' | 'duplicate' | 'dead' | 'deferred' | 'filtered' | 'expired' | 'cleared';
 
 /** Result from Telegram send operations */
 export interface TelegramSendResult {
@@ -77,7 +117,7 @@ export interface RunRecord {
   started_at: string;
   completed_at: string | null;
   trigger_type: 'cron' | 'manual' | 'webhook';
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'partial' | 'failed' | 'skipped_locked';
   jobs_fetched: number;
   jobs_posted: number;
   jobs_skipped: number;
@@ -85,8 +125,13 @@ export interface RunRecord {
   source_stats: string | null; // JSON
   error: string | null;
   environment: string | null;
+  checkpoint: string | null; // JSON: job IDs left unprocessed when the time budget ran out
+  resumed_from: number | null; // The partial run this run resumed
 }
 
+/** How a source handles re-advertised jobs (see repost.ts) */
+export type RepostPolicyMode = 'never' | 'after_days' | 'deadline_moved';
+
 /** D1 sources table row */
 export interface SourceRecord {
   id: string;
@@ -98,6 +143,15 @@ export interface SourceRecord {
   enabled: number; // 0 or 1
   ai_prompt_config: string | null; // JSON
   cron_schedule: string; // cron expression: '0 * * * *', '0 */6 * * *', '0 0 * * *'
+  quota_weight: number; // share of MAX_JOBS_PER_RUN relative to other sources (default 1)
+  max_per_run: number | null; // per-run cap (null = no cap)
+  min_per_run: number; // slots reserved each run (default 0)
+  repost_policy: RepostPolicyMode; // re-advertised jobs (default 'never', see repost.ts)
+  repost_after_days: number | null; // 'after_days': minimum age of the earlier post (default 30)
+  merge_rank: number | null; // cross-source merge preference, lower first (null = unranked, see merge.ts)
+  config: string | null; // JSON: RSS/scraper config of a runtime-defined source (null = defined in code, see sources/runtime.ts)
+  quarantined_at: string | null; // Set when failing health checks quarantined the source (see source-health.ts)
+  quarantine_reason: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -121,12 +175,101 @@ export interface JobRecord {
   status: JobStatus;
   telegram_message_id: number | null;
   run_id: number | null;
+  retry_count: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  raw_payload: string | null; // JSON JobItem (deferred and duplicate jobs)
+  filtered_by: string | null; // Stage that rejected the job
+  filter_reason: string | null;
+  content_hash: string | null; // SHA-256 of the fields update detection compares
+  content_checked_at: string | null;
   posted_at: string | null;
+  expired_at: string | null;
+  dedup_key: string | null; // normalizeJobKey(title, company) — D1 dedup lookups
+  duplicate_of: string | null; // Job ID a duplicate matched (set on a posted row = force-posted)
+  duplicate_of_source: string | null;
+  duplicate_reason: DuplicateMatch['reason'] | null;
+  duplicate_score: number | null;
+  repost_of: string | null; // Earlier posted job this re-advertises
+  merged_sources: string | null; // JSON array: other sources merged into this post
   scraped_at: string;
   word_count: number | null;
   source: string;
 }
 
+/** D1 job_revisions table row */
+export interface JobRevisionRecord {
+  id: number;
+  job_id: string;
+  run_id: number | null;
+  previous_hash: string | null;
+  content_hash: string;
+  changed_fields: string; // JSON array of field names
+  previous_values: string | null; // JSON object
+  telegram_edited: number; // 0 or 1
+  created_at: string;
+}
+
+/** D1 companies table row */
+export interface CompanyRecord {
+  id: number;
+  name_en: string | null;
+  name_ar: string | null;
+  logo_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** D1 company_aliases table row */
+export interface CompanyAliasRecord {
+  alias_key: string; // companyKey(alias)
+  alias: string;
+  company_id: number;
+  created_at: string;
+}
+
+/** D1 unmatched_companies table row */
+export interface UnmatchedCompanyRecord {
+  name_key: string;
+  name: string;
+  source: string | null;
+  job_id: string | null;
+  seen_count: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+/** D1 duplicate_verdicts table row: AI (or admin) verdict on a grey-zone job pair */
+export interface DuplicateVerdictRecord {
+  id: number;
+  pair_key: string; // Both job IDs, sorted, joined with '|'
+  job_id: string; // The job being checked
+  other_job_id: string; // The posting it resembled
+  score: number | null; // Similarity when the pair was checked (null = set by an admin)
+  verdict: 'same' | 'different';
+  reason: string | null;
+  decided_by: 'ai' | 'admin';
+  model: string | null; // Workers AI model that gave the verdict
+  created_at: string;
+  updated_at: string;
+}
+
+export type SourceHealthStatus = 'healthy' | 'degraded' | 'quarantined';
+
+/** D1 source_health_checks table row: one source's health in one scheduled run */
+export interface SourceHealthCheckRecord {
+  id: number;
+  source: string;
+  run_id: number | null;
+  jobs_found: number; // Jobs on the listing/feed this run
+  unchanged: number; // 1 = listing unchanged since the last run (fetch cache hit)
+  error: string | null;
+  null_rates: string | null; // JSON: field → share of jobs missing it (0-1)
+  status: SourceHealthStatus;
+  reason: string | null;
+  checked_at: string;
+}
+
 /** D1 settings table row */
 export interface SettingRecord {
   key: string;
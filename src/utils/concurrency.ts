@@ -0,0 +1,32 @@
+/**
+ * Concurrency helpers.
+ */
+
+/**
+ * Create a limiter that runs at most `concurrency` tasks at once.
+ * Tasks beyond the limit wait in FIFO order until a slot frees up.
+ *
+ * const limit = createLimiter(3);
+ * const results = jobs.map(job => limit(() => prepare(job)));
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  const max = Math.max(1, Math.floor(concurrency) || 1);
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      const run = () => {
+        active++;
+        task().then(resolve, reject).finally(next);
+      };
+      if (active < max) run();
+      else queue.push(run);
+    });
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseVerdict, parseAdjudicationFloor, buildAdjudicationPrompt, adjudicateDuplicate, type PairJob,
+} from '../src/services/adjudicate';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+
+const job: PairJob = { id: 'yemenhr-1', title: 'Finance Officer', company: 'UNICEF', source: 'yemenhr' };
+const other: PairJob = { id: 'eoi-2', title: 'Finance & Admin Officer', company: 'UNICEF Yemen', source: 'eoi', location: 'Aden' };
+
+function setup(answer: string) {
+  const mock = createMockD1();
+  const env = createMockEnv(mock.db);
+  const run = vi.fn(async () => ({ response: answer }));
+  env.AI = { run } as unknown as Ai;
+  return { mock, env, run };
+}
+
+describe('parseVerdict', () => {
+  it('should read a plain JSON answer', () => {
+    expect(parseVerdict('{"same": true, "reason": "Same post, reworded title"}'))
+      .toEqual({ same: true, reason: 'Same post, reworded title' });
+  });
+
+  it('should find the JSON inside fences and reasoning', () => {
+    const text = '<think>{"same": true} maybe?</think>\n```json\n{"same": false, "reason": "Different locations"}\n```';
+    expect(parseVerdict(text)).toEqual({ same: false, reason: 'Different locations' });
+  });
+
+  it('should return null without a boolean verdict', () => {
+    expect(parseVerdict('I think they are the same')).toBeNull();
+    expect(parseVerdict('{"same": "yes"}')).toBeNull();
+    expect(parseVerdict('{"same": tru')).toBeNull();
+  });
+});
+
+describe('parseAdjudicationFloor', () => {
+  it('should be off unless set below the threshold', () => {
+    expect(parseAdjudicationFloor(undefined, 0.85)).toBeNull();
+    expect(parseAdjudicationFloor('abc', 0.85)).toBeNull();
+    expect(parseAdjudicationFloor('0.9', 0.85)).toBeNull();
+    expect(parseAdjudicationFloor('0.7', 0.85)).toBe(0.7);
+  });
+});
+
+describe('buildAdjudicationPrompt', () => {
+  it('should describe both listings', () => {
+    const prompt = buildAdjudicationPrompt(job, { ...other, description: 'x'.repeat(1000) });
+    expect(prompt).toContain('Title: Finance Officer');
+    expect(prompt).toContain('Organization: UNICEF Yemen');
+    expect(prompt).toContain('Location: Aden');
+    expect(prompt).toContain(`${'x'.repeat(600)}…`);
+    expect(prompt).not.toContain('x'.repeat(601));
+  });
+});
+
+describe('adjudicateDuplicate', () => {
+  it('should use a cached verdict without asking the AI', async () => {
+    const { mock, env, run } = setup('{"same": false}');
+    mock.setFirstResult({ id: 3, verdict: 'same' });
+
+    const result = await adjudicateDuplicate(env, job, other, 0.72);
+
+    expect(result).toEqual({ verdict: 'same', asked: false });
+    expect(run).not.toHaveBeenCalled();
+    expect(mock.calls[0].params).toEqual(['eoi-2|yemenhr-1']);
+  });
+
+  it('should ask the AI and cache its verdict', async () => {
+    const { mock, env, run } = setup('{"same": true, "reason": "Same role and employer"}');
+
+    const result = await adjudicateDuplicate(env, job, other, 0.72);
+
+    expect(result).toEqual({ verdict: 'same', asked: true });
+    expect(run).toHaveBeenCalledTimes(1);
+    const insert = mock.calls.find(c => c.sql.includes('INSERT INTO duplicate_verdicts'));
+    expect(insert?.params).toEqual([
+      'eoi-2|yemenhr-1', 'yemenhr-1', 'eoi-2', 0.72, 'same', 'Same role and employer', expect.any(String),
+    ]);
+  });
+
+  it('should not cache in dry runs', async () => {
+    const { mock, env } = setup('{"same": false, "reason": "Different roles"}');
+
+    const result = await adjudicateDuplicate(env, job, other, 0.72, { dryRun: true });
+
+    expect(result.verdict).toBe('different');
+    expect(mock.calls.some(c => c.sql.includes('INSERT'))).toBe(false);
+  });
+
+  it('should not ask once the run cap is reached', async () => {
+    const { env, run } = setup('{"same": true}');
+
+    const result = await adjudicateDuplicate(env, job, other, 0.72, { canAsk: false });
+
+    expect(result).toEqual({ verdict: null, asked: false });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should return no verdict for an unusable answer', async () => {
+    const { mock, env } = setup('Not sure.');
+
+    const result = await adjudicateDuplicate(env, job, other, 0.72);
+
+    expect(result).toEqual({ verdict: null, asked: true });
+    expect(mock.calls.some(c => c.sql.includes('INSERT'))).toBe(false);
+  });
+});
@@ -74,6 +74,24 @@ describe('API Routes', () => {
     });
   });
 
+  describe('GET /api/jobs/:id/revisions', () => {
+    it('should return revisions with parsed fields', async () => {
+      mock.setAllResult([{
+        id: 1, job_id: 'job-1', changed_fields: '["deadline"]',
+        previous_values: '{"deadline":"2026-03-01"}', telegram_edited: 1,
+      }]);
+
+      const [req, url] = makeRequest('/api/jobs/job-1/revisions');
+      const res = await handleApiRoute(req, url, env);
+      const body = await res!.json() as Array<{ changed_fields: string[]; previous_values: Record<string, string> }>;
+
+      expect(res!.status).toBe(200);
+      expect(mock.calls[0].params[0]).toBe('job-1');
+      expect(body[0].changed_fields).toEqual(['deadline']);
+      expect(body[0].previous_values).toEqual({ deadline: '2026-03-01' });
+    });
+  });
+
   describe('GET /api/sources', () => {
     it('should return sources with job counts', async () => {
       mock.setAllResult([{ id: 'yemenhr', ai_prompt_config: null, enabled: 1 }]);
@@ -105,7 +123,84 @@ describe('API Routes', () => {
     });
   });
 
+  describe('GET /api/sources/:id/health', () => {
+    it('should return the status with parsed checks', async () => {
+      mock.setFirstResult({ id: 'eoi', quarantined_at: null, quarantine_reason: null });
+      mock.setAllResult([
+        { id: 2, source: 'eoi', jobs_found: 0, error: null, null_rates: '{}', status: 'degraded', reason: '2 runs in a row with no jobs (usually 9.0)', checked_at: '2026-03-02 10:00:00' },
+        { id: 1, source: 'eoi', jobs_found: 9, error: null, null_rates: '{"company":0}', status: 'healthy', reason: null, checked_at: '2026-03-01 10:00:00' },
+      ]);
+
+      const [req, url] = makeRequest('/api/sources/eoi/health');
+      const res = await handleApiRoute(req, url, env);
+      const body = await res!.json() as Record<string, unknown>;
+
+      expect(res!.status).toBe(200);
+      expect(body).toMatchObject({
+        status: 'degraded',
+        reason: '2 runs in a row with no jobs (usually 9.0)',
+        last_success_at: '2026-03-01 10:00:00',
+      });
+      expect((body.checks as Array<{ null_rates: unknown }>)[1].null_rates).toEqual({ company: 0 });
+    });
+
+    it('should return 404 for missing source', async () => {
+      mock.setFirstResult(null);
+
+      const [req, url] = makeRequest('/api/sources/nonexistent/health');
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/sources', () => {
+    const body = {
+      id: 'ngojobs', type: 'scraper', display_name: 'NGO Jobs', hashtag: '#NGOJobs', base_url: 'https://ngojobs.org',
+      config: { selectors: { jobContainer: '.job', title: 'h2', link: 'a' } },
+    };
+
+    it('should create a runtime source and return 201', async () => {
+      mock.setFirstResult({ id: 'ngojobs', ai_prompt_config: null, config: JSON.stringify(body.config) });
+
+      const [req, url] = makeRequest('/api/sources', 'POST', body);
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(201);
+      expect(mock.calls[0].sql).toContain('INSERT OR IGNORE INTO sources');
+      const data = await res!.json() as { config: unknown };
+      expect(data.config).toEqual(body.config);
+    });
+
+    it('should return 400 for an invalid config', async () => {
+      const [req, url] = makeRequest('/api/sources', 'POST', { ...body, config: { selectors: {} } });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(400);
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should return 400 for a malformed JSON body', async () => {
+      const url = new URL('https://example.com/api/sources');
+      const req = new Request(url.toString(), { method: 'POST', body: '{"id": "ngojobs",' });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(400);
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+
   describe('PATCH /api/sources/:id', () => {
+    it('should return 400 when the body is not a JSON object', async () => {
+      for (const body of ['not json', '[1, 2]']) {
+        const url = new URL('https://example.com/api/sources/eoi');
+        const res = await handleApiRoute(new Request(url.toString(), { method: 'PATCH', body }), url, env);
+
+        expect(res!.status).toBe(400);
+      }
+      expect(mock.calls).toHaveLength(0);
+    });
+
     it('should update source without auth when no secret configured', async () => {
       mock.setRunResult(1);
       mock.setFirstResult({ id: 'eoi', display_name: 'Updated' });
@@ -116,6 +211,80 @@ describe('API Routes', () => {
       expect(res!.status).toBe(200);
     });
 
+    it('should update quota weight and caps', async () => {
+      mock.setRunResult(1);
+      mock.setFirstResult({ id: 'yemenhr', quota_weight: 3, max_per_run: 8, min_per_run: 2 });
+
+      const [req, url] = makeRequest('/api/sources/yemenhr', 'PATCH', { quota_weight: 3, max_per_run: 8, min_per_run: 2 });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(200);
+      expect(mock.calls[0].sql).toContain('quota_weight = ?');
+      expect(mock.calls[0].params.slice(0, 3)).toEqual([3, 8, 2]);
+    });
+
+    it('should reject invalid quota fields', async () => {
+      for (const body of [{ quota_weight: -1 }, { quota_weight: '2' }, { max_per_run: 1.5 }, { min_per_run: null }]) {
+        const [req, url] = makeRequest('/api/sources/yemenhr', 'PATCH', body);
+        const res = await handleApiRoute(req, url, env);
+        expect(res!.status).toBe(400);
+      }
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should update the repost policy', async () => {
+      mock.setRunResult(1);
+      mock.setFirstResult({ id: 'eoi', repost_policy: 'after_days', repost_after_days: 21 });
+
+      const [req, url] = makeRequest('/api/sources/eoi', 'PATCH', { repost_policy: 'after_days', repost_after_days: 21 });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(200);
+      expect(mock.calls[0].sql).toContain('repost_policy = ?');
+      expect(mock.calls[0].params.slice(0, 2)).toEqual(['after_days', 21]);
+    });
+
+    it('should set and clear the merge rank', async () => {
+      mock.setRunResult(1);
+      mock.setFirstResult({ id: 'yemenhr', merge_rank: 1 });
+
+      for (const merge_rank of [1, null]) {
+        const [req, url] = makeRequest('/api/sources/yemenhr', 'PATCH', { merge_rank });
+        const res = await handleApiRoute(req, url, env);
+        expect(res!.status).toBe(200);
+      }
+      expect(mock.calls[0].sql).toContain('merge_rank = ?');
+      expect(mock.calls[2].params[0]).toBeNull();
+    });
+
+    it('should reject invalid repost and merge fields', async () => {
+      for (const body of [{ repost_policy: 'always' }, { repost_after_days: 0 }, { repost_after_days: null }, { merge_rank: -1 }]) {
+        const [req, url] = makeRequest('/api/sources/eoi', 'PATCH', body);
+        const res = await handleApiRoute(req, url, env);
+        expect(res!.status).toBe(400);
+      }
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should validate config against the runtime source type', async () => {
+      mock.setFirstResult({ id: 'ngojobs', type: 'rss' });
+
+      const [req, url] = makeRequest('/api/sources/ngojobs', 'PATCH', { config: { defaultCompany: 'NGO Jobs' } });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(200);
+      const update = mock.calls.find(c => c.sql.includes('UPDATE sources'))!;
+      expect(update.params[0]).toBe(JSON.stringify({ defaultCompany: 'NGO Jobs' }));
+    });
+
+    it('should reject config for code-defined sources', async () => {
+      const [req, url] = makeRequest('/api/sources/eoi', 'PATCH', { config: { feedUrl: 'https://x.org/feed' } });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(400);
+      expect(mock.calls).toHaveLength(0);
+    });
+
     it('should return 401 when API_SECRET is set but no auth header', async () => {
       env.API_SECRET = 'my-secret';
 
@@ -183,6 +352,37 @@ describe('API Routes', () => {
     });
   });
 
+  describe('POST /api/runs/dry', () => {
+    it('should return 401 when API_SECRET is set but no auth', async () => {
+      env.API_SECRET = 'secret';
+
+      const [req, url] = makeRequest('/api/runs/dry', 'POST');
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(401);
+    });
+
+    it('should return an empty preview without writing to D1', async () => {
+      mock.setAllResult([]); // No sources enabled
+
+      const [req, url] = makeRequest('/api/runs/dry', 'POST');
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(200);
+      const data = await res!.json() as { processed: number; preview: unknown[] };
+      expect(data.processed).toBe(0);
+      expect(data.preview).toEqual([]);
+      expect(mock.calls.some(c => /INSERT|UPDATE|DELETE/.test(c.sql))).toBe(false);
+    });
+
+    it('should not match GET', async () => {
+      const [req, url] = makeRequest('/api/runs/dry');
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res).toBeNull();
+    });
+  });
+
   describe('GET /api/settings/:key', () => {
     it('should return setting value', async () => {
       mock.setFirstResult({ value: 'test-value' });
@@ -229,5 +429,89 @@ describe('API Routes', () => {
 
       expect(res!.status).toBe(400);
     });
+
+    it('should reject a stage config that would not run', async () => {
+      const [req, url] = makeRequest('/api/settings/stage-company-blocklist', 'PUT', { value: '{"companies":[123]}' });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(400);
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('GET /api/companies', () => {
+    it('should return companies with their aliases', async () => {
+      mock.setAllResult([{ id: 1, name_en: 'UNICEF', name_ar: null, logo_url: null, alias: 'unicef', company_id: 1 }]);
+
+      const [req, url] = makeRequest('/api/companies');
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(200);
+      const data = await res!.json() as Array<{ aliases: string[] }>;
+      expect(data[0].aliases).toEqual(['unicef']);
+    });
+  });
+
+  describe('POST /api/companies', () => {
+    it('should create a company and return 201', async () => {
+      mock.setFirstResult({ id: 3, name_en: 'UNICEF' });
+
+      const [req, url] = makeRequest('/api/companies', 'POST', { name_en: 'UNICEF', aliases: ['منظمة اليونيسف'] });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(201);
+      expect(mock.calls[0].sql).toContain('INSERT INTO companies');
+      expect(mock.calls.filter(c => c.sql.includes('INSERT INTO company_aliases'))).toHaveLength(2);
+    });
+
+    it('should return 400 without a name', async () => {
+      const [req, url] = makeRequest('/api/companies', 'POST', { logo_url: 'https://example.org/logo.png' });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/companies/:id/aliases', () => {
+    it('should add an alias', async () => {
+      mock.setFirstResult({ id: 3, name_en: 'UNICEF' });
+
+      const [req, url] = makeRequest('/api/companies/3/aliases', 'POST', { alias: "United Nations Children's Fund" });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(201);
+      const data = await res!.json() as { alias_key: string };
+      expect(data.alias_key).toBe('united nations children fund');
+    });
+
+    it('should return 404 for an unknown company', async () => {
+      mock.setFirstResult(null);
+
+      const [req, url] = makeRequest('/api/companies/99/aliases', 'POST', { alias: 'UNICEF' });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(404);
+    });
+
+    it('should return 401 when API_SECRET is set but no auth', async () => {
+      env.API_SECRET = 'secret';
+
+      const [req, url] = makeRequest('/api/companies/3/aliases', 'POST', { alias: 'UNICEF' });
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/companies/unmatched', () => {
+    it('should list unmatched names', async () => {
+      mock.setAllResult([{ name_key: 'care', name: 'CARE', seen_count: 4 }]);
+
+      const [req, url] = makeRequest('/api/companies/unmatched?limit=10');
+      const res = await handleApiRoute(req, url, env);
+
+      expect(res!.status).toBe(200);
+      expect(mock.calls[0].params).toEqual([10]);
+    });
   });
 });
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { parseCommand } from '../src/services/commands';
+import { formatDryRunPreview } from '../src/services/commands/pipeline';
+import { handleRetryQueue } from '../src/services/commands/retries';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
 import type { TelegramUpdate } from '../src/types/telegram';
 
 describe('parseCommand', () => {
@@ -104,3 +107,48 @@ describe('parseCommand', () => {
     expect(result?.command).toBe('help');
   });
 });
+
+describe('formatDryRunPreview', () => {
+  it('should list jobs that would be posted and count the rest', () => {
+    const text = formatDryRunPreview({
+      processed: 4, posted: 1, skipped: 2, failed: 1,
+      preview: [
+        { jobId: 'a', source: 'yemenhr', title: 'Engineer <Senior>', company: 'X', decision: 'new' },
+        { jobId: 'b', source: 'eoi', title: 'Old', company: 'Y', decision: 'already_posted' },
+        { jobId: 'c', source: 'eoi', title: 'Dup', company: 'Z', decision: 'duplicate' },
+        { jobId: 'd', source: 'reliefweb', title: 'Broken', company: 'W', decision: 'error', error: 'AI timeout' },
+        { jobId: 'e', source: 'reliefweb', title: 'Later', company: 'V', decision: 'deferred' },
+      ],
+    });
+
+    expect(text).toContain('Would post: 1');
+    expect(text).toContain('Already posted: 1');
+    expect(text).toContain('deferred to backlog: 1');
+    expect(text).toContain('✅ yemenhr: Engineer &lt;Senior&gt;');
+    expect(text).toContain('♻️ eoi: Dup');
+    expect(text).toContain('❌ reliefweb: Broken — AI timeout');
+    expect(text).not.toContain('Old');
+  });
+
+  it('should say when there is nothing to post', () => {
+    const text = formatDryRunPreview({ processed: 0, posted: 0, skipped: 0, failed: 0, preview: [] });
+
+    expect(text).toContain('Nothing new to post');
+  });
+});
+
+describe('handleRetryQueue', () => {
+  it('should escape job titles and errors', async () => {
+    const mock = createMockD1();
+    mock.setFirstResult({ total: 1 });
+    mock.setAllResult([{
+      id: 'eoi:1', title: 'M&E Officer <Aden>', source: 'eoi', retry_count: 1,
+      next_attempt_at: '2026-03-01T10:00:00.000Z', last_error: 'Bad Request: can\'t parse <b> entity',
+    }]);
+
+    const { text } = await handleRetryQueue(createMockEnv(mock.db));
+
+    expect(text).toContain('  M&amp;E Officer &lt;Aden&gt;');
+    expect(text).toContain('❌ Bad Request: can\'t parse &lt;b&gt; entity');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for company alias resolution.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCompanyResolver, applyCompany, canonicalCompanyName } from '../src/services/companies';
+import { companyKey } from '../src/services/dedup';
+import type { CompanyRecord, CompanyAliasRecord, ProcessedJob } from '../src/types';
+
+const unicef: CompanyRecord = {
+  id: 1, name_en: 'UNICEF', name_ar: 'منظمة اليونيسف', logo_url: 'https://example.org/unicef.png',
+  created_at: '', updated_at: '',
+};
+const alias = (name: string, companyId = 1): CompanyAliasRecord => ({
+  alias_key: companyKey(name), alias: name, company_id: companyId, created_at: '',
+});
+
+describe('createCompanyResolver', () => {
+  const resolver = createCompanyResolver([unicef], [alias("United Nations Children's Fund")]);
+
+  it('should resolve aliases and canonical names', () => {
+    expect(resolver.resolve("United Nations Children's Fund")?.id).toBe(1);
+    expect(resolver.resolve('UNICEF')?.id).toBe(1);
+    expect(resolver.resolve('منظمة اليونيسف')?.id).toBe(1);
+  });
+
+  it('should ignore case, punctuation and Arabic spelling variants', () => {
+    expect(resolver.resolve('unicef.')?.id).toBe(1);
+    expect(resolver.resolve('united nations childrens fund')).toBeNull(); // Different word, not a variant
+    expect(resolver.resolve('منظمه اليونيسف')?.id).toBe(1);
+  });
+
+  it('should return null for unknown or empty names', () => {
+    expect(resolver.resolve('CARE')).toBeNull();
+    expect(resolver.resolve('')).toBeNull();
+  });
+
+  it('should skip aliases pointing at missing companies', () => {
+    const orphan = createCompanyResolver([], [alias('CARE', 9)]);
+
+    expect(orphan.resolve('CARE')).toBeNull();
+  });
+});
+
+describe('canonicalCompanyName', () => {
+  it('should prefer the English name', () => {
+    expect(canonicalCompanyName(unicef)).toBe('UNICEF');
+    expect(canonicalCompanyName({ ...unicef, name_en: null })).toBe('منظمة اليونيسف');
+  });
+});
+
+describe('applyCompany', () => {
+  const resolver = createCompanyResolver([unicef], []);
+  const makeJob = (overrides: Partial<ProcessedJob> = {}): ProcessedJob => ({
+    title: 'Nutrition Officer', company: 'منظمة اليونيسف', link: 'https://example.org/1',
+    description: '', imageUrl: null, ...overrides,
+  });
+
+  it('should rewrite the company and fill in the logo', () => {
+    const job = makeJob();
+
+    expect(applyCompany(resolver, job)?.id).toBe(1);
+    expect(job.company).toBe('UNICEF');
+    expect(job.imageUrl).toBe('https://example.org/unicef.png');
+  });
+
+  it('should keep an existing image', () => {
+    const job = makeJob({ imageUrl: 'https://example.org/job.png' });
+
+    applyCompany(resolver, job);
+
+    expect(job.imageUrl).toBe('https://example.org/job.png');
+  });
+
+  it('should leave unmatched jobs untouched', () => {
+    const job = makeJob({ company: 'CARE' });
+
+    expect(applyCompany(resolver, job)).toBeNull();
+    expect(job.company).toBe('CARE');
+  });
+});
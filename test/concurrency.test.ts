@@ -0,0 +1,72 @@
+/**
+ * Tests for the concurrency limiter.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createLimiter } from '../src/utils/concurrency';
+
+/** Promise that resolves when `release` is called */
+function deferred<T>() {
+  let release!: (value: T) => void;
+  const promise = new Promise<T>(resolve => { release = resolve; });
+  return { promise, release };
+}
+
+describe('createLimiter', () => {
+  it('should run at most N tasks at once', async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>(), deferred<void>()];
+
+    const results = gates.map((gate, i) => limit(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await gate.promise;
+      active--;
+      return i;
+    }));
+
+    await Promise.resolve();
+    expect(active).toBe(2);
+
+    gates.forEach(g => g.release());
+    expect(await Promise.all(results)).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+
+  it('should start queued tasks in FIFO order', async () => {
+    const limit = createLimiter(1);
+    const started: number[] = [];
+
+    await Promise.all([1, 2, 3].map(n => limit(async () => { started.push(n); })));
+
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('should free the slot when a task rejects', async () => {
+    const limit = createLimiter(1);
+
+    const failed = limit(async () => { throw new Error('boom'); });
+    const next = limit(async () => 'ok');
+
+    await expect(failed).rejects.toThrow('boom');
+    expect(await next).toBe('ok');
+  });
+
+  it('should treat invalid concurrency as 1', async () => {
+    const limit = createLimiter(NaN);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all([1, 2].map(() => limit(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await Promise.resolve();
+      active--;
+    })));
+
+    expect(peak).toBe(1);
+  });
+});
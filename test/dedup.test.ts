@@ -4,7 +4,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { normalize, normalizeJobKey, areJobsDuplicates } from '../src/services/dedup';
+import {
+  normalize, normalizeJobKey, areJobsDuplicates,
+  normalizeArabic, matchTokens, tokenSimilarity, jobSimilarity, createPostingIndex, parseSimilarityThreshold,
+  describeDuplicateMatch, duplicateMatchFromRecord, verdictPairKey,
+} from '../src/services/dedup';
+import type { JobRecord } from '../src/types';
 
 describe('normalize', () => {
   it('should lowercase strings', () => {
@@ -82,3 +87,161 @@ describe('areJobsDuplicates', () => {
     expect(areJobsDuplicates(job1, job2)).toBe(false);
   });
 });
+
+describe('normalizeArabic', () => {
+  it('should unify alef and hamza forms', () => {
+    expect(normalizeArabic('أحمد إبراهيم آمنة')).toBe('احمد ابراهيم امنه');
+    expect(normalizeArabic('مؤسسة')).toBe(normalizeArabic('موسسة'));
+    expect(normalizeArabic('مسئول')).toBe('مسيول');
+  });
+
+  it('should map ta marbuta and alef maqsura', () => {
+    expect(normalizeArabic('منظمة')).toBe('منظمه');
+    expect(normalizeArabic('مستشفى')).toBe('مستشفي');
+  });
+
+  it('should strip diacritics and tatweel', () => {
+    expect(normalizeArabic('مُحَاسِب')).toBe('محاسب');
+    expect(normalizeArabic('مـديـر')).toBe('مدير');
+  });
+});
+
+describe('matchTokens', () => {
+  it('should expand English abbreviations and drop punctuation', () => {
+    expect(matchTokens('Sr. Finance Officer – Aden')).toEqual(['senior', 'finance', 'officer', 'aden']);
+    expect(matchTokens('Asst. Programme Mgr')).toEqual(['assistant', 'program', 'manager']);
+  });
+
+  it('should drop stopwords and the Arabic definite article', () => {
+    expect(matchTokens('Head of the Office')).toEqual(['head', 'office']);
+    expect(matchTokens('مدير المشاريع في عدن')).toEqual(['مدير', 'مشاريع', 'عدن']);
+  });
+
+  it('should drop legal-form words from company names only', () => {
+    expect(matchTokens('Save the Children International', 'company')).toEqual(['save', 'children']);
+    expect(matchTokens('Tech Ltd')).toEqual(['technical', 'ltd']);
+  });
+});
+
+describe('tokenSimilarity', () => {
+  it('should score identical sets as 1 and disjoint sets as 0', () => {
+    expect(tokenSimilarity(['a', 'b'], ['b', 'a'])).toBe(1);
+    expect(tokenSimilarity(['a'], ['b'])).toBe(0);
+  });
+
+  it('should treat one empty side as no match', () => {
+    expect(tokenSimilarity([], ['a'])).toBe(0);
+    expect(tokenSimilarity([], [])).toBe(1);
+  });
+});
+
+describe('jobSimilarity', () => {
+  it('should match abbreviated titles with a location suffix', () => {
+    const score = jobSimilarity(
+      { title: 'Sr. Finance Officer – Aden', company: 'CARE' },
+      { title: 'Senior Finance Officer', company: 'CARE International' }
+    );
+    expect(score).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('should match Arabic spelling variants of the employer', () => {
+    const score = jobSimilarity(
+      { title: 'محاسب', company: 'مؤسسة الأمل' },
+      { title: 'مُحاسب', company: 'موسسة امل' }
+    );
+    expect(score).toBe(1);
+  });
+
+  it('should not match the same title at different field offices', () => {
+    const score = jobSimilarity(
+      { title: 'Finance Officer - Aden', company: 'CARE' },
+      { title: 'Finance Officer - Taiz', company: 'CARE' }
+    );
+    expect(score).toBeLessThan(0.85);
+  });
+
+  it('should not match the same title at different employers', () => {
+    expect(jobSimilarity(
+      { title: 'Software Engineer', company: 'Company A' },
+      { title: 'Software Engineer', company: 'Company B' }
+    )).toBeLessThan(0.85);
+  });
+});
+
+describe('createPostingIndex', () => {
+  it('should return the closest posting above the threshold', () => {
+    const index = createPostingIndex([
+      { id: 'eoi-1', title: 'Finance Officer', company: 'CARE', source: 'eoi' },
+      { id: 'rw-2', title: 'Senior Finance Officer', company: 'CARE', source: 'reliefweb' },
+    ]);
+
+    const match = index.findMatch({ title: 'Sr Finance Officer', company: 'CARE' });
+
+    expect(match?.job.id).toBe('rw-2');
+    expect(match?.score).toBe(1);
+  });
+
+  it('should return null when nothing reaches the threshold', () => {
+    const index = createPostingIndex([{ id: 'eoi-1', title: 'Driver', company: 'CARE' }]);
+
+    expect(index.findMatch({ title: 'Finance Officer', company: 'CARE' })).toBeNull();
+  });
+
+  it('should respect a custom threshold and postings added later', () => {
+    const index = createPostingIndex([], 0.5);
+    index.add({ id: 'eoi-1', title: 'Senior Finance Officer', company: 'CARE' });
+
+    expect(index.size).toBe(1);
+    expect(index.findMatch({ title: 'Finance Officer', company: 'CARE' })?.job.id).toBe('eoi-1');
+  });
+
+  it('should find borderline postings below the threshold with a lower minScore', () => {
+    const index = createPostingIndex([{ id: 'eoi-1', title: 'Senior Finance Officer', company: 'CARE' }]);
+
+    expect(index.findMatch({ title: 'Finance Officer', company: 'CARE' })).toBeNull();
+    expect(index.findMatch({ title: 'Finance Officer', company: 'CARE' }, 0.5)?.job.id).toBe('eoi-1');
+  });
+});
+
+describe('parseSimilarityThreshold', () => {
+  it('should parse values in (0, 1] and fall back otherwise', () => {
+    expect(parseSimilarityThreshold('0.9')).toBe(0.9);
+    expect(parseSimilarityThreshold(undefined)).toBe(0.85);
+    expect(parseSimilarityThreshold('1.5')).toBe(0.85);
+    expect(parseSimilarityThreshold('abc')).toBe(0.85);
+  });
+});
+
+describe('verdictPairKey', () => {
+  it('should not depend on the order of the jobs', () => {
+    expect(verdictPairKey('yemenhr-1', 'eoi-2')).toBe('eoi-2|yemenhr-1');
+    expect(verdictPairKey('eoi-2', 'yemenhr-1')).toBe('eoi-2|yemenhr-1');
+  });
+});
+
+describe('describeDuplicateMatch', () => {
+  it('should describe exact and fuzzy matches', () => {
+    expect(describeDuplicateMatch({ jobId: 'eoi-1', source: 'eoi', reason: 'exact', score: 1 }))
+      .toBe('same title+company as eoi-1 (eoi)');
+    expect(describeDuplicateMatch({ jobId: 'rw-2', source: null, reason: 'fuzzy', score: 0.875 }))
+      .toBe('similar to rw-2, score 0.88');
+    expect(describeDuplicateMatch({ jobId: null, source: null, reason: 'exact', score: 1 }))
+      .toContain('no job ID recorded');
+    expect(describeDuplicateMatch({ jobId: 'eoi-1', source: 'eoi', reason: 'ai', score: 0.72 }))
+      .toBe('judged the same vacancy as eoi-1 (eoi) (AI, score 0.72)');
+  });
+});
+
+describe('duplicateMatchFromRecord', () => {
+  it('should read the match columns', () => {
+    const row = {
+      duplicate_of: 'eoi-1', duplicate_of_source: 'eoi', duplicate_reason: 'fuzzy', duplicate_score: 0.9,
+    } as JobRecord;
+
+    expect(duplicateMatchFromRecord(row)).toEqual({ jobId: 'eoi-1', source: 'eoi', reason: 'fuzzy', score: 0.9 });
+  });
+
+  it('should return null for rows without a match', () => {
+    expect(duplicateMatchFromRecord({ duplicate_reason: null } as JobRecord)).toBeNull();
+  });
+});
@@ -138,7 +138,7 @@ describe('convertEOIJobToJobItem', () => {
     const jobItem = convertEOIJobToJobItem(eoiJob);
 
     expect(jobItem).toMatchObject({
-      id: 'eoi-21347', // Prefixed with 'eoi-'
+      id: 'eoi:21347', // Namespaced as source:id
       title: 'Social Worker',
       company: 'Medecine Sans Frontiers',
       link: 'https://eoi-ye.com/jobs/21347/',
@@ -0,0 +1,124 @@
+/**
+ * Tests for deadline parsing and the expiry sweep.
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseDeadline } from '../src/services/ai-format';
+import { sweepExpiredJobs, EXPIRED_BANNER } from '../src/services/expiry';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+import type { Env } from '../src/types';
+
+describe('parseDeadline', () => {
+  it('should parse EOI dates as the end of the day in Yemen time', () => {
+    expect(parseDeadline('03-02-2026')?.toISOString()).toBe('2026-02-03T21:00:00.000Z');
+  });
+
+  it('should use the time when EOI gives one', () => {
+    expect(parseDeadline('09-02-2026 23:59')?.toISOString()).toBe('2026-02-09T20:59:00.000Z');
+  });
+
+  it('should parse Yemen HR dates with two- and four-digit years', () => {
+    expect(parseDeadline('22 Feb, 26')?.toISOString()).toBe('2026-02-22T21:00:00.000Z');
+    expect(parseDeadline('22 Feb, 2026')?.toISOString()).toBe('2026-02-22T21:00:00.000Z');
+  });
+
+  it('should return null for empty, unknown, or impossible dates', () => {
+    expect(parseDeadline('')).toBeNull();
+    expect(parseDeadline('until filled')).toBeNull();
+    expect(parseDeadline('31-02-2026')).toBeNull();
+  });
+});
+
+describe('sweepExpiredJobs', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+  const now = new Date('2026-03-01T12:00:00.000Z');
+
+  const postedRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'eoi-1', status: 'posted', deadline: '20-02-2026', telegram_message_id: 77,
+    ai_summary_ar: 'ملخص الوظيفة', source_url: 'https://example.org/1', image_url: null,
+    source: 'eoi', category: null, ...overrides,
+  });
+
+  const telegramOk = () => new Response(JSON.stringify({ ok: true }), { status: 200 });
+  const expiredUpdates = () => mock.calls.filter(c => c.sql.includes("status = 'expired'"));
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+    env.DELAY_BETWEEN_POSTS_MS = '0';
+    vi.stubGlobal('fetch', vi.fn(async () => telegramOk()));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should edit the post with the expired banner by default', async () => {
+    mock.setAllResult([postedRow()]);
+
+    const result = await sweepExpiredJobs(env, now);
+
+    expect(result).toMatchObject({ action: 'edit', expired: 1, edited: 1 });
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toContain('/editMessageText');
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.message_id).toBe(77);
+    expect(body.text.startsWith(EXPIRED_BANNER)).toBe(true);
+    expect(expiredUpdates()[0].params[1]).toBe('eoi-1');
+  });
+
+  it('should leave jobs before their deadline alone', async () => {
+    mock.setAllResult([postedRow({ deadline: '05-03-2026' }), postedRow({ id: 'eoi-2', deadline: 'open' })]);
+
+    const result = await sweepExpiredJobs(env, now);
+
+    expect(result.expired).toBe(0);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(expiredUpdates()).toHaveLength(0);
+  });
+
+  it('should only mark jobs expired when the action is none', async () => {
+    mock.setFirstResult({ value: 'none' });
+    mock.setAllResult([postedRow()]);
+
+    const result = await sweepExpiredJobs(env, now);
+
+    expect(result).toMatchObject({ action: 'none', expired: 1, edited: 0 });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(expiredUpdates()).toHaveLength(1);
+  });
+
+  it('should delete the post when configured', async () => {
+    mock.setFirstResult({ value: 'delete' });
+    mock.setAllResult([postedRow()]);
+
+    const result = await sweepExpiredJobs(env, now);
+
+    expect(result).toMatchObject({ deleted: 1, edited: 0 });
+    expect(vi.mocked(fetch).mock.calls[0][0]).toContain('/deleteMessage');
+  });
+
+  it('should fall back to the banner edit when delete fails', async () => {
+    mock.setFirstResult({ value: 'delete' });
+    mock.setAllResult([postedRow()]);
+    vi.mocked(fetch).mockResolvedValueOnce(
+      new Response(JSON.stringify({ ok: false, description: "Bad Request: message can't be deleted" }), { status: 200 })
+    );
+
+    const result = await sweepExpiredJobs(env, now);
+
+    expect(result).toMatchObject({ deleted: 0, edited: 1 });
+    expect(vi.mocked(fetch).mock.calls[1][0]).toContain('/editMessageText');
+  });
+
+  it('should expire retry-queued jobs without touching Telegram', async () => {
+    mock.setAllResult([postedRow({ status: 'failed', telegram_message_id: null })]);
+
+    const result = await sweepExpiredJobs(env, now);
+
+    expect(result.expired).toBe(1);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for conditional source fetching (ETag / Last-Modified / body hash in KV).
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFetchCache, commitFetchCache, discardFetchValidators, getFetchCacheStats, conditionalFetch } from '../src/services/fetch-cache';
+import { fetchAndParseRSSFeed } from '../src/services/sources/rss-shared/rss-parser';
+import { fetchAndParseHTMLJobs } from '../src/services/sources/scraper-shared/fetcher';
+import { fetchAndParseJsonJobs } from '../src/services/sources/json-api-shared/fetcher';
+import { ScraperPlugin } from '../src/services/sources/scraper-shared/plugin';
+import type { ScraperSourceConfig } from '../src/services/sources/scraper-shared/types';
+import type { FetchCache } from '../src/services/fetch-cache';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+import type { Env } from '../src/types';
+
+function createMockKV(entries: Record<string, string> = {}) {
+  const store = new Map(Object.entries(entries));
+  return {
+    store,
+    kv: {
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      put: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+    } as unknown as KVNamespace,
+  };
+}
+
+async function sha256(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const FEED_URL = 'https://board.org/feed';
+const FEED = `<?xml version="1.0"?><rss version="2.0"><channel>
+  <item><title>Nurse</title><link>https://board.org/jobs/7</link></item>
+</channel></rss>`;
+
+const requestHeaders = (call: number) => vi.mocked(fetch).mock.calls[call][1]!.headers as Record<string, string>;
+
+describe('conditionalFetch', () => {
+  let kv: ReturnType<typeof createMockKV>;
+  let env: Env;
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+    kv = createMockKV();
+    env = { ...createMockEnv(createMockD1().db), POSTED_JOBS: kv.kv };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fetch plainly without a cache', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(FEED, { headers: { ETag: '"v1"' } }));
+
+    const result = await conditionalFetch(FEED_URL, { headers: { 'User-Agent': 'test' } }, { source: 'board' });
+
+    expect(result).toMatchObject({ ok: true, unchanged: false, body: FEED });
+    expect(requestHeaders(0)).toEqual({ 'User-Agent': 'test' });
+    expect(kv.kv.get).not.toHaveBeenCalled();
+  });
+
+  it('should send stored validators and count a 304 as a hit', async () => {
+    kv.store.set(`fetch:${FEED_URL}`, JSON.stringify({ etag: '"v1"', lastModified: 'Mon, 02 Mar 2026 10:00:00 GMT', hash: 'abc' }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const cache = createFetchCache(env);
+
+    const result = await conditionalFetch(FEED_URL, { headers: {} }, { source: 'board', cache });
+    await commitFetchCache(cache);
+
+    expect(result).toMatchObject({ ok: true, status: 304, unchanged: true, body: null });
+    expect(requestHeaders(0)).toEqual({ 'If-None-Match': '"v1"', 'If-Modified-Since': 'Mon, 02 Mar 2026 10:00:00 GMT' });
+    expect(cache.stats).toEqual(new Map([['board', { requests: 1, hits: 1 }]]));
+    expect(kv.kv.put).not.toHaveBeenCalled();
+  });
+
+  it('should treat an identical body as unchanged when the server sends no validators', async () => {
+    kv.store.set(`fetch:${FEED_URL}`, JSON.stringify({ hash: await sha256(FEED) }));
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(FEED))
+      .mockResolvedValueOnce(new Response('<rss>changed</rss>'));
+    const cache = createFetchCache(env);
+
+    const same = await conditionalFetch(FEED_URL, {}, { source: 'board', cache });
+    const changed = await conditionalFetch('https://board.org/other', {}, { source: 'board', cache });
+
+    expect(same.unchanged).toBe(true);
+    expect(changed.unchanged).toBe(false);
+    expect(getFetchCacheStats(cache, 'board')).toEqual({ requests: 2, hits: 1 });
+    expect(getFetchCacheStats(cache, 'other')).toEqual({ requests: 0, hits: 0 });
+  });
+
+  it('should only write validators when the run commits', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response(FEED, { headers: { ETag: '"v2"' } }));
+
+    // A run that fails never commits its cache
+    await conditionalFetch(FEED_URL, {}, { source: 'board', cache: createFetchCache(env) });
+    expect(kv.kv.put).not.toHaveBeenCalled();
+
+    const cache = createFetchCache(env);
+    await conditionalFetch(FEED_URL, {}, { source: 'board', cache });
+    await commitFetchCache(cache);
+    expect(JSON.parse(kv.store.get(`fetch:${FEED_URL}`)!)).toEqual({ etag: '"v2"', hash: await sha256(FEED) });
+    expect(vi.mocked(kv.kv.put).mock.calls[0][2]).toEqual({ expirationTtl: 86400 });
+  });
+
+  it('should keep the old validators of a discarded source', async () => {
+    vi.mocked(fetch).mockImplementation(async () => new Response(FEED, { headers: { ETag: '"v2"' } }));
+    const cache = createFetchCache(env);
+
+    await conditionalFetch(FEED_URL, {}, { source: 'board', cache });
+    await conditionalFetch('https://other.org/feed', {}, { source: 'other', cache });
+    discardFetchValidators(cache, 'board');
+    await commitFetchCache(cache);
+
+    expect([...kv.store.keys()]).toEqual(['fetch:https://other.org/feed']);
+    expect(getFetchCacheStats(cache, 'board')).toEqual({ requests: 1, hits: 0 });
+  });
+
+  it('should report failed responses without storing anything', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Down', { status: 503, statusText: 'Service Unavailable' }));
+    const cache = createFetchCache(env);
+
+    const result = await conditionalFetch(FEED_URL, {}, { source: 'board', cache });
+    await commitFetchCache(cache);
+
+    expect(result).toMatchObject({ ok: false, status: 503, unchanged: false, body: null });
+    expect(kv.kv.put).not.toHaveBeenCalled();
+  });
+});
+
+describe('source fetchers with the fetch cache', () => {
+  let kv: ReturnType<typeof createMockKV>;
+  let cache: FetchCache;
+
+  const scraperConfig: ScraperSourceConfig = {
+    sourceName: 'board',
+    getListingUrl: () => 'https://board.org/jobs',
+    baseUrl: 'https://board.org',
+    selectors: { jobContainer: '.job', title: 'a', link: 'a' },
+    idExtractor: (link) => link.split('/').pop()!,
+    detailPage: { descriptionSelector: '.description' },
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+    kv = createMockKV();
+    cache = createFetchCache({ ...createMockEnv(createMockD1().db), POSTED_JOBS: kv.kv });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should short-circuit an unchanged RSS feed', async () => {
+    kv.store.set(`fetch:${FEED_URL}`, JSON.stringify({ etag: '"v1"', hash: 'abc' }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    expect(await fetchAndParseRSSFeed(FEED_URL, 'board', 'https://board.org', link => link, cache)).toEqual([]);
+  });
+
+  it('should short-circuit an unchanged listing page', async () => {
+    const html = '<div class="job"><a href="/jobs/1">Cook</a></div>';
+    kv.store.set('fetch:https://board.org/jobs', JSON.stringify({ hash: await sha256(html) }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(html));
+
+    expect(await fetchAndParseHTMLJobs(scraperConfig, undefined, cache)).toEqual([]);
+  });
+
+  it('should pass the cache through the plugin options', async () => {
+    const html = '<div class="job"><a href="/jobs/1">Cook</a></div>';
+    kv.store.set('fetch:https://board.org/jobs', JSON.stringify({ hash: await sha256(html) }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(html)).mockResolvedValueOnce(new Response(html));
+
+    expect(await new ScraperPlugin(scraperConfig).fetchJobs(undefined, { fetchCache: cache })).toEqual([]);
+    // Without one, the same listing is fetched in full
+    expect(await new ScraperPlugin(scraperConfig).fetchJobs()).toHaveLength(1);
+  });
+
+  it('should not keep the validators of a listing whose later page failed', async () => {
+    const html = '<div class="job"><a href="/jobs/1">Cook</a></div>';
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(html, { headers: { ETag: '"p1"' } }))
+      .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }));
+
+    const jobs = await fetchAndParseHTMLJobs({
+      ...scraperConfig, pagination: { pageUrlTemplate: 'https://board.org/jobs?p={page}', maxPages: 3 },
+    }, undefined, cache);
+    await commitFetchCache(cache);
+
+    // Next run reads page 1 in full again, and with it page 2
+    expect(jobs.map(j => j.id)).toEqual(['board:1']);
+    expect(kv.kv.put).not.toHaveBeenCalled();
+  });
+
+  it('should not keep the validators of an API whose later page failed', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ id: 1, title: 'Cook' }])))
+      .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }));
+
+    const jobs = await fetchAndParseJsonJobs({
+      sourceName: 'board', baseUrl: 'https://board.org', getEndpointUrl: () => 'https://board.org/api/jobs',
+      fields: { id: 'id', title: 'title' }, linkTemplate: 'https://board.org/jobs/{id}',
+      pagination: { param: 'page', mode: 'page', maxPages: 3 },
+    }, undefined, cache);
+    await commitFetchCache(cache);
+
+    expect(jobs).toHaveLength(1);
+    expect(kv.kv.put).not.toHaveBeenCalled();
+  });
+
+  it('should fetch detail pages without validators', async () => {
+    kv.store.set('fetch:https://board.org/jobs/1', JSON.stringify({ etag: '"d1"', hash: 'abc' }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('<div class="description">Cook meals for the team</div>'));
+
+    const processed = await new ScraperPlugin(scraperConfig).processJob({
+      id: 'board:1', title: 'Cook', company: 'NGO', link: 'https://board.org/jobs/1', pubDate: '', imageUrl: null,
+    });
+
+    expect(processed.description).toBe('Cook meals for the team');
+    expect(requestHeaders(0)).toEqual({ 'User-Agent': 'Yemen-Jobs-Bot/1.0' });
+    expect(kv.kv.get).not.toHaveBeenCalled();
+  });
+});
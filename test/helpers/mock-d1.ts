@@ -10,6 +10,13 @@ export interface MockD1Call {
   params: unknown[];
 }
 
+/** Results for statements whose SQL contains a given string (see route) */
+export interface MockD1Route {
+  first?: unknown;
+  all?: unknown[];
+  changes?: number;
+}
+
 /**
  * Create a mock D1Database that records all calls and returns configurable results.
  * Tracks calls for assertion in tests.
@@ -19,29 +26,45 @@ export function createMockD1() {
   let nextFirstResult: unknown = null;
   let nextAllResult: { results: unknown[] } = { results: [] };
   let nextRunResult = { meta: { changes: 1 } };
+  const routes: Array<[string, MockD1Route]> = [];
+
+  // A matching route's results win over the configured defaults
+  const routed = (sql: string) => routes.find(([match]) => sql.includes(match))?.[1];
+  const firstResult = (sql: string) => {
+    const route = routed(sql);
+    return route && 'first' in route ? route.first : nextFirstResult;
+  };
+  const allResult = (sql: string) => {
+    const route = routed(sql);
+    return route?.all ? { results: route.all } : nextAllResult;
+  };
+  const runResult = (sql: string) => {
+    const route = routed(sql);
+    return route?.changes !== undefined ? { meta: { changes: route.changes } } : nextRunResult;
+  };
 
   const mock = {
     prepare: vi.fn((sql: string) => ({
       bind: vi.fn((...params: unknown[]) => {
         calls.push({ sql, params });
         return {
-          first: vi.fn(async () => nextFirstResult),
-          all: vi.fn(async () => nextAllResult),
-          run: vi.fn(async () => nextRunResult),
+          first: vi.fn(async () => firstResult(sql)),
+          all: vi.fn(async () => allResult(sql)),
+          run: vi.fn(async () => runResult(sql)),
         };
       }),
       // Unbound versions (for queries with no params)
       first: vi.fn(async () => {
         calls.push({ sql, params: [] });
-        return nextFirstResult;
+        return firstResult(sql);
       }),
       all: vi.fn(async () => {
         calls.push({ sql, params: [] });
-        return nextAllResult;
+        return allResult(sql);
       }),
       run: vi.fn(async () => {
         calls.push({ sql, params: [] });
-        return nextRunResult;
+        return runResult(sql);
       }),
     })),
     batch: vi.fn(async () => []),
@@ -58,9 +81,12 @@ export function createMockD1() {
     setAllResult(results: unknown[]) { nextAllResult = { results }; },
     /** Set what run() returns on the next call */
     setRunResult(changes: number) { nextRunResult = { meta: { changes } }; },
+    /** Set what statements containing `match` return (earlier routes win); other statements get the defaults */
+    route(match: string, results: MockD1Route) { routes.push([match, results]); },
     /** Reset all state */
     reset() {
       calls.length = 0;
+      routes.length = 0;
       nextFirstResult = null;
       nextAllResult = { results: [] };
       nextRunResult = { meta: { changes: 1 } };
@@ -0,0 +1,204 @@
+/**
+ * Recorded source responses ("fixture sets") and their golden ProcessedJob output.
+ *
+ * A fixture set is one capture of a source: every response its plugin fetched
+ * (listing pages, feed, detail pages) plus the jobs it produced from them.
+ *
+ *   test/fixtures/sources/<source>/<version>/
+ *     manifest.json   — source, capture time, job limit, URL → file for each response
+ *     001.html …      — response bodies, in fetch order
+ *     golden.json     — job ID → ProcessedJob from the recorded responses
+ *
+ * Versions are capture dates, so older markups stay as regression cases next to
+ * the newest one. See test/source-fixtures.test.ts for the capture and update modes.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { ProcessedJob } from '../../src/types';
+import type { JobSourcePlugin } from '../../src/services/sources/types';
+
+export const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'sources');
+
+/** Jobs (and so detail pages) kept per capture */
+export const DEFAULT_JOB_LIMIT = 5;
+
+export interface RecordedResponse {
+  url: string;
+  status: number;
+  contentType: string | null;
+  file: string;
+}
+
+export interface FixtureManifest {
+  source: string;
+  capturedAt: string;
+  /** Jobs from the top of the listing that are processed and kept in golden.json */
+  jobLimit: number;
+  responses: RecordedResponse[];
+}
+
+export interface FixtureSet {
+  source: string;
+  version: string;
+  dir: string;
+  manifest: FixtureManifest;
+}
+
+export type GoldenJobs = Record<string, ProcessedJob>;
+
+/** One field of one job that differs from the golden output */
+export interface FieldChange {
+  jobId: string;
+  /** '(job)' when the whole job is missing or new */
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * Every fixture set on disk, by source then version.
+ */
+export function listFixtureSets(): FixtureSet[] {
+  if (!existsSync(FIXTURES_DIR)) return [];
+  const sets: FixtureSet[] = [];
+  for (const source of readdirSync(FIXTURES_DIR).sort()) {
+    for (const version of readdirSync(join(FIXTURES_DIR, source)).sort()) {
+      const dir = join(FIXTURES_DIR, source, version);
+      const manifestPath = join(dir, 'manifest.json');
+      if (!existsSync(manifestPath)) continue;
+      sets.push({ source, version, dir, manifest: JSON.parse(readFileSync(manifestPath, 'utf8')) as FixtureManifest });
+    }
+  }
+  return sets;
+}
+
+export function readGolden(set: FixtureSet): GoldenJobs | null {
+  const path = join(set.dir, 'golden.json');
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) as GoldenJobs : null;
+}
+
+export function writeGolden(set: FixtureSet, jobs: GoldenJobs): void {
+  writeFileSync(join(set.dir, 'golden.json'), `${JSON.stringify(jobs, null, 2)}\n`);
+}
+
+/**
+ * A fetch that answers from the set's recorded responses; anything not recorded is a 404.
+ */
+export function replayFetch(set: FixtureSet): typeof fetch {
+  const byUrl = new Map(set.manifest.responses.map(r => [r.url, r]));
+  return (async (input: RequestInfo | URL) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const recorded = byUrl.get(url);
+    if (!recorded) return new Response('Not recorded', { status: 404, statusText: 'Not Found' });
+    const body = readFileSync(join(set.dir, recorded.file), 'utf8');
+    const headers = recorded.contentType ? { 'Content-Type': recorded.contentType } : undefined;
+    return new Response(body, { status: recorded.status, headers });
+  }) as typeof fetch;
+}
+
+function extensionFor(contentType: string | null): string {
+  if (contentType?.includes('json')) return 'json';
+  if (contentType?.includes('xml')) return 'xml';
+  return 'html';
+}
+
+/**
+ * A fetch that passes requests through to `realFetch` and records each response into `responses`.
+ */
+export function recordingFetch(realFetch: typeof fetch, dir: string, responses: RecordedResponse[]): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const response = await realFetch(input, init);
+    const body = await response.clone().text();
+    const contentType = response.headers.get('Content-Type');
+    const file = `${String(responses.length + 1).padStart(3, '0')}.${extensionFor(contentType)}`;
+    writeFileSync(join(dir, file), body);
+    responses.push({ url, status: response.status, contentType, file });
+    return response;
+  }) as typeof fetch;
+}
+
+/**
+ * Fetch a source's listing and process its first `jobLimit` jobs, keyed by job ID.
+ * Runs without env, so no fetch cache and no D1 lookups — only the plugin's own requests.
+ */
+export async function runSource(plugin: JobSourcePlugin, jobLimit: number): Promise<GoldenJobs> {
+  const jobs = (await plugin.fetchJobs()).slice(0, jobLimit);
+  const processed: GoldenJobs = {};
+  for (const job of jobs) {
+    processed[job.id] = await plugin.processJob(job);
+  }
+  return processed;
+}
+
+/**
+ * Capture a new fixture set for a source from the live site (version = today's date).
+ * Returns the set; its golden.json is written by replaying it (see the capture mode).
+ */
+export async function captureFixtureSet(
+  plugin: JobSourcePlugin,
+  realFetch: typeof fetch,
+  setFetch: (fetcher: typeof fetch) => void,
+  jobLimit: number = DEFAULT_JOB_LIMIT
+): Promise<FixtureSet> {
+  const capturedAt = new Date().toISOString();
+  const version = capturedAt.slice(0, 10);
+  const dir = join(FIXTURES_DIR, plugin.name, version);
+  mkdirSync(dir, { recursive: true });
+
+  const responses: RecordedResponse[] = [];
+  setFetch(recordingFetch(realFetch, dir, responses));
+  try {
+    await runSource(plugin, jobLimit);
+  } catch (error) {
+    // A half-recorded set would replay as a broken source
+    rmSync(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const manifest: FixtureManifest = { source: plugin.name, capturedAt, jobLimit, responses };
+  writeFileSync(join(dir, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+  return { source: plugin.name, version, dir, manifest };
+}
+
+// JSON round trip drops undefined fields, as golden.json does
+const comparable = (value: unknown) => JSON.stringify(value ?? null);
+
+/**
+ * Compare a replay against the golden output, field by field.
+ */
+export function diffGolden(expected: GoldenJobs, actual: GoldenJobs): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const jobId of new Set([...Object.keys(expected), ...Object.keys(actual)])) {
+    const before = expected[jobId] as unknown as Record<string, unknown> | undefined;
+    const after = actual[jobId] as unknown as Record<string, unknown> | undefined;
+    if (!before || !after) {
+      changes.push({ jobId, field: '(job)', expected: before ? 'present' : 'absent', actual: after ? 'present' : 'absent' });
+      continue;
+    }
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (comparable(before[field]) !== comparable(after[field])) {
+        changes.push({ jobId, field, expected: before[field], actual: after[field] });
+      }
+    }
+  }
+  return changes;
+}
+
+function preview(value: unknown): string {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * One line per changed field, grouped by job — the failure message of a golden mismatch.
+ */
+export function formatFieldChanges(set: Pick<FixtureSet, 'source' | 'version'>, changes: FieldChange[]): string {
+  const lines = [`${set.source}@${set.version}: ${changes.length} field${changes.length === 1 ? '' : 's'} changed`];
+  for (const change of changes) {
+    lines.push(`  ${change.jobId} ${change.field}: ${preview(change.expected)} → ${preview(change.actual)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,68 @@
+/**
+ * Tests for job content fingerprinting (update detection).
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hashJobContent, diffJobContent, recordContent } from '../src/services/job-content';
+import type { JobRecord } from '../src/types';
+
+const content = {
+  deadline: '2026-03-01',
+  location: "Sana'a",
+  description: 'Manage field programs across Yemen.',
+  howToApply: 'Send your CV',
+  applicationLinks: ['https://example.org/apply', 'jobs@example.org'],
+};
+
+describe('hashJobContent', () => {
+  it('should return a SHA-256 hex digest', async () => {
+    expect(await hashJobContent(content)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should ignore whitespace and link order', async () => {
+    const noisy = {
+      ...content,
+      description: '  Manage field programs\n across   Yemen. ',
+      applicationLinks: ['jobs@example.org', 'https://example.org/apply'],
+    };
+
+    expect(await hashJobContent(noisy)).toBe(await hashJobContent(content));
+  });
+
+  it('should change when the deadline changes', async () => {
+    expect(await hashJobContent({ ...content, deadline: '2026-03-15' })).not.toBe(await hashJobContent(content));
+  });
+});
+
+describe('diffJobContent', () => {
+  it('should list changed fields', () => {
+    const after = { ...content, deadline: '2026-03-15', applicationLinks: ['https://example.org/apply'] };
+
+    expect(diffJobContent(content, after)).toEqual(['deadline', 'applicationLinks']);
+  });
+
+  it('should treat missing and empty values as equal', () => {
+    expect(diffJobContent({ description: 'x', location: undefined }, { description: 'x', location: '' })).toEqual([]);
+  });
+});
+
+describe('recordContent', () => {
+  it('should read content fields from a D1 row', () => {
+    const row = {
+      deadline: '2026-03-01',
+      location: "Sana'a",
+      description_clean: 'Manage field programs across Yemen.',
+      how_to_apply: 'Send your CV',
+      application_links: '["https://example.org/apply","jobs@example.org"]',
+    } as JobRecord;
+
+    expect(diffJobContent(recordContent(row), content)).toEqual([]);
+  });
+
+  it('should tolerate malformed application links', () => {
+    const row = { description_clean: null, application_links: 'not json' } as JobRecord;
+
+    expect(recordContent(row).applicationLinks).toBeUndefined();
+  });
+});
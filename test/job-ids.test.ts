@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { namespaceJobId, isNamespacedJobId, jobIdSource, namespaceLegacyJobId } from '../src/services/job-ids';
+
+describe('namespaceJobId', () => {
+  it('should prefix the source', () => {
+    expect(namespaceJobId('eoi', '21270')).toBe('eoi:21270');
+    expect(namespaceJobId('yemenhr', 'finance-officer-ab12')).toBe('yemenhr:finance-officer-ab12');
+  });
+
+  it('should leave namespaced and empty IDs alone', () => {
+    expect(namespaceJobId('eoi', 'eoi:21270')).toBe('eoi:21270');
+    expect(namespaceJobId('eoi', '')).toBe('');
+  });
+});
+
+describe('isNamespacedJobId / jobIdSource', () => {
+  it('should recognize source:id but not URLs', () => {
+    expect(isNamespacedJobId('reliefweb:4197376')).toBe(true);
+    expect(isNamespacedJobId('rw-4197376')).toBe(false);
+    expect(isNamespacedJobId('https://yemenhr.com/jobs/x')).toBe(false);
+    expect(jobIdSource('reliefweb:4197376')).toBe('reliefweb');
+    expect(jobIdSource('eoi-21270')).toBeNull();
+  });
+});
+
+describe('namespaceLegacyJobId', () => {
+  it('should map legacy prefixes to their source', () => {
+    expect(namespaceLegacyJobId('eoi-21270')).toBe('eoi:21270');
+    expect(namespaceLegacyJobId('rw-4197376')).toBe('reliefweb:4197376');
+    expect(namespaceLegacyJobId('ykbank-7961')).toBe('ykbank:7961');
+    expect(namespaceLegacyJobId('qtb-627767247')).toBe('qtb:627767247');
+    expect(namespaceLegacyJobId('yldf-advocacy-assistant')).toBe('yldf:advocacy-assistant');
+  });
+
+  it('should treat unprefixed IDs as YemenHR and keep namespaced ones', () => {
+    expect(namespaceLegacyJobId('project-manager-acted-sanaa-14c38515')).toBe('yemenhr:project-manager-acted-sanaa-14c38515');
+    expect(namespaceLegacyJobId('https://yemenhr.com/jobs/x')).toBe('yemenhr:https://yemenhr.com/jobs/x');
+    expect(namespaceLegacyJobId('eoi:21270')).toBe('eoi:21270');
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Tests for JsonApiPlugin infrastructure.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JsonApiPlugin } from '../src/services/sources/json-api-shared/plugin';
+import {
+  fetchAndParseJsonJobs, getPath, buildPageUrl,
+} from '../src/services/sources/json-api-shared/fetcher';
+import type { JsonApiSourceConfig } from '../src/services/sources/json-api-shared/types';
+import type { JobSourcePlugin } from '../src/services/sources/types';
+import { createFetchCache } from '../src/services/fetch-cache';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const boardConfig: JsonApiSourceConfig = {
+  sourceName: 'ngoboard',
+  getEndpointUrl: () => 'https://api.ngoboard.org/v2/jobs?country=YE',
+  baseUrl: 'https://ngoboard.org',
+  fetchHeaders: { 'X-Api-Key': 'test-key' },
+  itemsPath: 'data.items',
+  fields: {
+    id: 'id',
+    title: 'title',
+    link: 'url',
+    company: 'organization.name',
+    location: 'city',
+    postedDate: 'dates.created',
+    deadline: 'dates.closing',
+    category: 'career_categories.0.name',
+    image: 'organization.logo',
+    description: 'body_html',
+    howToApply: 'how_to_apply_html',
+    applyLinks: 'apply_links',
+  },
+  defaultImage: 'https://ngoboard.org/logo.png',
+};
+
+const boardResponse = {
+  data: {
+    total: 2,
+    items: [
+      {
+        id: 4197,
+        title: 'Finance Officer',
+        url: '/jobs/4197-finance-officer',
+        organization: { name: 'UNICEF', logo: 'https://cdn.ngoboard.org/unicef.png' },
+        city: 'Aden',
+        dates: { created: '2026-03-01', closing: '2026-03-20' },
+        career_categories: [{ name: 'Finance' }],
+        body_html: '<p>Manage the office budget.</p><ul><li>Payments</li><li>Reports</li></ul>',
+        how_to_apply_html: '<p>Send your CV to <b>jobs@unicef.org</b></p>',
+        apply_links: ['mailto:jobs@unicef.org', 'https://unicef.org/apply'],
+      },
+      {
+        id: '4198',
+        title: 'Driver',
+        url: 'https://ngoboard.org/jobs/4198-driver',
+        organization: { name: '' },
+        apply_links: 'https://ngoboard.org/apply/4198',
+      },
+      { id: 4199, url: '/jobs/4199' }, // no title
+    ],
+  },
+};
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+// ============================================================================
+// Path helpers
+// ============================================================================
+
+describe('json-api helpers', () => {
+  it('getPath should read nested keys and array indexes', () => {
+    expect(getPath(boardResponse, 'data.total')).toBe(2);
+    expect(getPath(boardResponse, 'data.items.0.organization.name')).toBe('UNICEF');
+    expect(getPath(boardResponse, 'data.items.1.career_categories.0.name')).toBeUndefined();
+    expect(getPath(null, 'data')).toBeUndefined();
+  });
+
+  it('buildPageUrl should set page numbers or offsets', () => {
+    const paged = { ...boardConfig, pagination: { param: 'page', mode: 'page' as const, maxPages: 3 } };
+    const offset = { ...boardConfig, pagination: { param: 'offset', mode: 'offset' as const, pageSize: 20, sizeParam: 'limit', maxPages: 3 } };
+
+    expect(buildPageUrl(boardConfig, 0)).toBe('https://api.ngoboard.org/v2/jobs?country=YE');
+    expect(buildPageUrl(paged, 1)).toBe('https://api.ngoboard.org/v2/jobs?country=YE&page=2');
+    expect(buildPageUrl(offset, 2)).toBe('https://api.ngoboard.org/v2/jobs?country=YE&offset=40&limit=20');
+  });
+});
+
+// ============================================================================
+// Fetcher Tests
+// ============================================================================
+
+describe('fetchAndParseJsonJobs', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should map items to jobs via field paths', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(boardResponse));
+
+    const jobs = await fetchAndParseJsonJobs(boardConfig);
+
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0]).toMatchObject({
+      id: 'ngoboard:4197',
+      title: 'Finance Officer',
+      company: 'UNICEF',
+      link: 'https://ngoboard.org/jobs/4197-finance-officer',
+      pubDate: '2026-03-01',
+      imageUrl: 'https://cdn.ngoboard.org/unicef.png',
+      source: 'ngoboard',
+      applicationLinks: ['mailto:jobs@unicef.org', 'https://unicef.org/apply'],
+      location: 'Aden',
+      deadline: '2026-03-20',
+      category: 'Finance',
+    });
+    expect(jobs[0].description).toMatch(/^<p>Manage/);
+    expect(jobs[1]).toMatchObject({
+      id: 'ngoboard:4198',
+      company: 'Unknown Company',
+      imageUrl: null,
+      applicationLinks: ['https://ngoboard.org/apply/4198'],
+    });
+    expect(jobs[1].description).toBeUndefined();
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe('https://api.ngoboard.org/v2/jobs?country=YE');
+    expect((init as RequestInit).headers).toMatchObject({ 'X-Api-Key': 'test-key', 'Accept': 'application/json' });
+  });
+
+  it('should build links from linkTemplate and IDs from idExtractor', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse([{ slug: 'nurse-77', name: 'Nurse' }]))
+      .mockResolvedValueOnce(jsonResponse([{ href: 'https://board.org/vacancy?ref=88', name: 'Cook' }]));
+
+    const templated = await fetchAndParseJsonJobs({
+      ...boardConfig, itemsPath: undefined, linkTemplate: 'https://board.org/jobs/{id}',
+      fields: { id: 'slug', title: 'name' }, defaultCompany: 'Board NGO',
+    });
+    const extracted = await fetchAndParseJsonJobs({
+      ...boardConfig, itemsPath: undefined,
+      fields: { title: 'name', link: 'href' },
+      idExtractor: (link) => link.match(/ref=(\d+)/)?.[1] ?? link,
+    });
+
+    expect(templated[0]).toMatchObject({ id: 'ngoboard:nurse-77', link: 'https://board.org/jobs/nurse-77', company: 'Board NGO' });
+    expect(extracted[0].id).toBe('ngoboard:88');
+  });
+
+  it('should follow pagination until a page has no new jobs', async () => {
+    const config = { ...boardConfig, pagination: { param: 'page', mode: 'page' as const, maxPages: 5 } };
+    const page = (ids: number[]) => jsonResponse({ data: { items: ids.map(id => ({ id, title: `Job ${id}`, url: `/jobs/${id}` })) } });
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(page([1, 2]))
+      .mockResolvedValueOnce(page([2, 3]))
+      .mockResolvedValueOnce(page([3]));
+
+    const jobs = await fetchAndParseJsonJobs(config);
+
+    expect(jobs.map(j => j.id)).toEqual(['ngoboard:1', 'ngoboard:2', 'ngoboard:3']);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(fetch).mock.calls[1][0]).toContain('page=2');
+  });
+
+  it('should stop at a short page and respect maxPages', async () => {
+    const item = (id: number) => ({ id, title: `Job ${id}`, url: `/jobs/${id}` });
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse({ data: { items: [item(1), item(2)] } }))
+      .mockResolvedValueOnce(jsonResponse({ data: { items: [item(3)] } }));
+
+    const jobs = await fetchAndParseJsonJobs({
+      ...boardConfig, pagination: { param: 'offset', mode: 'offset', pageSize: 2, maxPages: 5 },
+    });
+
+    expect(jobs).toHaveLength(3);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep earlier pages when a later page fails', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(boardResponse))
+      .mockResolvedValueOnce(jsonResponse({ error: 'rate limited' }, 429));
+
+    const jobs = await fetchAndParseJsonJobs({ ...boardConfig, pagination: { param: 'page', mode: 'page', maxPages: 3 } });
+
+    expect(jobs).toHaveLength(2);
+  });
+
+  it('should throw when the first request fails', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({}, 500));
+
+    await expect(fetchAndParseJsonJobs(boardConfig)).rejects.toThrow('JSON API fetch failed for ngoboard: 500');
+  });
+
+  it('should stop at a page unchanged since the last run', async () => {
+    const store = new Map([['fetch:https://api.ngoboard.org/v2/jobs?country=YE', JSON.stringify({ etag: '"v1"', hash: 'abc' })]]);
+    const kv = { get: vi.fn(async (key: string) => store.get(key) ?? null), put: vi.fn() } as unknown as KVNamespace;
+    const fetchCache = createFetchCache({ ...createMockEnv(createMockD1().db), POSTED_JOBS: kv });
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    expect(await new JsonApiPlugin(boardConfig).fetchJobs(undefined, { fetchCache })).toEqual([]);
+    expect((vi.mocked(fetch).mock.calls[0][1] as RequestInit).headers).toMatchObject({ 'If-None-Match': '"v1"' });
+  });
+
+  it('should return no jobs when the items path is not an array', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ data: { message: 'maintenance' } }));
+
+    expect(await fetchAndParseJsonJobs(boardConfig)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Plugin Tests
+// ============================================================================
+
+describe('JsonApiPlugin', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should be usable as a registry plugin', () => {
+    const plugin: JobSourcePlugin = new JsonApiPlugin(boardConfig);
+    expect(plugin.name).toBe('ngoboard');
+  });
+
+  it('should process a fetched job without another request', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(boardResponse));
+    const plugin = new JsonApiPlugin(boardConfig);
+    const [job] = await plugin.fetchJobs();
+
+    const processed = await plugin.processJob(job);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(processed).toMatchObject({
+      title: 'Finance Officer',
+      company: 'UNICEF',
+      location: 'Aden',
+      postedDate: '2026-03-01',
+      deadline: '2026-03-20',
+      category: 'Finance',
+      howToApply: 'Send your CV to jobs@unicef.org',
+      applicationLinks: ['mailto:jobs@unicef.org', 'https://unicef.org/apply'],
+      source: 'ngoboard',
+    });
+    expect(processed.description).toBe('Manage the office budget.\n- Payments\n- Reports');
+  });
+
+  it('should fall back to the default image and description', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(jsonResponse(boardResponse));
+    const plugin = new JsonApiPlugin(boardConfig);
+    const jobs = await plugin.fetchJobs();
+
+    const processed = await plugin.processJob(jobs[1]);
+
+    expect(processed.imageUrl).toBe('https://ngoboard.org/logo.png');
+    expect(processed.description).toBe('No description available');
+    expect(processed.location).toBeUndefined();
+  });
+
+  it('should use a custom processor when configured', async () => {
+    const plugin = new JsonApiPlugin({
+      ...boardConfig,
+      processJob: (job) => ({ title: job.title.toUpperCase(), company: job.company, link: job.link, description: 'custom', imageUrl: null }),
+    });
+
+    const processed = await plugin.processJob({ id: 'ngoboard:1', title: 'Nurse', company: 'MSF', link: 'https://x', pubDate: '', imageUrl: null });
+
+    expect(processed.title).toBe('NURSE');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for cross-source merging of the same vacancy.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  jobRichness, rankMembers, mergeProcessedJobs, creditHashtags, parseMergedSources, findMergeCandidate, isRecentPost,
+} from '../src/services/merge';
+import type { JobItem, JobRecord, ProcessedJob } from '../src/types';
+
+const listing = (overrides: Partial<ProcessedJob> = {}): ProcessedJob => ({
+  title: 'Project Officer',
+  company: 'UNICEF',
+  link: 'https://example.org/job',
+  description: 'Description',
+  imageUrl: null,
+  ...overrides,
+});
+
+const hashtags = { yemenhr: '#YemenHR', eoi: '#EOI', reliefweb: '#ReliefWeb' };
+
+describe('jobRichness', () => {
+  it('should count apply links, how to apply, a readable deadline and a logo', () => {
+    expect(jobRichness(listing())).toBe(0);
+    expect(jobRichness(listing({
+      applicationLinks: ['https://apply.example.org'],
+      howToApply: 'Send your CV',
+      deadline: '15-03-2026',
+      imageUrl: 'https://example.org/logo.png',
+    }))).toBe(4);
+    expect(jobRichness(listing({ deadline: 'soon', imageUrl: '/logo.png', applicationLinks: [] }))).toBe(0);
+  });
+});
+
+describe('rankMembers', () => {
+  const poor = { source: 'reliefweb', processedJob: listing() };
+  const rich = { source: 'eoi', processedJob: listing({ applicationLinks: ['a@example.org'], howToApply: 'Email' }) };
+  const ranked = { source: 'yemenhr', processedJob: listing() };
+
+  it('should put the richest listing first when no source is ranked', () => {
+    expect(rankMembers([poor, rich]).map(m => m.source)).toEqual(['eoi', 'reliefweb']);
+  });
+
+  it('should prefer ranked sources over richer unranked ones', () => {
+    expect(rankMembers([rich, poor, ranked], { yemenhr: 1, reliefweb: 2 }).map(m => m.source))
+      .toEqual(['yemenhr', 'reliefweb', 'eoi']);
+  });
+
+  it('should keep input order for equal listings', () => {
+    const other = { source: 'qtb', processedJob: listing() };
+    expect(rankMembers([poor, other]).map(m => m.source)).toEqual(['reliefweb', 'qtb']);
+  });
+});
+
+describe('mergeProcessedJobs', () => {
+  it('should fill the primary listing from the others', () => {
+    const merged = mergeProcessedJobs(listing({ applicationLinks: ['https://apply.example.org'] }), [
+      listing({ applicationLinks: ['https://apply.example.org ', 'jobs@example.org'], deadline: 'soon' }),
+      listing({ howToApply: 'Send your CV', deadline: '15-03-2026', imageUrl: 'https://example.org/logo.png' }),
+    ]);
+
+    expect(merged.applicationLinks).toEqual(['https://apply.example.org', 'jobs@example.org']);
+    expect(merged.howToApply).toBe('Send your CV');
+    expect(merged.deadline).toBe('15-03-2026');
+    expect(merged.imageUrl).toBe('https://example.org/logo.png');
+  });
+
+  it('should keep what the primary listing already has', () => {
+    const primary = listing({ howToApply: 'Apply online', deadline: '01-03-2026', imageUrl: 'https://example.org/a.png' });
+
+    const merged = mergeProcessedJobs(primary, [
+      listing({ howToApply: 'Email', deadline: '15-03-2026', imageUrl: 'https://example.org/b.png' }),
+    ]);
+
+    expect(merged).toMatchObject({ howToApply: 'Apply online', deadline: '01-03-2026', imageUrl: 'https://example.org/a.png' });
+    expect(merged.applicationLinks).toBeUndefined();
+  });
+
+  it('should not modify the primary listing', () => {
+    const primary = listing();
+    mergeProcessedJobs(primary, [listing({ howToApply: 'Email' })]);
+
+    expect(primary.howToApply).toBeUndefined();
+  });
+});
+
+describe('creditHashtags', () => {
+  it('should credit the posting source and merged sources', () => {
+    expect(creditHashtags('yemenhr', ['eoi', 'reliefweb'], hashtags)).toBe('#YemenHR #EOI #ReliefWeb');
+  });
+
+  it('should return the source hashtag alone without merged sources', () => {
+    expect(creditHashtags('eoi', undefined, hashtags)).toBe('#EOI');
+    expect(creditHashtags('rss', [], hashtags)).toBeUndefined();
+  });
+
+  it('should skip sources without a hashtag', () => {
+    expect(creditHashtags('yemenhr', ['rss'], hashtags)).toBe('#YemenHR');
+  });
+});
+
+describe('parseMergedSources', () => {
+  it('should read the stored JSON array', () => {
+    expect(parseMergedSources('["eoi","reliefweb"]')).toEqual(['eoi', 'reliefweb']);
+  });
+
+  it('should ignore empty or malformed values', () => {
+    expect(parseMergedSources(null)).toBeUndefined();
+    expect(parseMergedSources('eoi')).toBeUndefined();
+    expect(parseMergedSources('{"a":1}')).toBeUndefined();
+  });
+});
+
+describe('findMergeCandidate', () => {
+  const item = (id: string, source: string, title: string, company = 'UNICEF'): JobItem => ({
+    id, title, company, source, link: `https://example.org/${id}`, pubDate: '', imageUrl: null,
+  });
+  const job = item('yemenhr:1', 'yemenhr', 'Senior Project Officer');
+
+  it('should find the same vacancy on another board', () => {
+    const eoi = item('eoi:9', 'eoi', 'Project Officer Senior');
+
+    expect(findMergeCandidate(job, [job, item('eoi:8', 'eoi', 'Driver'), eoi], 0.85)).toBe(eoi);
+  });
+
+  it('should ignore listings from the same board and unrelated jobs', () => {
+    const others = [job, item('yemenhr:2', 'yemenhr', 'Senior Project Officer'), item('eoi:8', 'eoi', 'Senior Project Officer', 'WFP')];
+
+    expect(findMergeCandidate(job, others, 0.85)).toBeUndefined();
+  });
+});
+
+describe('isRecentPost', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const row = (overrides: Partial<JobRecord>): JobRecord =>
+    ({ status: 'posted', telegram_message_id: 41, posted_at: '2026-10-19T11:30:00.000Z', ...overrides }) as JobRecord;
+
+  it('should take posts younger than the window', () => {
+    expect(isRecentPost(row({}), 45, now)).toBe(true);
+    expect(isRecentPost(row({}), 30, now)).toBe(false);
+  });
+
+  it('should skip rows without a post to edit', () => {
+    expect(isRecentPost(row({ status: 'duplicate' }), 45, now)).toBe(false);
+    expect(isRecentPost(row({ telegram_message_id: null }), 45, now)).toBe(false);
+    expect(isRecentPost(row({ posted_at: null }), 45, now)).toBe(false);
+  });
+});
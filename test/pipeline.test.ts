@@ -0,0 +1,370 @@
+/**
+ * Tests for processJobs run orchestration (lease handling, time budget, publishing).
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { processJobs, forcePostDuplicate, retryJobById } from '../src/services/pipeline';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+import type { Env, SourceRecord } from '../src/types';
+
+/** A runtime-defined JSON API board (see sources/runtime.ts) */
+function apiSource(id: string, overrides: Partial<SourceRecord> = {}): SourceRecord {
+  return {
+    id, display_name: id, hashtag: `#${id}`, type: 'api', base_url: `https://${id}.org`,
+    feed_url: `https://api.${id}.org/jobs`, enabled: 1, ai_prompt_config: null, cron_schedule: '0 * * * *',
+    quota_weight: 1, max_per_run: null, min_per_run: 0, repost_policy: 'never', repost_after_days: null,
+    merge_rank: null, quarantined_at: null, quarantine_reason: null,
+    config: JSON.stringify({
+      itemsPath: 'results',
+      fields: { id: 'ref', title: 'name', company: 'employer', postedDate: 'posted', description: 'text' },
+      linkTemplate: `https://${id}.org/jobs/{id}`,
+    }),
+    created_at: '2026-03-01 00:00:00', updated_at: '2026-03-01 00:00:00',
+    ...overrides,
+  };
+}
+
+interface ListingItem { ref: string; name: string; employer: string; posted: string; text: string }
+
+/**
+ * Stub fetch with each board's listing (by API host) and a Telegram API that accepts every call.
+ * Returns the text of each channel post and each edit, in order.
+ */
+function stubNetwork(boards: Record<string, ListingItem[]>): { posts: string[]; edits: string[] } {
+  const posts: string[] = [];
+  const edits: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const board = url.hostname.match(/^api\.(.+)\.org$/)?.[1];
+    if (board && board in boards) return new Response(JSON.stringify({ results: boards[board] }));
+    const body = JSON.parse(String(init?.body ?? '{}')) as { text?: string; caption?: string };
+    (url.pathname.includes('/edit') ? edits : posts).push(body.text ?? body.caption ?? '');
+    return new Response(JSON.stringify({ ok: true, result: { message_id: posts.length } }));
+  }));
+  return { posts, edits };
+}
+
+/** Workers AI mock that answers after a per-job delay (matched by title in the prompt) */
+function delayedAI(delays: Record<string, number>, onStart?: (title: string) => void, onEnd?: (title: string) => void): Ai {
+  return {
+    run: vi.fn(async (_model: string, input: unknown) => {
+      const prompt = JSON.stringify(input);
+      const title = Object.keys(delays).find(t => prompt.includes(t)) ?? '';
+      onStart?.(title);
+      await new Promise(resolve => setTimeout(resolve, delays[title] ?? 0));
+      onEnd?.(title);
+      return { choices: [{ message: { content: `📋 الوصف الوظيفي:\n${title}` } }] };
+    }),
+  } as unknown as Ai;
+}
+
+describe('processJobs run lease', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  it('should skip and record skipped_locked when another run holds the lease', async () => {
+    mock.setFirstResult({ id: 7, run_id: 6 }); // createRun → 7, lease holder → 6
+    mock.setRunResult(0); // Lease upsert didn't apply
+
+    const result = await processJobs(env, 'manual');
+
+    expect(result.skippedLocked).toBe(true);
+    expect(result.processed).toBe(0);
+    const skip = mock.calls.find(c => c.sql.includes("'skipped_locked'"));
+    expect(skip?.params.slice(1)).toEqual(['Run #6 in progress', 7]);
+    expect(mock.calls.some(c => c.sql.includes('DELETE FROM run_lease'))).toBe(false);
+  });
+
+  it('should fail stale runs and release the lease after the run', async () => {
+    mock.setFirstResult({ id: 7 });
+    mock.setAllResult([]); // No sources enabled
+
+    const result = await processJobs(env, 'manual');
+
+    expect(result.skippedLocked).toBeUndefined();
+    const sql = mock.calls.map(c => c.sql);
+    expect(sql.some(q => q.includes("WHERE status = 'running' AND id != ?"))).toBe(true);
+    expect(sql[sql.length - 1]).toContain('DELETE FROM run_lease');
+  });
+
+  it('should not touch the lease in a dry run', async () => {
+    mock.setAllResult([]);
+
+    await processJobs(env, 'manual', undefined, { dryRun: true });
+
+    expect(mock.calls.some(c => c.sql.includes('run_lease'))).toBe(false);
+  });
+});
+
+describe('processJobs time budget', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  it('should end the run as partial when the budget is spent', async () => {
+    env.RUN_TIME_BUDGET_MS = '0';
+    mock.setFirstResult({ id: 7 });
+    mock.setAllResult([]);
+
+    const result = await processJobs(env, 'cron', '0 * * * *');
+
+    expect(result.carriedOver).toBe(0);
+    const complete = mock.calls.find(c => c.sql.includes('UPDATE runs SET') && c.sql.includes('checkpoint = ?'));
+    expect(complete?.params[1]).toBe('partial');
+    expect(complete?.params[8]).toBe('[]');
+  });
+
+  it('should give runs started from a request their own budget', async () => {
+    env.FETCH_RUN_TIME_BUDGET_MS = '0';
+    mock.setFirstResult({ id: 7 });
+    mock.setAllResult([]);
+
+    await processJobs(env, 'webhook');
+    const complete = mock.calls.find(c => c.sql.includes('UPDATE runs SET') && c.sql.includes('checkpoint = ?'));
+    expect(complete?.params[1]).toBe('partial');
+
+    // The cron budget doesn't apply to them
+    mock.calls.length = 0;
+    env.FETCH_RUN_TIME_BUDGET_MS = undefined;
+    env.RUN_TIME_BUDGET_MS = '0';
+    await processJobs(env, 'manual');
+    const manual = mock.calls.find(c => c.sql.includes('UPDATE runs SET') && c.sql.includes('checkpoint = ?'));
+    expect(manual?.params[1]).toBe('completed');
+  });
+
+  it('should link the run to the partial run it resumes', async () => {
+    mock.setFirstResult({ id: 7, checkpoint: '["yemenhr-1"]' }); // createRun → 7, pending checkpoint on run 7
+    mock.setAllResult([]);
+
+    await processJobs(env, 'manual');
+
+    const link = mock.calls.find(c => c.sql.includes('SET resumed_from = ?'));
+    expect(link?.params).toEqual([7, 7]);
+  });
+});
+
+describe('forcePostDuplicate', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  it('should refuse jobs that are not stored duplicates', async () => {
+    mock.setFirstResult({ id: 'eoi-1', status: 'posted', raw_payload: null, source: 'eoi' });
+
+    expect(await forcePostDuplicate(env, 'eoi-1')).toBeNull();
+    expect(mock.calls).toHaveLength(1); // Only the lookup
+  });
+
+  it('should refuse duplicates archived without a payload', async () => {
+    mock.setFirstResult({ id: 'eoi-1', status: 'duplicate', raw_payload: null, source: 'eoi' });
+
+    expect(await forcePostDuplicate(env, 'eoi-1')).toBeNull();
+  });
+
+  it('should not post while a run holds the lease', async () => {
+    mock.setFirstResult({ id: 'eoi-1', status: 'duplicate', raw_payload: '{"id":"eoi-1"}', source: 'eoi', run_id: 6 });
+    mock.setRunResult(0); // Lease upsert didn't apply
+
+    expect(await forcePostDuplicate(env, 'eoi-1')).toBe('locked');
+    expect(mock.calls.some(c => c.sql.includes('UPDATE jobs'))).toBe(false);
+  });
+});
+
+describe('retryJobById', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not retry while a run holds the lease', async () => {
+    mock.setFirstResult({ id: 'eoi-1', status: 'failed', source: 'eoi', run_id: 6 });
+    mock.setRunResult(0); // Lease upsert didn't apply
+
+    expect(await retryJobById(env, 'eoi-1')).toBe('locked');
+    expect(mock.calls.some(c => c.sql.includes('INSERT INTO run_lease'))).toBe(true);
+    expect(mock.calls.some(c => c.sql.includes('DELETE FROM run_lease'))).toBe(false);
+  });
+
+  it('should refuse jobs that are not in the retry queue without taking the lease', async () => {
+    mock.setFirstResult({ id: 'eoi-1', status: 'posted', source: 'eoi' });
+
+    expect(await retryJobById(env, 'eoi-1')).toBeNull();
+    expect(mock.calls).toHaveLength(1);
+  });
+
+  it('should post a job whose stored application links are malformed', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ok: true, result: { message_id: 9 } }))));
+    mock.setFirstResult({
+      id: 'eoi-1', status: 'failed', source: 'eoi', title: 'Accountant', company: 'CARE',
+      source_url: 'https://eoi-yemen.com/jobs/1', application_links: '["https://apply', attempts: 1,
+    });
+    mock.setAllResult([]);
+    env.POSTED_JOBS = { get: vi.fn(async () => null), put: vi.fn(async () => {}) } as unknown as KVNamespace;
+    env.AI = { run: vi.fn(async () => ({ choices: [{ message: { content: '📋 الوصف الوظيفي:\nمحاسب' } }] })) } as unknown as Ai;
+
+    expect(await retryJobById(env, 'eoi-1')).toBe('posted');
+  });
+});
+
+describe('processJobs publishing', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+    env.POSTED_JOBS = { get: vi.fn(async () => null), put: vi.fn(async () => {}) } as unknown as KVNamespace;
+    env.DELAY_BETWEEN_POSTS_MS = '0';
+    mock.route('INSERT INTO runs', { first: { id: 7 } });
+    mock.route('FROM sources', { all: [apiSource('aidboard')] });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post in listing order when jobs finish preparing out of order, within the concurrency cap', async () => {
+    const titles = ['Water Engineer', 'Nutrition Officer', 'Finance Assistant', 'Logistics Driver'];
+    const { posts } = stubNetwork({
+      aidboard: titles.map((name, i) => ({
+        ref: String(i + 1), name, employer: `Agency ${i + 1}`, posted: `2026-10-0${i + 1}T08:00:00Z`, text: `${name} duties`,
+      })),
+    });
+    // The oldest job takes longest to summarize, the newest is instant
+    let inFlight = 0;
+    let peak = 0;
+    const finished: string[] = [];
+    env.AI = delayedAI(
+      { 'Water Engineer': 60, 'Nutrition Officer': 10, 'Finance Assistant': 30, 'Logistics Driver': 0 },
+      () => { inFlight++; peak = Math.max(peak, inFlight); },
+      title => { inFlight--; finished.push(title); }
+    );
+    env.PROCESS_CONCURRENCY = '2';
+
+    const result = await processJobs(env, 'manual');
+
+    expect(result.posted).toBe(4);
+    expect(finished[0]).not.toBe('Water Engineer');
+    expect(posts.map(text => titles.find(t => text.includes(t)))).toEqual(titles);
+    expect(peak).toBe(2);
+  });
+
+  it('should send nothing more once a heartbeat finds the lease lost', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const titles = ['Water Engineer', 'Nutrition Officer', 'Finance Assistant'];
+    const { posts } = stubNetwork({
+      aidboard: titles.map((name, i) => ({
+        ref: String(i + 1), name, employer: `Agency ${i + 1}`, posted: `2026-10-0${i + 1}T08:00:00Z`, text: `${name} duties`,
+      })),
+    });
+    mock.route('UPDATE run_lease', { changes: 0 }); // Another run took the lease
+    // The heartbeat runs while the second job is being prepared
+    env.AI = delayedAI({ 'Nutrition Officer': 20 }, title => {
+      if (title === 'Nutrition Officer') setTimeout(() => vi.advanceTimersByTime(60 * 1000), 0);
+    });
+    env.PROCESS_CONCURRENCY = '1';
+
+    try {
+      const result = await processJobs(env, 'manual');
+
+      expect(posts).toHaveLength(1);
+      expect(posts[0]).toContain('Water Engineer');
+      expect(result.posted).toBe(1);
+      expect(result.carriedOver).toBe(2);
+      const complete = mock.calls.find(c => c.sql.includes('UPDATE runs SET') && c.sql.includes('checkpoint = ?'));
+      expect(complete?.params[1]).toBe('partial');
+      expect(JSON.parse(complete?.params[8] as string)).toEqual(['aidboard:2', 'aidboard:3']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe('merge window', () => {
+    const vacancy = (ref: string, extra: Partial<ListingItem> = {}): ListingItem => ({
+      ref, name: 'Protection Officer', employer: 'IRC', posted: '2026-10-19T08:00:00Z', text: 'Protection case work', ...extra,
+    });
+
+    beforeEach(() => {
+      mock.reset();
+      mock.route('INSERT INTO runs', { first: { id: 7 } });
+      mock.route('FROM sources', { all: [apiSource('aboard'), apiSource('bboard')] });
+      env.MERGE_WINDOW_MINUTES = '60';
+      env.AI = delayedAI({});
+    });
+
+    it('should hold a job until the other board lists it in a later run, then post them as one', async () => {
+      // Run 1: only board A has the vacancy — it waits in the backlog
+      const first = stubNetwork({ aboard: [vacancy('1')], bboard: [] });
+
+      const run1 = await processJobs(env, 'cron', '0 * * * *');
+
+      expect(run1.posted).toBe(0);
+      expect(first.posts).toHaveLength(0);
+      const deferred = mock.calls.find(c => c.sql.includes("'deferred'") && c.sql.includes('INSERT OR IGNORE INTO jobs'));
+      expect(deferred?.params[0]).toBe('aboard:1');
+
+      // Run 2: board B lists it too; A's listing is back from the backlog, inside its window
+      mock.calls.length = 0;
+      mock.route("WHERE status = 'deferred' AND source IN", { all: [{ id: 'aboard:1', raw_payload: deferred!.params[6] }] });
+      mock.route("scraped_at > datetime('now', ?)", { all: [{ id: 'aboard:1' }] });
+      mock.route('SELECT id FROM jobs WHERE id IN', { all: [{ id: 'aboard:1' }] });
+      const second = stubNetwork({ aboard: [vacancy('1')], bboard: [vacancy('77', { text: 'Protection case work in Aden' })] });
+
+      const run2 = await processJobs(env, 'cron', '0 * * * *');
+
+      expect(run2.posted).toBe(1);
+      expect(second.posts).toHaveLength(1);
+      expect(second.posts[0]).toContain('#aboard');
+      expect(second.posts[0]).toContain('#bboard');
+      const duplicate = mock.calls.find(c => c.sql.includes("'duplicate'"));
+      expect(['aboard:1', 'bboard:77']).toContain(duplicate?.params[0]);
+    });
+
+    it('should fold a listing into the post another board made inside the window', async () => {
+      const postedAt = new Date(Date.now() - 20 * 60 * 1000).toISOString();
+      mock.route('WHERE dedup_key = ?', { first: { id: 'aboard:1', source: 'aboard' } });
+      mock.route('SELECT * FROM jobs WHERE id = ?', {
+        first: {
+          id: 'aboard:1', title: 'Protection Officer', company: 'IRC', source: 'aboard', status: 'posted',
+          source_url: 'https://aboard.org/jobs/1', description_clean: 'Protection case work', telegram_message_id: 41,
+          posted_at: postedAt, merged_sources: null, content_hash: null,
+        },
+      });
+      env.DEDUP_KV_CACHE = 'off';
+      const { posts, edits } = stubNetwork({ aboard: [], bboard: [vacancy('77')] });
+
+      const result = await processJobs(env, 'cron', '0 * * * *');
+
+      expect(posts).toHaveLength(0);
+      expect(edits).toHaveLength(1);
+      expect(edits[0]).toContain('#aboard #bboard');
+      expect(result.skipped).toBe(1);
+      const merged = mock.calls.find(c => c.sql.includes('SET merged_sources = ?'));
+      expect(merged?.params).toEqual(['["bboard"]', 'aboard:1']);
+      const duplicate = mock.calls.find(c => c.sql.includes("'duplicate'"));
+      expect(duplicate?.params[0]).toBe('bboard:77');
+      expect(mock.calls.some(c => c.sql.includes('INSERT OR IGNORE INTO jobs'))).toBe(false); // Not held
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for per-source quota allocation.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { allocateQuota } from '../src/services/quota';
+
+const counts = (entries: Array<[string, number]>) => new Map(entries);
+
+describe('allocateQuota', () => {
+  it('should split evenly when no policies are set', () => {
+    const result = allocateQuota(10, counts([['yemenhr', 20], ['reliefweb', 20]]));
+
+    expect(Object.fromEntries(result)).toEqual({ yemenhr: 5, reliefweb: 5 });
+  });
+
+  it('should give unused slots from small sources to the rest', () => {
+    const result = allocateQuota(10, counts([['qtb', 3], ['reliefweb', 40]]));
+
+    expect(Object.fromEntries(result)).toEqual({ qtb: 3, reliefweb: 7 });
+  });
+
+  it('should split by weight', () => {
+    const result = allocateQuota(12, counts([['yemenhr', 20], ['reliefweb', 20]]), {
+      yemenhr: { weight: 3, max: null, min: 0 },
+    });
+
+    expect(Object.fromEntries(result)).toEqual({ yemenhr: 9, reliefweb: 3 });
+  });
+
+  it('should cap a source at max_per_run and redistribute', () => {
+    const result = allocateQuota(10, counts([['reliefweb', 40], ['eoi', 40]]), {
+      reliefweb: { weight: 1, max: 2, min: 0 },
+    });
+
+    expect(Object.fromEntries(result)).toEqual({ reliefweb: 2, eoi: 8 });
+  });
+
+  it('should reserve min_per_run before the weighted split', () => {
+    const result = allocateQuota(4, counts([['yemenhr', 20], ['qtb', 5]]), {
+      yemenhr: { weight: 10, max: null, min: 0 },
+      qtb: { weight: 1, max: null, min: 2 },
+    });
+
+    expect(result.get('qtb')).toBe(2);
+    expect(result.get('yemenhr')).toBe(2);
+  });
+
+  it('should give weight-0 sources only their minimum', () => {
+    const result = allocateQuota(10, counts([['yemenhr', 3], ['reliefweb', 40]]), {
+      reliefweb: { weight: 0, max: null, min: 1 },
+    });
+
+    expect(Object.fromEntries(result)).toEqual({ yemenhr: 3, reliefweb: 1 });
+  });
+
+  it('should hand out rounding leftovers to the heaviest source first', () => {
+    const result = allocateQuota(4, counts([['a', 10], ['b', 10]]), {
+      b: { weight: 2, max: null, min: 0 },
+    });
+
+    expect(Object.fromEntries(result)).toEqual({ a: 1, b: 3 });
+  });
+
+  it('should never allocate more than the quota or the jobs available', () => {
+    const result = allocateQuota(5, counts([['a', 1], ['b', 2]]), {
+      a: { weight: 1, max: null, min: 4 },
+    });
+
+    expect(Object.fromEntries(result)).toEqual({ a: 1, b: 2 });
+  });
+
+  it('should stop at the quota when minimums exceed it', () => {
+    const result = allocateQuota(3, counts([['a', 10], ['b', 10]]), {
+      a: { weight: 1, max: null, min: 2 },
+      b: { weight: 1, max: null, min: 2 },
+    });
+
+    expect(Object.fromEntries(result)).toEqual({ a: 2, b: 1 });
+  });
+
+  it('should allocate nothing for a zero quota', () => {
+    const result = allocateQuota(0, counts([['a', 10]]));
+
+    expect(result.get('a')).toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for the KV/D1 consistency reconciler.
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  scanConsistency, repairConsistency, runScheduledReconcile, formatReconcileReport, countInconsistencies,
+} from '../src/services/reconcile';
+import { createMockEnv, type MockD1Call } from './helpers/mock-d1';
+import type { Env } from '../src/types';
+
+function createMockKV(entries: Record<string, string>) {
+  const store = new Map(Object.entries(entries));
+  return {
+    store,
+    kv: {
+      get: vi.fn(async (key: string) => store.get(key) ?? null),
+      put: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+      delete: vi.fn(async (key: string) => { store.delete(key); }),
+      list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+        keys: [...store.keys()].filter(k => k.startsWith(prefix)).map(name => ({ name })),
+        list_complete: true,
+      })),
+    } as unknown as KVNamespace,
+  };
+}
+
+/** D1 mock answering job status lookups from `statuses` and the stuck-row query from `stuck` */
+function createJobsD1(statuses: Record<string, string>, stuck: string[]) {
+  const calls: MockD1Call[] = [];
+  const db = {
+    prepare: vi.fn((sql: string) => ({
+      bind: vi.fn((...params: unknown[]) => {
+        calls.push({ sql, params });
+        return {
+          all: vi.fn(async () => ({
+            results: sql.includes("status = 'fetched' AND scraped_at")
+              ? stuck.map(id => ({ id }))
+              : params.filter(p => typeof p === 'string' && statuses[p]).map(id => ({ id, status: statuses[id as string] })),
+          })),
+          first: vi.fn(async () => null),
+          run: vi.fn(async () => ({ meta: { changes: 1 } })),
+        };
+      }),
+    })),
+    batch: vi.fn(async (stmts: unknown[]) => stmts.map(() => ({ meta: { changes: 1 } }))),
+  } as unknown as D1Database;
+  return { db, calls };
+}
+
+describe('reconciler', () => {
+  let env: Env;
+  let kv: ReturnType<typeof createMockKV>;
+  let d1: ReturnType<typeof createJobsD1>;
+
+  beforeEach(() => {
+    kv = createMockKV({
+      'job:eoi:1': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', title: 'Finance Officer', company: 'UNICEF' }),
+      'job:eoi:2': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', title: 'Driver' }),
+      'job:eoi:3': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', title: 'Nurse' }),
+      'job:eoi:4': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', title: 'Teacher' }),
+      'dedup:teacher:school': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', jobId: 'eoi:4' }),
+      'dedup:cook:hotel': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', jobId: 'eoi:5' }),
+      'dedup:driver:ngo': JSON.stringify({ postedAt: '2026-03-01T00:00:00Z', jobId: 'eoi:2' }),
+      'dedup:old:entry': '2026-01-01T00:00:00Z',
+    });
+    d1 = createJobsD1(
+      { 'eoi:2': 'fetched', 'eoi:3': 'cleared', 'eoi:4': 'posted', 'eoi:5': 'cleared' },
+      ['eoi:2', 'eoi:6']
+    );
+    env = { ...createMockEnv(d1.db), POSTED_JOBS: kv.kv, ADMIN_CHAT_ID: '42' };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ok: true, result: { message_id: 1 } }))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should report each kind of drift without changing anything', async () => {
+    const report = await scanConsistency(env);
+
+    expect(report).toMatchObject({ kvJobKeys: 4, dedupEntries: 4, complete: true });
+    expect(report.unrecorded).toEqual([{ id: 'eoi:1', status: null }, { id: 'eoi:2', status: 'fetched' }]);
+    expect(report.released).toEqual(['eoi:3']);
+    // eoi:2's entry stays: KV knows it was handled, D1 just didn't record it
+    expect(report.staleDedup).toEqual([{ key: 'dedup:cook:hotel', jobId: 'eoi:5', status: 'cleared' }]);
+    // eoi:2 is KV-marked, so it's unrecorded rather than stuck
+    expect(report.stuckFetched).toEqual(['eoi:6']);
+    expect(countInconsistencies(report)).toBe(5);
+    expect(kv.kv.delete).not.toHaveBeenCalled();
+    expect(d1.calls.every(c => c.sql.trim().startsWith('SELECT'))).toBe(true);
+  });
+
+  it('should repair what the scan found', async () => {
+    const result = await repairConsistency(env, await scanConsistency(env));
+
+    expect(result).toEqual({ recorded: 2, released: 1, dedupKeys: 1, requeued: 1 });
+    const insert = d1.calls.find(c => c.sql.includes('INSERT INTO jobs'));
+    expect(insert?.params.slice(0, 4)).toEqual(['eoi:1', 'Finance Officer', 'UNICEF', 'skipped']);
+    expect(insert?.params[6]).toBe('eoi');
+    expect(d1.calls.find(c => c.sql.includes('UPDATE jobs SET status = ?'))?.params).toEqual(['skipped', 'eoi:2']);
+    expect(kv.store.has('job:eoi:3')).toBe(false);
+    expect(kv.store.has('dedup:cook:hotel')).toBe(false);
+    expect(kv.store.has('dedup:driver:ngo')).toBe(true);
+    const requeue = d1.calls.find(c => c.sql.includes("status = 'failed'"));
+    expect(requeue?.params[2]).toBe('eoi:6');
+  });
+
+  it('should send the weekly report with a repair button', async () => {
+    await runScheduledReconcile(env);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toContain('/sendMessage');
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.chat_id).toBe('42');
+    expect(JSON.stringify(body.reply_markup)).toContain('reconcile:repair');
+    expect(kv.kv.delete).not.toHaveBeenCalled();
+  });
+
+  it('should stay quiet when KV and D1 agree', async () => {
+    kv.store.clear();
+    d1 = createJobsD1({}, []);
+    env.JOBS_DB = d1.db;
+
+    const report = await runScheduledReconcile(env);
+
+    expect(countInconsistencies(report)).toBe(0);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(formatReconcileReport(report)).toContain('KV and D1 agree');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for the repost policy for re-advertised jobs.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkRepost, deadlineMovedForward, labelRepost, describeRepostPolicy, isRepostPolicyMode, REPOST_LABEL,
+} from '../src/services/repost';
+
+const now = new Date('2026-03-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('checkRepost', () => {
+  it('should never repost under the never policy', () => {
+    expect(checkRepost({ mode: 'never', afterDays: 30 }, { status: 'posted', posted_at: daysAgo(400) }, now)).toBe('no');
+  });
+
+  it('should repost once the earlier post is old enough', () => {
+    const policy = { mode: 'after_days' as const, afterDays: 21 };
+
+    expect(checkRepost(policy, { status: 'expired', posted_at: daysAgo(21) }, now)).toBe('yes');
+    expect(checkRepost(policy, { status: 'posted', posted_at: daysAgo(20) }, now)).toBe('no');
+  });
+
+  it('should defer the deadline policy until the new deadline is known', () => {
+    expect(checkRepost({ mode: 'deadline_moved', afterDays: 30 }, { status: 'posted', posted_at: daysAgo(1) }, now))
+      .toBe('if_deadline_moved');
+  });
+
+  it('should only repost jobs that were actually posted', () => {
+    const policy = { mode: 'after_days' as const, afterDays: 1 };
+
+    expect(checkRepost(policy, { status: 'duplicate', posted_at: null }, now)).toBe('no');
+    expect(checkRepost(policy, { status: 'posted', posted_at: null }, now)).toBe('no');
+  });
+});
+
+describe('deadlineMovedForward', () => {
+  it('should compare parsed deadlines', () => {
+    expect(deadlineMovedForward('15-02-2026', '15-03-2026')).toBe(true);
+    expect(deadlineMovedForward('15-03-2026', '15-03-2026')).toBe(false);
+    expect(deadlineMovedForward('15-03-2026', '01-03-2026')).toBe(false);
+  });
+
+  it('should not count missing or unparseable deadlines as moved', () => {
+    expect(deadlineMovedForward(null, '15-03-2026')).toBe(false);
+    expect(deadlineMovedForward('15-02-2026', undefined)).toBe(false);
+    expect(deadlineMovedForward('15-02-2026', 'soon')).toBe(false);
+  });
+});
+
+describe('labelRepost', () => {
+  it('should put the label above the summary', () => {
+    expect(labelRepost('📋 المسمى الوظيفي')).toBe(`${REPOST_LABEL}\n\n📋 المسمى الوظيفي`);
+    expect(REPOST_LABEL).toContain('إعادة إعلان');
+  });
+});
+
+describe('describeRepostPolicy', () => {
+  it('should describe each mode', () => {
+    expect(describeRepostPolicy({ mode: 'never', afterDays: 30 })).toBe('never');
+    expect(describeRepostPolicy({ mode: 'after_days', afterDays: 14 })).toBe('after 14d');
+    expect(describeRepostPolicy({ mode: 'deadline_moved', afterDays: 30 })).toBe('if deadline moved');
+  });
+});
+
+describe('isRepostPolicyMode', () => {
+  it('should accept only known modes', () => {
+    expect(isRepostPolicyMode('deadline_moved')).toBe(true);
+    expect(isRepostPolicyMode('always')).toBe(false);
+    expect(isRepostPolicyMode(null)).toBe(false);
+  });
+});
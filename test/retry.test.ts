@@ -0,0 +1,45 @@
+/**
+ * Tests for the failed-post retry policy.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRetryDelayMs, planRetry, MAX_RETRY_ATTEMPTS } from '../src/services/retry';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('getRetryDelayMs', () => {
+  it('should wait one hour after the first failure', () => {
+    expect(getRetryDelayMs(1)).toBe(HOUR);
+  });
+
+  it('should double the delay on each failure', () => {
+    expect(getRetryDelayMs(2)).toBe(2 * HOUR);
+    expect(getRetryDelayMs(3)).toBe(4 * HOUR);
+    expect(getRetryDelayMs(4)).toBe(8 * HOUR);
+  });
+
+  it('should cap the delay at 24 hours', () => {
+    expect(getRetryDelayMs(10)).toBe(24 * HOUR);
+  });
+});
+
+describe('planRetry', () => {
+  const now = new Date('2026-02-10T12:00:00.000Z');
+
+  it('should schedule the first retry one hour out', () => {
+    const plan = planRetry(0, now);
+    expect(plan).toEqual({ status: 'failed', retryCount: 1, nextAttemptAt: '2026-02-10T13:00:00.000Z' });
+  });
+
+  it('should back off exponentially', () => {
+    expect(planRetry(2, now).nextAttemptAt).toBe('2026-02-10T16:00:00.000Z');
+  });
+
+  it('should mark the job dead when the cap is reached', () => {
+    const plan = planRetry(MAX_RETRY_ATTEMPTS - 1, now);
+    expect(plan.status).toBe('dead');
+    expect(plan.retryCount).toBe(MAX_RETRY_ATTEMPTS);
+    expect(plan.nextAttemptAt).toBeNull();
+  });
+});
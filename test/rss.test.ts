@@ -108,7 +108,7 @@ describe('fetchRSSFeed', () => {
 
     expect(jobs).toHaveLength(1);
     expect(jobs[0]).toEqual({
-      id: 'software-engineer',
+      id: 'yemenhr:software-engineer',
       title: 'Software Engineer',
       company: 'Tech Company',
       link: 'https://yemenhr.com/jobs/software-engineer',
@@ -127,12 +127,12 @@ describe('fetchRSSFeed', () => {
     const jobs = await fetchRSSFeed('https://example.com/feed');
 
     expect(jobs).toHaveLength(3);
-    expect(jobs[0].id).toBe('job-1');
+    expect(jobs[0].id).toBe('yemenhr:job-1');
     expect(jobs[0].title).toBe('Job One');
     expect(jobs[0].company).toBe('Company A');
-    expect(jobs[1].id).toBe('job-2');
+    expect(jobs[1].id).toBe('yemenhr:job-2');
     expect(jobs[1].title).toBe('Job Two');
-    expect(jobs[2].id).toBe('job-3');
+    expect(jobs[2].id).toBe('yemenhr:job-3');
     expect(jobs[2].title).toBe('Job Three');
   });
 
@@ -154,7 +154,7 @@ describe('fetchRSSFeed', () => {
     const jobs = await fetchRSSFeed('https://example.com/feed');
 
     // The ID should be the slug from the URL, not the full URL
-    expect(jobs[0].id).toBe('software-engineer');
+    expect(jobs[0].id).toBe('yemenhr:software-engineer');
   });
 
   it('should handle missing fields gracefully', async () => {
@@ -288,7 +288,7 @@ const RSS2_WITH_ENCLOSURE = `<?xml version="1.0" encoding="utf-8"?>
 
 const idExtractor = (link: string) => {
   const match = link.match(/\/job\/(\d+)/);
-  return match ? `rw-${match[1]}` : link;
+  return match ? match[1] : link;
 };
 
 describe('fetchAndParseRSSFeed (RSS 2.0)', () => {
@@ -310,7 +310,7 @@ describe('fetchAndParseRSSFeed (RSS 2.0)', () => {
     );
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('rw-4197376');
+    expect(jobs[0].id).toBe('reliefweb:4197376');
     expect(jobs[0].title).toBe('Program Manager');
     expect(jobs[0].company).toBe('UNICEF');
     expect(jobs[0].link).toBe('https://reliefweb.int/job/4197376/program-manager');
@@ -330,10 +330,10 @@ describe('fetchAndParseRSSFeed (RSS 2.0)', () => {
     );
 
     expect(jobs).toHaveLength(2);
-    expect(jobs[0].id).toBe('rw-100');
+    expect(jobs[0].id).toBe('reliefweb:100');
     expect(jobs[0].title).toBe('Job Alpha');
     expect(jobs[0].company).toBe('Org A');
-    expect(jobs[1].id).toBe('rw-200');
+    expect(jobs[1].id).toBe('reliefweb:200');
     expect(jobs[1].title).toBe('Job Beta');
     expect(jobs[1].company).toBe('Org B');
   });
@@ -393,7 +393,7 @@ describe('fetchAndParseRSSFeed (RSS 2.0)', () => {
     );
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('software-engineer');
+    expect(jobs[0].id).toBe('yemenhr:software-engineer');
     expect(jobs[0].title).toBe('Software Engineer');
     expect(jobs[0].source).toBe('yemenhr');
   });
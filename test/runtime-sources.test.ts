@@ -0,0 +1,335 @@
+/**
+ * Tests for runtime-defined sources (configs stored in the D1 sources table).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { validateRuntimeConfig, compileIdExtractor, buildRuntimePlugin } from '../src/services/sources/runtime';
+import {
+  getEnabledSourcesFromDB, getAllSourcesFromDB, resolveSource, getSource, createRuntimeSource,
+  loadSourceCatalog, catalogEnabledSources, catalogHashtags, catalogSource,
+} from '../src/services/sources/registry';
+import { RSSPlugin } from '../src/services/sources/rss-shared/plugin';
+import { ScraperPlugin } from '../src/services/sources/scraper-shared/plugin';
+import { JsonApiPlugin } from '../src/services/sources/json-api-shared/plugin';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+import type { Env, SourceRecord } from '../src/types';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function sourceRow(overrides: Partial<SourceRecord>): SourceRecord {
+  return {
+    id: 'ngojobs',
+    display_name: 'NGO Jobs',
+    hashtag: '#NGOJobs',
+    type: 'rss',
+    base_url: 'https://ngojobs.org',
+    feed_url: 'https://ngojobs.org/feed',
+    enabled: 1,
+    ai_prompt_config: null,
+    cron_schedule: '0 * * * *',
+    quota_weight: 1,
+    max_per_run: null,
+    min_per_run: 0,
+    repost_policy: 'never',
+    repost_after_days: null,
+    merge_rank: null,
+    config: '{}',
+    quarantined_at: null,
+    quarantine_reason: null,
+    created_at: '2026-03-01 00:00:00',
+    updated_at: '2026-03-01 00:00:00',
+    ...overrides,
+  };
+}
+
+const scraperConfig = {
+  listingUrl: 'https://jobs.example.org/vacancies',
+  selectors: { jobContainer: '.vacancy', title: 'h3', link: 'a' },
+  idExtractor: { pattern: '/vacancy/(\\d+)' },
+  defaultCompany: 'Example NGO',
+};
+
+const apiConfig = {
+  endpointUrl: 'https://api.aidboard.org/jobs?country=YE',
+  itemsPath: 'results',
+  fields: { id: 'ref', title: 'name', company: 'employer', location: 'city', deadline: 'closes', description: 'text' },
+  linkTemplate: 'https://aidboard.org/jobs/{id}',
+  pagination: { param: 'page', mode: 'page', maxPages: 2 },
+};
+
+const SAMPLE_FEED = `<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <item>
+    <title>Field Officer</title>
+    <link>https://ngojobs.org/jobs/512/field-officer</link>
+    <pubDate>Mon, 02 Mar 2026 10:00:00 +0000</pubDate>
+    <description>Field work in Aden</description>
+  </item>
+</channel></rss>`;
+
+// ============================================================================
+// Config validation
+// ============================================================================
+
+describe('validateRuntimeConfig', () => {
+  it('should accept an RSS config and drop unknown keys', () => {
+    const result = validateRuntimeConfig('rss', { feedUrl: 'https://x.org/feed', defaultCompany: 'X', extra: true });
+
+    expect(result).toEqual({ config: { feedUrl: 'https://x.org/feed', defaultCompany: 'X', idExtractor: undefined, defaultImage: undefined } });
+  });
+
+  it('should require the core scraper selectors', () => {
+    expect(validateRuntimeConfig('scraper', {})).toEqual({ error: 'config.selectors is required' });
+    expect(validateRuntimeConfig('scraper', { selectors: { jobContainer: '.job', title: 'h2' } }))
+      .toEqual({ error: 'config.selectors.link is required' });
+    expect(validateRuntimeConfig('scraper', scraperConfig)).toHaveProperty('config.selectors.link', 'a');
+  });
+
+  it('should require an API title field and a way to build links', () => {
+    expect(validateRuntimeConfig('api', {})).toEqual({ error: 'config.fields is required' });
+    expect(validateRuntimeConfig('api', { fields: { title: 'name', id: 'ref' } }))
+      .toEqual({ error: 'config.fields.link is required (or linkTemplate with fields.id)' });
+    expect(validateRuntimeConfig('api', { ...apiConfig, fields: { ...apiConfig.fields, city: 'town' } }))
+      .toHaveProperty('config.fields', apiConfig.fields);
+    expect(validateRuntimeConfig('api', { ...apiConfig, pagination: { param: 'offset', mode: 'offset', maxPages: 2 } }))
+      .toEqual({ error: 'config.pagination.pageSize is required for offset paging' });
+  });
+
+  it('should reject bad types and invalid regexes', () => {
+    expect(validateRuntimeConfig('rss', 'feed')).toEqual({ error: 'config must be an object' });
+    expect(validateRuntimeConfig('rss', { defaultImage: 5 })).toEqual({ error: 'config.defaultImage must be a string' });
+    expect(validateRuntimeConfig('rss', { idExtractor: { pattern: '(' } })).toHaveProperty('error');
+    expect(validateRuntimeConfig('scraper', { ...scraperConfig, detailPage: {} }))
+      .toEqual({ error: 'config.detailPage.descriptionSelector is required' });
+    expect(validateRuntimeConfig('scraper', { ...scraperConfig, fetchHeaders: { Cookie: 1 } }))
+      .toEqual({ error: 'config.fetchHeaders must map header names to strings' });
+    expect(validateRuntimeConfig('scraper', { ...scraperConfig, pagination: { maxPages: 3 } }))
+      .toEqual({ error: 'config.pagination needs nextPageSelector or pageUrlTemplate' });
+    expect(validateRuntimeConfig('scraper', { ...scraperConfig, pagination: { pageUrlTemplate: '?p={page}', maxPages: 0 } }))
+      .toEqual({ error: 'config.pagination.maxPages must be a positive integer' });
+  });
+});
+
+describe('compileIdExtractor', () => {
+  it('should use the first capture group with an optional prefix', () => {
+    expect(compileIdExtractor({ pattern: '/jobs/(\\d+)' })('https://x.org/jobs/42/nurse')).toBe('42');
+    expect(compileIdExtractor({ pattern: '/jobs/\\d+', prefix: 'x-' })('https://x.org/jobs/42')).toBe('x-/jobs/42');
+  });
+
+  it('should keep the link when there is no pattern or no match', () => {
+    expect(compileIdExtractor()('https://x.org/a')).toBe('https://x.org/a');
+    expect(compileIdExtractor({ pattern: '/jobs/(\\d+)' })('https://x.org/about')).toBe('https://x.org/about');
+  });
+});
+
+// ============================================================================
+// Plugin construction
+// ============================================================================
+
+describe('buildRuntimePlugin', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should build an RSS plugin that applies the config', async () => {
+    const plugin = buildRuntimePlugin(sourceRow({
+      config: JSON.stringify({ idExtractor: { pattern: '/jobs/(\\d+)' }, defaultCompany: 'NGO Jobs', defaultImage: 'https://ngojobs.org/logo.png' }),
+    }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(SAMPLE_FEED, { status: 200 }));
+
+    expect(plugin).toBeInstanceOf(RSSPlugin);
+    const jobs = await plugin!.fetchJobs();
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://ngojobs.org/feed');
+    expect(jobs[0]).toMatchObject({
+      id: 'ngojobs:512',
+      company: 'NGO Jobs',
+      imageUrl: 'https://ngojobs.org/logo.png',
+      source: 'ngojobs',
+    });
+  });
+
+  it('should build a JSON API plugin that fetches and processes jobs', async () => {
+    const plugin = buildRuntimePlugin(sourceRow({ id: 'aidboard', type: 'api', feed_url: null, config: JSON.stringify(apiConfig) }));
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+      results: [{ ref: 'a-31', name: 'Nutrition Officer', employer: 'WFP', city: 'Hodeidah', closes: '2026-04-01', text: '<p>Lead the nutrition survey.</p>' }],
+    })));
+
+    expect(plugin).toBeInstanceOf(JsonApiPlugin);
+    const [job] = await plugin!.fetchJobs();
+    const processed = await plugin!.processJob(job);
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://api.aidboard.org/jobs?country=YE&page=1');
+    expect(job).toMatchObject({ id: 'aidboard:a-31', link: 'https://aidboard.org/jobs/a-31', source: 'aidboard' });
+    expect(processed).toMatchObject({
+      title: 'Nutrition Officer', company: 'WFP', location: 'Hodeidah', deadline: '2026-04-01',
+      description: 'Lead the nutrition survey.', source: 'aidboard',
+    });
+  });
+
+  it('should build a scraper plugin', () => {
+    const plugin = buildRuntimePlugin(sourceRow({ id: 'example', type: 'scraper', config: JSON.stringify(scraperConfig) }));
+
+    expect(plugin).toBeInstanceOf(ScraperPlugin);
+    expect(plugin!.name).toBe('example');
+  });
+
+  it('should return null for missing, malformed or invalid configs', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(buildRuntimePlugin(sourceRow({ config: null }))).toBeNull();
+    expect(buildRuntimePlugin(sourceRow({ type: 'atom' as SourceRecord['type'] }))).toBeNull();
+    expect(buildRuntimePlugin(sourceRow({ config: '{not json' }))).toBeNull();
+    expect(buildRuntimePlugin(sourceRow({ type: 'scraper', config: '{}' }))).toBeNull();
+    expect(buildRuntimePlugin(sourceRow({ type: 'api', config: '{}' }))).toBeNull();
+    expect(buildRuntimePlugin(sourceRow({ feed_url: null }))).toBeNull();
+    expect(buildRuntimePlugin(sourceRow({ type: 'api', feed_url: null, config: JSON.stringify({ ...apiConfig, endpointUrl: undefined }) }))).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(5);
+
+    warn.mockRestore();
+  });
+});
+
+// ============================================================================
+// Registry integration
+// ============================================================================
+
+describe('registry with runtime sources', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  it('getEnabledSourcesFromDB should include enabled runtime sources', async () => {
+    mock.setAllResult([
+      sourceRow({ id: 'yemenhr', type: 'scraper', config: null }),
+      sourceRow({}),
+      sourceRow({ id: 'example', type: 'scraper', enabled: 0, config: JSON.stringify(scraperConfig) }),
+    ]);
+
+    const sources = await getEnabledSourcesFromDB(env);
+
+    expect(sources.map(s => s.name)).toEqual(['yemenhr', 'ngojobs']);
+  });
+
+  it('loadSourceCatalog should read the sources table once for everything a run needs', async () => {
+    mock.setAllResult([
+      sourceRow({ id: 'yemenhr', type: 'scraper', hashtag: '#YemenHR', config: null }),
+      sourceRow({ id: 'example', type: 'scraper', enabled: 0, config: JSON.stringify(scraperConfig) }),
+    ]);
+
+    const catalog = await loadSourceCatalog(env);
+
+    expect(catalogEnabledSources(catalog).map(s => s.name)).toEqual(['yemenhr']);
+    expect(catalogHashtags(catalog)).toEqual({ yemenhr: '#YemenHR', example: '#NGOJobs' });
+    expect(catalogSource(catalog, 'example').name).toBe('example');
+    expect(mock.calls).toHaveLength(1);
+  });
+
+  it('should not keep runtime sources between catalogs', async () => {
+    mock.setAllResult([sourceRow({})]);
+    const catalog = await loadSourceCatalog(env);
+    mock.setAllResult([]);
+
+    const next = await loadSourceCatalog(env);
+
+    expect(catalogSource(catalog, 'ngojobs').name).toBe('ngojobs');
+    expect(() => catalogSource(next, 'ngojobs')).toThrow('Job source plugin not found: ngojobs');
+    expect(() => getSource('ngojobs')).toThrow('Job source plugin not found: ngojobs');
+  });
+
+  it('should fall back to the code-defined sources when D1 fails', async () => {
+    env = createMockEnv({ prepare: () => { throw new Error('D1 unavailable'); } } as unknown as D1Database);
+
+    const catalog = await loadSourceCatalog(env);
+
+    expect(catalog.fromDB).toBe(false);
+    expect(catalogEnabledSources(catalog).map(s => s.name)).toContain('yemenhr');
+    expect(catalogHashtags(catalog).yemenhr).toBeDefined();
+  });
+
+  it('should not let a D1 config replace a code-defined source', async () => {
+    mock.setAllResult([sourceRow({ id: 'eoi', type: 'rss' })]);
+
+    const sources = await getAllSourcesFromDB(env);
+
+    expect(sources.filter(s => s.name === 'eoi')).toHaveLength(1);
+    expect(getSource('eoi')).toBeInstanceOf(ScraperPlugin);
+  });
+
+  it('resolveSource should load a runtime source that is not cached yet', async () => {
+    mock.setAllResult([sourceRow({ id: 'lateboard' })]);
+
+    const plugin = await resolveSource(env, 'lateboard');
+
+    expect(plugin.name).toBe('lateboard');
+    await expect(resolveSource(env, 'missing')).rejects.toThrow('Job source plugin not found: missing');
+  });
+});
+
+describe('createRuntimeSource', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  const input = {
+    id: 'ngojobs',
+    type: 'rss',
+    display_name: 'NGO Jobs',
+    hashtag: '#NGOJobs',
+    base_url: 'https://ngojobs.org',
+    feed_url: 'https://ngojobs.org/feed',
+  };
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  it('should insert a disabled source with the validated config', async () => {
+    mock.setFirstResult(sourceRow({ enabled: 0 }));
+
+    const result = await createRuntimeSource(env, { ...input, config: { idExtractor: { pattern: '/jobs/(\\d+)' } } });
+
+    expect(result).toHaveProperty('source.id', 'ngojobs');
+    expect(mock.calls[0].sql).toContain('INSERT OR IGNORE INTO sources');
+    expect(mock.calls[0].params).toEqual([
+      'ngojobs', 'NGO Jobs', '#NGOJobs', 'rss', 'https://ngojobs.org', 'https://ngojobs.org/feed', 0, null, '0 * * * *',
+      JSON.stringify({ idExtractor: { pattern: '/jobs/(\\d+)' } }),
+    ]);
+  });
+
+  it('should reject invalid fields before touching D1', async () => {
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ ...input, id: 'Bad ID' }, 'id must be'],
+      [{ ...input, id: 'eoi' }, 'Source eoi is defined in code'],
+      [{ ...input, type: 'atom' }, 'type must be one of: rss, scraper, api'],
+      [{ ...input, hashtag: 'NGOJobs' }, 'hashtag'],
+      [{ ...input, base_url: 'ngojobs.org' }, 'base_url'],
+      [{ ...input, feed_url: undefined }, 'RSS sources need feed_url or config.feedUrl'],
+      [{ ...input, type: 'scraper' }, 'config.selectors is required'],
+      [{ ...input, type: 'api', feed_url: undefined, config: { ...apiConfig, endpointUrl: undefined } }, 'API sources need feed_url or config.endpointUrl'],
+    ];
+
+    for (const [body, error] of cases) {
+      const result = await createRuntimeSource(env, body);
+      expect(result).toHaveProperty('error');
+      expect((result as { error: string }).error).toContain(error);
+    }
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('should report a taken ID', async () => {
+    mock.setRunResult(0);
+
+    expect(await createRuntimeSource(env, input)).toEqual({ error: 'Source ngojobs already exists' });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for multi-page listings in the HTML scraper.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchAndParseHTMLJobs } from '../src/services/sources/scraper-shared/fetcher';
+import { getSource } from '../src/services/sources/registry';
+import type { ScraperSourceConfig } from '../src/services/sources/scraper-shared/types';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const baseConfig: ScraperSourceConfig = {
+  sourceName: 'board',
+  getListingUrl: () => 'https://board.org/jobs',
+  baseUrl: 'https://board.org',
+  selectors: { jobContainer: '.job', title: 'a', link: 'a' },
+  idExtractor: (link) => link.match(/\/jobs\/(\d+)/)?.[1] ?? link,
+};
+
+/** A listing page with the given job numbers and an optional next-page link */
+function listingPage(ids: number[], next?: string): Response {
+  const cards = ids.map(id => `<div class="job"><a href="/jobs/${id}">Job ${id}</a></div>`).join('');
+  const pager = next ? `<nav><a rel="next" href="${next}">Next</a></nav>` : '';
+  return new Response(`<html><body>${cards}${pager}</body></html>`, { status: 200 });
+}
+
+const fetchedUrls = () => vi.mocked(fetch).mock.calls.map(([url]) => url);
+
+// ============================================================================
+// Fetcher Tests
+// ============================================================================
+
+describe('fetchAndParseHTMLJobs pagination', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should read the first page only without pagination', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(listingPage([1, 2], '/jobs?page=2'));
+
+    const jobs = await fetchAndParseHTMLJobs(baseConfig);
+
+    expect(jobs.map(j => j.id)).toEqual(['board:1', 'board:2']);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should follow next-page links and deduplicate across pages', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(listingPage([1, 2], '/jobs?page=2'))
+      .mockResolvedValueOnce(listingPage([2, 3], '/jobs?page=3'))
+      .mockResolvedValueOnce(listingPage([4]));
+
+    const jobs = await fetchAndParseHTMLJobs({
+      ...baseConfig, pagination: { nextPageSelector: 'a[rel="next"]', maxPages: 5 },
+    });
+
+    expect(jobs.map(j => j.id)).toEqual(['board:1', 'board:2', 'board:3', 'board:4']);
+    expect(fetchedUrls()).toEqual(['https://board.org/jobs', 'https://board.org/jobs?page=2', 'https://board.org/jobs?page=3']);
+  });
+
+  it('should build page URLs from a template and respect maxPages', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(listingPage([1]))
+      .mockResolvedValueOnce(listingPage([2]));
+
+    const jobs = await fetchAndParseHTMLJobs({
+      ...baseConfig, pagination: { pageUrlTemplate: 'https://board.org/jobs?p={page}', maxPages: 2 },
+    });
+
+    expect(jobs).toHaveLength(2);
+    expect(fetchedUrls()).toEqual(['https://board.org/jobs', 'https://board.org/jobs?p=2']);
+  });
+
+  it('should stop when a page repeats jobs already read', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(listingPage([1, 2]))
+      .mockResolvedValueOnce(listingPage([1, 2]));
+
+    const jobs = await fetchAndParseHTMLJobs({
+      ...baseConfig, pagination: { pageUrlTemplate: 'https://board.org/jobs?p={page}', maxPages: 5 },
+    });
+
+    expect(jobs).toHaveLength(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep earlier pages when a later page fails', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(listingPage([1], '/jobs?page=2'))
+      .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }));
+
+    const jobs = await fetchAndParseHTMLJobs({
+      ...baseConfig, pagination: { nextPageSelector: 'a[rel="next"]', maxPages: 3 },
+    });
+
+    expect(jobs.map(j => j.id)).toEqual(['board:1']);
+  });
+
+  describe('stopWhenAllKnown', () => {
+    const config: ScraperSourceConfig = {
+      ...baseConfig, pagination: { nextPageSelector: 'a[rel="next"]', maxPages: 5, stopWhenAllKnown: true },
+    };
+
+    it('should stop once a page only has jobs already in D1', async () => {
+      const mock = createMockD1();
+      mock.setAllResult([{ id: 'board:1' }, { id: 'board:2' }]);
+      vi.mocked(fetch).mockResolvedValueOnce(listingPage([1, 2], '/jobs?page=2'));
+
+      const jobs = await fetchAndParseHTMLJobs(config, createMockEnv(mock.db));
+
+      expect(jobs).toHaveLength(2);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(mock.calls[0].sql).toContain('FROM jobs WHERE id IN');
+      expect(mock.calls[0].params).toEqual(['board:1', 'board:2']);
+    });
+
+    it('should page on while a page has unknown jobs', async () => {
+      const mock = createMockD1();
+      mock.setAllResult([{ id: 'board:1' }]);
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(listingPage([1, 2], '/jobs?page=2'))
+        .mockResolvedValueOnce(listingPage([3]));
+
+      const jobs = await fetchAndParseHTMLJobs(config, createMockEnv(mock.db));
+
+      expect(jobs).toHaveLength(3);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not query D1 when there is no next page', async () => {
+      const mock = createMockD1();
+      vi.mocked(fetch).mockResolvedValueOnce(listingPage([1]));
+
+      await fetchAndParseHTMLJobs(config, createMockEnv(mock.db));
+
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+});
+
+describe('YemenHR pagination', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should follow rel="next" links on the listing', async () => {
+    const row = (slug: string) => `<tr><td>08 Feb, 26</td><td><a href="#">ACTED</a></td><td><a href="https://yemenhr.com/jobs/${slug}">Job</a></td><td>Aden</td><td>22 Feb, 26</td></tr>`;
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(`<table><tbody>${row('a-1')}</tbody></table><a rel="next" href="https://yemenhr.com/jobs?page=2">›</a>`))
+      .mockResolvedValueOnce(new Response(`<table><tbody>${row('b-2')}</tbody></table>`));
+
+    const jobs = await getSource('yemenhr').fetchJobs();
+
+    expect(jobs.map(j => j.id)).toEqual(['yemenhr:a-1', 'yemenhr:b-2']);
+    expect(fetchedUrls()[1]).toBe('https://yemenhr.com/jobs?page=2');
+  });
+});
@@ -90,7 +90,7 @@ describe('fetchAndParseHTMLJobs', () => {
     const jobs = await fetchAndParseHTMLJobs(qtbConfig);
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('qtb-123');
+    expect(jobs[0].id).toBe('qtb:123');
     expect(jobs[0].title).toBe('خدمة عملاء');
     expect(jobs[0].source).toBe('qtb');
   });
@@ -292,7 +292,7 @@ describe('qtbConfig', () => {
   });
 
   it('should extract ID from query param', () => {
-    expect(qtbConfig.idExtractor('https://jobs.qtbbank.com/detals_job?id_job=627767247')).toBe('qtb-627767247');
+    expect(qtbConfig.idExtractor('https://jobs.qtbbank.com/detals_job?id_job=627767247')).toBe('627767247');
   });
 
   it('should parse QTB job cards', async () => {
@@ -303,13 +303,13 @@ describe('qtbConfig', () => {
     const jobs = await fetchAndParseHTMLJobs(qtbConfig);
 
     expect(jobs).toHaveLength(2);
-    expect(jobs[0].id).toBe('qtb-627767247');
+    expect(jobs[0].id).toBe('qtb:627767247');
     expect(jobs[0].title).toBe('خدمة عملاء');
     expect(jobs[0].link).toBe('https://jobs.qtbbank.com/detals_job?id_job=627767247');
     expect(jobs[0].company).toBe('بنك القطيبي الإسلامي');
     expect(jobs[0].source).toBe('qtb');
 
-    expect(jobs[1].id).toBe('qtb-211960022');
+    expect(jobs[1].id).toBe('qtb:211960022');
     expect(jobs[1].title).toBe('أخصائي تمويل');
   });
 
@@ -368,7 +368,7 @@ describe('yldfConfig', () => {
   });
 
   it('should extract ID from job path', () => {
-    expect(yldfConfig.idExtractor('https://erp.yldf.org/jobs/yldf/advocacy-assistant')).toBe('yldf-advocacy-assistant');
+    expect(yldfConfig.idExtractor('https://erp.yldf.org/jobs/yldf/advocacy-assistant')).toBe('advocacy-assistant');
   });
 
   it('should parse YLDF job cards with id-based links', async () => {
@@ -379,7 +379,7 @@ describe('yldfConfig', () => {
     const jobs = await fetchAndParseHTMLJobs(yldfConfig);
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('yldf-advocacy-assistant');
+    expect(jobs[0].id).toBe('yldf:advocacy-assistant');
     expect(jobs[0].title).toBe('Advocacy and Communication Field Assistant');
     expect(jobs[0].link).toBe('https://erp.yldf.org/jobs/yldf/advocacy-assistant');
     expect(jobs[0].company).toBe('Youth Leadership Development Foundation');
@@ -518,7 +518,7 @@ describe('ykbankConfig (via RSSPlugin)', () => {
 
   it('should extract ID from Zoho Recruit URL', () => {
     expect(ykbankConfig.idExtractor('https://yk-bank.zohorecruit.com/jobs/Careers/796159000000522029/AI-Engineer?source=RSS'))
-      .toBe('ykbank-796159000000522029');
+      .toBe('796159000000522029');
   });
 
   it('should have correct feed URL', () => {
@@ -534,7 +534,7 @@ describe('ykbankConfig (via RSSPlugin)', () => {
     const jobs = await plugin.fetchJobs();
 
     expect(jobs).toHaveLength(2);
-    expect(jobs[0].id).toBe('ykbank-796159000000522029');
+    expect(jobs[0].id).toBe('ykbank:796159000000522029');
     expect(jobs[0].title).toBe('AI Engineer (LLM & ML)');
     expect(jobs[0].source).toBe('ykbank');
     expect(jobs[0].link).toContain('zohorecruit.com');
@@ -0,0 +1,134 @@
+/**
+ * Selector regression harness: replays recorded source responses through each
+ * source's config and processJob, and compares the jobs with golden.json.
+ *
+ * Run with: npm test
+ * Capture:  npm run fixtures:capture — every RSS/scraper source, or CAPTURE_FIXTURES=yemenhr,eoi (needs network)
+ * Update:   npm run fixtures:update  — rewrite golden.json after an intended selector change
+ *
+ * See test/helpers/source-fixtures.ts for the fixture layout.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getAllSources, getSource } from '../src/services/sources/registry';
+import { RSSPlugin } from '../src/services/sources/rss-shared/plugin';
+import { ScraperPlugin } from '../src/services/sources/scraper-shared/plugin';
+import {
+  listFixtureSets, readGolden, writeGolden, replayFetch, runSource, captureFixtureSet, diffGolden, formatFieldChanges,
+  type FixtureSet,
+} from './helpers/source-fixtures';
+
+const CAPTURE = process.env.CAPTURE_FIXTURES;
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+// Capture needs the real fetch, before any test stubs it
+const realFetch = globalThis.fetch;
+
+/** Code-defined RSS and scraper sources — the ones whose markup fixtures can pin down */
+const capturable = getAllSources().filter(p => p instanceof RSSPlugin || p instanceof ScraperPlugin);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe.runIf(CAPTURE)('capture fixtures', () => {
+  const names = CAPTURE === 'all' ? capturable.map(p => p.name) : (CAPTURE ?? '').split(',').map(s => s.trim());
+
+  for (const name of names) {
+    it(`captures ${name}`, async () => {
+      const set = await captureFixtureSet(getSource(name), realFetch, fetcher => vi.stubGlobal('fetch', fetcher));
+
+      vi.stubGlobal('fetch', replayFetch(set));
+      const jobs = await runSource(getSource(name), set.manifest.jobLimit);
+      writeGolden(set, jobs);
+
+      expect(set.manifest.responses.length).toBeGreaterThan(0);
+    }, 120_000);
+  }
+});
+
+describe('golden source fixtures', () => {
+  const sets = listFixtureSets();
+
+  // Every RSS/scraper source should have a captured set; the missing ones stay visible here
+  const captured = new Set(sets.map(set => set.source));
+  for (const plugin of capturable.filter(p => !captured.has(p.name))) {
+    it.todo(`${plugin.name}: capture a fixture set with CAPTURE_FIXTURES=${plugin.name} npm run fixtures:capture`);
+  }
+
+  for (const set of sets) {
+    it(`${set.source}@${set.version} should match golden.json`, async () => {
+      vi.stubGlobal('fetch', replayFetch(set));
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const actual = await runSource(getSource(set.source), set.manifest.jobLimit);
+      const golden = readGolden(set);
+
+      if (UPDATE_GOLDEN) {
+        writeGolden(set, actual);
+        return;
+      }
+      expect(golden, `No golden.json in ${set.dir} — run npm run fixtures:update`).not.toBeNull();
+      const changes = diffGolden(golden!, actual);
+      expect(changes, formatFieldChanges(set, changes)).toEqual([]);
+    });
+  }
+});
+
+describe('replayFetch', () => {
+  it('should answer recorded URLs from their files and anything else with a 404', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fixture-'));
+    try {
+      writeFileSync(join(dir, '001.html'), '<ul class="jobs"></ul>');
+      const set: FixtureSet = {
+        source: 'yemenhr', version: '2026-10-19', dir,
+        manifest: {
+          source: 'yemenhr', capturedAt: '2026-10-19T08:00:00.000Z', jobLimit: 5,
+          responses: [{ url: 'https://yemenhr.com/jobs', status: 200, contentType: 'text/html', file: '001.html' }],
+        },
+      };
+      const replay = replayFetch(set);
+
+      const listing = await replay('https://yemenhr.com/jobs');
+      expect(await listing.text()).toBe('<ul class="jobs"></ul>');
+      expect(listing.headers.get('Content-Type')).toBe('text/html');
+      expect((await replay('https://yemenhr.com/jobs/1')).status).toBe(404);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('diffGolden', () => {
+  const job = {
+    title: 'Project Manager', company: 'ACTED', link: 'https://yemenhr.com/jobs/pm', description: 'Manage projects',
+    imageUrl: null, location: "Sana'a", source: 'yemenhr',
+  };
+
+  it('should list each changed field and ignore undefined ones', () => {
+    const changes = diffGolden(
+      { 'yemenhr:pm': job },
+      { 'yemenhr:pm': { ...job, company: 'Unknown Company', location: undefined, deadline: undefined } },
+    );
+
+    expect(changes).toEqual([
+      { jobId: 'yemenhr:pm', field: 'company', expected: 'ACTED', actual: 'Unknown Company' },
+      { jobId: 'yemenhr:pm', field: 'location', expected: "Sana'a", actual: undefined },
+    ]);
+    expect(formatFieldChanges({ source: 'yemenhr', version: '2026-10-19' }, changes)).toBe([
+      'yemenhr@2026-10-19: 2 fields changed',
+      '  yemenhr:pm company: "ACTED" → "Unknown Company"',
+      '  yemenhr:pm location: "Sana\'a" → undefined',
+    ].join('\n'));
+  });
+
+  it('should report jobs the listing no longer yields', () => {
+    expect(diffGolden({ 'yemenhr:pm': job }, {})).toEqual([
+      { jobId: 'yemenhr:pm', field: '(job)', expected: 'present', actual: 'absent' },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for per-source health tracking and quarantine.
+ * Run with: npm test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  assessSourceHealth, fieldNullRates, parseQuarantineAfter, recordSourceHealth, formatSourceHealthHistory,
+} from '../src/services/source-health';
+import { createMockD1, createMockEnv } from './helpers/mock-d1';
+import type { Env, JobItem, SourceHealthCheckRecord, SourceRecord } from '../src/types';
+
+function check(overrides: Partial<SourceHealthCheckRecord>): SourceHealthCheckRecord {
+  return {
+    id: 1,
+    source: 'yemenhr',
+    run_id: null,
+    jobs_found: 8,
+    unchanged: 0,
+    error: null,
+    null_rates: JSON.stringify({ company: 0, image: 0.25, description: 1, pubDate: 0 }),
+    status: 'healthy',
+    reason: null,
+    checked_at: '2026-03-01 10:00:00',
+    ...overrides,
+  };
+}
+
+function makeJob(overrides: Partial<JobItem> = {}): JobItem {
+  return {
+    id: 'yemenhr:1', title: 'Accountant', company: 'CARE', link: 'https://yemenhr.com/jobs/1',
+    pubDate: '2026-03-01', imageUrl: 'https://yemenhr.com/logo.png', source: 'yemenhr', ...overrides,
+  };
+}
+
+const healthyHistory = Array.from({ length: 5 }, (_, i) => check({ id: 10 - i }));
+const empty = { jobsFound: 0, unchanged: false, nullRates: {} };
+
+describe('parseQuarantineAfter', () => {
+  it('should fall back to 6 for missing or invalid values', () => {
+    expect(parseQuarantineAfter(undefined)).toBe(6);
+    expect(parseQuarantineAfter('0')).toBe(6);
+    expect(parseQuarantineAfter('abc')).toBe(6);
+    expect(parseQuarantineAfter('3')).toBe(3);
+  });
+});
+
+describe('fieldNullRates', () => {
+  it('should count missing fields, treating the placeholder company as missing', () => {
+    const rates = fieldNullRates([
+      makeJob({ company: 'Unknown Company', imageUrl: null }),
+      makeJob({ description: 'Details' }),
+    ]);
+
+    expect(rates).toEqual({ company: 0.5, image: 0.5, description: 0.5, pubDate: 0 });
+    expect(fieldNullRates([])).toEqual({});
+  });
+});
+
+describe('assessSourceHealth', () => {
+  it('should flag empty listings on a source that usually has jobs', () => {
+    expect(assessSourceHealth(empty, healthyHistory, 6)).toMatchObject({ status: 'healthy', failingStreak: 1 });
+
+    const result = assessSourceHealth(empty, [check({ id: 11, jobs_found: 0 }), ...healthyHistory], 6);
+
+    expect(result).toEqual({
+      status: 'degraded',
+      reason: '2 runs in a row with no jobs (usually 8.0)',
+      failingStreak: 2,
+      avgJobs: 8,
+    });
+  });
+
+  it('should not count empty runs of a quiet source, only its errors', () => {
+    const quiet = Array.from({ length: 5 }, (_, i) => check({ id: 10 - i, jobs_found: i === 0 ? 1 : 0 }));
+
+    expect(assessSourceHealth(empty, [check({ id: 11, jobs_found: 0 }), ...quiet], 6).status).toBe('healthy');
+    expect(assessSourceHealth({ ...empty, error: 'HTTP 503' }, [check({ id: 11, jobs_found: 0, error: 'HTTP 503' }), ...quiet], 6))
+      .toMatchObject({ status: 'degraded', reason: '2 failed fetches in a row: HTTP 503' });
+  });
+
+  it('should quarantine after the configured number of failing runs', () => {
+    const errors = [check({ id: 12, error: 'timeout', jobs_found: 0 }), check({ id: 11, error: 'timeout', jobs_found: 0 })];
+
+    expect(assessSourceHealth({ ...empty, error: 'timeout' }, [...errors, ...healthyHistory], 3))
+      .toMatchObject({ status: 'quarantined', failingStreak: 3 });
+  });
+
+  it('should skip unchanged listings and restart the streak after a quarantine', () => {
+    const withUnchanged = [check({ id: 12, jobs_found: 0, unchanged: 1 }), check({ id: 11, jobs_found: 0 }), ...healthyHistory];
+    expect(assessSourceHealth(empty, withUnchanged, 6)).toMatchObject({ status: 'degraded', failingStreak: 2 });
+    // An unchanged listing carries the streak over
+    expect(assessSourceHealth({ ...empty, unchanged: true }, withUnchanged, 6).failingStreak).toBe(1);
+
+    const released = [check({ id: 11, jobs_found: 0, error: 'timeout', status: 'quarantined' }), ...healthyHistory];
+    expect(assessSourceHealth({ ...empty, error: 'timeout' }, released, 2)).toMatchObject({ status: 'healthy', failingStreak: 1 });
+  });
+
+  it('should flag a field that is suddenly missing from nearly every job', () => {
+    const current = { jobsFound: 8, unchanged: false, nullRates: { company: 1, image: 0.25, description: 1, pubDate: 0 } };
+
+    expect(assessSourceHealth(current, healthyHistory, 6)).toMatchObject({
+      status: 'degraded',
+      reason: 'company missing on 100% of jobs (usually 0%)',
+    });
+    // Fields that are usually missing (descriptions come from detail pages) don't count
+    expect(assessSourceHealth({ ...current, nullRates: { description: 1 } }, healthyHistory, 6).status).toBe('healthy');
+  });
+
+  it('should not judge empty runs without enough history', () => {
+    const result = assessSourceHealth(empty, [check({ id: 2, jobs_found: 0 }), check({ id: 1 })], 6);
+
+    expect(result).toMatchObject({ status: 'healthy', failingStreak: 0, avgJobs: null });
+  });
+});
+
+describe('recordSourceHealth', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ ok: true, result: { message_id: 1 } }))));
+    mock = createMockD1();
+    env = { ...createMockEnv(mock.db), ADMIN_CHAT_ID: '42', SOURCE_QUARANTINE_AFTER: '2' };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should save the check, quarantine the source and tell the admin', async () => {
+    mock.setAllResult([check({ id: 11, jobs_found: 0, error: 'HTTP 500' }), ...healthyHistory]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await recordSourceHealth(env, [{ source: 'yemenhr', jobs: [], error: 'HTTP 500', unchanged: false }], 7);
+
+    const insert = mock.calls.find(c => c.sql.includes('INSERT INTO source_health_checks'));
+    expect(insert?.params).toEqual([
+      'yemenhr', 7, 0, 0, 'HTTP 500', '{}', 'quarantined', '2 failed fetches in a row: HTTP 500',
+    ]);
+    const quarantine = mock.calls.find(c => c.sql.includes('quarantined_at'));
+    expect(quarantine?.params).toEqual(['2 failed fetches in a row: HTTP 500', 'yemenhr']);
+    const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+    expect(body.chat_id).toBe('42');
+    expect(body.text).toContain('Source quarantined: yemenhr');
+  });
+
+  it('should stay quiet while the status is unchanged', async () => {
+    mock.setAllResult(healthyHistory);
+
+    await recordSourceHealth(env, [{ source: 'yemenhr', jobs: [makeJob()], unchanged: false }]);
+
+    expect(mock.calls.some(c => c.sql.includes('INSERT INTO source_health_checks'))).toBe(true);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should announce a recovery', async () => {
+    mock.setAllResult([check({ id: 11, jobs_found: 0, status: 'degraded' }), ...healthyHistory]);
+
+    await recordSourceHealth(env, [{ source: 'yemenhr', jobs: [makeJob()], unchanged: false }]);
+
+    const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+    expect(body.text).toContain('Source recovered: yemenhr');
+  });
+});
+
+describe('formatSourceHealthHistory', () => {
+  it('should show the quarantine, the last success and recent runs', () => {
+    const source = { id: 'yemenhr', display_name: 'Yemen HR', quarantined_at: '2026-03-02 10:00:00', quarantine_reason: '6 failed fetches in a row: HTTP 500' } as SourceRecord;
+    const text = formatSourceHealthHistory(source, [
+      check({ id: 12, jobs_found: 0, error: 'HTTP 500', status: 'quarantined', reason: '6 failed fetches in a row: HTTP 500', checked_at: '2026-03-02 10:00:00' }),
+      check({ id: 11, checked_at: '2026-03-01 10:00:00' }),
+    ], '2026-03-01 09:00:00');
+
+    expect(text).toContain('🚫 Quarantined 2026-03-02 10:00:00');
+    expect(text).toContain('/source enable yemenhr');
+    expect(text).toContain('Last jobs found: 2026-03-01 10:00:00 · last post: 2026-03-01 09:00:00');
+    expect(text).toContain('❌ HTTP 500');
+    expect(text).toContain('8 jobs');
+  });
+});
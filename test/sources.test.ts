@@ -98,7 +98,7 @@ describe('YemenHRPlugin (via ScraperPlugin)', () => {
     const jobs = await plugin.fetchJobs();
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('project-manager-acted-sanaa-14c38515');
+    expect(jobs[0].id).toBe('yemenhr:project-manager-acted-sanaa-14c38515');
     expect(jobs[0].title).toBe('Project Manager');
     expect(jobs[0].company).toBe('ACTED');
     expect(jobs[0].link).toBe('https://yemenhr.com/jobs/project-manager-acted-sanaa-14c38515');
@@ -295,7 +295,7 @@ describe('ReliefWebPlugin (via RSSPlugin)', () => {
     const jobs = await plugin.fetchJobs();
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('rw-4197376');
+    expect(jobs[0].id).toBe('reliefweb:4197376');
     expect(jobs[0].title).toBe('Humanitarian Adviser Yemen');
     expect(jobs[0].company).toBe('Norwegian Refugee Council');
     expect(jobs[0].link).toBe('https://reliefweb.int/job/4197376/humanitarian-adviser-yemen');
@@ -535,7 +535,7 @@ describe('EOIPlugin (via ScraperPlugin)', () => {
     const jobs = await plugin.fetchJobs();
 
     expect(jobs).toHaveLength(1);
-    expect(jobs[0].id).toBe('eoi-12345');
+    expect(jobs[0].id).toBe('eoi:12345');
     expect(jobs[0].title).toBe('Data Analyst');
     expect(jobs[0].company).toBe('UNICEF');
     expect(jobs[0].link).toBe('https://eoi-ye.com/jobs/12345/');
@@ -0,0 +1,161 @@
+/**
+ * Tests for pipeline filter/transform stages.
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runStages, loadStages, validateStageSetting, type ConfiguredStage } from '../src/services/stages';
+import { createMockEnv } from './helpers/mock-d1';
+import type { ProcessedJob } from '../src/types';
+
+const job: ProcessedJob = {
+  title: 'Senior  Project Officer - Urgent',
+  company: 'Acme Recruiting',
+  link: 'https://example.com/job/1',
+  description: 'Manage project activities in the field and report to the program manager.',
+  imageUrl: null,
+  location: "Sana'a, Yemen",
+};
+
+/** D1 stub that serves settings rows by key */
+function settingsDB(settings: Record<string, string>): D1Database {
+  return {
+    prepare: () => ({
+      bind: (key: string) => ({
+        first: async () => (key in settings ? { value: settings[key] } : null),
+      }),
+    }),
+  } as unknown as D1Database;
+}
+
+describe('runStages', () => {
+  it('should keep the job when no stages are configured', () => {
+    const result = runStages(job, []);
+    expect(result).toEqual({ ok: true, job });
+  });
+
+  it('should reject by keyword (case-insensitive) and name the stage', () => {
+    const stages: ConfiguredStage[] = [{ name: 'keyword-blocklist', config: { keywords: ['urgent'] } }];
+    const result = runStages(job, stages);
+    expect(result).toEqual({ ok: false, stage: 'keyword-blocklist', reason: 'keyword "urgent"' });
+  });
+
+  it('should reject blocked companies by exact match only', () => {
+    const block: ConfiguredStage[] = [{ name: 'company-blocklist', config: { companies: ['acme recruiting'] } }];
+    const partial: ConfiguredStage[] = [{ name: 'company-blocklist', config: { companies: ['acme'] } }];
+    expect(runStages(job, block).ok).toBe(false);
+    expect(runStages(job, partial).ok).toBe(true);
+  });
+
+  it('should reject short descriptions', () => {
+    const stages: ConfiguredStage[] = [{ name: 'min-description-length', config: { minWords: 30 } }];
+    const result = runStages(job, stages);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toContain('min 30');
+  });
+
+  it('should accept Yemen locations and reject others', () => {
+    const stages: ConfiguredStage[] = [{ name: 'yemen-location', config: { allowMissing: true, extraPlaces: [] } }];
+    expect(runStages(job, stages).ok).toBe(true);
+    expect(runStages({ ...job, location: 'عدن' }, stages).ok).toBe(true);
+    expect(runStages({ ...job, location: 'Amman, Jordan' }, stages).ok).toBe(false);
+    expect(runStages({ ...job, location: undefined }, stages).ok).toBe(true);
+  });
+
+  it('should rewrite titles and pass the result to later stages', () => {
+    const stages: ConfiguredStage[] = [
+      { name: 'title-rewrite', config: { rules: [{ pattern: '\\s*-\\s*urgent$', replacement: '', flags: 'i' }] } },
+      { name: 'keyword-blocklist', config: { keywords: ['urgent'] } },
+    ];
+    const result = runStages(job, stages);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.job.title).toBe('Senior Project Officer');
+    expect(job.title).toBe('Senior  Project Officer - Urgent'); // input untouched
+  });
+
+  it('should skip invalid rewrite patterns', () => {
+    const stages: ConfiguredStage[] = [{ name: 'title-rewrite', config: { rules: [{ pattern: '(', replacement: '' }] } }];
+    expect(runStages(job, stages).ok).toBe(true);
+  });
+});
+
+describe('loadStages', () => {
+  it('should return [] when no stages are configured', async () => {
+    const env = createMockEnv(settingsDB({}));
+    expect(await loadStages(env)).toEqual([]);
+  });
+
+  it('should load stages in order with config merged over defaults', async () => {
+    const env = createMockEnv(settingsDB({
+      'pipeline-stages': '["company-blocklist", "min-description-length"]',
+      'stage-company-blocklist': '{"companies": ["Spam Co"]}',
+    }));
+
+    const stages = await loadStages(env);
+
+    expect(stages).toEqual([
+      { name: 'company-blocklist', config: { companies: ['Spam Co'] } },
+      { name: 'min-description-length', config: { minWords: 30 } },
+    ]);
+  });
+
+  it('should skip unknown stages and ignore mistyped config fields', async () => {
+    const env = createMockEnv(settingsDB({
+      'pipeline-stages': '["nope", "keyword-blocklist"]',
+      'stage-keyword-blocklist': '{"keywords": "volunteer"}',
+    }));
+
+    const stages = await loadStages(env);
+
+    expect(stages).toEqual([{ name: 'keyword-blocklist', config: { keywords: [] } }]);
+  });
+
+  it('should ignore lists with non-string entries and rules that cannot run', async () => {
+    const env = createMockEnv(settingsDB({
+      'pipeline-stages': '["company-blocklist", "title-rewrite"]',
+      'stage-company-blocklist': '{"companies": [123]}',
+      'stage-title-rewrite': '{"rules": [{"pattern": "("}]}',
+    }));
+
+    const stages = await loadStages(env);
+
+    expect(stages).toEqual([
+      { name: 'company-blocklist', config: { companies: [] } },
+      { name: 'title-rewrite', config: { rules: [] } },
+    ]);
+    expect(runStages(job, stages).ok).toBe(true);
+  });
+
+  it('should default a missing rewrite replacement to an empty string', async () => {
+    const env = createMockEnv(settingsDB({
+      'pipeline-stages': '["title-rewrite"]',
+      'stage-title-rewrite': '{"rules": [{"pattern": "\\\\s*-\\\\s*urgent$", "flags": "i"}]}',
+    }));
+
+    const stages = await loadStages(env);
+    const result = runStages(job, stages);
+
+    expect(result.ok && result.job.title).toBe('Senior Project Officer');
+  });
+
+  it('should return [] for a malformed stage list', async () => {
+    const env = createMockEnv(settingsDB({ 'pipeline-stages': '{bad' }));
+    expect(await loadStages(env)).toEqual([]);
+  });
+});
+
+describe('validateStageSetting', () => {
+  it('should reject stage configs that would not run', () => {
+    expect(validateStageSetting('stage-company-blocklist', '{"companies": [123]}')).toBe('Stage company-blocklist: invalid "companies"');
+    expect(validateStageSetting('stage-title-rewrite', '{"rules": [{"pattern": "(", "replacement": ""}]}')).toContain('invalid "rules"');
+    expect(validateStageSetting('stage-title-rewrite', '{"rules": [{"pattern": "x", "replacement": 1}]}')).toContain('invalid "rules"');
+    expect(validateStageSetting('stage-keyword-blocklist', '["volunteer"]')).toBe('Config must be a JSON object.');
+    expect(validateStageSetting('pipeline-stages', '["nope"]')).toContain('array of stage names');
+  });
+
+  it('should accept valid stage settings and leave other keys alone', () => {
+    expect(validateStageSetting('stage-title-rewrite', '{"rules": [{"pattern": "^Re:\\\\s*"}]}')).toBeNull();
+    expect(validateStageSetting('pipeline-stages', '["title-rewrite"]')).toBeNull();
+    expect(validateStageSetting('ai-model', 'not json')).toBeNull();
+  });
+});
@@ -4,7 +4,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { isJobPosted, markJobAsPosted, getPostedJob } from '../src/services/storage';
+import { isJobPosted, markJobAsPosted, getPostedJob, rewriteKVJobIds } from '../src/services/storage';
+import { namespaceLegacyJobId } from '../src/services/job-ids';
 import type { Env, PostedJobRecord } from '../src/types';
 
 // Create mock KV namespace
@@ -139,3 +140,62 @@ describe('getPostedJob', () => {
     expect(result).toBeNull();
   });
 });
+
+describe('rewriteKVJobIds', () => {
+  // Every key the tests can create, in KV's lexicographic order
+  const KNOWN_KEYS = ['dedup:a', 'dedup:b', 'dedup:c', 'job:eoi-1', 'job:eoi:1', 'job:eoi:2', 'job:slug-x', 'job:yemenhr:slug-x'];
+  let mockKV: KVNamespace;
+  let mockEnv: Env;
+
+  beforeEach(async () => {
+    mockKV = createMockKV();
+    // Lists the store in key order, one page of `limit` keys, cursor = last key returned
+    vi.mocked(mockKV.list).mockImplementation((async (opts: KVNamespaceListOptions) => {
+      const names: string[] = [];
+      for (const key of KNOWN_KEYS) {
+        if (key.startsWith(opts.prefix ?? '') && (await mockKV.get(key)) !== null) names.push(key);
+      }
+      const start = opts.cursor ? names.indexOf(opts.cursor) + 1 : 0;
+      const page = names.slice(start, start + (opts.limit ?? 1000));
+      const complete = start + page.length >= names.length;
+      return { keys: page.map(name => ({ name })), list_complete: complete, cursor: complete ? '' : page[page.length - 1] };
+    }) as unknown as KVNamespace['list']);
+    mockEnv = createMockEnv(mockKV);
+
+    await mockKV.put('job:eoi-1', '{"title":"A"}');
+    await mockKV.put('job:slug-x', '{"title":"B"}');
+    await mockKV.put('job:eoi:2', '{"title":"C"}');
+    await mockKV.put('dedup:a', JSON.stringify({ jobId: 'eoi-1', source: 'eoi' }));
+    await mockKV.put('dedup:b', '2025-01-15T10:00:00.000Z');
+    await mockKV.put('dedup:c', JSON.stringify({ jobId: 'eoi:2' }));
+  });
+
+  it('should move job keys and rewrite dedup entries', async () => {
+    const result = await rewriteKVJobIds(mockEnv, namespaceLegacyJobId);
+
+    expect(result).toEqual({ jobKeys: 2, dedupKeys: 1, cursor: null });
+    expect(await mockKV.get('job:eoi-1')).toBeNull();
+    expect(await mockKV.get('job:eoi:1')).toBe('{"title":"A"}');
+    expect(await mockKV.get('job:yemenhr:slug-x')).toBe('{"title":"B"}');
+    expect(await mockKV.get('job:eoi:2')).toBe('{"title":"C"}');
+    expect(JSON.parse((await mockKV.get('dedup:a'))!)).toEqual({ jobId: 'eoi:1', source: 'eoi' });
+    expect(await mockKV.get('dedup:b')).toBe('2025-01-15T10:00:00.000Z');
+  });
+
+  it('should stop at the operation budget and continue from the cursor', async () => {
+    const first = await rewriteKVJobIds(mockEnv, namespaceLegacyJobId, { maxOps: 8 });
+    expect(first.cursor).not.toBeNull();
+
+    let cursor = first.cursor;
+    let total = first.jobKeys + first.dedupKeys;
+    for (let i = 0; i < 10 && cursor; i++) {
+      const next = await rewriteKVJobIds(mockEnv, namespaceLegacyJobId, { cursor, maxOps: 8 });
+      total += next.jobKeys + next.dedupKeys;
+      cursor = next.cursor;
+    }
+
+    expect(cursor).toBeNull();
+    expect(total).toBe(3);
+    expect(JSON.parse((await mockKV.get('dedup:a'))!).jobId).toBe('eoi:1');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getJobIdAliases, getKnownJobIds, addJobIdAlias, resolveJobIdAliases } from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env, JobItem } from '../../src/types';
+
+function makeJob(id: string, link: string): JobItem {
+  return { id, title: 'Finance Officer', company: 'CARE', link, pubDate: '', imageUrl: null, source: 'yemenhr' };
+}
+
+describe('D1 Job ID Aliases', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('getJobIdAliases', () => {
+    it('should query in chunks and map alias to job ID', async () => {
+      mock.setAllResult([{ alias: 'eoi-1', job_id: 'eoi:1' }]);
+      const ids = Array.from({ length: 60 }, (_, i) => `eoi-${i}`);
+
+      const aliases = await getJobIdAliases(env, ids);
+
+      expect(aliases.get('eoi-1')).toBe('eoi:1');
+      expect(mock.calls).toHaveLength(2);
+      expect(mock.calls[0].params).toHaveLength(50);
+      expect(mock.calls[1].params).toHaveLength(10);
+    });
+  });
+
+  describe('getKnownJobIds', () => {
+    it('should check both jobs and aliases', async () => {
+      mock.setAllResult([{ id: 'yemenhr:a' }]);
+
+      const known = await getKnownJobIds(env, ['yemenhr:a', 'yemenhr:b']);
+
+      expect([...known]).toEqual(['yemenhr:a']);
+      expect(mock.calls.map(c => c.sql)).toEqual([
+        expect.stringContaining('FROM jobs WHERE id IN (?, ?)'),
+        expect.stringContaining('FROM job_id_aliases WHERE alias IN (?, ?)'),
+      ]);
+    });
+  });
+
+  describe('addJobIdAlias', () => {
+    it('should keep an existing alias', async () => {
+      await addJobIdAlias(env, 'yemenhr:new-slug', 'yemenhr:old-slug', 'yemenhr');
+
+      expect(mock.calls[0].sql).toContain('INSERT OR IGNORE INTO job_id_aliases');
+      expect(mock.calls[0].params).toEqual(['yemenhr:new-slug', 'yemenhr:old-slug', 'yemenhr']);
+    });
+  });
+
+  describe('resolveJobIdAliases', () => {
+    it('should rename a job whose link belongs to an archived job', async () => {
+      // Alias lookup and link lookup both see this result
+      mock.setAllResult([{ id: 'yemenhr:old-slug', title: 'Finance Officer', source_url: 'https://yemenhr.com/jobs/a' }]);
+      const jobs = [makeJob('yemenhr:new-slug', 'https://yemenhr.com/jobs/a')];
+
+      const renamed = await resolveJobIdAliases(env, jobs);
+
+      expect(renamed).toBe(1);
+      expect(jobs[0].id).toBe('yemenhr:old-slug');
+      const insert = mock.calls.find(c => c.sql.includes('INSERT OR IGNORE INTO job_id_aliases'));
+      expect(insert?.params).toEqual(['yemenhr:new-slug', 'yemenhr:old-slug', 'yemenhr']);
+    });
+
+    it('should not alias a different vacancy that shares the link', async () => {
+      mock.setAllResult([{ id: 'yemenhr:old-slug', title: 'Driver', source_url: 'https://yemenhr.com/apply' }]);
+      const jobs = [makeJob('yemenhr:new-slug', 'https://yemenhr.com/apply')];
+
+      expect(await resolveJobIdAliases(env, jobs)).toBe(0);
+      expect(jobs[0].id).toBe('yemenhr:new-slug');
+      expect(mock.calls.some(c => c.sql.includes('INSERT'))).toBe(false);
+    });
+
+    it('should leave jobs already archived under their own ID', async () => {
+      mock.setAllResult([{ id: 'yemenhr:a', title: 'Finance Officer', source_url: 'https://yemenhr.com/jobs/a' }]);
+      const jobs = [makeJob('yemenhr:a', 'https://yemenhr.com/jobs/a')];
+
+      expect(await resolveJobIdAliases(env, jobs)).toBe(0);
+      expect(jobs[0].id).toBe('yemenhr:a');
+    });
+
+    it('should not record aliases in dry runs', async () => {
+      mock.setAllResult([{ id: 'yemenhr:old-slug', title: 'Finance Officer', source_url: 'https://yemenhr.com/jobs/a' }]);
+      const jobs = [makeJob('yemenhr:new-slug', 'https://yemenhr.com/jobs/a')];
+
+      await resolveJobIdAliases(env, jobs, { dryRun: true });
+
+      expect(jobs[0].id).toBe('yemenhr:old-slug');
+      expect(mock.calls.some(c => c.sql.includes('INSERT'))).toBe(false);
+    });
+  });
+});
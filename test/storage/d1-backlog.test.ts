@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { saveDeferredJob, getDeferredJobs, getRecentlyDeferredIds } from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env, JobItem } from '../../src/types';
+
+const job: JobItem = {
+  id: 'rw-123',
+  title: 'Project Officer',
+  company: 'UNICEF',
+  link: 'https://reliefweb.int/job/123',
+  pubDate: '2026-02-10T08:00:00Z',
+  imageUrl: null,
+  source: 'reliefweb',
+};
+
+describe('D1 Backlog', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('saveDeferredJob', () => {
+    it('should insert deferred job with raw payload', async () => {
+      const added = await saveDeferredJob(env, job, 7);
+
+      expect(added).toBe(true);
+      expect(mock.calls[0].sql).toContain('INSERT OR IGNORE');
+      expect(mock.calls[0].sql).toContain("'deferred'");
+      expect(mock.calls[0].params[4]).toBe(7);
+      expect(mock.calls[0].params[5]).toBe('reliefweb');
+      expect(JSON.parse(mock.calls[0].params[6] as string)).toEqual(job);
+    });
+
+    it('should return false when job is already archived', async () => {
+      mock.setRunResult(0);
+
+      const added = await saveDeferredJob(env, job);
+
+      expect(added).toBe(false);
+    });
+  });
+
+  describe('getDeferredJobs', () => {
+    it('should load backlog oldest first for the given sources', async () => {
+      mock.setAllResult([{ id: 'rw-123', raw_payload: JSON.stringify(job) }]);
+
+      const result = await getDeferredJobs(env, ['reliefweb', 'yemenhr']);
+
+      expect(result).toEqual([job]);
+      expect(mock.calls[0].sql).toContain("status = 'deferred'");
+      expect(mock.calls[0].sql).toContain('ORDER BY scraped_at ASC');
+      expect(mock.calls[0].params).toEqual(['reliefweb', 'yemenhr']);
+    });
+
+    it('should skip rows with malformed payload', async () => {
+      mock.setAllResult([
+        { id: 'bad', raw_payload: '{not json' },
+        { id: 'empty', raw_payload: null },
+        { id: 'rw-123', raw_payload: JSON.stringify(job) },
+      ]);
+
+      const result = await getDeferredJobs(env, ['reliefweb']);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe('rw-123');
+    });
+
+    it('should skip the query when no sources are given', async () => {
+      const result = await getDeferredJobs(env, []);
+
+      expect(result).toEqual([]);
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('getRecentlyDeferredIds', () => {
+    it('should ask for backlog rows newer than the window', async () => {
+      mock.setAllResult([{ id: 'rw-123' }]);
+
+      const recent = await getRecentlyDeferredIds(env, ['rw-123', 'rw-124'], 45);
+
+      expect([...recent]).toEqual(['rw-123']);
+      expect(mock.calls[0].sql).toContain("scraped_at > datetime('now', ?)");
+      expect(mock.calls[0].params).toEqual(['-45 minutes', 'rw-123', 'rw-124']);
+    });
+
+    it('should not query for an empty list', async () => {
+      expect((await getRecentlyDeferredIds(env, [], 45)).size).toBe(0);
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+});
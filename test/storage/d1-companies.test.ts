@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createCompany, updateCompany, addCompanyAlias, removeCompanyAlias,
+  recordUnmatchedCompanies, listUnmatchedCompanies,
+} from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env } from '../../src/types';
+
+describe('D1 Companies', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('createCompany', () => {
+    it('should insert the company and alias both names', async () => {
+      mock.setFirstResult({ id: 5 });
+
+      const id = await createCompany(env, { name_en: 'UNICEF', name_ar: 'منظمة اليونيسف' });
+
+      expect(id).toBe(5);
+      expect(mock.calls[0].params).toEqual(['UNICEF', 'منظمة اليونيسف', null]);
+      const aliases = mock.calls.filter(c => c.sql.includes('INSERT INTO company_aliases'));
+      expect(aliases.map(c => c.params)).toEqual([['unicef', 'UNICEF', 5], ['منظمه يونيسف', 'منظمة اليونيسف', 5]]);
+    });
+  });
+
+  describe('updateCompany', () => {
+    it('should only set provided fields', async () => {
+      const updated = await updateCompany(env, 5, { logo_url: 'https://example.org/logo.png' });
+
+      expect(updated).toBe(true);
+      expect(mock.calls[0].sql).toContain('logo_url = ?');
+      expect(mock.calls[0].sql).not.toContain('name_en');
+      expect(mock.calls[0].params).toEqual(['https://example.org/logo.png', 5]);
+    });
+
+    it('should return false for a missing company', async () => {
+      mock.setRunResult(0);
+
+      expect(await updateCompany(env, 99, { name_en: 'X' })).toBe(false);
+      expect(mock.calls.some(c => c.sql.includes('company_aliases'))).toBe(false);
+    });
+  });
+
+  describe('addCompanyAlias', () => {
+    it('should upsert the alias and clear it from the review list', async () => {
+      const key = await addCompanyAlias(env, 5, '  Save the Children International ');
+
+      expect(key).toBe('save children');
+      expect(mock.calls[0].sql).toContain('ON CONFLICT(alias_key)');
+      expect(mock.calls[0].params).toEqual(['save children', 'Save the Children International', 5]);
+      expect(mock.calls[1].sql).toContain('DELETE FROM unmatched_companies');
+      expect(mock.calls[1].params).toEqual(['save children']);
+    });
+
+    it('should reject aliases with nothing to match on', async () => {
+      expect(await addCompanyAlias(env, 5, '—')).toBeNull();
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('removeCompanyAlias', () => {
+    it('should delete by normalized key', async () => {
+      mock.setRunResult(0);
+
+      expect(await removeCompanyAlias(env, 'UNICEF!')).toBe(false);
+      expect(mock.calls[0].params).toEqual(['unicef']);
+    });
+  });
+
+  describe('recordUnmatchedCompanies', () => {
+    it('should upsert each name with a seen count', async () => {
+      await recordUnmatchedCompanies(env, [{ name: 'CARE Yemen', source: 'eoi', jobId: 'eoi-1' }]);
+
+      expect(mock.calls[0].sql).toContain('seen_count = seen_count + 1');
+      expect(mock.calls[0].params.slice(0, 4)).toEqual(['care yemen', 'CARE Yemen', 'eoi', 'eoi-1']);
+    });
+  });
+
+  describe('listUnmatchedCompanies', () => {
+    it('should order by frequency', async () => {
+      await listUnmatchedCompanies(env);
+
+      expect(mock.calls[0].sql).toContain('ORDER BY seen_count DESC');
+      expect(mock.calls[0].params).toEqual([20]);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  isJobPosted, isDuplicateJob, clearJobDedup, backfillDedupKeys, getDedupKeyCoverage, markJobAsPosted,
+  findDuplicateJob, saveDuplicateJob, releaseDuplicateJob, markDedupKey, markJobRepost, markJobMerged,
+} from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env, JobItem } from '../../src/types';
+
+describe('D1 Dedup', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+  let kvStore: Map<string, string>;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+    kvStore = new Map();
+    env.POSTED_JOBS = {
+      get: vi.fn(async (key: string) => kvStore.get(key) ?? null),
+      put: vi.fn(async (key: string, value: string) => { kvStore.set(key, value); }),
+    } as unknown as KVNamespace;
+  });
+
+  describe('isJobPosted', () => {
+    it('should answer from the KV cache without querying D1', async () => {
+      kvStore.set('job:eoi-1', '{}');
+
+      expect(await isJobPosted(env, 'eoi-1')).toBe(true);
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should fall through to D1 on a cache miss', async () => {
+      mock.setFirstResult({ hit: 1 });
+
+      expect(await isJobPosted(env, 'eoi-1')).toBe(true);
+      expect(mock.calls[0].sql).toContain('WHERE id = ? AND status IN');
+      expect(mock.calls[0].params).toEqual(['eoi-1', 'posted', 'skipped', 'duplicate', 'filtered', 'expired']);
+    });
+
+    it('should return false when neither store has the job', async () => {
+      expect(await isJobPosted(env, 'eoi-1')).toBe(false);
+    });
+
+    it('should skip KV when the cache is off', async () => {
+      env.DEDUP_KV_CACHE = 'off';
+      kvStore.set('job:eoi-1', '{}');
+
+      expect(await isJobPosted(env, 'eoi-1')).toBe(false);
+      expect(env.POSTED_JOBS.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isDuplicateJob', () => {
+    it('should look up posted rows by normalized key', async () => {
+      mock.setFirstResult({ hit: 1 });
+
+      expect(await isDuplicateJob(env, 'Social Worker!', 'MSF')).toBe(true);
+      expect(mock.calls[0].sql).toContain('WHERE dedup_key = ?');
+      expect(mock.calls[0].params).toEqual(['dedup:social worker:msf', 'posted', 'expired']);
+    });
+  });
+
+  describe('findDuplicateJob', () => {
+    it('should return the job recorded in the KV cache entry', async () => {
+      await markDedupKey(env, 'Driver', 'CARE', 'eoi-1', 'eoi');
+
+      const match = await findDuplicateJob(env, 'Driver', 'CARE');
+
+      expect(match).toEqual({ jobId: 'eoi-1', source: 'eoi', reason: 'exact', score: 1 });
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should ask D1 for the latest posting behind a timestamp-only cache entry', async () => {
+      kvStore.set('dedup:driver:care', '2026-01-01T00:00:00.000Z');
+      mock.setFirstResult({ id: 'rw-9', source: 'reliefweb' });
+
+      const match = await findDuplicateJob(env, 'Driver', 'CARE');
+
+      expect(match?.jobId).toBe('rw-9');
+      expect(mock.calls[0].sql).toContain('ORDER BY posted_at DESC');
+    });
+
+    it('should still report a cache hit D1 has no row for', async () => {
+      kvStore.set('dedup:driver:care', '2026-01-01T00:00:00.000Z');
+
+      expect(await findDuplicateJob(env, 'Driver', 'CARE')).toEqual({ jobId: null, source: null, reason: 'exact', score: 1 });
+    });
+
+    it('should return null when nothing matches', async () => {
+      expect(await findDuplicateJob(env, 'Driver', 'CARE')).toBeNull();
+    });
+  });
+
+  describe('saveDuplicateJob', () => {
+    it('should store the match and the job payload', async () => {
+      const job: JobItem = {
+        id: 'qtb-3', title: 'Driver', company: 'CARE', link: 'https://example.org/3',
+        pubDate: '2026-01-01', imageUrl: null, source: 'qtb',
+      };
+
+      await saveDuplicateJob(env, job, { jobId: 'eoi-1', source: 'eoi', reason: 'fuzzy', score: 0.9 }, 12);
+
+      const params = mock.calls[0].params;
+      expect(mock.calls[0].sql).toContain("'duplicate'");
+      expect(params.slice(0, 6)).toEqual(['qtb-3', 'Driver', 'CARE', 'https://example.org/3', 12, 'dedup:driver:care']);
+      expect(JSON.parse(params[6] as string)).toEqual(job);
+      expect(params.slice(7)).toEqual(['eoi-1', 'eoi', 'fuzzy', 0.9, 'qtb']);
+    });
+  });
+
+  describe('markJobRepost / markJobMerged', () => {
+    it('should link a repost to the earlier posting', async () => {
+      await markJobRepost(env, 'eoi-9', 'eoi-1');
+
+      expect(mock.calls[0].sql).toContain('SET repost_of = ?');
+      expect(mock.calls[0].params).toEqual(['eoi-1', 'eoi-9']);
+    });
+
+    it('should store merged sources as JSON', async () => {
+      await markJobMerged(env, 'yemenhr-5', ['eoi', 'reliefweb']);
+
+      expect(mock.calls[0].sql).toContain('SET merged_sources = ?');
+      expect(mock.calls[0].params).toEqual(['["eoi","reliefweb"]', 'yemenhr-5']);
+    });
+  });
+
+  describe('releaseDuplicateJob', () => {
+    it('should only delete duplicate rows', async () => {
+      expect(await releaseDuplicateJob(env, 'qtb-3')).toBe(true);
+      expect(mock.calls[0].sql).toContain("status = 'duplicate'");
+    });
+  });
+
+  describe('markJobAsPosted', () => {
+    it('should not write KV when the cache is off', async () => {
+      env.DEDUP_KV_CACHE = 'off';
+
+      await markJobAsPosted(env, 'eoi-1', 'Driver', 'CARE');
+
+      expect(env.POSTED_JOBS.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearJobDedup', () => {
+    it('should set handled rows to cleared', async () => {
+      expect(await clearJobDedup(env, 'eoi-1')).toBe(true);
+      expect(mock.calls[0].sql).toContain("SET status = 'cleared'");
+      expect(mock.calls[0].params[0]).toBe('eoi-1');
+    });
+
+    it('should report rows in other statuses', async () => {
+      mock.setRunResult(0);
+
+      expect(await clearJobDedup(env, 'eoi-1')).toBe(false);
+    });
+  });
+
+  describe('getDedupKeyCoverage', () => {
+    it('should count rows with and without keys', async () => {
+      mock.setFirstResult({ with_key: 40, missing: 2 });
+
+      expect(await getDedupKeyCoverage(env)).toEqual({ withKey: 40, missing: 2 });
+    });
+  });
+
+  describe('backfillDedupKeys', () => {
+    it('should key rows in batches until none are left', async () => {
+      mock.setAllResult([{ id: 'old-1', title: 'Driver', company: 'CARE' }, { id: 'old-2', title: 'Nurse', company: null }]);
+
+      const updated = await backfillDedupKeys(env, 2, 3);
+
+      // The mock returns a full batch every time, so all three batches run
+      expect(updated).toBe(6);
+      expect(mock.db.batch).toHaveBeenCalledTimes(3);
+      const updates = mock.calls.filter(c => c.sql.startsWith('UPDATE jobs SET dedup_key'));
+      expect(updates[0].params).toEqual(['dedup:driver:care', 'old-1']);
+      expect(updates[1].params).toEqual(['dedup:nurse:', 'old-2']);
+    });
+
+    it('should stop on a short batch', async () => {
+      mock.setAllResult([{ id: 'old-1', title: 'Driver', company: 'CARE' }]);
+
+      expect(await backfillDedupKeys(env, 500, 10)).toBe(1);
+      expect(mock.db.batch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
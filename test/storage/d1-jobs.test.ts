@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { saveJobOnFetch, updateJobStatus, listJobs, getJobFromDB, getDashboardStats } from '../../src/services/storage';
+import {
+  saveJobOnFetch, updateJobStatus, markJobFiltered, listJobs, getJobFromDB, getDashboardStats, getRecentPostings,
+  getJobStatuses, findDuplicateJob,
+} from '../../src/services/storage';
 import { createMockD1, createMockEnv } from '../helpers/mock-d1';
-import type { Env, ProcessedJob } from '../../src/types';
+import type { Env, JobItem, ProcessedJob } from '../../src/types';
 
 function makeJob(overrides: Partial<ProcessedJob> = {}): ProcessedJob {
   return {
@@ -15,6 +18,11 @@ function makeJob(overrides: Partial<ProcessedJob> = {}): ProcessedJob {
   };
 }
 
+/** The fetched listing a processed job came from */
+function listing(id: string, overrides: Partial<Pick<JobItem, 'title' | 'company'>> = {}): Pick<JobItem, 'id' | 'title' | 'company'> {
+  return { id, title: 'Test Engineer', company: 'TestCo', ...overrides };
+}
+
 describe('D1 Jobs', () => {
   let mock: ReturnType<typeof createMockD1>;
   let env: Env;
@@ -26,16 +34,26 @@ describe('D1 Jobs', () => {
 
   describe('saveJobOnFetch', () => {
     it('should insert job with fetched status', async () => {
-      await saveJobOnFetch(env, 'job-1', makeJob(), '<p>raw</p>', 'yemenhr', 42);
+      await saveJobOnFetch(env, listing('job-1'), makeJob(), '<p>raw</p>', 'yemenhr', 42);
 
       expect(mock.calls).toHaveLength(1);
-      expect(mock.calls[0].sql).toContain('INSERT OR IGNORE INTO jobs');
+      expect(mock.calls[0].sql).toContain('INSERT INTO jobs');
       expect(mock.calls[0].params[0]).toBe('job-1'); // id
       expect(mock.calls[0].params[1]).toBe('Test Engineer'); // title
     });
 
+    it('should only overwrite a deferred backlog row, keeping its status and age', async () => {
+      await saveJobOnFetch(env, listing('job-1'), makeJob(), '', 'yemenhr', 42);
+
+      const sql = mock.calls[0].sql;
+      expect(sql).toContain("WHERE jobs.status = 'deferred'");
+      const updates = sql.slice(sql.indexOf('DO UPDATE SET'));
+      expect(updates).not.toContain('status = excluded');
+      expect(updates).not.toContain('scraped_at');
+    });
+
     it('should use default source when not specified', async () => {
-      await saveJobOnFetch(env, 'job-2', makeJob(), '');
+      await saveJobOnFetch(env, listing('job-2'), makeJob(), '');
 
       // Source is the last param
       const params = mock.calls[0].params;
@@ -51,13 +69,41 @@ describe('D1 Jobs', () => {
       } as unknown as D1Database;
       env.JOBS_DB = failDb;
 
-      await expect(saveJobOnFetch(env, 'job-3', makeJob(), '')).resolves.toBeUndefined();
+      await expect(saveJobOnFetch(env, listing('job-3'), makeJob(), '')).resolves.toBeUndefined();
       expect(consoleSpy).toHaveBeenCalled();
       consoleSpy.mockRestore();
     });
 
+    it('should store a content hash of the processed fields', async () => {
+      await saveJobOnFetch(env, listing('job-5'), makeJob(), '');
+
+      expect(mock.calls[0].sql).toContain('content_hash');
+      // content_hash is third-to-last param
+      const params = mock.calls[0].params;
+      expect(params[params.length - 3]).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should store the title+company dedup key', async () => {
+      await saveJobOnFetch(env, listing('job-6'), makeJob(), '');
+
+      // dedup_key is fourth-to-last param
+      const params = mock.calls[0].params;
+      expect(params[params.length - 4]).toBe('dedup:test engineer:testco');
+    });
+
+    it('should key a rewritten title by the listing, as the duplicate lookup does', async () => {
+      env.DEDUP_KV_CACHE = 'off'; // D1 lookup only
+      const fetched = listing('job-7', { title: 'Test Engineer - Sana\'a (Re-advertised)' });
+      await saveJobOnFetch(env, fetched, makeJob({ title: 'Test Engineer' }), '');
+      await findDuplicateJob(env, fetched.title, fetched.company);
+
+      const [save, lookup] = mock.calls;
+      expect(save.params[1]).toBe('Test Engineer'); // The stored title is the rewritten one
+      expect(save.params[save.params.length - 4]).toBe(lookup.params[0]);
+    });
+
     it('should calculate word count from description', async () => {
-      await saveJobOnFetch(env, 'job-4', makeJob({ description: 'one two three' }), '');
+      await saveJobOnFetch(env, listing('job-4'), makeJob({ description: 'one two three' }), '');
 
       // word_count is second-to-last param
       const params = mock.calls[0].params;
@@ -101,6 +147,15 @@ describe('D1 Jobs', () => {
     });
   });
 
+  describe('markJobFiltered', () => {
+    it('should record the stage and reason', async () => {
+      await markJobFiltered(env, 'job-1', 'keyword-blocklist', 'keyword "volunteer"');
+
+      expect(mock.calls[0].sql).toContain("status = 'filtered'");
+      expect(mock.calls[0].params).toEqual(['keyword-blocklist', 'keyword "volunteer"', 'job-1']);
+    });
+  });
+
   describe('listJobs', () => {
     it('should return paginated results with defaults', async () => {
       mock.setFirstResult({ total: 50 });
@@ -132,6 +187,14 @@ describe('D1 Jobs', () => {
       expect(mock.calls[0].params[0]).toBe('%engineer%');
     });
 
+    it('should order failed jobs by next retry', async () => {
+      mock.setFirstResult({ total: 0 });
+
+      await listJobs(env, { status: 'failed' });
+
+      expect(mock.calls[1].sql).toContain('ORDER BY next_attempt_at ASC');
+    });
+
     it('should clamp page to minimum 1', async () => {
       mock.setFirstResult({ total: 0 });
 
@@ -160,9 +223,35 @@ describe('D1 Jobs', () => {
     });
   });
 
+  describe('getJobStatuses', () => {
+    it('should map IDs to statuses, querying in chunks of 50', async () => {
+      mock.setAllResult([{ id: 'job-3', status: 'posted' }]);
+      const ids = Array.from({ length: 60 }, (_, i) => `job-${i}`);
+
+      const statuses = await getJobStatuses(env, ids);
+
+      expect(mock.calls).toHaveLength(2);
+      expect(mock.calls[1].params).toHaveLength(10);
+      expect(statuses.get('job-3')).toBe('posted');
+      expect(statuses.has('job-4')).toBe(false);
+    });
+  });
+
+  describe('getRecentPostings', () => {
+    it('should query posted jobs since the cutoff', async () => {
+      mock.setAllResult([{ id: 'eoi-1', title: 'Driver', company: null, source: 'eoi' }]);
+
+      const result = await getRecentPostings(env, '2026-01-01T00:00:00.000Z');
+
+      expect(mock.calls[0].sql).toContain("status = 'posted' AND posted_at >= ?");
+      expect(mock.calls[0].params).toEqual(['2026-01-01T00:00:00.000Z', 2000]);
+      expect(result).toEqual([{ id: 'eoi-1', title: 'Driver', company: '', source: 'eoi' }]);
+    });
+  });
+
   describe('getDashboardStats', () => {
     it('should aggregate stats from multiple queries', async () => {
-      // getDashboardStats uses Promise.all with 4 parallel queries
+      // getDashboardStats uses Promise.all with 5 parallel queries
       // Our simple mock returns the same result for all, but we verify the shape
       mock.setFirstResult({ total: 100 });
       mock.setAllResult([]);
@@ -172,6 +261,7 @@ describe('D1 Jobs', () => {
       expect(result).toHaveProperty('totalJobs');
       expect(result).toHaveProperty('byStatus');
       expect(result).toHaveProperty('bySource');
+      expect(result).toHaveProperty('backlog');
       expect(result).toHaveProperty('recentRuns');
     });
   });
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { acquireRunLease, renewRunLease, releaseRunLease } from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env } from '../../src/types';
+
+describe('D1 Run Lease', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('acquireRunLease', () => {
+    it('should take the lease with a conditional upsert', async () => {
+      const result = await acquireRunLease(env, 'holder-1', 42, 60_000);
+
+      expect(result).toEqual({ acquired: true });
+      expect(mock.calls).toHaveLength(1);
+      expect(mock.calls[0].sql).toContain('ON CONFLICT(name) DO UPDATE');
+      expect(mock.calls[0].sql).toContain('WHERE run_lease.expires_at <= ?');
+      expect(mock.calls[0].params.slice(0, 3)).toEqual(['pipeline', 'holder-1', 42]);
+
+      const acquiredAt = Date.parse(mock.calls[0].params[3] as string);
+      const expiresAt = Date.parse(mock.calls[0].params[4] as string);
+      expect(expiresAt - acquiredAt).toBe(60_000);
+    });
+
+    it('should report the holding run when the lease is taken', async () => {
+      mock.setRunResult(0);
+      mock.setFirstResult({ run_id: 41 });
+
+      const result = await acquireRunLease(env, 'holder-2', 42);
+
+      expect(result).toEqual({ acquired: false, heldBy: 41 });
+      expect(mock.calls[1].sql).toContain('SELECT run_id FROM run_lease');
+    });
+
+    it('should report null holder when lease row has no run', async () => {
+      mock.setRunResult(0);
+      mock.setFirstResult(null);
+
+      const result = await acquireRunLease(env, 'holder-2');
+
+      expect(result).toEqual({ acquired: false, heldBy: null });
+    });
+  });
+
+  describe('renewRunLease', () => {
+    it('should extend the lease for the holder', async () => {
+      const ok = await renewRunLease(env, 'holder-1');
+
+      expect(ok).toBe(true);
+      expect(mock.calls[0].sql).toContain('UPDATE run_lease SET expires_at');
+      expect(mock.calls[0].params.slice(1)).toEqual(['pipeline', 'holder-1']);
+    });
+
+    it('should return false when the lease was lost', async () => {
+      mock.setRunResult(0);
+
+      expect(await renewRunLease(env, 'holder-1')).toBe(false);
+    });
+  });
+
+  describe('releaseRunLease', () => {
+    it('should delete only our own lease', async () => {
+      await releaseRunLease(env, 'holder-1');
+
+      expect(mock.calls[0].sql).toContain('DELETE FROM run_lease');
+      expect(mock.calls[0].params).toEqual(['pipeline', 'holder-1']);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  recordJobFailure, getDueRetries, listRetryQueue, scheduleRetryNow, giveUpRetry, getRetryQueueIds,
+  getStuckFetchedIds, requeueStuckJobs,
+} from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env } from '../../src/types';
+
+describe('D1 Retries', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('recordJobFailure', () => {
+    it('should increment retry count and schedule next attempt', async () => {
+      mock.setFirstResult({ retry_count: 1 });
+
+      const plan = await recordJobFailure(env, 'job-1', 'Telegram send failed');
+
+      expect(plan?.status).toBe('failed');
+      expect(plan?.retryCount).toBe(2);
+      expect(mock.calls[1].sql).toContain('UPDATE jobs SET status');
+      expect(mock.calls[1].params[0]).toBe('failed');
+      expect(mock.calls[1].params[1]).toBe(2);
+      expect(mock.calls[1].params[3]).toBe('Telegram send failed');
+      expect(mock.calls[1].params[4]).toBe('job-1');
+    });
+
+    it('should mark job dead at the retry cap', async () => {
+      mock.setFirstResult({ retry_count: 4 });
+
+      const plan = await recordJobFailure(env, 'job-1', 'boom');
+
+      expect(plan?.status).toBe('dead');
+      expect(mock.calls[1].params[0]).toBe('dead');
+      expect(mock.calls[1].params[2]).toBeNull();
+    });
+
+    it('should return null when job is not in D1', async () => {
+      mock.setFirstResult(null);
+
+      const plan = await recordJobFailure(env, 'missing', 'boom');
+
+      expect(plan).toBeNull();
+      expect(mock.calls).toHaveLength(1);
+    });
+  });
+
+  describe('getDueRetries', () => {
+    it('should select failed jobs that are due, filtered by source', async () => {
+      mock.setAllResult([{ id: 'job-1' }]);
+
+      const result = await getDueRetries(env, 5, ['yemenhr', 'eoi']);
+
+      expect(result).toEqual([{ id: 'job-1' }]);
+      expect(mock.calls[0].sql).toContain("status = 'failed'");
+      expect(mock.calls[0].sql).toContain('next_attempt_at <= ?');
+      expect(mock.calls[0].params.slice(1)).toEqual(['yemenhr', 'eoi', 5]);
+    });
+
+    it('should skip the query when no sources are given', async () => {
+      const result = await getDueRetries(env, 5, []);
+
+      expect(result).toEqual([]);
+      expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should skip the query when limit is zero', async () => {
+      const result = await getDueRetries(env, 0);
+
+      expect(result).toEqual([]);
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('listRetryQueue', () => {
+    it('should return queued jobs with total', async () => {
+      mock.setFirstResult({ total: 3 });
+      mock.setAllResult([{ id: 'job-1' }]);
+
+      const result = await listRetryQueue(env);
+
+      expect(result.total).toBe(3);
+      expect(result.jobs).toHaveLength(1);
+    });
+  });
+
+  describe('scheduleRetryNow', () => {
+    it('should make the job due immediately', async () => {
+      const ok = await scheduleRetryNow(env, 'job-1');
+
+      expect(ok).toBe(true);
+      expect(mock.calls[0].sql).toContain("status IN ('failed', 'dead')");
+      expect(mock.calls[0].params[1]).toBe('job-1');
+    });
+  });
+
+  describe('giveUpRetry', () => {
+    it('should mark failed job dead', async () => {
+      const ok = await giveUpRetry(env, 'job-1');
+
+      expect(ok).toBe(true);
+      expect(mock.calls[0].sql).toContain("status = 'dead'");
+    });
+
+    it('should return false when job is not queued', async () => {
+      mock.setRunResult(0);
+
+      const ok = await giveUpRetry(env, 'job-1');
+
+      expect(ok).toBe(false);
+    });
+  });
+
+  describe('getRetryQueueIds', () => {
+    it('should query in chunks of 50', async () => {
+      mock.setAllResult([{ id: 'job-3' }]);
+      const ids = Array.from({ length: 120 }, (_, i) => `job-${i}`);
+
+      const result = await getRetryQueueIds(env, ids);
+
+      expect(mock.calls).toHaveLength(3);
+      expect(mock.calls[2].params).toHaveLength(20);
+      expect(result.has('job-3')).toBe(true);
+    });
+  });
+
+  describe('getStuckFetchedIds', () => {
+    it('should select fetched rows older than the given hours', async () => {
+      mock.setAllResult([{ id: 'job-1' }]);
+
+      const ids = await getStuckFetchedIds(env, 24);
+
+      expect(ids).toEqual(['job-1']);
+      expect(mock.calls[0].sql).toContain("status = 'fetched' AND scraped_at <");
+      expect(mock.calls[0].params[0]).toBe('-24 hours');
+    });
+  });
+
+  describe('requeueStuckJobs', () => {
+    it('should queue still-fetched jobs for retry now', async () => {
+      vi.mocked(mock.db.batch).mockResolvedValueOnce([{ meta: { changes: 1 } }, { meta: { changes: 0 } }] as D1Result[]);
+
+      const queued = await requeueStuckJobs(env, ['job-1', 'job-2']);
+
+      expect(queued).toBe(1);
+      expect(mock.calls[0].sql).toContain("status = 'failed'");
+      expect(mock.calls[0].sql).toContain("AND status = 'fetched'");
+      expect(mock.calls.map(c => c.params[2])).toEqual(['job-1', 'job-2']);
+    });
+
+    it('should do nothing for no jobs', async () => {
+      expect(await requeueStuckJobs(env, [])).toBe(0);
+      expect(mock.db.batch).not.toHaveBeenCalled();
+    });
+  });
+});
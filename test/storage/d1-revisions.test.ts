@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { markContentChecked, saveJobRevision, listJobRevisions } from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env, ProcessedJob } from '../../src/types';
+
+describe('D1 Job Revisions', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('markContentChecked', () => {
+    it('should store the hash and check time', async () => {
+      await markContentChecked(env, 'job-1', 'abc');
+
+      expect(mock.calls[0].sql).toContain('content_checked_at = ?');
+      expect(mock.calls[0].params[0]).toBe('abc');
+      expect(mock.calls[0].params[2]).toBe('job-1');
+    });
+  });
+
+  describe('saveJobRevision', () => {
+    const job: ProcessedJob = {
+      title: 'Engineer', company: 'NGO', link: 'https://example.org/1', imageUrl: null,
+      description: 'New description text', deadline: '2026-03-15',
+    };
+
+    it('should insert a revision and update the job row', async () => {
+      await saveJobRevision(env, 'job-1', job, {
+        runId: 9,
+        previousHash: 'old',
+        contentHash: 'new',
+        changedFields: ['deadline'],
+        previousValues: { deadline: '2026-03-01' },
+        telegramEdited: true,
+        aiSummary: 'ملخص',
+      });
+
+      expect(mock.calls).toHaveLength(2);
+      expect(mock.calls[0].sql).toContain('INSERT INTO job_revisions');
+      expect(mock.calls[0].params.slice(0, 7)).toEqual([
+        'job-1', 9, 'old', 'new', '["deadline"]', '{"deadline":"2026-03-01"}', 1,
+      ]);
+      expect(mock.calls[1].sql).toContain('UPDATE jobs SET');
+      expect(mock.calls[1].params[1]).toBe('2026-03-15'); // deadline
+      expect(mock.calls[1].params[6]).toBe('new'); // content_hash
+      expect(mock.calls[1].params[8]).toBe('ملخص'); // ai_summary_ar
+    });
+
+    it('should keep the old summary when the post was not edited', async () => {
+      await saveJobRevision(env, 'job-1', job, {
+        previousHash: null, contentHash: 'new', changedFields: ['deadline'],
+        previousValues: {}, telegramEdited: false,
+      });
+
+      expect(mock.calls[0].params[6]).toBe(0);
+      expect(mock.calls[1].sql).toContain('COALESCE(?, ai_summary_ar)');
+      expect(mock.calls[1].params[8]).toBeNull();
+    });
+  });
+
+  describe('listJobRevisions', () => {
+    it('should list revisions newest first', async () => {
+      mock.setAllResult([{ id: 2 }, { id: 1 }]);
+
+      const result = await listJobRevisions(env, 'job-1');
+
+      expect(result).toHaveLength(2);
+      expect(mock.calls[0].sql).toContain('ORDER BY id DESC');
+      expect(mock.calls[0].params[0]).toBe('job-1');
+    });
+  });
+});
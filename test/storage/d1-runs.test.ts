@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createRun, completeRun, listRuns, getRunFromDB, getTodayRuns } from '../../src/services/storage';
+import {
+  createRun, completeRun, skipLockedRun, failStaleRuns, getPendingCheckpoint, markRunResumed,
+  listRuns, getRunFromDB, getTodayRuns,
+} from '../../src/services/storage';
 import { createMockD1, createMockEnv } from '../helpers/mock-d1';
 import type { Env } from '../../src/types';
 
@@ -86,6 +89,57 @@ describe('D1 Runs', () => {
     });
   });
 
+  describe('completeRun with checkpoint', () => {
+    it('should set partial status and store the checkpointed job IDs', async () => {
+      await completeRun(env, 5, {
+        jobs_fetched: 4, jobs_posted: 4, jobs_skipped: 0, jobs_failed: 0,
+        checkpoint: ['yemenhr-1', 'eoi-2'],
+      });
+
+      expect(mock.calls[0].params[1]).toBe('partial');
+      expect(mock.calls[0].params[8]).toBe('["yemenhr-1","eoi-2"]');
+    });
+
+    it('should leave checkpoint null for a completed run', async () => {
+      await completeRun(env, 5, { jobs_fetched: 1, jobs_posted: 1, jobs_skipped: 0, jobs_failed: 0 });
+
+      expect(mock.calls[0].params[8]).toBeNull();
+    });
+  });
+
+  describe('getPendingCheckpoint', () => {
+    it('should return the latest unresumed partial run', async () => {
+      mock.setFirstResult({ id: 12, checkpoint: '["yemenhr-1","eoi-2"]' });
+
+      const result = await getPendingCheckpoint(env);
+
+      expect(result).toEqual({ runId: 12, jobIds: ['yemenhr-1', 'eoi-2'] });
+      expect(mock.calls[0].sql).toContain("status = 'partial'");
+      expect(mock.calls[0].sql).toContain('n.resumed_from = r.id');
+    });
+
+    it('should return null when nothing is pending', async () => {
+      mock.setFirstResult(null);
+
+      expect(await getPendingCheckpoint(env)).toBeNull();
+    });
+
+    it('should treat a malformed checkpoint as empty', async () => {
+      mock.setFirstResult({ id: 12, checkpoint: 'not json' });
+
+      expect(await getPendingCheckpoint(env)).toEqual({ runId: 12, jobIds: [] });
+    });
+  });
+
+  describe('markRunResumed', () => {
+    it('should link the run to the partial run it resumes', async () => {
+      await markRunResumed(env, 13, 12);
+
+      expect(mock.calls[0].sql).toContain('SET resumed_from = ?');
+      expect(mock.calls[0].params).toEqual([12, 13]);
+    });
+  });
+
   describe('listRuns', () => {
     it('should return paginated results', async () => {
       mock.setFirstResult({ total: 5 });
@@ -138,6 +192,27 @@ describe('D1 Runs', () => {
     });
   });
 
+  describe('skipLockedRun', () => {
+    it('should close the run as skipped_locked naming the holder', async () => {
+      await skipLockedRun(env, 43, 42);
+
+      expect(mock.calls[0].sql).toContain("status = 'skipped_locked'");
+      expect(mock.calls[0].params.slice(1)).toEqual(['Run #42 in progress', 43]);
+    });
+  });
+
+  describe('failStaleRuns', () => {
+    it('should fail other running rows and return the count', async () => {
+      mock.setRunResult(2);
+
+      const count = await failStaleRuns(env, 43);
+
+      expect(count).toBe(2);
+      expect(mock.calls[0].sql).toContain("WHERE status = 'running' AND id != ?");
+      expect(mock.calls[0].params[1]).toBe(43);
+    });
+  });
+
   describe('getTodayRuns', () => {
     it('should return runs from today', async () => {
       const runs = [{ id: 1 }, { id: 2 }];
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  saveSourceHealthCheck, getSourceHealthChecks, getLatestSourceHealthChecks, getLastPostedAtBySource, quarantineSource,
+  pruneSourceHealthChecks,
+} from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env } from '../../src/types';
+
+describe('D1 Source Health', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('saveSourceHealthCheck', () => {
+    it('should store the check with null rates as JSON', async () => {
+      await saveSourceHealthCheck(env, {
+        source: 'eoi', jobsFound: 12, unchanged: false, nullRates: { company: 0.5 }, status: 'healthy',
+      });
+
+      expect(mock.calls[0].sql).toContain('INSERT INTO source_health_checks');
+      expect(mock.calls[0].params).toEqual(['eoi', null, 12, 0, null, '{"company":0.5}', 'healthy', null]);
+    });
+  });
+
+  describe('getSourceHealthChecks', () => {
+    it('should return a source\'s checks newest first', async () => {
+      mock.setAllResult([{ id: 2 }, { id: 1 }]);
+
+      const checks = await getSourceHealthChecks(env, 'eoi', 10);
+
+      expect(checks).toHaveLength(2);
+      expect(mock.calls[0].sql).toContain('ORDER BY id DESC');
+      expect(mock.calls[0].params).toEqual(['eoi', 10]);
+    });
+  });
+
+  describe('pruneSourceHealthChecks', () => {
+    it('should keep the newest checks of each source and return how many were deleted', async () => {
+      mock.setRunResult(120);
+
+      expect(await pruneSourceHealthChecks(env, 500)).toBe(120);
+      expect(mock.calls[0].sql).toContain('DELETE FROM source_health_checks');
+      expect(mock.calls[0].sql).toContain('PARTITION BY source ORDER BY id DESC');
+      expect(mock.calls[0].params).toEqual([500]);
+    });
+  });
+
+  describe('getLatestSourceHealthChecks', () => {
+    it('should pick each source\'s newest check', async () => {
+      await getLatestSourceHealthChecks(env);
+
+      expect(mock.calls[0].sql).toContain('SELECT MAX(id) FROM source_health_checks GROUP BY source');
+    });
+  });
+
+  describe('getLastPostedAtBySource', () => {
+    it('should map sources to their last post time', async () => {
+      mock.setAllResult([{ source: 'eoi', last_posted_at: '2026-03-01 10:00:00' }]);
+
+      const lastPosted = await getLastPostedAtBySource(env);
+
+      expect(lastPosted.get('eoi')).toBe('2026-03-01 10:00:00');
+    });
+  });
+
+  describe('quarantineSource', () => {
+    it('should disable an enabled source with the reason', async () => {
+      expect(await quarantineSource(env, 'eoi', 'no jobs')).toBe(true);
+      expect(mock.calls[0].sql).toContain('enabled = 0');
+      expect(mock.calls[0].sql).toContain('AND enabled = 1');
+      expect(mock.calls[0].params).toEqual(['no jobs', 'eoi']);
+    });
+
+    it('should report a source that was already disabled', async () => {
+      mock.setRunResult(0);
+
+      expect(await quarantineSource(env, 'eoi', 'no jobs')).toBe(false);
+    });
+  });
+});
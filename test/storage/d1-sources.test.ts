@@ -83,6 +83,15 @@ describe('D1 Sources', () => {
       expect(mock.calls[0].params[0]).toBeNull();
     });
 
+    it('should update quota fields', async () => {
+      await updateSourceInDB(env, 'reliefweb', { quota_weight: 0.5, max_per_run: null, min_per_run: 1 });
+
+      expect(mock.calls[0].sql).toContain('quota_weight = ?');
+      expect(mock.calls[0].sql).toContain('max_per_run = ?');
+      expect(mock.calls[0].sql).toContain('min_per_run = ?');
+      expect(mock.calls[0].params.slice(0, 3)).toEqual([0.5, null, 1]);
+    });
+
     it('should return false when no fields provided', async () => {
       const result = await updateSourceInDB(env, 'eoi', {});
 
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getDuplicateVerdict, setDuplicateVerdict, overrideDuplicateVerdict, listDuplicateVerdicts,
+} from '../../src/services/storage';
+import { createMockD1, createMockEnv } from '../helpers/mock-d1';
+import type { Env } from '../../src/types';
+
+describe('D1 Duplicate Verdicts', () => {
+  let mock: ReturnType<typeof createMockD1>;
+  let env: Env;
+
+  beforeEach(() => {
+    mock = createMockD1();
+    env = createMockEnv(mock.db);
+  });
+
+  describe('getDuplicateVerdict', () => {
+    it('should look the pair up in either order', async () => {
+      await getDuplicateVerdict(env, 'yemenhr-1', 'eoi-2');
+      await getDuplicateVerdict(env, 'eoi-2', 'yemenhr-1');
+
+      expect(mock.calls[0].params).toEqual(['eoi-2|yemenhr-1']);
+      expect(mock.calls[1].params).toEqual(['eoi-2|yemenhr-1']);
+    });
+  });
+
+  describe('setDuplicateVerdict', () => {
+    it('should upsert an admin verdict', async () => {
+      await setDuplicateVerdict(env, 'yemenhr-1', 'eoi-2', 'different');
+
+      expect(mock.calls[0].sql).toContain('ON CONFLICT(pair_key) DO UPDATE');
+      expect(mock.calls[0].sql).toContain("decided_by = 'admin'");
+      expect(mock.calls[0].params).toEqual(['eoi-2|yemenhr-1', 'yemenhr-1', 'eoi-2', 'different']);
+    });
+  });
+
+  describe('overrideDuplicateVerdict', () => {
+    it('should flip the verdict and mark it as the admin\'s', async () => {
+      expect(await overrideDuplicateVerdict(env, 3, 'different')).toBe(true);
+      expect(mock.calls[0].sql).toContain("decided_by = 'admin'");
+      expect(mock.calls[0].params).toEqual(['different', 3]);
+    });
+
+    it('should return false for a missing verdict', async () => {
+      mock.setRunResult(0);
+      expect(await overrideDuplicateVerdict(env, 99, 'same')).toBe(false);
+    });
+  });
+
+  describe('listDuplicateVerdicts', () => {
+    it('should list the most recent verdicts', async () => {
+      mock.setAllResult([{ id: 3 }]);
+
+      const verdicts = await listDuplicateVerdicts(env, 5);
+
+      expect(verdicts).toEqual([{ id: 3 }]);
+      expect(mock.calls[0].sql).toContain('ORDER BY updated_at DESC');
+      expect(mock.calls[0].params).toEqual([5]);
+    });
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { sendTextMessage, sendPhotoMessage } from '../src/services/telegram';
+import { sendTextMessage, sendPhotoMessage, editJobPost } from '../src/services/telegram';
 
 const BOT_TOKEN = 'test-bot-token';
 const CHAT_ID = '-123456789';
@@ -198,3 +198,62 @@ describe('sendPhotoMessage', () => {
     expect(result).toEqual({ success: false, messageId: null });
   });
 });
+
+describe('editJobPost', () => {
+  const textPost = { fullMessage: 'Updated', imageUrl: null, hasImage: false };
+  const photoPost = { fullMessage: 'Updated', imageUrl: 'https://example.com/image.jpg', hasImage: true };
+  const telegram = (body: object) => new Response(JSON.stringify(body), { status: 200 });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should edit the text of a text post', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(telegram({ ok: true }));
+
+    const ok = await editJobPost(BOT_TOKEN, CHAT_ID, 42, textPost);
+
+    expect(ok).toBe(true);
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(`https://api.telegram.org/bot${BOT_TOKEN}/editMessageText`);
+    expect(JSON.parse(init!.body as string)).toMatchObject({ chat_id: CHAT_ID, message_id: 42, text: 'Updated' });
+  });
+
+  it('should edit the caption of a photo post', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(telegram({ ok: true }));
+
+    await editJobPost(BOT_TOKEN, CHAT_ID, 42, photoPost);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(`https://api.telegram.org/bot${BOT_TOKEN}/editMessageCaption`);
+    expect(JSON.parse(init!.body as string)).toMatchObject({ caption: 'Updated' });
+  });
+
+  it('should fall back to a text edit when the photo send had fallen back to text', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(telegram({ ok: false, description: 'Bad Request: there is no caption in the message to edit' }))
+      .mockResolvedValueOnce(telegram({ ok: true }));
+
+    const ok = await editJobPost(BOT_TOKEN, CHAT_ID, 42, photoPost);
+
+    expect(ok).toBe(true);
+    expect(vi.mocked(fetch).mock.calls[1][0]).toBe(`https://api.telegram.org/bot${BOT_TOKEN}/editMessageText`);
+  });
+
+  it('should treat an unchanged message as success', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(telegram({ ok: false, description: 'Bad Request: message is not modified' }));
+
+    expect(await editJobPost(BOT_TOKEN, CHAT_ID, 42, textPost)).toBe(true);
+  });
+
+  it('should return false on other errors', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(telegram({ ok: false, description: 'Bad Request: message to edit not found' }));
+
+    expect(await editJobPost(BOT_TOKEN, CHAT_ID, 42, textPost)).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});